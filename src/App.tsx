@@ -1,7 +1,7 @@
 import { Routes, Route, Navigate, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from './contexts/AuthContext';
 import Login from './components/auth/Login';
-import { ProtectedRoute } from './components/auth/ProtectedRoute';
+import { CapabilityRoute, ProtectedRoute } from './components/auth/ProtectedRoute';
 import UserMenu from './components/common/UserMenu';
 import UserProfile from './components/admin/UserProfile';
 import { AdminDashboard } from './components/admin/AdminDashboard';
@@ -14,7 +14,11 @@ import { AnalyticsTestPage } from './pages/AnalyticsTestPage';
 import { UserPerformancePage } from './pages/UserPerformancePage';
 import { StudentExamReviewPage } from './pages/StudentExamReviewPage';
 import { AdminExamReviewPage } from './pages/AdminExamReviewPage';
-import { GraduationCap, BarChart3 } from 'lucide-react';
+import { ExamPrintPage } from './pages/ExamPrintPage';
+import { ItemAnalysisPage } from './pages/ItemAnalysisPage';
+import { PracticePage } from './pages/PracticePage';
+import { MistakesNotebookPage } from './pages/MistakesNotebookPage';
+import { GraduationCap, BarChart3, Dumbbell } from 'lucide-react';
 
 function App() {
   const { currentUser, userData, loading } = useAuth();
@@ -51,8 +55,8 @@ function App() {
   }
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      <header className="bg-white shadow-sm border-b">
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      <header className="bg-white shadow-sm border-b print:hidden">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between h-16">
             <div className="flex items-center">
@@ -85,6 +89,19 @@ function App() {
                 <BarChart3 className="w-4 h-4" />
                 {isAdmin ? 'Dashboard' : 'My Performance'}
               </button>
+              {!isAdmin && (
+                <button
+                  onClick={() => navigate('/practice')}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium ${
+                    location.pathname === '/practice'
+                      ? 'bg-blue-100 text-blue-700' 
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  <Dumbbell className="w-4 h-4" />
+                  Practice
+                </button>
+              )}
               {process.env.NODE_ENV === 'development' && (
                 <button
                   onClick={() => navigate('/analytics-test')}
@@ -103,12 +120,14 @@ function App() {
         </div>
       </header>
 
-      <main className="max-w-7xl mx-auto py-8 px-4">
+      <main className="max-w-7xl mx-auto py-8 px-4 print:max-w-none print:p-0">
         <Routes>
           {/* Public/Common Routes */}
           <Route path="/" element={<HomePage />} />
           <Route path="/profile" element={<UserProfile />} />
           <Route path="/analytics-test" element={<AnalyticsTestPage />} />
+          <Route path="/practice" element={<PracticePage />} />
+          <Route path="/mistakes" element={<MistakesNotebookPage />} />
           
           {/* Dashboard Route - Shows different content based on role */}
           <Route 
@@ -150,17 +169,33 @@ function App() {
           <Route 
             path="/admin/user-performance/:userId" 
             element={
-              <ProtectedRoute requiredRole="ADMIN">
+              <CapabilityRoute requiredCapabilities={['view_analytics']}>
                 <UserPerformancePage />
-              </ProtectedRoute>
+              </CapabilityRoute>
             } 
           />
           <Route 
             path="/admin/exam-review/:attemptId" 
             element={
-              <ProtectedRoute requiredRole="ADMIN">
+              <CapabilityRoute requiredCapabilities={['review_attempts']}>
                 <AdminExamReviewPage />
-              </ProtectedRoute>
+              </CapabilityRoute>
+            } 
+          />
+          <Route 
+            path="/admin/exam-print/:examId" 
+            element={
+              <CapabilityRoute requiredCapabilities={['manage_exams']}>
+                <ExamPrintPage />
+              </CapabilityRoute>
+            } 
+          />
+          <Route 
+            path="/admin/item-analysis/:examId" 
+            element={
+              <CapabilityRoute requiredCapabilities={['view_analytics']}>
+                <ItemAnalysisPage />
+              </CapabilityRoute>
             } 
           />
           <Route 
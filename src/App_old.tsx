@@ -378,10 +378,7 @@ function App() {
         )}
 
         {currentView === 'create-exam' && (
-          <ExamBuilder
-            questionSets={questionSets}
-            questions={questions}
-          />
+          <ExamBuilder />
         )}
 
         {currentView === 'manage-exams' && (
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, render, screen } from '@testing-library/react';
+import { ExamTimer } from './ExamTimer';
+import { attemptApi } from '../lib/api';
+
+vi.mock('../lib/api', () => ({
+  attemptApi: { getTimeRemaining: vi.fn() },
+}));
+
+const getTimeRemaining = vi.mocked(attemptApi.getTimeRemaining);
+
+// When the attempt ends according to the stubbed server
+let serverDeadline: number;
+
+const serverTimeRemaining = async () => ({
+  time_remaining_seconds: Math.max(0, Math.ceil((serverDeadline - Date.now()) / 1000)),
+  server_timestamp: new Date().toISOString(),
+});
+
+// Run the timers due in the next ms milliseconds, and the syncs they start
+const advance = (ms: number) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+const renderTimer = async (onTimeUp = vi.fn()) => {
+  render(<ExamTimer totalTimeSeconds={120} attemptId="attempt-1" onTimeUp={onTimeUp} />);
+  await advance(0);
+  return onTimeUp;
+};
+
+// Change visibility the way the browser does when the student switches tabs
+const setTabHidden = async (hidden: boolean) => {
+  vi.spyOn(document, 'hidden', 'get').mockReturnValue(hidden);
+  await act(async () => {
+    document.dispatchEvent(new Event('visibilitychange'));
+  });
+  await advance(0);
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2024-05-01T09:00:00Z') });
+  serverDeadline = Date.now() + 90 * 1000;
+  getTimeRemaining.mockReset();
+  getTimeRemaining.mockImplementation(serverTimeRemaining);
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+describe('ExamTimer', () => {
+  it('counts down from the time the server reports', async () => {
+    await renderTimer();
+    expect(screen.getByText('00:01:30')).toBeTruthy();
+
+    await advance(30 * 1000);
+    expect(screen.getByText('00:01:00')).toBeTruthy();
+  });
+
+  it('calls onTimeUp once when the server confirms the time is up', async () => {
+    serverDeadline = Date.now() + 5 * 1000;
+    const onTimeUp = await renderTimer();
+
+    await advance(6 * 1000);
+    expect(onTimeUp).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('00:00:00')).toBeTruthy();
+    expect(screen.getByText(/TIME'S UP!/)).toBeTruthy();
+
+    await advance(60 * 1000);
+    expect(onTimeUp).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps going when the server still has time left at the local deadline', async () => {
+    serverDeadline = Date.now() + 5 * 1000;
+    const onTimeUp = await renderTimer();
+
+    // Extra time granted on the server after the last sync
+    serverDeadline += 60 * 1000;
+    await advance(6 * 1000);
+
+    expect(onTimeUp).not.toHaveBeenCalled();
+    expect(screen.getByText('00:00:59')).toBeTruthy();
+  });
+
+  it('falls back to the locally recorded start while the server is unreachable', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    getTimeRemaining.mockRejectedValue(new Error('Could not reach the server'));
+    localStorage.setItem('exam_timer_start_attempt-1', String(Date.now() - 100 * 1000));
+    const onTimeUp = await renderTimer();
+
+    expect(screen.getByText('00:00:20')).toBeTruthy();
+
+    await advance(20 * 1000);
+    expect(onTimeUp).toHaveBeenCalledTimes(1);
+  });
+
+  it('recalculates the remaining time when the tab becomes visible again', async () => {
+    await renderTimer();
+    await setTabHidden(true);
+    const syncs = getTimeRemaining.mock.calls.length;
+
+    // Background tabs get their intervals throttled, so no tick ran while hidden
+    vi.setSystemTime(Date.now() + 60 * 1000);
+    await setTabHidden(false);
+
+    expect(screen.getByText('00:00:30')).toBeTruthy();
+    expect(getTimeRemaining.mock.calls.length).toBe(syncs + 1);
+  });
+
+  it('ends the exam when the time ran out while the tab was hidden', async () => {
+    const onTimeUp = await renderTimer();
+    await setTabHidden(true);
+
+    vi.setSystemTime(Date.now() + 120 * 1000);
+    await setTabHidden(false);
+
+    expect(onTimeUp).toHaveBeenCalledTimes(1);
+    expect(screen.getByText(/TIME'S UP!/)).toBeTruthy();
+  });
+});
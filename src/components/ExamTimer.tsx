@@ -1,143 +1,237 @@
-import { useState, useEffect, useRef } from 'react';
-import { Clock, AlertCircle, AlertTriangle } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Clock, AlertCircle, AlertTriangle, ShieldAlert } from 'lucide-react';
+import { attemptApi } from '../lib/api';
 
 interface ExamTimerProps {
   totalTimeSeconds: number; // Total duration in seconds (from backend)
-  attemptId: string; // Used as key for localStorage
+  attemptId: string; // Used for server sync and as key for localStorage
+  expiresAt?: string; // Attempt expiry from backend, if known
   onTimeUp: () => void;
   className?: string;
   showWarnings?: boolean; // Show warnings at 5 min and 1 min
+  syncIntervalSeconds?: number; // How often to re-sync with the server
+  sectionPosition?: number; // Count down this section of a sectioned exam instead of the whole attempt
+  label?: string; // Shown above the time, e.g. the section title
 }
 
+// Offsets larger than this are reported as a wrong device clock
+const CLOCK_SKEW_WARNING_MS = 60 * 1000;
+// A wall-clock jump larger than this between ticks means the clock was changed
+const CLOCK_JUMP_THRESHOLD_MS = 5 * 1000;
+
 /**
  * Exam Timer Component
- * 
- * This component implements the frontend timer logic as per the new backend requirements:
- * - Backend provides total_time_seconds as the total duration (not remaining time)
- * - Frontend tracks when timer started in localStorage
- * - Calculates remaining time: total_time_seconds - elapsed_time
- * - Persists across tab switches, browser close/reopen
- * - Automatically calls onTimeUp when countdown reaches 00:00:00
- * - Provides visual warnings at critical time thresholds (5 min, 1 min)
+ *
+ * The server is the source of truth for how much time is left:
+ * - Syncs with GET /attempts/:id/time-remaining on mount, periodically and when the tab becomes visible
+ * - Measures the server/client clock offset from the response timestamp (corrected for round trip)
+ *   so the attempt's expires_at can be mapped onto the local clock
+ * - Counts down against a deadline instead of decrementing, so throttled tabs stay accurate
+ * - Before calling onTimeUp, confirms with the server that the attempt has really expired
+ * - Falls back to the start time in localStorage only while the server is unreachable
+ * - Warns visibly when the device clock is wrong or changed during the attempt
+ *
+ * With sectionPosition set it times one section: expiresAt is the section's expiry and
+ * the server's section_time_remaining_seconds is used. A section that is no longer the
+ * open one on the server has no time left.
  */
-export function ExamTimer({ 
+export function ExamTimer({
   totalTimeSeconds,
   attemptId,
-  onTimeUp, 
+  expiresAt,
+  onTimeUp,
   className = "",
-  showWarnings = true 
+  showWarnings = true,
+  syncIntervalSeconds = 30,
+  sectionPosition,
+  label
 }: ExamTimerProps) {
   const [timeRemaining, setTimeRemaining] = useState<number>(totalTimeSeconds);
   const [isExpired, setIsExpired] = useState(false);
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+  const [clockTampered, setClockTampered] = useState(false);
   const hasCalledTimeUp = useRef(false);
-  const timerStartKey = `exam_timer_start_${attemptId}`;
+  const onTimeUpRef = useRef(onTimeUp);
+  const deadlineRef = useRef<number | null>(null); // Local-clock time at which the attempt ends
+  const serverSyncedRef = useRef(false);
+  const isConfirmingRef = useRef(false);
+  const lastTickRef = useRef<{ wall: number; mono: number } | null>(null);
+  const timerStartKey = sectionPosition === undefined
+    ? `exam_timer_start_${attemptId}`
+    : `exam_timer_start_${attemptId}_section_${sectionPosition}`;
 
-  // Initialize timer - get or set start time in localStorage
+  // Keep the latest callback without re-running the sync effects on every parent render
+  useEffect(() => {
+    onTimeUpRef.current = onTimeUp;
+  }, [onTimeUp]);
+
+  const computeRemaining = useCallback(() => {
+    if (deadlineRef.current === null) return totalTimeSeconds;
+    return Math.max(0, Math.ceil((deadlineRef.current - Date.now()) / 1000));
+  }, [totalTimeSeconds]);
+
+  const triggerTimeUp = useCallback(() => {
+    if (hasCalledTimeUp.current) return;
+    hasCalledTimeUp.current = true;
+    setIsExpired(true);
+    setTimeRemaining(0);
+    onTimeUpRef.current();
+  }, []);
+
+  /**
+   * Fetch remaining time from the server and rebuild the local deadline.
+   * Returns false when the server could not be reached.
+   */
+  const syncWithServer = useCallback(async (): Promise<boolean> => {
+    try {
+      const requestSentAt = Date.now();
+      const response = await attemptApi.getTimeRemaining(attemptId);
+      const responseReceivedAt = Date.now();
+
+      // Assume the server stamped the response halfway through the round trip
+      const localMidpoint = (requestSentAt + responseReceivedAt) / 2;
+      const serverTime = Date.parse(response.server_timestamp);
+      const offset = Number.isNaN(serverTime) ? 0 : serverTime - localMidpoint;
+      setClockOffsetMs(offset);
+
+      let serverRemaining = response.time_remaining_seconds;
+      if (sectionPosition !== undefined) {
+        // Without section information the local deadline is the best there is
+        if (response.current_section_position === undefined || response.current_section_position === null) {
+          return false;
+        }
+        serverRemaining = response.current_section_position === sectionPosition
+          ? Math.min(response.section_time_remaining_seconds ?? serverRemaining, serverRemaining)
+          : 0;
+      }
+
+      const expiresAtMs = expiresAt ? Date.parse(expiresAt) : NaN;
+      deadlineRef.current = Number.isNaN(expiresAtMs) || serverRemaining === 0
+        ? localMidpoint + serverRemaining * 1000
+        : expiresAtMs - offset;
+      serverSyncedRef.current = true;
+
+      const remaining = computeRemaining();
+      console.log('⏱️ Timer synced with server:', {
+        attemptId,
+        sectionPosition,
+        serverRemaining,
+        remaining,
+        clockOffsetMs: Math.round(offset),
+      });
+      setTimeRemaining(remaining);
+      return true;
+    } catch (err) {
+      console.error('Failed to sync exam timer with server:', err);
+      return false;
+    }
+  }, [attemptId, expiresAt, sectionPosition, computeRemaining]);
+
+  // Local countdown reached zero - let the server confirm before ending the exam
+  const handleLocalExpiry = useCallback(async () => {
+    if (hasCalledTimeUp.current || isConfirmingRef.current) return;
+    isConfirmingRef.current = true;
+
+    const synced = await syncWithServer();
+    isConfirmingRef.current = false;
+
+    // Server unreachable: the local deadline is the best information available
+    if (!synced || computeRemaining() === 0) {
+      triggerTimeUp();
+    }
+  }, [syncWithServer, computeRemaining, triggerTimeUp]);
+
+  // Initialize timer - start from localStorage, then let the server take over
   useEffect(() => {
-    const timerStartKey = `exam_timer_start_${attemptId}`;
     let startTime = localStorage.getItem(timerStartKey);
-    
+
     if (!startTime) {
-      // First time starting this exam - record start time
-      // Backend sends total_time_seconds as the full duration
-      // We store when we FIRST started the timer
+      // First time starting this exam - record start time as an offline fallback
       startTime = Date.now().toString();
       localStorage.setItem(timerStartKey, startTime);
       console.log('✅ Timer started for NEW attempt:', attemptId, 'Duration:', totalTimeSeconds, 'seconds');
     } else {
       console.log('🔄 Timer RESUMED for existing attempt:', attemptId);
     }
-    
-    // Calculate remaining time based on how long ago we started
-    const elapsed = Math.floor((Date.now() - parseInt(startTime)) / 1000);
-    const remaining = Math.max(0, totalTimeSeconds - elapsed);
-    
-    console.log('⏱️ Timer calculation:', { 
-      totalTimeSeconds, 
-      elapsed: `${elapsed}s`, 
-      remaining: `${remaining}s`,
-      startedAt: new Date(parseInt(startTime)).toLocaleTimeString()
-    });
-    
-    setTimeRemaining(remaining);
-    
-    // If time already expired when component mounts, trigger immediately
-    if (remaining === 0 && !hasCalledTimeUp.current) {
-      console.log('❌ Time already expired on mount, triggering auto-submit');
-      console.log('❌ Debug info:', {
-        totalTimeSeconds,
-        elapsed,
-        remaining,
-        startTime: parseInt(startTime),
-        now: Date.now()
-      });
-      hasCalledTimeUp.current = true;
-      setIsExpired(true);
-      onTimeUp();
+
+    if (!serverSyncedRef.current) {
+      deadlineRef.current = parseInt(startTime) + totalTimeSeconds * 1000;
+      setTimeRemaining(computeRemaining());
     }
-  }, [totalTimeSeconds, attemptId, onTimeUp]);
 
-  // Handle tab visibility changes - recalculate time from localStorage
+    syncWithServer().then(synced => {
+      if (computeRemaining() === 0) {
+        if (synced) {
+          console.log('❌ Time already expired on mount, triggering auto-submit');
+          triggerTimeUp();
+        } else {
+          handleLocalExpiry();
+        }
+      }
+    });
+  }, [attemptId, totalTimeSeconds, timerStartKey, syncWithServer, computeRemaining, triggerTimeUp, handleLocalExpiry]);
+
+  // Periodic re-sync to correct drift
+  useEffect(() => {
+    if (isExpired) return;
+    const interval = setInterval(syncWithServer, syncIntervalSeconds * 1000);
+    return () => clearInterval(interval);
+  }, [isExpired, syncWithServer, syncIntervalSeconds]);
+
+  // Handle tab visibility changes - re-sync, since timers are throttled while hidden
   useEffect(() => {
     const handleVisibilityChange = () => {
-      if (!document.hidden) {
-        // Tab became visible, recalculate from stored start time
-        const startTime = localStorage.getItem(timerStartKey);
-        if (!startTime) return;
-        
-        const elapsed = Math.floor((Date.now() - parseInt(startTime)) / 1000);
-        const remaining = Math.max(0, totalTimeSeconds - elapsed);
-        
-        console.log('Tab visible again, recalculating time:', { 
-          elapsed, 
-          remaining, 
-          totalTimeSeconds 
+      if (!document.hidden && !hasCalledTimeUp.current) {
+        console.log('Tab visible again, re-syncing timer with server');
+        setTimeRemaining(computeRemaining());
+        syncWithServer().then(() => {
+          // Check if time expired while tab was hidden/closed
+          if (computeRemaining() === 0) {
+            handleLocalExpiry();
+          }
         });
-        
-        setTimeRemaining(remaining);
-        
-        // Check if time expired while tab was hidden/closed
-        if (remaining === 0 && !hasCalledTimeUp.current && !isExpired) {
-          console.log('Time expired while tab was hidden, triggering auto-submit');
-          hasCalledTimeUp.current = true;
-          setIsExpired(true);
-          onTimeUp();
-        }
       }
     };
 
     document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [isExpired, onTimeUp, totalTimeSeconds, timerStartKey]);
+  }, [computeRemaining, syncWithServer, handleLocalExpiry]);
 
   // Countdown timer
   useEffect(() => {
-    if (isExpired || timeRemaining === 0) {
-      if (!hasCalledTimeUp.current) {
-        hasCalledTimeUp.current = true;
-        setIsExpired(true);
-        onTimeUp();
-      }
-      return;
-    }
+    if (isExpired) return;
 
     const interval = setInterval(() => {
-      setTimeRemaining(prev => {
-        const newTime = Math.max(0, prev - 1);
-        
-        // Time's up!
-        if (newTime === 0 && !hasCalledTimeUp.current) {
-          hasCalledTimeUp.current = true;
-          setIsExpired(true);
-          onTimeUp();
+      // Compare wall clock against the monotonic clock to detect manual clock changes
+      const now = { wall: Date.now(), mono: performance.now() };
+      const last = lastTickRef.current;
+      lastTickRef.current = now;
+      if (last) {
+        const drift = (now.wall - last.wall) - (now.mono - last.mono);
+        if (Math.abs(drift) > CLOCK_JUMP_THRESHOLD_MS) {
+          console.warn('Device clock changed during exam:', { driftMs: Math.round(drift) });
+          setClockTampered(true);
+          // Deadline is in local-clock terms, so shift it with the clock and confirm with the server
+          if (deadlineRef.current !== null) {
+            deadlineRef.current += drift;
+          }
+          syncWithServer();
         }
-        
-        return newTime;
-      });
+      }
+
+      const remaining = computeRemaining();
+      setTimeRemaining(remaining);
+
+      // Time's up!
+      if (remaining === 0) {
+        handleLocalExpiry();
+      }
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [timeRemaining, isExpired, onTimeUp]);
+  }, [isExpired, computeRemaining, syncWithServer, handleLocalExpiry]);
+
+  const clockSkewed = Math.abs(clockOffsetMs) > CLOCK_SKEW_WARNING_MS;
 
   // Format time as HH:MM:SS
   const formatTime = (seconds: number): string => {
@@ -186,13 +280,16 @@ export function ExamTimer({
 
   return (
     <div className={`${className}`}>
+      {label && (
+        <div className="mb-1 text-xs font-medium text-gray-600 text-center truncate max-w-[180px]">{label}</div>
+      )}
       <div className={`flex items-center gap-2 px-4 py-2 rounded-lg border-2 font-mono text-lg font-bold transition-all duration-300 ${getTimerStyles()}`}>
         {getIcon()}
         <span className="min-w-[100px] text-center">
           {isExpired ? '00:00:00' : formatTime(timeRemaining)}
         </span>
       </div>
-      
+
       {/* Warning messages */}
       {showWarnings && warningLevel === 'critical' && !isExpired && (
         <div className="mt-2 text-xs text-red-600 font-semibold text-center animate-pulse">
@@ -209,6 +306,18 @@ export function ExamTimer({
           ⏱️ TIME'S UP!
         </div>
       )}
+
+      {/* Clock integrity warnings - the server clock decides when the exam ends */}
+      {(clockTampered || clockSkewed) && !isExpired && (
+        <div className="mt-2 flex items-center justify-center gap-1 text-xs text-orange-700 font-medium text-center">
+          <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+          <span>
+            {clockTampered
+              ? 'Device clock was changed. Timer follows the server clock.'
+              : `Device clock is off by ${Math.round(Math.abs(clockOffsetMs) / 60000)} min. Timer follows the server clock.`}
+          </span>
+        </div>
+      )}
     </div>
   );
 }
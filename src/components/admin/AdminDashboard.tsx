@@ -1,8 +1,10 @@
 
 import { useState, useMemo, useEffect } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
-import { Question, StudentResult } from '../../types';
-import { Users, FileText, TrendingUp, Calendar as CalendarIcon, BookOpen, HelpCircle, List, FileCheck, UserCog, BarChart3 } from 'lucide-react';
+import { Capability, Question, StudentResult } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { hasAnyCapability, hasCapability } from '../../lib/permissions';
+import { Users, FileText, TrendingUp, Calendar as CalendarIcon, BookOpen, HelpCircle, List, FileCheck, UserCog, BarChart3, ShieldOff } from 'lucide-react';
 import { TopicManager } from './TopicManager';
 import { QuestionManager } from './QuestionManager';
 import { QuestionSetManagerTab } from './QuestionSetManagerTab';
@@ -17,19 +19,37 @@ interface AdminDashboardProps {
 
 type DashboardTab = 'analytics' | 'users' | 'topics' | 'questions' | 'question-sets' | 'exams';
 
+// Tabs in display order. A tab is shown when the user has any of its capabilities.
+const DASHBOARD_TABS: Array<{
+  id: DashboardTab;
+  label: string;
+  icon: typeof BarChart3;
+  activeClassName: string;
+  capabilities: Capability[];
+}> = [
+  { id: 'analytics', label: 'Analytics', icon: BarChart3, activeClassName: 'bg-blue-600 text-white', capabilities: ['view_analytics'] },
+  { id: 'users', label: 'Users', icon: UserCog, activeClassName: 'bg-cyan-600 text-white', capabilities: ['manage_users'] },
+  { id: 'topics', label: 'Topics', icon: BookOpen, activeClassName: 'bg-indigo-600 text-white', capabilities: ['manage_content'] },
+  { id: 'questions', label: 'Questions', icon: HelpCircle, activeClassName: 'bg-purple-600 text-white', capabilities: ['manage_content'] },
+  { id: 'question-sets', label: 'Question Sets', icon: List, activeClassName: 'bg-green-600 text-white', capabilities: ['manage_content'] },
+  { id: 'exams', label: 'Exams', icon: FileCheck, activeClassName: 'bg-orange-600 text-white', capabilities: ['manage_exams', 'review_attempts'] },
+];
+
 export function AdminDashboard({ results, questions }: AdminDashboardProps) {
+  const { userData } = useAuth();
+  const visibleTabs = DASHBOARD_TABS.filter(tab => hasAnyCapability(userData, tab.capabilities));
   const [_selectedResult, _setSelectedResult] = useState<StudentResult | null>(null);
-  const [activeTab, setActiveTab] = useState<DashboardTab>('analytics');
+  const [activeTab, setActiveTab] = useState<DashboardTab>(visibleTabs[0]?.id ?? 'analytics');
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
 
-  // Handle URL tab parameter
+  // Handle URL tab parameter, ignoring tabs the user can't see
   useEffect(() => {
-    const tabParam = searchParams.get('tab') as DashboardTab;
-    if (tabParam && ['analytics', 'users', 'topics', 'questions', 'question-sets', 'exams'].includes(tabParam)) {
-      setActiveTab(tabParam);
+    const tab = DASHBOARD_TABS.find(tab => tab.id === searchParams.get('tab'));
+    if (tab && hasAnyCapability(userData, tab.capabilities)) {
+      setActiveTab(tab.id);
     }
-  }, [searchParams]);
+  }, [searchParams, userData]);
 
   // Update URL when tab changes
   const handleTabChange = (tab: DashboardTab) => {
@@ -245,80 +265,36 @@ export function AdminDashboard({ results, questions }: AdminDashboardProps) {
     <div className="space-y-5">
       {/* Tab Navigation */}
       <div className="bg-white rounded-lg shadow-md p-1 inline-flex gap-1 flex-wrap">
-        <button
-          onClick={() => handleTabChange('analytics')}
-          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-            activeTab === 'analytics'
-              ? 'bg-blue-600 text-white'
-              : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
-          }`}
-        >
-          <BarChart3 className="w-4 h-4" />
-          Analytics
-        </button>
-        <button
-          onClick={() => handleTabChange('users')}
-          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-            activeTab === 'users'
-              ? 'bg-cyan-600 text-white'
-              : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
-          }`}
-        >
-          <UserCog className="w-4 h-4" />
-          Users
-        </button>
-        <button
-          onClick={() => handleTabChange('topics')}
-          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-            activeTab === 'topics'
-              ? 'bg-indigo-600 text-white'
-              : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
-          }`}
-        >
-          <BookOpen className="w-4 h-4" />
-          Topics
-        </button>
-        <button
-          onClick={() => handleTabChange('questions')}
-          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-            activeTab === 'questions'
-              ? 'bg-purple-600 text-white'
-              : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
-          }`}
-        >
-          <HelpCircle className="w-4 h-4" />
-          Questions
-        </button>
-        <button
-          onClick={() => handleTabChange('question-sets')}
-          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-            activeTab === 'question-sets'
-              ? 'bg-green-600 text-white'
-              : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
-          }`}
-        >
-          <List className="w-4 h-4" />
-          Question Sets
-        </button>
-        <button
-          onClick={() => handleTabChange('exams')}
-          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-            activeTab === 'exams'
-              ? 'bg-orange-600 text-white'
-              : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
-          }`}
-        >
-          <FileCheck className="w-4 h-4" />
-          Exams
-        </button>
+        {visibleTabs.map(tab => {
+          const Icon = tab.icon;
+          return (
+            <button
+              key={tab.id}
+              onClick={() => handleTabChange(tab.id)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                activeTab === tab.id
+                  ? tab.activeClassName
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+            >
+              <Icon className="w-4 h-4" />
+              {tab.label}
+            </button>
+          );
+        })}
       </div>
 
       {/* Tab Content */}
-      {activeTab === 'analytics' ? (
+      {visibleTabs.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-12 text-center">
+          <ShieldOff className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+          <p className="text-gray-600">Your staff role doesn't include any dashboard sections.</p>
+        </div>
+      ) : activeTab === 'analytics' ? (
         <AnalyticsDashboard />
       
       ) : activeTab === 'users' ? (
-        <UserManager onViewPerformance={handleViewUserPerformance} />
+        <UserManager onViewPerformance={hasCapability(userData, 'view_analytics') ? handleViewUserPerformance : undefined} />
       ) : activeTab === 'topics' ? (
         <TopicManager />
       ) : activeTab === 'questions' ? (
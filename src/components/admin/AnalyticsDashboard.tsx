@@ -1,13 +1,15 @@
 import { useState, useEffect } from 'react';
 
 import { EnhancedAnalyticsService } from '../../lib/enhancedAnalytics';
-import { topicApi, questionApi } from '../../lib/api';
+import { topicApi, questionApi, batchApi, isAbortError } from '../../lib/api';
 import { useAuth } from '../../contexts/AuthContext';
+import { Batch } from '../../types';
 import { 
   Users, 
   FileText, 
   Award,
-  Target
+  Target,
+  Layers
 } from 'lucide-react';
 
 export function AnalyticsDashboard() {
@@ -22,13 +24,31 @@ export function AnalyticsDashboard() {
   const [systemAnalyticsError, setSystemAnalyticsError] = useState<string | null>(null);
   const [topTopicsError, setTopTopicsError] = useState<string | null>(null);
 
+  // Batch filter, empty for all students
+  const [batches, setBatches] = useState<Batch[]>([]);
+  const [batchId, setBatchId] = useState('');
+
   const isAdmin = userData?.role === 'ADMIN';
 
   useEffect(() => {
-    loadAnalytics();
-  }, [userData]);
+    // Switching batches cancels the load for the previous one
+    const controller = new AbortController();
+    loadAnalytics(controller.signal);
+    return () => controller.abort();
+  }, [userData, batchId]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    const controller = new AbortController();
+    batchApi.getAll({ signal: controller.signal })
+      .then(setBatches)
+      .catch(err => {
+        if (!isAbortError(err)) console.warn('Could not load batches:', err);
+      });
+    return () => controller.abort();
+  }, [isAdmin]);
 
-  const loadAnalytics = async () => {
+  const loadAnalytics = async (signal?: AbortSignal) => {
     if (!userData) return;
 
     try {
@@ -41,7 +61,8 @@ export function AnalyticsDashboard() {
 
       // Only load admin analytics - no personal user data
       if (isAdmin) {
-        const dashboardData = await EnhancedAnalyticsService.getDashboardData(userData.id, true);
+        const dashboardData = await EnhancedAnalyticsService.getDashboardData(userData.id, true, batchId || undefined, { signal });
+        if (signal?.aborted) return;
         
         console.log('Admin dashboard data:', dashboardData);
         console.log('System analytics:', dashboardData.systemAnalytics);
@@ -55,13 +76,13 @@ export function AnalyticsDashboard() {
           // If topics count is 0, try to get the actual count from API
           if (!analytics.totalTopics || analytics.totalTopics === 0) {
             try {
-              const topics = await topicApi.getAll({ include_count: true });
+              const topics = await topicApi.getAll({ include_count: true }, { signal });
               analytics.totalTopics = topics.length;
               console.log('Fetched topics count from API:', analytics.totalTopics);
               
               // Also get questions count if missing
               if (!analytics.totalQuestions || analytics.totalQuestions === 0) {
-                const questions = await questionApi.getAll({ take: 100 });
+                const questions = await questionApi.getAll({ take: 100 }, { signal });
                 analytics.totalQuestions = questions.length;
                 console.log('Fetched questions count from API:', analytics.totalQuestions);
               }
@@ -73,6 +94,7 @@ export function AnalyticsDashboard() {
               }
             }
           }
+          if (signal?.aborted) return;
           
           setSystemAnalytics(analytics);
         } else {
@@ -82,6 +104,7 @@ export function AnalyticsDashboard() {
         if (dashboardData.topPerformingTopics && dashboardData.topPerformingTopics.length > 0) {
           setTopPerformingTopics(dashboardData.topPerformingTopics);
         } else {
+          setTopPerformingTopics([]);
           setTopTopicsError('Topic performance data not available');
         }
       } else {
@@ -90,10 +113,11 @@ export function AnalyticsDashboard() {
       }
 
     } catch (err: any) {
+      if (isAbortError(err)) return;
       setError(err.message || 'Failed to load analytics');
       console.error('Error loading enhanced analytics:', err);
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
     }
   };
 
@@ -124,9 +148,26 @@ export function AnalyticsDashboard() {
         <div>
           <h2 className="text-2xl font-bold text-gray-900">Analytics Dashboard</h2>
           <p className="text-gray-600 mt-1">
-            System-wide performance metrics and analytics
+            {batchId
+              ? `Performance metrics for ${batches.find(batch => batch.id === batchId)?.name ?? 'the selected batch'}`
+              : 'System-wide performance metrics and analytics'}
           </p>
         </div>
+        {batches.length > 0 && (
+          <div className="relative">
+            <Layers className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <select
+              value={batchId}
+              onChange={(e) => setBatchId(e.target.value)}
+              className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white"
+            >
+              <option value="">All Batches</option>
+              {batches.map(batch => (
+                <option key={batch.id} value={batch.id}>{batch.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
       {/* System Analytics (Admin Only) */}
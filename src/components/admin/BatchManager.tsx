@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { batchApi } from '../../lib/api';
+import { queryCache } from '../../lib/queryCache';
+import { Batch } from '../../types';
+import { Plus, Edit2, Trash2, Check, X, Layers, Calendar, Users, FileText } from 'lucide-react';
+
+interface BatchManagerProps {
+  batches: Batch[];
+  onBatchesChange: () => void;
+  onError: (message: string) => void;
+}
+
+const EMPTY_FORM = { name: '', start_date: '' };
+
+// Date input value (YYYY-MM-DD) for a stored start date
+const toDateInputValue = (value: Date | string): string => {
+  return new Date(value).toISOString().slice(0, 10);
+};
+
+/**
+ * Create, rename and delete batches. Membership is managed from the user
+ * table, exam assignment from the exam form.
+ */
+export function BatchManager({ batches, onBatchesChange, onError }: BatchManagerProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const closeForm = () => {
+    setIsCreating(false);
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      onError('Batch name is required');
+      return;
+    }
+    if (!formData.start_date) {
+      onError('Batch start date is required');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await queryCache.mutate('batches', () => editingId
+        ? batchApi.update(editingId, { name: formData.name.trim(), start_date: formData.start_date })
+        : batchApi.create({ name: formData.name.trim(), start_date: formData.start_date })
+      );
+      closeForm();
+      onBatchesChange();
+    } catch (err) {
+      console.error('Error saving batch:', err);
+      onError(err instanceof Error ? err.message : 'Failed to save batch');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (batch: Batch) => {
+    if (!window.confirm(`Delete batch "${batch.name}"? Its students and exams are kept, only their assignment to the batch is removed.`)) {
+      return;
+    }
+    try {
+      await queryCache.mutate('batches', () => batchApi.delete(batch.id));
+      onBatchesChange();
+    } catch (err) {
+      console.error('Error deleting batch:', err);
+      onError(err instanceof Error ? err.message : 'Failed to delete batch');
+    }
+  };
+
+  const startEdit = (batch: Batch) => {
+    setIsCreating(false);
+    setEditingId(batch.id);
+    setFormData({ name: batch.name, start_date: toDateInputValue(batch.start_date) });
+  };
+
+  const renderForm = () => (
+    <div className="flex flex-wrap items-center gap-2 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+      <input
+        type="text"
+        value={formData.name}
+        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+        placeholder="Batch name, e.g. JEE 2026 Morning"
+        className="flex-1 min-w-48 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        Starts
+        <input
+          type="date"
+          value={formData.start_date}
+          onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+          className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </label>
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="p-1.5 text-green-600 hover:bg-green-100 rounded disabled:opacity-50"
+        title="Save"
+      >
+        <Check className="w-4 h-4" />
+      </button>
+      <button
+        onClick={closeForm}
+        className="p-1.5 text-red-600 hover:bg-red-100 rounded"
+        title="Cancel"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-blue-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Batches</h3>
+        </div>
+        {!isCreating && (
+          <button
+            onClick={() => {
+              closeForm();
+              setIsCreating(true);
+            }}
+            className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            New Batch
+          </button>
+        )}
+      </div>
+
+      {isCreating && <div className="mb-3">{renderForm()}</div>}
+
+      {batches.length === 0 && !isCreating ? (
+        <p className="text-sm text-gray-500">
+          No batches yet. Group students into batches to assign exams and compare their results.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {batches.map(batch => (
+            editingId === batch.id ? (
+              <div key={batch.id} className="py-2">{renderForm()}</div>
+            ) : (
+              <div key={batch.id} className="py-2 flex items-center gap-4">
+                <span className="flex-1 font-medium text-gray-900 text-sm">{batch.name}</span>
+                <span className="flex items-center gap-1 text-xs text-gray-500">
+                  <Calendar className="w-3 h-3" />
+                  Starts {new Date(batch.start_date).toLocaleDateString()}
+                </span>
+                <span className="flex items-center gap-1 text-xs text-gray-500 w-24">
+                  <Users className="w-3 h-3" />
+                  {batch.member_count ?? 0} student{batch.member_count !== 1 ? 's' : ''}
+                </span>
+                <span className="flex items-center gap-1 text-xs text-gray-500 w-20">
+                  <FileText className="w-3 h-3" />
+                  {batch.exam_count ?? 0} exam{batch.exam_count !== 1 ? 's' : ''}
+                </span>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => startEdit(batch)}
+                    className="p-1 text-blue-600 hover:bg-blue-100 rounded"
+                    title="Edit"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(batch)}
+                    className="p-1 text-red-600 hover:bg-red-100 rounded"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,94 +1,267 @@
-import { useState } from 'react';
-import { Question, QuestionSet } from '../../types';
-import { Link, Copy, CheckCircle, BookOpen } from 'lucide-react';
-import { createExam } from '../../lib/localStorage';
+import { useState, useEffect, useRef } from 'react';
+import { batchApi, examApi, isAbortError, questionApi, questionSetApi, topicApi } from '../../lib/api';
+import { useQuery } from '../../hooks/useQuery';
+import { queryKeys } from '../../lib/queryCache';
+import {
+  BlueprintDraw,
+  BlueprintRow,
+  DEFAULT_RECENT_EXCLUSION_DAYS,
+  drawBlueprint,
+  getExamQuestionIds,
+  getExamsSeenByBatch,
+  matchesBlueprintRow,
+  redrawBlueprintRow,
+} from '../../lib/examBlueprint';
+import { QUESTION_DIFFICULTIES, QUESTION_DIFFICULTY_LABELS, QUESTION_DIFFICULTY_STYLES } from '../../lib/questionDifficulty';
+import { QuestionDifficulty } from '../../types';
+import { TextWithLaTeX } from '../TextWithLaTeX';
+import { AlertCircle, AlertTriangle, ArrowLeft, Plus, RefreshCw, Shuffle, Trash2, Wand2 } from 'lucide-react';
+
+type BankQuestion = Awaited<ReturnType<typeof questionApi.getAll>>[number];
+type ExamSummary = Awaited<ReturnType<typeof examApi.getAll>>[number];
+type ExamDetails = Awaited<ReturnType<typeof examApi.getById>>;
 
 interface ExamBuilderProps {
-  questionSets: QuestionSet[];
-  questions: Question[];
+  onCreated?: (examId: string) => void;
+  onCancel?: () => void;
 }
 
-export function ExamBuilder({ questionSets, questions }: ExamBuilderProps) {
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Enough for the whole question bank in one request
+const QUESTION_BANK_PAGE_SIZE = 5000;
+// Wait for the days input to settle before loading the exams it covers
+const RECENT_EXCLUSION_DELAY_MS = 500;
+
+const EMPTY_ROW: BlueprintRow = { topic_id: '', difficulty: null, count: 5 };
+
+// Generate exam link from title, with a suffix so regenerated exams don't collide
+const generateExamLink = (title: string): string => {
+  const slug = title
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'exam'}-${Date.now().toString(36)}`;
+};
+
+// Questions of the given exams, fetching only the exams not in cache yet
+const loadExamQuestionIds = async (
+  exams: ExamSummary[],
+  cache: Map<string, ExamDetails>,
+  signal: AbortSignal
+): Promise<Set<string>> => {
+  const detailed = await Promise.all(exams.map(async exam => {
+    const cached = cache.get(exam.id);
+    if (cached) return cached;
+    const details = await examApi.getById(exam.id, { signal });
+    cache.set(exam.id, details);
+    return details;
+  }));
+  return getExamQuestionIds(detailed);
+};
+
+/**
+ * Builds an exam from a blueprint of "N questions from topic X at difficulty Y" rows.
+ * Questions are drawn at random, skipping ones the batch has seen in recent exams, and
+ * previewed before the question set and exam are created. The exam is assigned to the batch.
+ */
+export function ExamBuilder({ onCreated, onCancel }: ExamBuilderProps) {
+  const [topics, setTopics] = useState<Array<{ id: string; name: string }>>([]);
+  const [pool, setPool] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [builderError, setError] = useState<string | null>(null);
+  const examsQuery = useQuery(queryKeys.exams(), () => examApi.getAll());
+  const batchesQuery = useQuery(queryKeys.batches(), () =>
+    // Batches are optional, exams can be generated for every student without them
+    batchApi.getAll().catch((err) => {
+      console.warn('Could not load batches:', err);
+      return [];
+    })
+  );
+  const exams = examsQuery.data;
+  const batches = batchesQuery.data ?? [];
+  const error = builderError || examsQuery.error?.message || null;
+
   const [examTitle, setExamTitle] = useState('');
   const [timeLimit, setTimeLimit] = useState(60);
-  const [selectedQuestionSets, setSelectedQuestionSets] = useState<string[]>([]);
-  const [generatedLink, setGeneratedLink] = useState('');
+  const [rows, setRows] = useState<BlueprintRow[]>([{ ...EMPTY_ROW }]);
+  const [batchId, setBatchId] = useState(''); // Empty for every student
+  const [recentDays, setRecentDays] = useState(DEFAULT_RECENT_EXCLUSION_DAYS);
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+  const [checkingRecent, setCheckingRecent] = useState(false);
+  const examDetails = useRef(new Map<string, ExamDetails>());
+  const [draw, setDraw] = useState<BlueprintDraw<BankQuestion> | null>(null);
   const [isCreating, setIsCreating] = useState(false);
-  const [linkCopied, setLinkCopied] = useState(false);
 
-  const toggleQuestionSet = (questionSetId: string) => {
-    setSelectedQuestionSets(prev =>
-      prev.includes(questionSetId)
-        ? prev.filter(id => id !== questionSetId)
-        : [...prev, questionSetId]
-    );
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  // Questions the batch has seen within the exclusion window. Only the latest
+  // window counts: a pending load is cancelled when the inputs change again.
+  useEffect(() => {
+    if (recentDays <= 0) {
+      setExcludedIds(new Set());
+      setCheckingRecent(false);
+      return;
+    }
+    if (!exams) return;
+
+    setCheckingRecent(true);
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const seen = getExamsSeenByBatch(exams, batchId || null, Date.now() - recentDays * DAY_MS);
+        setExcludedIds(await loadExamQuestionIds(seen, examDetails.current, controller.signal));
+        setCheckingRecent(false);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('Error loading recent exams:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load recent exams');
+        setCheckingRecent(false);
+      }
+    }, RECENT_EXCLUSION_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [exams, batchId, recentDays]);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [topicsData, questionsData] = await Promise.all([
+        topicApi.getAll(),
+        questionApi.getAll({ take: QUESTION_BANK_PAGE_SIZE }),
+      ]);
+      setTopics(topicsData.map(t => ({ id: t.id, name: t.name })));
+      setPool(questionsData);
+    } catch (err) {
+      console.error('Error loading question bank:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the question bank');
+    } finally {
+      setLoading(false);
+    }
   };
 
-  const getQuestionsForSet = (questionSetId: string) => {
-    const questionSet = questionSets.find(qs => qs.id === questionSetId);
-    if (!questionSet) return [];
-    return questions.filter(q => questionSet.question_ids.includes(q.id));
+  const updateRow = (index: number, changes: Partial<BlueprintRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    setDraw(null);
   };
 
-  const getTotalQuestions = () => {
-    return selectedQuestionSets.reduce((total, setId) => {
-      return total + getQuestionsForSet(setId).length;
-    }, 0);
+  const removeRow = (index: number) => {
+    setRows(rows.filter((_, i) => i !== index));
+    setDraw(null);
   };
 
+  const getAvailableCount = (row: BlueprintRow) => {
+    return pool.filter(question => !excludedIds.has(question.id) && matchesBlueprintRow(question, row)).length;
+  };
+
+  const validRows = rows.every(row => row.topic_id && row.count > 0);
+  const requestedTotal = rows.reduce((sum, row) => sum + row.count, 0);
+  const drawnTotal = draw ? draw.rows.reduce((sum, questions) => sum + questions.length, 0) : 0;
+
+  const handleGenerate = () => {
+    if (!validRows) {
+      setError('Every blueprint row needs a topic and at least one question');
+      return;
+    }
+    setError(null);
+    setDraw(drawBlueprint(rows, pool, excludedIds));
+  };
+
+  const handleRegenerateRow = (index: number) => {
+    if (!draw) return;
+    setDraw(redrawBlueprintRow(rows, draw, index, pool, excludedIds));
+  };
+
+  const getTopicName = (topicId: string) => topics.find(topic => topic.id === topicId)?.name || 'Unknown topic';
+
+  const describeRow = (row: BlueprintRow) =>
+    `${row.count} × ${getTopicName(row.topic_id)}${row.difficulty ? ` (${QUESTION_DIFFICULTY_LABELS[row.difficulty]})` : ''}`;
+
   const handleCreateExam = async () => {
-    if (!examTitle.trim() || selectedQuestionSets.length === 0) {
-      alert('Please provide exam title and select at least one question set');
+    if (!draw || drawnTotal === 0) return;
+    if (!examTitle.trim()) {
+      setError('Exam title is required');
       return;
     }
 
     setIsCreating(true);
+    setError(null);
     try {
-      const examLink = await createExam({
-        title: examTitle,
-        question_set_ids: selectedQuestionSets,
-        time_limit_minutes: timeLimit
+      const questionIds = draw.rows.flat().map(question => question.id);
+      const questionSet = await questionSetApi.create({
+        title: examTitle.trim(),
+        description: `Generated from blueprint: ${rows.map(describeRow).join(', ')}`,
+      });
+      await questionSetApi.setQuestions(questionSet.id, {
+        questions: questionIds.map((questionId, index) => ({ question_id: questionId, position: index + 1 })),
       });
 
-      setGeneratedLink(examLink);
-      
-      // Reset form
-      setExamTitle('');
-      setSelectedQuestionSets([]);
-      setTimeLimit(60);
-    } catch (error) {
-      console.error('Error creating exam:', error);
-      alert('Failed to create exam. See console for details.');
+      const exam = await examApi.create({
+        title: examTitle.trim(),
+        time_limit_seconds: timeLimit * 60,
+        exam_link: generateExamLink(examTitle),
+        batch_ids: batchId ? [batchId] : [],
+      });
+      await examApi.setQuestionSets(exam.id, {
+        question_sets: [{ question_set_id: questionSet.id, position: 1 }],
+      });
+
+      onCreated?.(exam.id);
+    } catch (err) {
+      console.error('Error creating exam from blueprint:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create exam');
     } finally {
       setIsCreating(false);
     }
   };
 
-  const copyLink = async () => {
-    try {
-      await navigator.clipboard.writeText(generatedLink);
-      setLinkCopied(true);
-      setTimeout(() => setLinkCopied(false), 2000);
-    } catch (error) {
-      alert('Failed to copy link');
-    }
-  };
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="text-2xl font-bold text-gray-900">Create Exam</h2>
-        <p className="text-gray-600 mt-1">Build exams by selecting question sets and setting time limits</p>
+      <div className="flex items-center gap-4">
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 text-gray-600" />
+          </button>
+        )}
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Generate Exam from Blueprint</h2>
+          <p className="text-gray-600 mt-1">Describe how many questions to take from each topic and difficulty</p>
+        </div>
       </div>
 
-      <div className="bg-white p-6 rounded-lg shadow-md">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">Exam Configuration</h3>
-        
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+          <div>
+            <h3 className="font-medium text-red-900">Error</h3>
+            <p className="text-red-700 text-sm mt-1">{error}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-lg shadow-md space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Exam Title *
-            </label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Exam Title *</label>
             <input
               type="text"
               value={examTitle}
@@ -97,11 +270,8 @@ export function ExamBuilder({ questionSets, questions }: ExamBuilderProps) {
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
             />
           </div>
-          
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Time Limit (minutes) *
-            </label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Time Limit (minutes) *</label>
             <input
               type="number"
               value={timeLimit}
@@ -111,112 +281,199 @@ export function ExamBuilder({ questionSets, questions }: ExamBuilderProps) {
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
             />
           </div>
-          
-          <div className="flex items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Batch</label>
+            <select
+              value={batchId}
+              onChange={(e) => {
+                setBatchId(e.target.value);
+                setDraw(null);
+              }}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Every student</option>
+              {batches.map(batch => (
+                <option key={batch.id} value={batch.id}>{batch.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Skip questions seen in the last (days)</label>
+            <input
+              type="number"
+              value={recentDays}
+              onChange={(e) => {
+                setRecentDays(Math.max(0, parseInt(e.target.value) || 0));
+                setDraw(null);
+              }}
+              min="0"
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {recentDays <= 0
+                ? 'Recent exams are not checked'
+                : checkingRecent
+                  ? 'Checking recent exams...'
+                  : `${excludedIds.size} questions from ${batchId ? "the batch's recent exams" : 'recent exams'} are skipped`}
+            </p>
+          </div>
+        </div>
+
+        {/* Blueprint rows */}
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">Blueprint</h3>
+          <div className="space-y-2">
+            {rows.map((row, index) => {
+              const available = row.topic_id ? getAvailableCount(row) : null;
+              return (
+                <div key={index} className="flex flex-wrap items-center gap-3 p-3 bg-gray-50 rounded-lg">
+                  <input
+                    type="number"
+                    value={row.count}
+                    onChange={(e) => updateRow(index, { count: Math.max(0, parseInt(e.target.value) || 0) })}
+                    min="1"
+                    className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-600">questions from</span>
+                  <select
+                    value={row.topic_id}
+                    onChange={(e) => updateRow(index, { topic_id: e.target.value })}
+                    className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select a topic</option>
+                    {topics.map(topic => (
+                      <option key={topic.id} value={topic.id}>{topic.name}</option>
+                    ))}
+                  </select>
+                  <span className="text-sm text-gray-600">at</span>
+                  <select
+                    value={row.difficulty || ''}
+                    onChange={(e) => updateRow(index, { difficulty: (e.target.value as QuestionDifficulty) || null })}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Any difficulty</option>
+                    {QUESTION_DIFFICULTIES.map(difficulty => (
+                      <option key={difficulty} value={difficulty}>{QUESTION_DIFFICULTY_LABELS[difficulty]}</option>
+                    ))}
+                  </select>
+                  {available !== null && (
+                    <span className={`text-xs ${available < row.count ? 'text-red-600' : 'text-gray-500'}`}>
+                      {available} available
+                    </span>
+                  )}
+                  <button
+                    onClick={() => removeRow(index)}
+                    disabled={rows.length === 1}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Remove row"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex items-center justify-between mt-3">
             <button
-              onClick={handleCreateExam}
-              disabled={isCreating || selectedQuestionSets.length === 0}
-              className="w-full bg-green-600 text-white py-3 px-4 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium flex items-center justify-center gap-2"
+              onClick={() => {
+                setRows([...rows, { ...EMPTY_ROW }]);
+                setDraw(null);
+              }}
+              className="flex items-center gap-2 px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
             >
-              <Link className="w-4 h-4" />
-              {isCreating ? 'Creating...' : 'Generate Exam Link'}
+              <Plus className="w-4 h-4" />
+              Add Row
             </button>
+            <span className="text-sm text-gray-600">{requestedTotal} questions in total</span>
           </div>
         </div>
 
-        {generatedLink && (
-          <div className="p-4 bg-green-50 rounded-lg border border-green-200">
-            <div className="flex items-center justify-between">
-              <div>
-                <h4 className="font-medium text-green-800">Exam Link Generated!</h4>
-                <p className="text-sm text-green-600 mt-1">Share this link with students:</p>
-                <code className="block mt-2 p-2 bg-white rounded text-sm text-gray-800 break-all">
-                  {generatedLink}
-                </code>
-              </div>
-              <button
-                onClick={copyLink}
-                className="ml-4 flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
-              >
-                {linkCopied ? <CheckCircle className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                {linkCopied ? 'Copied!' : 'Copy'}
-              </button>
-            </div>
-          </div>
-        )}
+        <div className="flex gap-3">
+          <button
+            onClick={handleGenerate}
+            disabled={!validRows || checkingRecent}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {draw ? <RefreshCw className="w-4 h-4" /> : <Wand2 className="w-4 h-4" />}
+            {draw ? 'Regenerate All' : 'Generate Preview'}
+          </button>
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
       </div>
 
-      {/* Question Sets Selection */}
-      <div className="bg-white rounded-lg shadow-md">
-        <div className="p-6 border-b border-gray-200">
-          <div className="flex items-center justify-between">
-            <h3 className="text-lg font-semibold text-gray-900">
-              Select Question Sets ({selectedQuestionSets.length} selected)
-            </h3>
-            <div className="text-sm text-gray-600">
-              Total Questions: {getTotalQuestions()}
+      {/* Preview */}
+      {draw && (
+        <div className="bg-white rounded-lg shadow-md">
+          <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Preview</h3>
+              <p className="text-sm text-gray-600">{drawnTotal} of {requestedTotal} questions drawn</p>
             </div>
+            <button
+              onClick={handleCreateExam}
+              disabled={isCreating || drawnTotal === 0 || !examTitle.trim()}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+            >
+              {isCreating ? 'Creating...' : 'Create Exam'}
+            </button>
           </div>
-        </div>
 
-        <div className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
-          {questionSets.map((questionSet) => {
-            const setQuestions = getQuestionsForSet(questionSet.id);
-            const isSelected = selectedQuestionSets.includes(questionSet.id);
-            
-            return (
-              <div key={questionSet.id} className="p-4">
-                <div className="flex items-start gap-3">
-                  <input
-                    type="checkbox"
-                    checked={isSelected}
-                    onChange={() => toggleQuestionSet(questionSet.id)}
-                    className="mt-1 w-5 h-5 text-blue-600"
-                  />
-                  
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-2">
-                      <BookOpen className="w-5 h-5 text-blue-600" />
-                      <h4 className="font-medium text-gray-900">{questionSet.title}</h4>
-                    </div>
-                    
-                    {questionSet.description && (
-                      <p className="text-gray-600 mb-2">{questionSet.description}</p>
-                    )}
-                    
-                    <div className="flex items-center gap-4 text-sm text-gray-500">
-                      <span>{setQuestions.length} questions</span>
-                      <span>Created {new Date(questionSet.created_at).toLocaleDateString()}</span>
-                    </div>
-
-                    {/* Show topics in this question set */}
-                    {setQuestions.length > 0 && (
-                      <div className="mt-2 flex flex-wrap gap-1">
-                        {[...new Set(setQuestions.map(q => q.topic))].map(topic => (
-                          <span 
-                            key={topic}
-                            className="inline-block px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded-full"
-                          >
-                            {topic}
-                          </span>
-                        ))}
-                      </div>
-                    )}
-                  </div>
-                </div>
-              </div>
-            );
-          })}
-          
-          {questionSets.length === 0 && (
-            <div className="p-8 text-center">
-              <BookOpen className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-              <p className="text-gray-500">No question sets available</p>
-              <p className="text-sm text-gray-400 mt-1">Create question sets first to build exams</p>
+          {draw.shortfalls.length > 0 && (
+            <div className="mx-6 mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-yellow-600 mt-0.5" />
+              <ul className="text-sm text-yellow-800 space-y-1">
+                {draw.shortfalls.map(shortfall => (
+                  <li key={shortfall.row}>
+                    {describeRow(rows[shortfall.row])}: only {shortfall.available} question{shortfall.available !== 1 ? 's' : ''} available
+                  </li>
+                ))}
+              </ul>
             </div>
           )}
+
+          <div className="divide-y divide-gray-200">
+            {draw.rows.map((questions, rowIndex) => (
+              <div key={rowIndex} className="p-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="font-medium text-gray-900">{describeRow(rows[rowIndex])}</h4>
+                  <button
+                    onClick={() => handleRegenerateRow(rowIndex)}
+                    className="flex items-center gap-1 px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
+                  >
+                    <Shuffle className="w-4 h-4" />
+                    Regenerate
+                  </button>
+                </div>
+                {questions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No questions available for this row</p>
+                ) : (
+                  <ol className="space-y-2">
+                    {questions.map(question => (
+                      <li key={question.id} className="flex items-start gap-2 text-sm text-gray-700">
+                        <span className="line-clamp-2 flex-1">
+                          <TextWithLaTeX text={question.question_text || question.question_latex || 'Image question'} />
+                        </span>
+                        {question.difficulty && (
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${QUESTION_DIFFICULTY_STYLES[question.difficulty]}`}>
+                            {QUESTION_DIFFICULTY_LABELS[question.difficulty]}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            ))}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,16 +1,43 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { examApi, questionSetApi } from '../../lib/api';
-import { Plus, Edit2, Trash2, Calendar, AlertCircle, Clock, Link2, ChevronRight, Users, Eye, X, FileText, List, BarChart3 } from 'lucide-react';
+import { batchApi, examApi, questionSetApi } from '../../lib/api';
+import { queryCache, queryKeys } from '../../lib/queryCache';
+import { useQuery } from '../../hooks/useQuery';
+import { Plus, Edit2, Trash2, Calendar, AlertCircle, Clock, Link2, ChevronRight, Users, Eye, X, FileText, List, BarChart3, Printer, Wand2 } from 'lucide-react';
+import { ExamBuilder } from './ExamBuilder';
 import { LaTeX } from '../LaTeX';
 import { TextWithLaTeX } from '../TextWithLaTeX';
+import {
+  getExamAvailability,
+  toDateTimeLocalValue,
+  fromDateTimeLocalValue,
+} from '../../lib/examSchedule';
+import { DEFAULT_RETAKE_POLICY, RETAKE_POLICY_LABELS } from '../../lib/attemptPolicy';
+import { getTotalSectionTime, isSectionedExam } from '../../lib/examSections';
+import { DEFAULT_MARKING_SCHEME, formatMarks, hasNegativeMarking } from '../../lib/marking';
+import { Batch, RetakePolicy } from '../../types';
+import { useAuth } from '../../contexts/AuthContext';
+import { hasCapability } from '../../lib/permissions';
 
 interface Exam {
   id: string;
   title: string;
   time_limit_seconds: number;
   exam_link: string;
+  opens_at?: string | null;
+  closes_at?: string | null;
+  max_attempts?: number | null;
+  retake_policy?: RetakePolicy;
+  shuffle_questions?: boolean;
+  shuffle_within_sets?: boolean;
+  shuffle_options?: boolean;
+  marks_per_correct?: number;
+  penalty_per_wrong?: number;
+  proctoring_enabled?: boolean;
+  require_fullscreen?: boolean;
+  max_violations?: number | null;
   created_at: string;
+  batches?: Array<{ id: string; name: string }>;
   exam_question_sets?: Array<{
     position: number;
     question_set: any;
@@ -25,16 +52,36 @@ interface QuestionSet {
 
 export const ExamManagerTab = () => {
   const navigate = useNavigate();
-  const [exams, setExams] = useState<Exam[]>([]);
-  const [questionSets, setQuestionSets] = useState<QuestionSet[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { userData } = useAuth();
+  // Graders see the exam list to review attempts, but can't change exams
+  const canManageExams = hasCapability(userData, 'manage_exams');
+  const canViewAnalytics = hasCapability(userData, 'view_analytics');
+  const examsQuery = useQuery<Exam[]>(queryKeys.exams(), () => examApi.getAll());
+  const setsQuery = useQuery<QuestionSet[]>(queryKeys.questionSets(), () => questionSetApi.getAll());
+  const batchesQuery = useQuery<Batch[]>(queryKeys.batches(), () =>
+    // Batches are optional, exams stay manageable without them
+    batchApi.getAll().catch((err) => {
+      console.warn('Could not load batches:', err);
+      return [];
+    })
+  );
+  const exams = examsQuery.data ?? [];
+  const questionSets = setsQuery.data ?? [];
+  const batches = batchesQuery.data ?? [];
+  const loading = examsQuery.loading || setsQuery.loading || batchesQuery.loading;
+  const [mutationError, setError] = useState<string | null>(null);
+  const error = mutationError || examsQuery.error?.message || setsQuery.error?.message || null;
   const [isCreating, setIsCreating] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false); // Blueprint builder open
   const [editingId, setEditingId] = useState<string | null>(null);
   const [managingSetsId, setManagingSetsId] = useState<string | null>(null);
-  const [selectedSets, setSelectedSets] = useState<Array<{ question_set_id: string; position: number }>>([]);
+  const [selectedSets, setSelectedSets] = useState<Array<{
+    question_set_id: string;
+    position: number;
+    section_time_limit_seconds?: number | null;
+  }>>([]);
   const [viewAttemptsId, setViewAttemptsId] = useState<string | null>(null);
-  const [attempts, setAttempts] = useState<any[]>([]);
+  const [attempts, setAttempts] = useState<Awaited<ReturnType<typeof examApi.getAttempts>>>([]);
   const [previewExam, setPreviewExam] = useState<Exam | null>(null);
   const [attemptsTab, setAttemptsTab] = useState<'list' | 'analysis'>('list');
 
@@ -42,30 +89,21 @@ export const ExamManagerTab = () => {
     title: '',
     time_limit_seconds: 3600,
     exam_link: '',
+    opens_at: '', // datetime-local value, empty for no restriction
+    closes_at: '',
+    max_attempts: '', // empty for unlimited attempts
+    retake_policy: DEFAULT_RETAKE_POLICY as RetakePolicy,
+    shuffle_questions: false,
+    shuffle_within_sets: false,
+    shuffle_options: false,
+    marks_per_correct: DEFAULT_MARKING_SCHEME.marks_per_correct,
+    penalty_per_wrong: DEFAULT_MARKING_SCHEME.penalty_per_wrong,
+    proctoring_enabled: false,
+    require_fullscreen: false,
+    max_violations: '', // empty to never auto-submit
+    batch_ids: [] as string[], // empty for every enrolled student
   });
 
-  useEffect(() => {
-    loadData();
-  }, []);
-
-  const loadData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const [examsData, setsData] = await Promise.all([
-        examApi.getAll(),
-        questionSetApi.getAll(),
-      ]);
-      setExams(examsData);
-      setQuestionSets(setsData);
-    } catch (err: any) {
-      setError(err.message || 'Failed to load data');
-      console.error('Error loading data:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -84,25 +122,34 @@ export const ExamManagerTab = () => {
       return;
     }
 
+    if (!validateWindow()) return;
+
     try {
       setError(null);
-      await examApi.create({
+      const newExam = await queryCache.mutate('exams', () => examApi.create({
         title: formData.title,
         time_limit_seconds: formData.time_limit_seconds,
         exam_link: formData.exam_link,
-      });
+        opens_at: fromDateTimeLocalValue(formData.opens_at),
+        closes_at: fromDateTimeLocalValue(formData.closes_at),
+        max_attempts: formData.max_attempts ? parseInt(formData.max_attempts) : null,
+        retake_policy: formData.retake_policy,
+        shuffle_questions: formData.shuffle_questions,
+        shuffle_within_sets: formData.shuffle_questions && formData.shuffle_within_sets,
+        shuffle_options: formData.shuffle_options,
+        marks_per_correct: formData.marks_per_correct,
+        penalty_per_wrong: formData.penalty_per_wrong,
+        proctoring_enabled: formData.proctoring_enabled,
+        require_fullscreen: formData.proctoring_enabled && formData.require_fullscreen,
+        max_violations: formData.proctoring_enabled && formData.max_violations ? parseInt(formData.max_violations) : null,
+        batch_ids: formData.batch_ids,
+      }));
       
       resetForm();
       setIsCreating(false);
-      await loadData();
       
       // Show preview of the newly created exam
-      const updatedExams = await examApi.getAll();
-      const newExam = updatedExams.find(e => e.exam_link === formData.exam_link);
-      if (newExam) {
-        const detailedExam = await examApi.getById(newExam.id);
-        setPreviewExam(detailedExam);
-      }
+      setPreviewExam(await examApi.getById(newExam.id));
     } catch (err: any) {
       setError(err.message || 'Failed to create exam');
       console.error('Error creating exam:', err);
@@ -114,23 +161,48 @@ export const ExamManagerTab = () => {
     
     if (!editingId) return;
 
+    if (!validateWindow()) return;
+
     try {
       setError(null);
-      await examApi.update(editingId, {
+      await queryCache.mutate('exams', () => examApi.update(editingId, {
         title: formData.title || undefined,
         time_limit_seconds: formData.time_limit_seconds || undefined,
         exam_link: formData.exam_link || undefined,
-      });
+        // Empty fields clear the restriction
+        opens_at: fromDateTimeLocalValue(formData.opens_at),
+        closes_at: fromDateTimeLocalValue(formData.closes_at),
+        max_attempts: formData.max_attempts ? parseInt(formData.max_attempts) : null,
+        retake_policy: formData.retake_policy,
+        shuffle_questions: formData.shuffle_questions,
+        shuffle_within_sets: formData.shuffle_questions && formData.shuffle_within_sets,
+        shuffle_options: formData.shuffle_options,
+        marks_per_correct: formData.marks_per_correct,
+        penalty_per_wrong: formData.penalty_per_wrong,
+        proctoring_enabled: formData.proctoring_enabled,
+        require_fullscreen: formData.proctoring_enabled && formData.require_fullscreen,
+        max_violations: formData.proctoring_enabled && formData.max_violations ? parseInt(formData.max_violations) : null,
+        batch_ids: formData.batch_ids,
+      }));
       
       resetForm();
       setEditingId(null);
-      await loadData();
     } catch (err: any) {
       setError(err.message || 'Failed to update exam');
       console.error('Error updating exam:', err);
     }
   };
 
+  // Closing time must come after opening time when both are set
+  const validateWindow = (): boolean => {
+    if (formData.opens_at && formData.closes_at &&
+        new Date(formData.closes_at).getTime() <= new Date(formData.opens_at).getTime()) {
+      setError('Closing time must be after opening time');
+      return false;
+    }
+    return true;
+  };
+
   const handleDelete = async (id: string, title: string) => {
     if (!confirm(`Are you sure you want to delete "${title}"? This cannot be undone.`)) {
       return;
@@ -138,8 +210,11 @@ export const ExamManagerTab = () => {
 
     try {
       setError(null);
-      await examApi.delete(id);
-      await loadData();
+      await queryCache.mutate(
+        'exams',
+        () => examApi.delete(id),
+        () => queryCache.setData<Exam[]>(['exams'], list => list.filter(exam => exam.id !== id))
+      );
     } catch (err: any) {
       setError(err.message || 'Failed to delete exam');
       console.error('Error deleting exam:', err);
@@ -152,6 +227,19 @@ export const ExamManagerTab = () => {
       title: exam.title,
       time_limit_seconds: exam.time_limit_seconds,
       exam_link: exam.exam_link,
+      opens_at: toDateTimeLocalValue(exam.opens_at),
+      closes_at: toDateTimeLocalValue(exam.closes_at),
+      max_attempts: exam.max_attempts ? exam.max_attempts.toString() : '',
+      retake_policy: exam.retake_policy || DEFAULT_RETAKE_POLICY,
+      shuffle_questions: exam.shuffle_questions || false,
+      shuffle_within_sets: exam.shuffle_within_sets || false,
+      shuffle_options: exam.shuffle_options || false,
+      marks_per_correct: exam.marks_per_correct ?? DEFAULT_MARKING_SCHEME.marks_per_correct,
+      penalty_per_wrong: exam.penalty_per_wrong ?? DEFAULT_MARKING_SCHEME.penalty_per_wrong,
+      proctoring_enabled: exam.proctoring_enabled || false,
+      require_fullscreen: exam.require_fullscreen || false,
+      max_violations: exam.max_violations ? exam.max_violations.toString() : '',
+      batch_ids: (exam.batches || []).map(batch => batch.id),
     });
     setIsCreating(false);
     setManagingSetsId(null);
@@ -174,6 +262,7 @@ export const ExamManagerTab = () => {
             .map(s => ({
               question_set_id: s.question_set.id,
               position: s.position,
+              section_time_limit_seconds: s.section_time_limit_seconds ?? null,
             }))
         );
       } else {
@@ -208,13 +297,12 @@ export const ExamManagerTab = () => {
 
     try {
       setError(null);
-      await examApi.setQuestionSets(managingSetsId, {
+      await queryCache.mutate('exams', () => examApi.setQuestionSets(managingSetsId, {
         question_sets: selectedSets,
-      });
+      }));
       
       setManagingSetsId(null);
       setSelectedSets([]);
-      await loadData();
     } catch (err: any) {
       setError(err.message || 'Failed to save question sets');
       console.error('Error saving question sets:', err);
@@ -239,6 +327,15 @@ export const ExamManagerTab = () => {
     }
   };
 
+  // Section time limits are edited in minutes; blank means the set has no time limit of its own
+  const setSectionTimeLimit = (index: number, minutes: string) => {
+    const value = parseInt(minutes);
+    setSelectedSets(selectedSets.map((s, i) => i === index
+      ? { ...s, section_time_limit_seconds: value > 0 ? value * 60 : null }
+      : s
+    ));
+  };
+
   const moveSet = (index: number, direction: 'up' | 'down') => {
     const newSelected = [...selectedSets];
     const targetIndex = direction === 'up' ? index - 1 : index + 1;
@@ -261,6 +358,19 @@ export const ExamManagerTab = () => {
       title: '',
       time_limit_seconds: 3600,
       exam_link: '',
+      opens_at: '',
+      closes_at: '',
+      max_attempts: '',
+      retake_policy: DEFAULT_RETAKE_POLICY,
+      shuffle_questions: false,
+      shuffle_within_sets: false,
+      shuffle_options: false,
+      marks_per_correct: DEFAULT_MARKING_SCHEME.marks_per_correct,
+      penalty_per_wrong: DEFAULT_MARKING_SCHEME.penalty_per_wrong,
+      proctoring_enabled: false,
+      require_fullscreen: false,
+      max_violations: '',
+      batch_ids: [],
     });
   };
 
@@ -292,6 +402,29 @@ export const ExamManagerTab = () => {
       .replace(/^-|-$/g, ''); // Remove leading/trailing hyphens
   };
 
+  const getAvailabilityBadge = (exam: Exam) => {
+    switch (getExamAvailability(exam)) {
+      case 'UPCOMING':
+        return (
+          <span className="px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800">
+            Opens {new Date(exam.opens_at!).toLocaleString()}
+          </span>
+        );
+      case 'CLOSED':
+        return (
+          <span className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-800">
+            Closed {new Date(exam.closes_at!).toLocaleString()}
+          </span>
+        );
+      default:
+        return (
+          <span className="px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-800">
+            {exam.closes_at ? `Live until ${new Date(exam.closes_at).toLocaleString()}` : 'Live'}
+          </span>
+        );
+    }
+  };
+
   const copyExamLink = (examLink: string) => {
     const fullLink = `${window.location.origin}/exam/${examLink}`;
     navigator.clipboard.writeText(fullLink);
@@ -306,6 +439,26 @@ export const ExamManagerTab = () => {
     );
   }
 
+  // Generate from Blueprint
+  if (isGenerating) {
+    return (
+      <ExamBuilder
+        onCancel={() => setIsGenerating(false)}
+        onCreated={async (examId) => {
+          setIsGenerating(false);
+          // The builder also created the exam's question set
+          queryCache.invalidateEntity('exams');
+          queryCache.invalidateEntity('questionSets');
+          try {
+            setPreviewExam(await examApi.getById(examId));
+          } catch (err) {
+            console.error('Error loading generated exam:', err);
+          }
+        }}
+      />
+    );
+  }
+
   // View Attempts
   if (viewAttemptsId) {
     const currentExam = exams.find(e => e.id === viewAttemptsId);
@@ -453,7 +606,15 @@ export const ExamManagerTab = () => {
                     <div className="text-orange-700">Average Score</div>
                   </div>
                 </div>
+                <button
+                  onClick={() => navigate(`/admin/item-analysis/${viewAttemptsId}`)}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                >
+                  <BarChart3 className="w-4 h-4" />
+                  Open Item Analysis
+                </button>
                 <p className="text-sm text-gray-500">
+                  Item analysis shows difficulty, discrimination and distractor statistics for every question.
                   Click on individual student attempts in the "Attempts List" tab to view detailed question-by-question analysis.
                 </p>
               </div>
@@ -467,6 +628,8 @@ export const ExamManagerTab = () => {
   // Managing Question Sets View
   if (managingSetsId) {
     const currentExam = exams.find(e => e.id === managingSetsId);
+    const sectioned = isSectionedExam(selectedSets);
+    const totalSectionTime = getTotalSectionTime(selectedSets);
     
     return (
       <div className="space-y-6">
@@ -570,11 +733,39 @@ export const ExamManagerTab = () => {
                           <div className="text-xs text-gray-500 mt-1">{set.description}</div>
                         )}
                       </div>
+                      <label className="flex items-center gap-1 text-xs text-gray-600" title="Time limit for this set as a section">
+                        <Clock className="w-3.5 h-3.5" />
+                        <input
+                          type="number"
+                          min="1"
+                          value={selected.section_time_limit_seconds ? Math.round(selected.section_time_limit_seconds / 60) : ''}
+                          onChange={(e) => setSectionTimeLimit(index, e.target.value)}
+                          placeholder="No limit"
+                          className="w-20 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        min
+                      </label>
                     </div>
                   );
                 })
               )}
             </div>
+            {sectioned ? (
+              <p className="text-xs text-gray-600 mt-3">
+                Sectioned exam: students take each set in order as a section and cannot return to a closed section.
+                Sets without a time limit only count against the exam timer.
+              </p>
+            ) : (
+              <p className="text-xs text-gray-500 mt-3">
+                Give a set a time limit to turn the exam into timed sections.
+              </p>
+            )}
+            {currentExam && totalSectionTime > currentExam.time_limit_seconds && (
+              <p className="text-xs text-yellow-700 mt-2 flex items-center gap-1">
+                <AlertCircle className="w-3.5 h-3.5" />
+                Section time limits add up to {Math.round(totalSectionTime / 60)} minutes, more than the exam's {Math.round(currentExam.time_limit_seconds / 60)} minutes.
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -589,14 +780,23 @@ export const ExamManagerTab = () => {
           <h2 className="text-2xl font-bold text-gray-900">Exam Management</h2>
           <p className="text-gray-600 mt-1">Create and manage exams with question sets</p>
         </div>
-        {!isCreating && !editingId && (
-          <button
-            onClick={() => setIsCreating(true)}
-            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            New Exam
-          </button>
+        {canManageExams && !isCreating && !editingId && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => setIsGenerating(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+            >
+              <Wand2 className="w-4 h-4" />
+              From Blueprint
+            </button>
+            <button
+              onClick={() => setIsCreating(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              New Exam
+            </button>
+          </div>
         )}
       </div>
 
@@ -655,6 +855,210 @@ export const ExamManagerTab = () => {
               </p>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Opens At
+                </label>
+                <input
+                  type="datetime-local"
+                  value={formData.opens_at}
+                  onChange={(e) => setFormData({ ...formData, opens_at: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave empty to open immediately</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Closes At
+                </label>
+                <input
+                  type="datetime-local"
+                  value={formData.closes_at}
+                  onChange={(e) => setFormData({ ...formData, closes_at: e.target.value })}
+                  min={formData.opens_at || undefined}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave empty to keep the exam open indefinitely</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Max Attempts
+                </label>
+                <input
+                  type="number"
+                  value={formData.max_attempts}
+                  onChange={(e) => setFormData({ ...formData, max_attempts: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Unlimited"
+                  min="1"
+                  step="1"
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave empty to allow unlimited attempts</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Retake Policy
+                </label>
+                <select
+                  value={formData.retake_policy}
+                  onChange={(e) => setFormData({ ...formData, retake_policy: e.target.value as RetakePolicy })}
+                  disabled={formData.max_attempts === '1'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-500"
+                >
+                  {(Object.keys(RETAKE_POLICY_LABELS) as RetakePolicy[]).map(policy => (
+                    <option key={policy} value={policy}>{RETAKE_POLICY_LABELS[policy]}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Which attempts count towards the student's score</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Marks per Correct Answer
+                </label>
+                <input
+                  type="number"
+                  value={formData.marks_per_correct}
+                  onChange={(e) => setFormData({ ...formData, marks_per_correct: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  min="0.25"
+                  step="0.25"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Penalty per Wrong Answer
+                </label>
+                <input
+                  type="number"
+                  value={formData.penalty_per_wrong}
+                  onChange={(e) => setFormData({ ...formData, penalty_per_wrong: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  min="0"
+                  step="0.25"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Marks deducted for a wrong answer (0 = no negative marking). Skipped questions score 0.
+                  Questions can override both values.
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Shuffling
+              </label>
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.shuffle_questions}
+                    onChange={(e) => setFormData({ ...formData, shuffle_questions: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 rounded"
+                  />
+                  Shuffle question order for each attempt
+                </label>
+                <label className={`flex items-center gap-2 text-sm ml-6 ${formData.shuffle_questions ? 'text-gray-700' : 'text-gray-400'}`}>
+                  <input
+                    type="checkbox"
+                    checked={formData.shuffle_questions && formData.shuffle_within_sets}
+                    onChange={(e) => setFormData({ ...formData, shuffle_within_sets: e.target.checked })}
+                    disabled={!formData.shuffle_questions}
+                    className="w-4 h-4 text-blue-600 rounded"
+                  />
+                  Only shuffle within each question set
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.shuffle_options}
+                    onChange={(e) => setFormData({ ...formData, shuffle_options: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 rounded"
+                  />
+                  Shuffle answer options for each attempt
+                </label>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Each attempt keeps its own order, so reviews show exactly what the student saw</p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Proctoring
+              </label>
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.proctoring_enabled}
+                    onChange={(e) => setFormData({ ...formData, proctoring_enabled: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 rounded"
+                  />
+                  Record tab switches, copy/paste and other integrity events
+                </label>
+                <label className={`flex items-center gap-2 text-sm ml-6 ${formData.proctoring_enabled ? 'text-gray-700' : 'text-gray-400'}`}>
+                  <input
+                    type="checkbox"
+                    checked={formData.proctoring_enabled && formData.require_fullscreen}
+                    onChange={(e) => setFormData({ ...formData, require_fullscreen: e.target.checked })}
+                    disabled={!formData.proctoring_enabled}
+                    className="w-4 h-4 text-blue-600 rounded"
+                  />
+                  Require fullscreen
+                </label>
+                <label className={`flex items-center gap-2 text-sm ml-6 ${formData.proctoring_enabled ? 'text-gray-700' : 'text-gray-400'}`}>
+                  Auto-submit after
+                  <input
+                    type="number"
+                    value={formData.proctoring_enabled ? formData.max_violations : ''}
+                    onChange={(e) => setFormData({ ...formData, max_violations: e.target.value })}
+                    disabled={!formData.proctoring_enabled}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                    min="1"
+                    placeholder="Never"
+                  />
+                  violations
+                </label>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Recorded events appear on the integrity timeline of each attempt review</p>
+            </div>
+
+            {batches.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Assigned Batches
+                </label>
+                <div className="flex flex-wrap gap-x-6 gap-y-2">
+                  {batches.map(batch => (
+                    <label key={batch.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.batch_ids.includes(batch.id)}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          batch_ids: e.target.checked
+                            ? [...formData.batch_ids, batch.id]
+                            : formData.batch_ids.filter(id => id !== batch.id),
+                        })}
+                        className="w-4 h-4 text-blue-600 rounded"
+                      />
+                      {batch.name}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {formData.batch_ids.length === 0
+                    ? 'No batch selected: every enrolled student can take this exam'
+                    : 'Only students in the selected batches can take this exam'}
+                </p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Exam Link (Auto-generated from title)
@@ -706,6 +1110,9 @@ export const ExamManagerTab = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Time Limit
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Availability
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Link
                 </th>
@@ -720,7 +1127,7 @@ export const ExamManagerTab = () => {
             <tbody className="divide-y divide-gray-200">
               {exams.length === 0 ? (
                 <tr>
-                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
                     <Calendar className="w-12 h-12 mx-auto mb-3 text-gray-400" />
                     <p>No exams yet. Create your first exam to get started!</p>
                   </td>
@@ -730,12 +1137,33 @@ export const ExamManagerTab = () => {
                   <tr key={exam.id} className="hover:bg-gray-50">
                     <td className="px-6 py-4">
                       <div className="font-medium text-gray-900">{exam.title}</div>
+                      {exam.batches && exam.batches.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {exam.batches.map(batch => (
+                            <span key={batch.id} className="px-1.5 py-0.5 bg-indigo-50 text-indigo-700 rounded text-xs">
+                              {batch.name}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-600">
                       <div className="flex items-center gap-1">
                         <Clock className="w-4 h-4" />
                         {formatTime(exam.time_limit_seconds)}
                       </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {exam.max_attempts ? `${exam.max_attempts} attempt${exam.max_attempts !== 1 ? 's' : ''}` : 'Unlimited attempts'}
+                        {exam.max_attempts !== 1 && ` · ${RETAKE_POLICY_LABELS[exam.retake_policy || DEFAULT_RETAKE_POLICY]}`}
+                      </div>
+                      {hasNegativeMarking(exam) && (
+                        <div className="text-xs text-red-600 mt-1">
+                          Marking: {formatMarks(exam.marks_per_correct ?? DEFAULT_MARKING_SCHEME.marks_per_correct, true)} / {formatMarks(-(exam.penalty_per_wrong ?? 0))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      {getAvailabilityBadge(exam)}
                     </td>
                     <td className="px-6 py-4">
                       <button
@@ -768,27 +1196,49 @@ export const ExamManagerTab = () => {
                         >
                           <Users className="w-4 h-4" />
                         </button>
-                        <button
-                          onClick={() => startManageSets(exam)}
-                          className="p-2 text-gray-600 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
-                          title="Manage question sets"
-                        >
-                          <ChevronRight className="w-4 h-4" />
-                        </button>
-                        <button
-                          onClick={() => startEdit(exam)}
-                          className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-                          title="Edit exam"
-                        >
-                          <Edit2 className="w-4 h-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(exam.id, exam.title)}
-                          className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                          title="Delete exam"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
+                        {canManageExams && (
+                          <button
+                            onClick={() => navigate(`/admin/exam-print/${exam.id}`)}
+                            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                            title="Print paper and answer key"
+                          >
+                            <Printer className="w-4 h-4" />
+                          </button>
+                        )}
+                        {canViewAnalytics && (
+                          <button
+                            onClick={() => navigate(`/admin/item-analysis/${exam.id}`)}
+                            className="p-2 text-gray-600 hover:text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+                            title="Item analysis"
+                          >
+                            <BarChart3 className="w-4 h-4" />
+                          </button>
+                        )}
+                        {canManageExams && (
+                          <>
+                            <button
+                              onClick={() => startManageSets(exam)}
+                              className="p-2 text-gray-600 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                              title="Manage question sets"
+                            >
+                              <ChevronRight className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => startEdit(exam)}
+                              className="p-2 text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                              title="Edit exam"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(exam.id, exam.title)}
+                              className="p-2 text-gray-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                              title="Delete exam"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -0,0 +1,89 @@
+import { ShieldAlert } from 'lucide-react';
+import { INTEGRITY_EVENT_LABELS } from '../../lib/integrityMonitor';
+import { IntegrityEventType } from '../../types';
+
+interface TimelineEvent {
+  id: string;
+  type: IntegrityEventType;
+  occurred_at: string;
+  details?: string;
+}
+
+interface IntegrityTimelineProps {
+  events: TimelineEvent[];
+  startedAt?: string; // Attempt start, events are shown as an offset from it
+  maxViolations?: number | null;
+}
+
+const formatOffset = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `+${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Proctoring events recorded during an attempt, as counts per type and a chronological list
+ */
+export function IntegrityTimeline({ events, startedAt, maxViolations }: IntegrityTimelineProps) {
+  const sortedEvents = [...events].sort((a, b) => Date.parse(a.occurred_at) - Date.parse(b.occurred_at));
+  const counts = sortedEvents.reduce<Partial<Record<IntegrityEventType, number>>>((acc, event) => {
+    acc[event.type] = (acc[event.type] || 0) + 1;
+    return acc;
+  }, {});
+  const startTime = startedAt ? Date.parse(startedAt) : NaN;
+  const limitReached = !!maxViolations && events.length >= maxViolations;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldAlert className="w-5 h-5 text-orange-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Integrity Timeline</h3>
+        <span className={`px-3 py-1 rounded-full text-sm font-medium ${
+          events.length === 0 ? 'bg-green-100 text-green-800' : 'bg-orange-100 text-orange-800'
+        }`}>
+          {events.length} event{events.length !== 1 ? 's' : ''}
+          {maxViolations ? ` · limit ${maxViolations}` : ''}
+        </span>
+        {limitReached && (
+          <span className="bg-red-100 text-red-800 px-3 py-1 rounded-full text-sm font-medium">
+            Auto-submitted
+          </span>
+        )}
+      </div>
+
+      {sortedEvents.length === 0 ? (
+        <p className="text-gray-600 text-sm">No integrity events were recorded during this attempt.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {(Object.keys(counts) as IntegrityEventType[]).map(type => (
+              <span key={type} className="bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-sm">
+                {INTEGRITY_EVENT_LABELS[type]}: <span className="font-semibold">{counts[type]}</span>
+              </span>
+            ))}
+          </div>
+
+          <ol className="relative border-l-2 border-orange-200 ml-2 space-y-4">
+            {sortedEvents.map(event => {
+              const occurredAt = Date.parse(event.occurred_at);
+              return (
+                <li key={event.id} className="ml-4">
+                  <div className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-orange-500" />
+                  <div className="flex flex-wrap items-baseline gap-x-3">
+                    <span className="font-medium text-gray-900">{INTEGRITY_EVENT_LABELS[event.type] || event.type}</span>
+                    <span className="text-sm text-gray-500">{new Date(occurredAt).toLocaleTimeString()}</span>
+                    {!isNaN(startTime) && (
+                      <span className="text-sm font-mono text-gray-500">{formatOffset(occurredAt - startTime)}</span>
+                    )}
+                  </div>
+                  {event.details && <p className="text-sm text-gray-600">{event.details}</p>}
+                </li>
+              );
+            })}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
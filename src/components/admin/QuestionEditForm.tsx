@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { Question, Topic } from '../../types';
+import { Question, QuestionType, Topic } from '../../types';
 import { PlusCircle, XCircle, Plus } from 'lucide-react';
 import { LaTeX } from '../LaTeX';
+import { MAX_OPTIONS, MIN_OPTIONS, QUESTION_TYPE_LABELS, getQuestionType } from '../../lib/questionTypes';
 
 interface QuestionEditFormProps {
   question: Question;
@@ -39,6 +40,7 @@ export function QuestionEditForm({ question, topics, onSubmit, onCancel, onCreat
   };
 
   const handleAddOption = () => {
+    if (formData.options.length >= MAX_OPTIONS) return;
     if (newOption.trim() && !formData.options.includes(newOption.trim())) {
       setFormData(prev => ({
         ...prev,
@@ -53,15 +55,52 @@ export function QuestionEditForm({ question, topics, onSubmit, onCancel, onCreat
     setFormData(prev => ({
       ...prev,
       options: updatedOptions,
-      correct_answer: prev.correct_answer === index ? 0 : (prev.correct_answer > index ? prev.correct_answer - 1 : prev.correct_answer)
+      correct_answer: prev.correct_answer === index ? 0 : (prev.correct_answer > index ? prev.correct_answer - 1 : prev.correct_answer),
+      // correct_answer_indices are 1-based option indices
+      correct_answer_indices: prev.correct_answer_indices
+        ?.filter(i => i !== index + 1)
+        .map(i => (i > index + 1 ? i - 1 : i))
     }));
   };
 
+  const handleToggleCorrectIndex = (index: number) => {
+    const optionIndex = index + 1;
+    setFormData(prev => {
+      const current = prev.correct_answer_indices || [];
+      return {
+        ...prev,
+        correct_answer_indices: current.includes(optionIndex)
+          ? current.filter(i => i !== optionIndex)
+          : [...current, optionIndex].sort((a, b) => a - b)
+      };
+    });
+  };
+
+  const handleNumberChange = (name: 'numeric_answer' | 'numeric_tolerance', value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [name]: value === '' ? null : parseFloat(value)
+    }));
+  };
+
+  const questionType = getQuestionType(formData);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (formData.options.length < 2) {
+    if (questionType === 'NUMERIC') {
+      if (formData.numeric_answer === null || formData.numeric_answer === undefined || Number.isNaN(formData.numeric_answer)) {
+        alert('Please enter the numeric answer.');
+        return;
+      }
+    } else if (formData.options.length < MIN_OPTIONS) {
       alert('Please add at least two options.');
       return;
+    } else if (questionType === 'TRUE_FALSE' && formData.options.length !== 2) {
+      alert('True / False questions must have exactly two options.');
+      return;
+    } else if (questionType === 'MULTI_SELECT' && !formData.correct_answer_indices?.length) {
+      alert('Please mark at least one correct option.');
+      return;
     }
 
     let finalTopic = formData.topic;
@@ -177,20 +216,71 @@ export function QuestionEditForm({ question, topics, onSubmit, onCancel, onCreat
           />
         </div>
 
+        {/* Question Type */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Question Type *</label>
+          <select
+            name="question_type"
+            value={questionType}
+            onChange={(e) => setFormData(prev => ({ ...prev, question_type: e.target.value as QuestionType }))}
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+              <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+
         {/* Options */}
+        {questionType === 'NUMERIC' ? (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Correct Answer *</label>
+            <input
+              type="number"
+              step="any"
+              value={formData.numeric_answer ?? ''}
+              onChange={(e) => handleNumberChange('numeric_answer', e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Tolerance (±)</label>
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={formData.numeric_tolerance ?? ''}
+              onChange={(e) => handleNumberChange('numeric_tolerance', e.target.value)}
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              placeholder="0 (exact match)"
+            />
+          </div>
+        </div>
+        ) : (
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">Options *</label>
           <div className="space-y-2">
             {formData.options.map((option, index) => (
               <div key={index} className="flex items-center gap-2">
-                <input
-                  type="radio"
-                  name="correct_answer"
-                  value={index}
-                  checked={formData.correct_answer === index}
-                  onChange={() => setFormData(prev => ({ ...prev, correct_answer: index }))}
-                  className="w-5 h-5 text-blue-600"
-                />
+                {questionType === 'MULTI_SELECT' ? (
+                  <input
+                    type="checkbox"
+                    checked={formData.correct_answer_indices?.includes(index + 1) || false}
+                    onChange={() => handleToggleCorrectIndex(index)}
+                    className="w-5 h-5 text-blue-600"
+                  />
+                ) : (
+                  <input
+                    type="radio"
+                    name="correct_answer"
+                    value={index}
+                    checked={formData.correct_answer === index}
+                    onChange={() => setFormData(prev => ({ ...prev, correct_answer: index }))}
+                    className="w-5 h-5 text-blue-600"
+                  />
+                )}
                 <input
                   type="text"
                   value={option}
@@ -202,13 +292,15 @@ export function QuestionEditForm({ question, topics, onSubmit, onCancel, onCreat
                 <button
                   type="button"
                   onClick={() => handleRemoveOption(index)}
-                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                  disabled={formData.options.length <= MIN_OPTIONS}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-40"
                 >
                   <XCircle className="w-5 h-5" />
                 </button>
               </div>
             ))}
           </div>
+          {formData.options.length < MAX_OPTIONS && (
           <div className="flex gap-2 mt-3">
             <input
               type="text"
@@ -225,7 +317,9 @@ export function QuestionEditForm({ question, topics, onSubmit, onCancel, onCreat
               <PlusCircle className="w-5 h-5" /> Add Option
             </button>
           </div>
+          )}
         </div>
+        )}
 
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">Explanation LaTeX (optional)</label>
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { EXPORT_FORMAT_LABELS, ExportFormat, ExportableQuestion, downloadQuestions } from '../../lib/questionExport';
+
+interface QuestionExportMenuProps {
+  title: string; // Used as the document title and file name
+  loadQuestions: () => Promise<ExportableQuestion[]>;
+  onError: (message: string) => void;
+  compact?: boolean; // Icon-only button for table rows
+}
+
+export const QuestionExportMenu = ({ title, loadQuestions, onError, compact = false }: QuestionExportMenuProps) => {
+  // Fixed position of the open menu, so it isn't clipped by scrolling tables
+  const [menuPosition, setMenuPosition] = useState<{ top: number; right: number } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setMenuPosition(null);
+    try {
+      setIsExporting(true);
+      const questions = await loadQuestions();
+      if (questions.length === 0) {
+        onError('There are no questions to export');
+        return;
+      }
+      downloadQuestions(questions, format, title);
+    } catch (err) {
+      console.error('Error exporting questions:', err);
+      onError('Failed to export questions');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          setMenuPosition(menuPosition ? null : { top: rect.bottom + 4, right: window.innerWidth - rect.right });
+        }}
+        disabled={isExporting}
+        className={compact
+          ? 'p-2 text-gray-600 hover:text-purple-600 hover:bg-purple-50 rounded-lg transition-colors disabled:opacity-50'
+          : 'flex items-center gap-2 px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50'}
+        title="Export questions"
+      >
+        <Download className="w-4 h-4" />
+        {!compact && (isExporting ? 'Exporting...' : 'Export')}
+      </button>
+      {menuPosition && (
+        <div
+          className="fixed w-52 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1"
+          style={menuPosition}
+        >
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {EXPORT_FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { Plus, Trash2, Eye, EyeOff } from 'lucide-react';
-import { Question, Topic } from '../../types';
+import { Question, QuestionType, Topic } from '../../types';
 import { LaTeX } from '../LaTeX';
 import { TextWithLaTeX } from '../TextWithLaTeX';
 import { topicApi } from '../../lib/api';
+import {
+  DEFAULT_QUESTION_TYPE,
+  MAX_OPTIONS,
+  MIN_OPTIONS,
+  QUESTION_TYPE_LABELS,
+  TRUE_FALSE_OPTIONS,
+} from '../../lib/questionTypes';
 
 interface QuestionFormProps {
   onSubmit: (question: Omit<Question, 'id' | 'created_at'>) => void;
@@ -20,8 +27,12 @@ export function QuestionForm({ onSubmit, topics: propTopics, onCreateNewTopic }:
     question_text: '',
     question_latex: '',
     image_url: '',
+    question_type: DEFAULT_QUESTION_TYPE as QuestionType,
     options: ['', '', '', ''],
     correct_answer: 0,
+    correct_answers: [] as number[], // Multi-select, 0-based like correct_answer
+    numeric_answer: '',
+    numeric_tolerance: '',
     explanation_latex: '',
     video_solution_url: ''
   });
@@ -77,15 +88,31 @@ export function QuestionForm({ onSubmit, topics: propTopics, onCreateNewTopic }:
       return;
     }
 
-    if (!finalTopic || formData.options.some(opt => !opt.trim()) || (!formData.question_text && !formData.question_latex)) {
+    const isNumeric = formData.question_type === 'NUMERIC';
+
+    if (!finalTopic || (!isNumeric && formData.options.some(opt => !opt.trim())) || (!formData.question_text && !formData.question_latex)) {
       alert('Please fill in all required fields, and make sure to provide either a question text or a LaTeX question.');
       return;
     }
 
+    if (isNumeric && (formData.numeric_answer.trim() === '' || !Number.isFinite(Number(formData.numeric_answer)))) {
+      alert('Please enter the numeric answer.');
+      return;
+    }
+
+    if (formData.question_type === 'MULTI_SELECT' && formData.correct_answers.length === 0) {
+      alert('Please mark at least one correct option.');
+      return;
+    }
+
+    const { correct_answers, numeric_answer, numeric_tolerance, ...questionData } = formData;
     onSubmit({
-      ...formData,
+      ...questionData,
       topic: finalTopic,
-      options: formData.options.filter(opt => opt.trim())
+      options: isNumeric ? [] : formData.options.filter(opt => opt.trim()),
+      correct_answer_indices: formData.question_type === 'MULTI_SELECT' ? correct_answers.map(i => i + 1) : undefined,
+      numeric_answer: isNumeric ? parseFloat(numeric_answer) : null,
+      numeric_tolerance: isNumeric && numeric_tolerance ? parseFloat(numeric_tolerance) : null,
     });
 
     // Reset form
@@ -94,8 +121,12 @@ export function QuestionForm({ onSubmit, topics: propTopics, onCreateNewTopic }:
       question_text: '',
       question_latex: '',
       image_url: '',
+      question_type: DEFAULT_QUESTION_TYPE,
       options: ['', '', '', ''],
       correct_answer: 0,
+      correct_answers: [],
+      numeric_answer: '',
+      numeric_tolerance: '',
       explanation_latex: '',
       video_solution_url: ''
     });
@@ -110,6 +141,7 @@ export function QuestionForm({ onSubmit, topics: propTopics, onCreateNewTopic }:
   };
 
   const addOption = () => {
+    if (formData.options.length >= MAX_OPTIONS) return;
     setFormData({
       ...formData,
       options: [...formData.options, '']
@@ -117,7 +149,7 @@ export function QuestionForm({ onSubmit, topics: propTopics, onCreateNewTopic }:
   };
 
   const removeOption = (index: number) => {
-    if (formData.options.length <= 2) return;
+    if (formData.options.length <= MIN_OPTIONS) return;
     
     const newOptions = formData.options.filter((_, i) => i !== index);
     setFormData({
@@ -125,10 +157,35 @@ export function QuestionForm({ onSubmit, topics: propTopics, onCreateNewTopic }:
       options: newOptions,
       correct_answer: formData.correct_answer >= index && formData.correct_answer > 0 
         ? formData.correct_answer - 1 
-        : formData.correct_answer
+        : formData.correct_answer,
+      correct_answers: formData.correct_answers
+        .filter(i => i !== index)
+        .map(i => (i > index ? i - 1 : i))
+    });
+  };
+
+  const toggleCorrectAnswer = (index: number) => {
+    const correctAnswers = formData.correct_answers.includes(index)
+      ? formData.correct_answers.filter(i => i !== index)
+      : [...formData.correct_answers, index].sort((a, b) => a - b);
+    setFormData({ ...formData, correct_answers: correctAnswers });
+  };
+
+  const changeQuestionType = (questionType: QuestionType) => {
+    const options = questionType === 'TRUE_FALSE'
+      ? [...TRUE_FALSE_OPTIONS]
+      : formData.question_type === 'TRUE_FALSE' ? ['', '', '', ''] : formData.options;
+    setFormData({
+      ...formData,
+      question_type: questionType,
+      options,
+      correct_answer: Math.min(formData.correct_answer, options.length - 1),
+      correct_answers: formData.correct_answers.filter(i => i < options.length)
     });
   };
 
+  const isFixedOptions = formData.question_type === 'TRUE_FALSE';
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6 bg-white p-6 rounded-lg shadow-md">
       <h2 className="text-xl font-bold text-gray-900">Create New Question</h2>
@@ -270,7 +327,55 @@ export function QuestionForm({ onSubmit, topics: propTopics, onCreateNewTopic }:
         )}
       </div>
 
+      {/* Question Type */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Question Type *
+        </label>
+        <select
+          value={formData.question_type}
+          onChange={(e) => changeQuestionType(e.target.value as QuestionType)}
+          className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+            <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
       {/* Options */}
+      {formData.question_type === 'NUMERIC' ? (
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Correct Answer *
+          </label>
+          <input
+            type="number"
+            step="any"
+            value={formData.numeric_answer}
+            onChange={(e) => setFormData({ ...formData, numeric_answer: e.target.value })}
+            placeholder="e.g. 9.81"
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Tolerance (±)
+          </label>
+          <input
+            type="number"
+            step="any"
+            min="0"
+            value={formData.numeric_tolerance}
+            onChange={(e) => setFormData({ ...formData, numeric_tolerance: e.target.value })}
+            placeholder="0 (exact match)"
+            className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+      ) : (
       <div>
         <div className="flex items-center justify-between mb-2">
           <label className="block text-sm font-medium text-gray-700">
@@ -285,27 +390,38 @@ export function QuestionForm({ onSubmit, topics: propTopics, onCreateNewTopic }:
               {showOptionPreview ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
               {showOptionPreview ? 'Hide' : 'Show'} Preview
             </button>
-            <button
-              type="button"
-              onClick={addOption}
-              className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-            >
-              <Plus className="w-4 h-4" />
-              Add Option
-            </button>
+            {!isFixedOptions && formData.options.length < MAX_OPTIONS && (
+              <button
+                type="button"
+                onClick={addOption}
+                className="flex items-center gap-1 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                <Plus className="w-4 h-4" />
+                Add Option
+              </button>
+            )}
           </div>
         </div>
         
         <div className="space-y-3">
           {formData.options.map((option, index) => (
             <div key={index} className="flex items-center gap-3">
-              <input
-                type="radio"
-                name="correct_answer"
-                checked={formData.correct_answer === index}
-                onChange={() => setFormData({ ...formData, correct_answer: index })}
-                className="w-5 h-5 text-green-600"
-              />
+              {formData.question_type === 'MULTI_SELECT' ? (
+                <input
+                  type="checkbox"
+                  checked={formData.correct_answers.includes(index)}
+                  onChange={() => toggleCorrectAnswer(index)}
+                  className="w-5 h-5 text-green-600"
+                />
+              ) : (
+                <input
+                  type="radio"
+                  name="correct_answer"
+                  checked={formData.correct_answer === index}
+                  onChange={() => setFormData({ ...formData, correct_answer: index })}
+                  className="w-5 h-5 text-green-600"
+                />
+              )}
               {showOptionPreview ? (
                 <div className="flex-1 p-2 border border-gray-300 rounded-lg bg-gray-50">
                   <TextWithLaTeX text={option} />
@@ -316,11 +432,12 @@ export function QuestionForm({ onSubmit, topics: propTopics, onCreateNewTopic }:
                   value={option}
                   onChange={(e) => updateOption(index, e.target.value)}
                   placeholder={`Option ${index + 1}`}
-                  className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                  disabled={isFixedOptions}
                   required
                 />
               )}
-              {formData.options.length > 2 && (
+              {!isFixedOptions && formData.options.length > MIN_OPTIONS && (
                 <button
                   type="button"
                   onClick={() => removeOption(index)}
@@ -332,7 +449,11 @@ export function QuestionForm({ onSubmit, topics: propTopics, onCreateNewTopic }:
             </div>
           ))}
         </div>
+        {formData.question_type === 'MULTI_SELECT' && (
+          <p className="text-xs text-gray-500 mt-2">Tick every correct option</p>
+        )}
       </div>
+      )}
 
       {/* Explanation LaTeX */}
       <div>
@@ -0,0 +1,334 @@
+import { useState, useEffect } from 'react';
+import { questionApi, questionSetApi, topicApi } from '../../lib/api';
+import { ImportRow, getCsvTemplate, parseQuestionFile } from '../../lib/questionImport';
+import { downloadFile } from '../../lib/questionExport';
+import { QUESTION_TYPE_LABELS, getQuestionType } from '../../lib/questionTypes';
+import { Upload, X, AlertCircle, CheckCircle, Download, FileText } from 'lucide-react';
+
+interface Topic {
+  id: string;
+  name: string;
+}
+
+interface QuestionSetOption {
+  id: string;
+  title: string;
+}
+
+interface ImportResult {
+  created: number;
+  failed: Array<{ row: number; message: string }>;
+  createdTopics: string[];
+  questionSetTitle: string | null;
+}
+
+interface QuestionImportWizardProps {
+  topics: Topic[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = 'select' | 'preview' | 'importing' | 'done';
+
+export const QuestionImportWizard = ({ topics, onClose, onImported }: QuestionImportWizardProps) => {
+  const [step, setStep] = useState<Step>('select');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [questionSets, setQuestionSets] = useState<QuestionSetOption[]>([]);
+  const [targetSetId, setTargetSetId] = useState('');
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  useEffect(() => {
+    questionSetApi.getAll()
+      .then(sets => setQuestionSets(sets.map(s => ({ id: s.id, title: s.title }))))
+      .catch(err => console.error('Error loading question sets:', err));
+  }, []);
+
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const invalidRows = rows.filter(row => row.errors.length > 0);
+  const topicIds = new Map(topics.map(t => [t.name.trim().toLowerCase(), t.id]));
+  const newTopicNames = [...new Set(validRows.map(row => row.topic_name))]
+    .filter(name => !topicIds.has(name.toLowerCase()));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setError(null);
+      const parsed = parseQuestionFile(file.name, await file.text());
+      if (parsed.length === 0) {
+        setError('No questions found in the file');
+        return;
+      }
+      setFileName(file.name);
+      setRows(parsed);
+      setStep('preview');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    setProgress(0);
+
+    const failed: ImportResult['failed'] = [];
+    const createdTopics: string[] = [];
+    const createdIds: string[] = [];
+    const ids = new Map(topicIds);
+
+    // Create missing topics first so every question has a topic_id
+    for (const name of newTopicNames) {
+      try {
+        const topic = await topicApi.create({ name });
+        ids.set(name.toLowerCase(), topic.id);
+        createdTopics.push(name);
+      } catch (err) {
+        console.error(`Error creating topic ${name}:`, err);
+      }
+    }
+
+    // One at a time so a failing row doesn't stop the rest
+    for (const row of validRows) {
+      const topicId = ids.get(row.topic_name.toLowerCase());
+      try {
+        if (!topicId) {
+          throw new Error(`Topic "${row.topic_name}" could not be created`);
+        }
+        const question = await questionApi.create({ ...row.question, topic_id: topicId });
+        createdIds.push(question.id);
+      } catch (err) {
+        failed.push({ row: row.row, message: err instanceof Error ? err.message : 'Failed to create question' });
+      }
+      setProgress(p => p + 1);
+    }
+
+    let questionSetTitle: string | null = null;
+    if (targetSetId && createdIds.length > 0) {
+      try {
+        // Append after the questions already in the set
+        const set = await questionSetApi.getById(targetSetId);
+        const existingIds = [...(set.question_set_questions || [])]
+          .sort((a, b) => a.position - b.position)
+          .map(q => q.question.id);
+        await questionSetApi.setQuestions(targetSetId, {
+          questions: [...existingIds, ...createdIds].map((question_id, i) => ({ question_id, position: i + 1 })),
+        });
+        questionSetTitle = set.title;
+      } catch (err) {
+        console.error('Error adding imported questions to question set:', err);
+        setError('Questions were created but could not be added to the question set');
+      }
+    }
+
+    setResult({ created: createdIds.length, failed, createdTopics, questionSetTitle });
+    setStep('done');
+  };
+
+  // Reload the question list only once the wizard is closed, so the results stay visible
+  const handleClose = () => {
+    if (result && result.created > 0) {
+      onImported();
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h3 className="text-xl font-bold text-gray-900">Import Questions</h3>
+          <button
+            onClick={handleClose}
+            disabled={step === 'importing'}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          {step === 'select' && (
+            <div className="space-y-4">
+              <label className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-colors">
+                <Upload className="w-10 h-10 text-gray-400" />
+                <span className="text-gray-700 font-medium">Choose a CSV or JSON file</span>
+                <span className="text-sm text-gray-500">Every row is checked before anything is created</span>
+                <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} className="hidden" />
+              </label>
+              <div className="flex items-start justify-between gap-4 text-sm text-gray-600">
+                <p>
+                  CSV files need a header row with a <code>topic</code> column, question text or LaTeX,
+                  options <code>option_1</code>–<code>option_6</code> and <code>correct_answer</code> (1-based,
+                  separate several with <code>;</code> for multiple select). JSON files use the question export format.
+                  Topics that don't exist yet are created.
+                </p>
+                <button
+                  onClick={() => downloadFile('questions-template.csv', getCsvTemplate(), 'text/csv')}
+                  className="flex-shrink-0 flex items-center gap-2 px-3 py-2 text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50"
+                >
+                  <Download className="w-4 h-4" />
+                  CSV Template
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="flex items-center gap-1 text-gray-700">
+                  <FileText className="w-4 h-4" />
+                  {fileName}
+                </span>
+                <span className="px-2 py-1 bg-green-100 text-green-800 rounded font-medium">
+                  {validRows.length} ready
+                </span>
+                {invalidRows.length > 0 && (
+                  <span className="px-2 py-1 bg-red-100 text-red-800 rounded font-medium">
+                    {invalidRows.length} with errors (skipped)
+                  </span>
+                )}
+                {newTopicNames.length > 0 && (
+                  <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded font-medium">
+                    New topics: {newTopicNames.join(', ')}
+                  </span>
+                )}
+              </div>
+
+              <div className="border border-gray-200 rounded-lg overflow-x-auto max-h-96">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b border-gray-200 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Topic</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Question</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {rows.map(row => (
+                      <tr key={row.row} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                        <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                        <td className="px-3 py-2 text-gray-900">{row.topic_name || '—'}</td>
+                        <td className="px-3 py-2 text-gray-900 max-w-sm truncate">
+                          {row.question.question_text || row.question.question_latex || row.question.image_url || '—'}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">{QUESTION_TYPE_LABELS[getQuestionType(row.question)]}</td>
+                        <td className="px-3 py-2">
+                          {row.errors.length === 0 ? (
+                            <CheckCircle className="w-4 h-4 text-green-600" />
+                          ) : (
+                            <ul className="text-red-700 text-xs list-disc list-inside">
+                              {row.errors.map((message, i) => <li key={i}>{message}</li>)}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Add imported questions to question set</label>
+                <select
+                  value={targetSetId}
+                  onChange={(e) => setTargetSetId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Don't add to a question set</option>
+                  {questionSets.map(set => (
+                    <option key={set.id} value={set.id}>{set.title}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  onClick={handleImport}
+                  disabled={validRows.length === 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Import {validRows.length} Question{validRows.length === 1 ? '' : 's'}
+                </button>
+                <button
+                  onClick={() => {
+                    setRows([]);
+                    setStep('select');
+                  }}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Choose Another File
+                </button>
+              </div>
+            </div>
+          )}
+
+          {step === 'importing' && (
+            <div className="py-8 text-center space-y-4">
+              <div className="text-gray-700">
+                Importing questions... {progress} / {validRows.length}
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all"
+                  style={{ width: `${validRows.length > 0 ? (progress / validRows.length) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && result && (
+            <div className="space-y-4">
+              <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-start gap-3">
+                <CheckCircle className="w-5 h-5 text-green-600 mt-0.5" />
+                <div className="text-sm text-green-800 space-y-1">
+                  <p className="font-medium">Imported {result.created} of {rows.length} questions</p>
+                  {result.createdTopics.length > 0 && (
+                    <p>Created topics: {result.createdTopics.join(', ')}</p>
+                  )}
+                  {result.questionSetTitle && (
+                    <p>Added to question set "{result.questionSetTitle}"</p>
+                  )}
+                </div>
+              </div>
+              {(result.failed.length > 0 || invalidRows.length > 0) && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700">
+                  <p className="font-medium mb-2">Not imported</p>
+                  <ul className="list-disc list-inside space-y-1">
+                    {invalidRows.map(row => (
+                      <li key={`invalid-${row.row}`}>Row {row.row}: {row.errors.join('; ')}</li>
+                    ))}
+                    {result.failed.map(item => (
+                      <li key={`failed-${item.row}`}>Row {item.row}: {item.message}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <button
+                onClick={handleClose}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Done
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,24 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { questionApi, topicApi } from '../../lib/api';
-import { Plus, Edit2, Trash2, FileQuestion, AlertCircle, Filter, Image, Video, Eye, X } from 'lucide-react';
+import { queryCache, queryKeys } from '../../lib/queryCache';
+import { useQuery } from '../../hooks/useQuery';
+import { Plus, Edit2, Trash2, FileQuestion, AlertCircle, Filter, Image, Video, Eye, X, Upload } from 'lucide-react';
 import { LaTeX } from '../LaTeX';
 import { TextWithLaTeX } from '../TextWithLaTeX';
+import { QuestionImportWizard } from './QuestionImportWizard';
+import { QuestionExportMenu } from './QuestionExportMenu';
+import {
+  DEFAULT_QUESTION_TYPE,
+  MAX_OPTIONS,
+  MIN_OPTIONS,
+  QUESTION_TYPE_LABELS,
+  TRUE_FALSE_OPTIONS,
+  formatNumericAnswer,
+  getCorrectIndices,
+  getQuestionType,
+} from '../../lib/questionTypes';
+import { QUESTION_DIFFICULTIES, QUESTION_DIFFICULTY_LABELS, QUESTION_DIFFICULTY_STYLES } from '../../lib/questionDifficulty';
+import { QuestionDifficulty, QuestionType } from '../../types';
 
 interface Question {
   id: string;
@@ -10,9 +26,16 @@ interface Question {
   question_text?: string;
   question_latex?: string;
   image_url?: string;
+  question_type?: QuestionType;
   correct_answer_index?: number;
+  correct_answer_indices?: number[] | null;
+  numeric_answer?: number | null;
+  numeric_tolerance?: number | null;
   explanation_latex?: string;
   video_solution_url?: string;
+  marks?: number | null;
+  penalty?: number | null;
+  difficulty?: QuestionDifficulty | null;
   created_at: string;
   topic?: {
     id: string;
@@ -30,15 +53,24 @@ interface Topic {
   name: string;
 }
 
+// Short description of a question's answer key, e.g. "Option 2", "Options 1, 3" or "9.81 ± 0.1"
+const formatAnswerKey = (question: Question): string => {
+  if (getQuestionType(question) === 'NUMERIC') {
+    return formatNumericAnswer(question.numeric_answer, question.numeric_tolerance);
+  }
+  const correct = getCorrectIndices(question);
+  if (correct.length === 0) return 'N/A';
+  return `${correct.length > 1 ? 'Options' : 'Option'} ${correct.join(', ')}`;
+};
+
 export const QuestionManager = () => {
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [topics, setTopics] = useState<Topic[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [mutationError, setError] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [filterTopicId, setFilterTopicId] = useState<string>('');
+  const [filterDifficulty, setFilterDifficulty] = useState<QuestionDifficulty | ''>('');
   const [previewQuestion, setPreviewQuestion] = useState<Question | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
 
   // Form state
   const [formData, setFormData] = useState({
@@ -46,32 +78,106 @@ export const QuestionManager = () => {
     question_text: '',
     question_latex: '',
     image_url: '',
+    question_type: DEFAULT_QUESTION_TYPE as QuestionType,
     correct_answer_index: 1,
+    correct_answer_indices: [] as number[], // Multi-select only
+    numeric_answer: '', // Numeric only
+    numeric_tolerance: '',
     explanation_latex: '',
     video_solution_url: '',
+    marks: '', // empty to use the exam's marking scheme
+    penalty: '',
+    difficulty: '' as QuestionDifficulty | '', // empty to leave untagged
     options: ['', '', '', ''],
   });
 
-  useEffect(() => {
-    loadData();
-  }, [filterTopicId]);
-
-  const loadData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const [questionsData, topicsData] = await Promise.all([
-        questionApi.getAll(filterTopicId ? { topic_id: filterTopicId } : undefined),
-        topicApi.getAll(),
-      ]);
-      setQuestions(questionsData);
-      setTopics(topicsData.map(t => ({ id: t.id, name: t.name })));
-    } catch (err: any) {
-      setError(err.message || 'Failed to load data');
-      console.error('Error loading data:', err);
-    } finally {
-      setLoading(false);
+  const questionFilters = {
+    topic_id: filterTopicId || undefined,
+    difficulty: filterDifficulty || undefined,
+  };
+  const questionsQuery = useQuery<Question[]>(
+    queryKeys.questions(questionFilters),
+    () => questionApi.getAll(questionFilters)
+  );
+  const topicsQuery = useQuery<Topic[]>(queryKeys.topics(), () => topicApi.getAll());
+  const questions = questionsQuery.data ?? [];
+  const topics = topicsQuery.data ?? [];
+  const loading = questionsQuery.loading || topicsQuery.loading;
+  const error = mutationError || questionsQuery.error?.message || topicsQuery.error?.message || null;
+
+  // Check the answer key fields for the selected question type
+  const getAnswerKeyError = (): string | null => {
+    if (formData.question_type === 'NUMERIC') {
+      if (formData.numeric_answer.trim() === '' || !Number.isFinite(Number(formData.numeric_answer))) {
+        return 'A numeric answer is required';
+      }
+      if (formData.numeric_tolerance && Number(formData.numeric_tolerance) < 0) {
+        return 'Tolerance cannot be negative';
+      }
+      return null;
     }
+    if (formData.options.some(opt => !opt.trim())) {
+      return 'All options are required';
+    }
+    if (formData.question_type === 'MULTI_SELECT' && formData.correct_answer_indices.length === 0) {
+      return 'Select at least one correct option';
+    }
+    return null;
+  };
+
+  // Options and answer key fields sent to the API for the selected question type
+  const getAnswerKeyPayload = () => {
+    const isNumeric = formData.question_type === 'NUMERIC';
+    const isMultiSelect = formData.question_type === 'MULTI_SELECT';
+    return {
+      question_type: formData.question_type,
+      correct_answer_index: isNumeric || isMultiSelect ? undefined : formData.correct_answer_index,
+      correct_answer_indices: isMultiSelect ? formData.correct_answer_indices : undefined,
+      numeric_answer: isNumeric ? parseFloat(formData.numeric_answer) : null,
+      numeric_tolerance: isNumeric && formData.numeric_tolerance ? parseFloat(formData.numeric_tolerance) : null,
+      options: isNumeric ? [] : formData.options.map((text, index) => ({
+        option_index: index + 1,
+        option_text: text,
+      })),
+    };
+  };
+
+  const handleTypeChange = (questionType: QuestionType) => {
+    const options = questionType === 'TRUE_FALSE'
+      ? TRUE_FALSE_OPTIONS
+      : formData.question_type === 'TRUE_FALSE' ? ['', '', '', ''] : formData.options;
+    setFormData({
+      ...formData,
+      question_type: questionType,
+      options,
+      correct_answer_index: Math.min(formData.correct_answer_index, options.length),
+      correct_answer_indices: formData.correct_answer_indices.filter(index => index <= options.length),
+    });
+  };
+
+  const addOption = () => {
+    if (formData.options.length >= MAX_OPTIONS) return;
+    setFormData({ ...formData, options: [...formData.options, ''] });
+  };
+
+  const removeOption = (index: number) => {
+    if (formData.options.length <= MIN_OPTIONS) return;
+    const optionIndex = index + 1;
+    // Later options move up by one, so shift their correct-answer indices too
+    const shift = (i: number) => (i > optionIndex ? i - 1 : i);
+    setFormData({
+      ...formData,
+      options: formData.options.filter((_, i) => i !== index),
+      correct_answer_index: formData.correct_answer_index === optionIndex ? 1 : shift(formData.correct_answer_index),
+      correct_answer_indices: formData.correct_answer_indices.filter(i => i !== optionIndex).map(shift),
+    });
+  };
+
+  const toggleCorrectIndex = (optionIndex: number) => {
+    const indices = formData.correct_answer_indices.includes(optionIndex)
+      ? formData.correct_answer_indices.filter(i => i !== optionIndex)
+      : [...formData.correct_answer_indices, optionIndex].sort((a, b) => a - b);
+    setFormData({ ...formData, correct_answer_indices: indices });
   };
 
   const handleCreate = async (e: React.FormEvent) => {
@@ -87,37 +193,32 @@ export const QuestionManager = () => {
       return;
     }
 
-    if (formData.options.some(opt => !opt.trim())) {
-      setError('All 4 options are required');
+    const answerKeyError = getAnswerKeyError();
+    if (answerKeyError) {
+      setError(answerKeyError);
       return;
     }
 
     try {
       setError(null);
-      await questionApi.create({
+      const newQuestion = await queryCache.mutate('questions', () => questionApi.create({
         topic_id: formData.topic_id,
         question_text: formData.question_text || undefined,
         question_latex: formData.question_latex || undefined,
         image_url: formData.image_url || undefined,
-        correct_answer_index: formData.correct_answer_index,
         explanation_latex: formData.explanation_latex || undefined,
         video_solution_url: formData.video_solution_url || undefined,
-        options: formData.options.map((text, index) => ({
-          option_index: index + 1,
-          option_text: text,
-        })),
-      });
+        marks: formData.marks ? parseFloat(formData.marks) : null,
+        penalty: formData.penalty ? parseFloat(formData.penalty) : null,
+        difficulty: formData.difficulty || null,
+        ...getAnswerKeyPayload(),
+      }));
       
       resetForm();
       setIsCreating(false);
-      await loadData();
       
       // Show preview of the newly created question
-      const updatedQuestions = await questionApi.getAll({ topic_id: formData.topic_id || undefined });
-      const newQuestion = updatedQuestions[updatedQuestions.length - 1]; // Latest question
-      if (newQuestion) {
-        setPreviewQuestion(newQuestion);
-      }
+      setPreviewQuestion(newQuestion);
     } catch (err: any) {
       setError(err.message || 'Failed to create question');
       console.error('Error creating question:', err);
@@ -129,25 +230,33 @@ export const QuestionManager = () => {
     
     if (!editingId) return;
 
+    const answerKeyError = getAnswerKeyError();
+    if (answerKeyError) {
+      setError(answerKeyError);
+      return;
+    }
+
     try {
       setError(null);
-      await questionApi.update(editingId, {
+      const updated = await queryCache.mutate('questions', () => questionApi.update(editingId, {
         topic_id: formData.topic_id || undefined,
         question_text: formData.question_text || undefined,
         question_latex: formData.question_latex || undefined,
         image_url: formData.image_url || undefined,
-        correct_answer_index: formData.correct_answer_index,
         explanation_latex: formData.explanation_latex || undefined,
         video_solution_url: formData.video_solution_url || undefined,
-        options: formData.options.map((text, index) => ({
-          option_index: index + 1,
-          option_text: text,
-        })),
-      });
+        marks: formData.marks ? parseFloat(formData.marks) : null,
+        penalty: formData.penalty ? parseFloat(formData.penalty) : null,
+        difficulty: formData.difficulty || null,
+        ...getAnswerKeyPayload(),
+      }));
+      // Show the saved question until the lists are refetched
+      queryCache.setData<Question[]>(['questions'], list =>
+        list.map(question => (question.id === updated.id ? updated : question))
+      );
       
       resetForm();
       setEditingId(null);
-      await loadData();
     } catch (err: any) {
       setError(err.message || 'Failed to update question');
       console.error('Error updating question:', err);
@@ -161,8 +270,11 @@ export const QuestionManager = () => {
 
     try {
       setError(null);
-      await questionApi.delete(id);
-      await loadData();
+      await queryCache.mutate(
+        'questions',
+        () => questionApi.delete(id),
+        () => queryCache.setData<Question[]>(['questions'], list => list.filter(question => question.id !== id))
+      );
     } catch (err: any) {
       setError(err.message || 'Failed to delete question');
       console.error('Error deleting question:', err);
@@ -176,12 +288,21 @@ export const QuestionManager = () => {
       question_text: question.question_text || '',
       question_latex: question.question_latex || '',
       image_url: question.image_url || '',
+      question_type: getQuestionType(question),
       correct_answer_index: question.correct_answer_index || 1,
+      correct_answer_indices: question.correct_answer_indices || [],
+      numeric_answer: question.numeric_answer != null ? question.numeric_answer.toString() : '',
+      numeric_tolerance: question.numeric_tolerance != null ? question.numeric_tolerance.toString() : '',
       explanation_latex: question.explanation_latex || '',
       video_solution_url: question.video_solution_url || '',
-      options: question.options
-        .sort((a, b) => a.option_index - b.option_index)
-        .map(o => o.option_text),
+      marks: question.marks != null ? question.marks.toString() : '',
+      penalty: question.penalty != null ? question.penalty.toString() : '',
+      difficulty: question.difficulty || '',
+      options: question.options.length > 0
+        ? question.options
+          .sort((a, b) => a.option_index - b.option_index)
+          .map(o => o.option_text)
+        : ['', '', '', ''],
     });
     setIsCreating(false);
   };
@@ -192,9 +313,16 @@ export const QuestionManager = () => {
       question_text: '',
       question_latex: '',
       image_url: '',
+      question_type: DEFAULT_QUESTION_TYPE,
       correct_answer_index: 1,
+      correct_answer_indices: [],
+      numeric_answer: '',
+      numeric_tolerance: '',
       explanation_latex: '',
       video_solution_url: '',
+      marks: '',
+      penalty: '',
+      difficulty: '',
       options: ['', '', '', ''],
     });
   };
@@ -223,13 +351,27 @@ export const QuestionManager = () => {
           <p className="text-gray-600 mt-1">Create and manage exam questions</p>
         </div>
         {!isCreating && !editingId && (
-          <button
-            onClick={() => setIsCreating(true)}
-            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            New Question
-          </button>
+          <div className="flex items-center gap-2">
+            <QuestionExportMenu
+              title={topics.find(t => t.id === filterTopicId)?.name || 'Question Bank'}
+              loadQuestions={async () => questions}
+              onError={setError}
+            />
+            <button
+              onClick={() => setIsImporting(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-white text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+            >
+              <Upload className="w-4 h-4" />
+              Import
+            </button>
+            <button
+              onClick={() => setIsCreating(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              New Question
+            </button>
+          </div>
         )}
       </div>
 
@@ -247,6 +389,16 @@ export const QuestionManager = () => {
               <option key={topic.id} value={topic.id}>{topic.name}</option>
             ))}
           </select>
+          <select
+            value={filterDifficulty}
+            onChange={(e) => setFilterDifficulty(e.target.value as QuestionDifficulty | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All Difficulties</option>
+            {QUESTION_DIFFICULTIES.map(difficulty => (
+              <option key={difficulty} value={difficulty}>{QUESTION_DIFFICULTY_LABELS[difficulty]}</option>
+            ))}
+          </select>
         </div>
       </div>
 
@@ -316,42 +468,132 @@ export const QuestionManager = () => {
               />
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
-              {formData.options.map((option, index) => (
-                <div key={index}>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Option {index + 1} *
-                  </label>
-                  <input
-                    type="text"
-                    value={option}
-                    onChange={(e) => {
-                      const newOptions = [...formData.options];
-                      newOptions[index] = e.target.value;
-                      setFormData({ ...formData, options: newOptions });
-                    }}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    placeholder={`Option ${index + 1}`}
-                    required
-                  />
-                </div>
-              ))}
-            </div>
-
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">Correct Answer *</label>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Question Type *</label>
               <select
-                value={formData.correct_answer_index}
-                onChange={(e) => setFormData({ ...formData, correct_answer_index: parseInt(e.target.value) })}
+                value={formData.question_type}
+                onChange={(e) => handleTypeChange(e.target.value as QuestionType)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                required
               >
-                {formData.options.map((_, index) => (
-                  <option key={index} value={index + 1}>Option {index + 1}</option>
+                {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                  <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
                 ))}
               </select>
             </div>
 
+            {formData.question_type === 'NUMERIC' ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Correct Answer *</label>
+                  <input
+                    type="number"
+                    step="any"
+                    value={formData.numeric_answer}
+                    onChange={(e) => setFormData({ ...formData, numeric_answer: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="e.g. 9.81"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Tolerance (±)</label>
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={formData.numeric_tolerance}
+                    onChange={(e) => setFormData({ ...formData, numeric_tolerance: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="0 (exact match)"
+                  />
+                </div>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  {formData.options.map((option, index) => (
+                    <div key={index}>
+                      <div className="flex items-center justify-between mb-1">
+                        <label className="block text-sm font-medium text-gray-700">
+                          Option {index + 1} *
+                        </label>
+                        {formData.question_type !== 'TRUE_FALSE' && formData.options.length > MIN_OPTIONS && (
+                          <button
+                            type="button"
+                            onClick={() => removeOption(index)}
+                            className="text-xs text-red-600 hover:text-red-700"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                      <input
+                        type="text"
+                        value={option}
+                        onChange={(e) => {
+                          const newOptions = [...formData.options];
+                          newOptions[index] = e.target.value;
+                          setFormData({ ...formData, options: newOptions });
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                        placeholder={`Option ${index + 1}`}
+                        disabled={formData.question_type === 'TRUE_FALSE'}
+                        required
+                      />
+                    </div>
+                  ))}
+                </div>
+                {formData.question_type !== 'TRUE_FALSE' && formData.options.length < MAX_OPTIONS && (
+                  <button
+                    type="button"
+                    onClick={addOption}
+                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Option
+                  </button>
+                )}
+
+                {formData.question_type === 'MULTI_SELECT' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Correct Answers *</label>
+                    <div className="flex flex-wrap gap-4">
+                      {formData.options.map((_, index) => (
+                        <label key={index} className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={formData.correct_answer_indices.includes(index + 1)}
+                            onChange={() => toggleCorrectIndex(index + 1)}
+                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                          />
+                          Option {index + 1}
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Students must select exactly these options to get the question right
+                    </p>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Correct Answer *</label>
+                    <select
+                      value={formData.correct_answer_index}
+                      onChange={(e) => setFormData({ ...formData, correct_answer_index: parseInt(e.target.value) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    >
+                      {formData.options.map((option, index) => (
+                        <option key={index} value={index + 1}>
+                          {formData.question_type === 'TRUE_FALSE' ? option : `Option ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Explanation (LaTeX)</label>
               <textarea
@@ -374,6 +616,53 @@ export const QuestionManager = () => {
               />
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Marks (override)</label>
+                <input
+                  type="number"
+                  value={formData.marks}
+                  onChange={(e) => setFormData({ ...formData, marks: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Exam default"
+                  min="0.25"
+                  step="0.25"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Penalty for Wrong Answer (override)</label>
+                <input
+                  type="number"
+                  value={formData.penalty}
+                  onChange={(e) => setFormData({ ...formData, penalty: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Exam default"
+                  min="0"
+                  step="0.25"
+                />
+              </div>
+              <p className="md:col-span-2 text-xs text-gray-500 -mt-2">
+                Leave empty to use the marking scheme of the exam this question appears in
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Difficulty</label>
+              <select
+                value={formData.difficulty}
+                onChange={(e) => setFormData({ ...formData, difficulty: e.target.value as QuestionDifficulty | '' })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Not tagged</option>
+                {QUESTION_DIFFICULTIES.map(difficulty => (
+                  <option key={difficulty} value={difficulty}>{QUESTION_DIFFICULTY_LABELS[difficulty]}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Used to pick questions in practice mode; can be calibrated from exam results in item analysis
+              </p>
+            </div>
+
             <div className="flex gap-3 pt-2">
               <button
                 type="submit"
@@ -431,14 +720,24 @@ export const QuestionManager = () => {
                       <div className="text-sm text-gray-900">
                         {question.question_text || question.question_latex || 'Image question'}
                       </div>
+                      {question.difficulty && (
+                        <span className={`inline-block mt-1 px-2 py-0.5 rounded text-xs font-medium ${QUESTION_DIFFICULTY_STYLES[question.difficulty]}`}>
+                          {QUESTION_DIFFICULTY_LABELS[question.difficulty]}
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 text-sm text-gray-600">
                       {question.topic?.name || 'Unknown'}
                     </td>
                     <td className="px-6 py-4 text-sm">
                       <span className="px-2 py-1 bg-green-100 text-green-800 rounded font-medium">
-                        Option {question.correct_answer_index || 'N/A'}
+                        {formatAnswerKey(question)}
                       </span>
+                      {getQuestionType(question) !== DEFAULT_QUESTION_TYPE && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {QUESTION_TYPE_LABELS[getQuestionType(question)]}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center gap-2">
@@ -503,6 +802,15 @@ export const QuestionManager = () => {
         </div>
       </div>
 
+      {/* Import Wizard */}
+      {isImporting && (
+        <QuestionImportWizard
+          topics={topics}
+          onClose={() => setIsImporting(false)}
+          onImported={() => queryCache.invalidateEntity('questions')}
+        />
+      )}
+
       {/* Preview Modal */}
       {previewQuestion && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -553,35 +861,47 @@ export const QuestionManager = () => {
               </div>
 
               {/* Options */}
-              <div>
-                <h4 className="text-lg font-semibold text-gray-900 mb-4">Answer Options</h4>
-                <div className="space-y-3">
-                  {previewQuestion.options.map((option, index) => (
-                    <div
-                      key={index}
-                      className={`flex items-start gap-3 p-4 rounded-lg border-2 ${
-                        option.option_index === previewQuestion.correct_answer_index
-                          ? 'bg-green-50 border-green-500'
-                          : 'bg-gray-50 border-gray-200'
-                      }`}
-                    >
-                      <span className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center font-semibold ${
-                        option.option_index === previewQuestion.correct_answer_index
-                          ? 'bg-green-500 text-white'
-                          : 'bg-gray-300 text-gray-700'
-                      }`}>
-                        {option.option_index}
-                      </span>
-                      <div className="flex-1 pt-1">
-                        <TextWithLaTeX text={option.option_text} />
-                      </div>
-                      {option.option_index === previewQuestion.correct_answer_index && (
-                        <span className="text-green-600 font-semibold text-sm">✓ Correct</span>
-                      )}
-                    </div>
-                  ))}
+              {getQuestionType(previewQuestion) === 'NUMERIC' ? (
+                <div>
+                  <h4 className="text-lg font-semibold text-gray-900 mb-4">Answer</h4>
+                  <div className="p-4 rounded-lg border-2 bg-green-50 border-green-500 text-green-800 font-semibold">
+                    {formatAnswerKey(previewQuestion)}
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <div>
+                  <h4 className="text-lg font-semibold text-gray-900 mb-4">Answer Options</h4>
+                  <div className="space-y-3">
+                    {previewQuestion.options.map((option, index) => {
+                      const isCorrect = getCorrectIndices(previewQuestion).includes(option.option_index);
+                      return (
+                        <div
+                          key={index}
+                          className={`flex items-start gap-3 p-4 rounded-lg border-2 ${
+                            isCorrect
+                              ? 'bg-green-50 border-green-500'
+                              : 'bg-gray-50 border-gray-200'
+                          }`}
+                        >
+                          <span className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center font-semibold ${
+                            isCorrect
+                              ? 'bg-green-500 text-white'
+                              : 'bg-gray-300 text-gray-700'
+                          }`}>
+                            {option.option_index}
+                          </span>
+                          <div className="flex-1 pt-1">
+                            <TextWithLaTeX text={option.option_text} />
+                          </div>
+                          {isCorrect && (
+                            <span className="text-green-600 font-semibold text-sm">✓ Correct</span>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
 
               {/* Explanation */}
               {previewQuestion.explanation_latex && (
@@ -625,7 +945,17 @@ export const QuestionManager = () => {
                   </div>
                   <div>
                     <dt className="text-gray-600 mb-1">Correct Answer:</dt>
-                    <dd className="text-gray-900">Option {previewQuestion.correct_answer_index}</dd>
+                    <dd className="text-gray-900">{formatAnswerKey(previewQuestion)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-600 mb-1">Question Type:</dt>
+                    <dd className="text-gray-900">{QUESTION_TYPE_LABELS[getQuestionType(previewQuestion)]}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-gray-600 mb-1">Difficulty:</dt>
+                    <dd className="text-gray-900">
+                      {previewQuestion.difficulty ? QUESTION_DIFFICULTY_LABELS[previewQuestion.difficulty] : 'Not tagged'}
+                    </dd>
                   </div>
                   <div>
                     <dt className="text-gray-600 mb-1">Has Image:</dt>
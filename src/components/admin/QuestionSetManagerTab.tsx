@@ -1,8 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { questionSetApi, questionApi } from '../../lib/api';
+import { queryCache, queryKeys } from '../../lib/queryCache';
+import { useQuery } from '../../hooks/useQuery';
 import { Plus, Edit2, Trash2, List, AlertCircle, ChevronRight, Eye, X, BookOpen } from 'lucide-react';
 import { LaTeX } from '../LaTeX';
 import { TextWithLaTeX } from '../TextWithLaTeX';
+import { QuestionExportMenu } from './QuestionExportMenu';
 
 interface QuestionSet {
   id: string;
@@ -25,10 +28,13 @@ interface Question {
 }
 
 export const QuestionSetManagerTab = () => {
-  const [questionSets, setQuestionSets] = useState<QuestionSet[]>([]);
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const setsQuery = useQuery<QuestionSet[]>(queryKeys.questionSets(), () => questionSetApi.getAll());
+  const questionsQuery = useQuery<Question[]>(queryKeys.questions(), () => questionApi.getAll());
+  const questionSets = setsQuery.data ?? [];
+  const questions = questionsQuery.data ?? [];
+  const loading = setsQuery.loading || questionsQuery.loading;
+  const [mutationError, setError] = useState<string | null>(null);
+  const error = mutationError || setsQuery.error?.message || questionsQuery.error?.message || null;
   const [isCreating, setIsCreating] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [managingQuestionsId, setManagingQuestionsId] = useState<string | null>(null);
@@ -40,28 +46,6 @@ export const QuestionSetManagerTab = () => {
     description: '',
   });
 
-  useEffect(() => {
-    loadData();
-  }, []);
-
-  const loadData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const [setsData, questionsData] = await Promise.all([
-        questionSetApi.getAll(),
-        questionApi.getAll(),
-      ]);
-      setQuestionSets(setsData);
-      setQuestions(questionsData);
-    } catch (err: any) {
-      setError(err.message || 'Failed to load data');
-      console.error('Error loading data:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -72,22 +56,20 @@ export const QuestionSetManagerTab = () => {
 
     try {
       setError(null);
-      await questionSetApi.create({
-        title: formData.title,
-        description: formData.description || undefined,
+      const newSet = await queryCache.mutate('questionSets', async () => {
+        const created = await questionSetApi.create({
+          title: formData.title,
+          description: formData.description || undefined,
+        });
+        queryCache.setData<QuestionSet[]>(['questionSets'], list => [...list, created]);
+        return created;
       });
       
       resetForm();
       setIsCreating(false);
-      await loadData();
       
       // Show preview of the newly created set
-      const updatedSets = await questionSetApi.getAll();
-      const newSet = updatedSets.find(s => s.title === formData.title);
-      if (newSet) {
-        const detailedSet = await questionSetApi.getById(newSet.id);
-        setPreviewSet(detailedSet);
-      }
+      setPreviewSet(await questionSetApi.getById(newSet.id));
     } catch (err: any) {
       setError(err.message || 'Failed to create question set');
       console.error('Error creating question set:', err);
@@ -101,14 +83,25 @@ export const QuestionSetManagerTab = () => {
 
     try {
       setError(null);
-      await questionSetApi.update(editingId, {
+      const changes = {
         title: formData.title || undefined,
         description: formData.description || undefined,
-      });
+      };
+      await queryCache.mutate(
+        'questionSets',
+        () => questionSetApi.update(editingId, changes),
+        () => queryCache.setData<QuestionSet[]>(['questionSets'], list =>
+          list.map(set => set.id === editingId ? {
+            ...set,
+            // Fields left empty are not changed by the backend either
+            title: changes.title ?? set.title,
+            description: changes.description ?? set.description,
+          } : set)
+        )
+      );
       
       resetForm();
       setEditingId(null);
-      await loadData();
     } catch (err: any) {
       setError(err.message || 'Failed to update question set');
       console.error('Error updating question set:', err);
@@ -122,8 +115,11 @@ export const QuestionSetManagerTab = () => {
 
     try {
       setError(null);
-      await questionSetApi.delete(id);
-      await loadData();
+      await queryCache.mutate(
+        'questionSets',
+        () => questionSetApi.delete(id),
+        () => queryCache.setData<QuestionSet[]>(['questionSets'], list => list.filter(set => set.id !== id))
+      );
     } catch (err: any) {
       setError(err.message || 'Failed to delete question set');
       console.error('Error deleting question set:', err);
@@ -175,13 +171,12 @@ export const QuestionSetManagerTab = () => {
 
     try {
       setError(null);
-      await questionSetApi.setQuestions(managingQuestionsId, {
+      await queryCache.mutate('questionSets', () => questionSetApi.setQuestions(managingQuestionsId, {
         questions: selectedQuestions,
-      });
+      }));
       
       setManagingQuestionsId(null);
       setSelectedQuestions([]);
-      await loadData();
     } catch (err: any) {
       setError(err.message || 'Failed to save questions');
       console.error('Error saving questions:', err);
@@ -497,6 +492,17 @@ export const QuestionSetManagerTab = () => {
                         >
                           <Eye className="w-4 h-4" />
                         </button>
+                        <QuestionExportMenu
+                          title={set.title}
+                          loadQuestions={async () => {
+                            const detailedSet = await questionSetApi.getById(set.id);
+                            return [...(detailedSet.question_set_questions || [])]
+                              .sort((a, b) => a.position - b.position)
+                              .map(q => q.question);
+                          }}
+                          onError={setError}
+                          compact
+                        />
                         <button
                           onClick={() => startManageQuestions(set)}
                           className="p-2 text-gray-600 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
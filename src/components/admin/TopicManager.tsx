@@ -1,5 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { topicApi } from '../../lib/api';
+import { queryCache, queryKeys } from '../../lib/queryCache';
+import { useQuery } from '../../hooks/useQuery';
 import { Plus, Edit2, Trash2, Video, BookOpen, AlertCircle, Eye, X } from 'lucide-react';
 
 interface Topic {
@@ -12,10 +14,16 @@ interface Topic {
   };
 }
 
+const TOPICS_KEY = queryKeys.topics({ include_count: true });
+
 export const TopicManager = () => {
-  const [topics, setTopics] = useState<Topic[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const {
+    data: topics = [],
+    loading,
+    error: loadError,
+  } = useQuery<Topic[]>(TOPICS_KEY, () => topicApi.getAll({ include_count: true }));
+  const [mutationError, setError] = useState<string | null>(null);
+  const error = mutationError || loadError?.message || null;
   const [isCreating, setIsCreating] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [previewTopic, setPreviewTopic] = useState<Topic | null>(null);
@@ -26,24 +34,6 @@ export const TopicManager = () => {
     explanation_video_url: '',
   });
 
-  useEffect(() => {
-    loadTopics();
-  }, []);
-
-  const loadTopics = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await topicApi.getAll({ include_count: true });
-      setTopics(data);
-    } catch (err: any) {
-      setError(err.message || 'Failed to load topics');
-      console.error('Error loading topics:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -54,22 +44,19 @@ export const TopicManager = () => {
 
     try {
       setError(null);
-      await topicApi.create({
-        name: formData.name,
-        explanation_video_url: formData.explanation_video_url || undefined,
+      const newTopic = await queryCache.mutate('topics', async () => {
+        const created = await topicApi.create({
+          name: formData.name,
+          explanation_video_url: formData.explanation_video_url || undefined,
+        });
+        queryCache.setData<Topic[]>(['topics'], list => [...list, created]);
+        return created;
       });
       
-      // Reset form, reload, and show preview
+      // Reset form and show preview of the newly created topic
       setFormData({ name: '', explanation_video_url: '' });
       setIsCreating(false);
-      await loadTopics();
-      
-      // Show preview of the newly created topic
-      const updatedTopics = await topicApi.getAll({ include_count: true });
-      const newTopic = updatedTopics.find(t => t.name === formData.name);
-      if (newTopic) {
-        setPreviewTopic(newTopic);
-      }
+      setPreviewTopic(newTopic);
     } catch (err: any) {
       setError(err.message || 'Failed to create topic');
       console.error('Error creating topic:', err);
@@ -83,15 +70,26 @@ export const TopicManager = () => {
 
     try {
       setError(null);
-      await topicApi.update(editingId, {
+      const changes = {
         name: formData.name || undefined,
         explanation_video_url: formData.explanation_video_url || undefined,
-      });
+      };
+      await queryCache.mutate(
+        'topics',
+        () => topicApi.update(editingId, changes),
+        () => queryCache.setData<Topic[]>(['topics'], list =>
+          list.map(topic => topic.id === editingId ? {
+            ...topic,
+            // Fields left empty are not changed by the backend either
+            name: changes.name ?? topic.name,
+            explanation_video_url: changes.explanation_video_url ?? topic.explanation_video_url,
+          } : topic)
+        )
+      );
       
-      // Reset form and reload
+      // Reset form, the list already shows the change
       setFormData({ name: '', explanation_video_url: '' });
       setEditingId(null);
-      await loadTopics();
     } catch (err: any) {
       setError(err.message || 'Failed to update topic');
       console.error('Error updating topic:', err);
@@ -105,8 +103,11 @@ export const TopicManager = () => {
 
     try {
       setError(null);
-      await topicApi.delete(id);
-      await loadTopics();
+      await queryCache.mutate(
+        'topics',
+        () => topicApi.delete(id),
+        () => queryCache.setData<Topic[]>(['topics'], list => list.filter(topic => topic.id !== id))
+      );
     } catch (err: any) {
       setError(err.message || 'Failed to delete topic');
       console.error('Error deleting topic:', err);
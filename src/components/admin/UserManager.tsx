@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react';
-import { userApi } from '../../lib/api';
+import { batchApi, isAbortError, userApi } from '../../lib/api';
+import { Batch, StaffRole } from '../../types';
+import { DEFAULT_STAFF_ROLE, STAFF_ROLES, STAFF_ROLE_DESCRIPTIONS, STAFF_ROLE_LABELS, getStaffRole } from '../../lib/permissions';
+import { BatchManager } from './BatchManager';
 import { 
   Users, 
   Search, 
@@ -20,7 +23,10 @@ import {
   Calendar,
   CheckSquare,
   Square,
-  BarChart3
+  BarChart3,
+  Layers,
+  UserPlus,
+  UserMinus
 } from 'lucide-react';
 
 interface User {
@@ -33,7 +39,9 @@ interface User {
   address?: string;
   is_enrolled: boolean;
   role: 'ADMIN' | 'STUDENT';
+  staff_role?: StaffRole | null;
   created_at: string;
+  batches?: Array<{ id: string; name: string }>;
 }
 
 interface Pagination {
@@ -62,6 +70,7 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [roleFilter, setRoleFilter] = useState<'ALL' | 'ADMIN' | 'STUDENT'>('ALL');
   const [enrollmentFilter, setEnrollmentFilter] = useState<'ALL' | 'ENROLLED' | 'NOT_ENROLLED'>('ALL');
+  const [batchFilter, setBatchFilter] = useState<string>('ALL'); // Batch id or ALL
 
   // Edit mode
   const [editingUserId, setEditingUserId] = useState<string | null>(null);
@@ -70,12 +79,17 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
   // Batch selection
   const [selectedUserIds, setSelectedUserIds] = useState<Set<string>>(new Set());
 
+  // Student batches (cohorts), unrelated to the batch selection above
+  const [batches, setBatches] = useState<Batch[]>([]);
+  const [showBatches, setShowBatches] = useState(false);
+  const [targetBatchId, setTargetBatchId] = useState(''); // Batch the selected users are added to / removed from
+
   // Separate state for page control to avoid infinite loop
   const [currentPage, setCurrentPage] = useState(1);
   const [currentLimit, setCurrentLimit] = useState(20);
 
   // Fetch users
-  const fetchUsers = async () => {
+  const fetchUsers = async (signal?: AbortSignal) => {
     setLoading(true);
     setError(null);
     try {
@@ -88,22 +102,43 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
       if (roleFilter !== 'ALL') params.role = roleFilter;
       if (enrollmentFilter === 'ENROLLED') params.isEnrolled = true;
       if (enrollmentFilter === 'NOT_ENROLLED') params.isEnrolled = false;
+      if (batchFilter !== 'ALL') params.batchId = batchFilter;
 
-      const response = await userApi.getAllUsers(params);
+      const response = await userApi.getAllUsers(params, { signal });
       setUsers(response.users);
       setPagination(response.pagination);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       setError(err.message || 'Failed to fetch users');
       console.error('Error fetching users:', err);
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
+    }
+  };
+
+  const fetchBatches = async (signal?: AbortSignal) => {
+    try {
+      setBatches(await batchApi.getAll({ signal }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error fetching batches:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch batches');
     }
   };
 
+  // Paging again cancels the request for the previous page
   useEffect(() => {
-    fetchUsers();
+    const controller = new AbortController();
+    fetchUsers(controller.signal);
+    return () => controller.abort();
   }, [currentPage, currentLimit]);
 
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchBatches(controller.signal);
+    return () => controller.abort();
+  }, []);
+
   // Handle search
   const handleSearch = () => {
     setCurrentPage(1);
@@ -119,6 +154,7 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
       address: user.address,
       is_enrolled: user.is_enrolled,
       role: user.role,
+      staff_role: getStaffRole(user),
     });
   };
 
@@ -126,7 +162,10 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
     if (!editingUserId) return;
 
     try {
-      await userApi.updateUser(editingUserId, editForm);
+      await userApi.updateUser(editingUserId, {
+        ...editForm,
+        staff_role: editForm.role === 'ADMIN' ? editForm.staff_role : null,
+      });
       setEditingUserId(null);
       setEditForm({});
       fetchUsers();
@@ -190,6 +229,32 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
     }
   };
 
+  const handleBatchMembership = async (add: boolean) => {
+    if (selectedUserIds.size === 0) {
+      setError('Please select at least one user');
+      return;
+    }
+    if (!targetBatchId) {
+      setError('Please choose a batch');
+      return;
+    }
+
+    try {
+      const data = { user_ids: Array.from(selectedUserIds) };
+      if (add) {
+        await batchApi.addMembers(targetBatchId, data);
+      } else {
+        await batchApi.removeMembers(targetBatchId, data);
+      }
+      setSelectedUserIds(new Set());
+      fetchUsers();
+      fetchBatches();
+    } catch (err) {
+      console.error('Error updating batch members:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update batch members');
+    }
+  };
+
   // Pagination
   const goToPage = (page: number) => {
     setCurrentPage(page);
@@ -204,13 +269,24 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
             <Users className="w-6 h-6 text-blue-600" />
             <h2 className="text-xl font-bold text-gray-900">User Management</h2>
           </div>
-          <div className="text-sm text-gray-600">
-            Total: {pagination?.total || 0} users
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowBatches(!showBatches)}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                showBatches ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <Layers className="w-4 h-4" />
+              Batches ({batches.length})
+            </button>
+            <div className="text-sm text-gray-600">
+              Total: {pagination?.total || 0} users
+            </div>
           </div>
         </div>
 
         {/* Search and Filters */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
           {/* Search */}
           <div className="md:col-span-2 relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
@@ -251,6 +327,21 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
               <option value="NOT_ENROLLED">Not Enrolled</option>
             </select>
           </div>
+
+          {/* Batch Filter */}
+          <div className="relative">
+            <Layers className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <select
+              value={batchFilter}
+              onChange={(e) => setBatchFilter(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none"
+            >
+              <option value="ALL">All Batches</option>
+              {batches.map(batch => (
+                <option key={batch.id} value={batch.id}>{batch.name}</option>
+              ))}
+            </select>
+          </div>
         </div>
 
         {/* Apply Filters Button */}
@@ -266,6 +357,7 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
               setSearchQuery('');
               setRoleFilter('ALL');
               setEnrollmentFilter('ALL');
+              setBatchFilter('ALL');
               setCurrentPage(1);
             }}
             className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors text-sm font-medium"
@@ -295,6 +387,36 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
                 <UserX className="w-4 h-4 inline mr-1" />
                 Unenroll
               </button>
+              {batches.length > 0 && (
+                <>
+                  <select
+                    value={targetBatchId}
+                    onChange={(e) => setTargetBatchId(e.target.value)}
+                    className="ml-2 px-2 py-1 border border-blue-300 rounded text-sm bg-white"
+                  >
+                    <option value="">Choose batch...</option>
+                    {batches.map(batch => (
+                      <option key={batch.id} value={batch.id}>{batch.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleBatchMembership(true)}
+                    disabled={!targetBatchId}
+                    className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <UserPlus className="w-4 h-4 inline mr-1" />
+                    Add to Batch
+                  </button>
+                  <button
+                    onClick={() => handleBatchMembership(false)}
+                    disabled={!targetBatchId}
+                    className="px-3 py-1 bg-orange-600 text-white rounded text-sm hover:bg-orange-700 disabled:opacity-50"
+                  >
+                    <UserMinus className="w-4 h-4 inline mr-1" />
+                    Remove from Batch
+                  </button>
+                </>
+              )}
               <button
                 onClick={() => setSelectedUserIds(new Set())}
                 className="px-3 py-1 bg-gray-600 text-white rounded text-sm hover:bg-gray-700"
@@ -306,6 +428,10 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
         )}
       </div>
 
+      {showBatches && (
+        <BatchManager batches={batches} onBatchesChange={fetchBatches} onError={setError} />
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center justify-between">
@@ -385,6 +511,15 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
                               <Mail className="w-3 h-3" />
                               {user.email}
                             </div>
+                            {user.batches && user.batches.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {user.batches.map(batch => (
+                                  <span key={batch.id} className="px-1.5 py-0.5 bg-indigo-50 text-indigo-700 rounded text-xs">
+                                    {batch.name}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         )}
                       </td>
@@ -456,14 +591,28 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
                       {/* Role Column */}
                       <td className="px-4 py-3">
                         {editingUserId === user.id ? (
-                          <select
-                            value={editForm.role || 'STUDENT'}
-                            onChange={(e) => setEditForm({ ...editForm, role: e.target.value as 'ADMIN' | 'STUDENT' })}
-                            className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
-                          >
-                            <option value="STUDENT">Student</option>
-                            <option value="ADMIN">Admin</option>
-                          </select>
+                          <div className="space-y-1">
+                            <select
+                              value={editForm.role || 'STUDENT'}
+                              onChange={(e) => setEditForm({ ...editForm, role: e.target.value as 'ADMIN' | 'STUDENT' })}
+                              className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                            >
+                              <option value="STUDENT">Student</option>
+                              <option value="ADMIN">Admin</option>
+                            </select>
+                            {editForm.role === 'ADMIN' && (
+                              <select
+                                value={editForm.staff_role || DEFAULT_STAFF_ROLE}
+                                onChange={(e) => setEditForm({ ...editForm, staff_role: e.target.value as StaffRole })}
+                                title={STAFF_ROLE_DESCRIPTIONS[editForm.staff_role || DEFAULT_STAFF_ROLE]}
+                                className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+                              >
+                                {STAFF_ROLES.map(staffRole => (
+                                  <option key={staffRole} value={staffRole}>{STAFF_ROLE_LABELS[staffRole]}</option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
                         ) : (
                           <span className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium ${
                             user.role === 'ADMIN'
@@ -471,7 +620,7 @@ export function UserManager({ onViewPerformance }: UserManagerProps) {
                               : 'bg-blue-100 text-blue-800'
                           }`}>
                             {user.role === 'ADMIN' ? <Shield className="w-3 h-3" /> : <GraduationCap className="w-3 h-3" />}
-                            {user.role}
+                            {user.role === 'ADMIN' ? STAFF_ROLE_LABELS[getStaffRole(user)!] : user.role}
                           </span>
                         )}
                       </td>
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { updateUserData } from '../../lib/auth';
 import { userApi } from '../../lib/api';
+import { STAFF_ROLE_LABELS, getStaffRole } from '../../lib/permissions';
 import { User, Mail, Phone, Building, MapPin, Shield } from 'lucide-react';
 
 const UserProfile = () => {
@@ -112,7 +113,7 @@ const UserProfile = () => {
                     : 'bg-green-100 text-green-800'
                 }`}>
                   <Shield className="w-4 h-4" />
-                  {userData.role === 'ADMIN' ? 'Admin' : 'Student'}
+                  {userData.role === 'ADMIN' ? STAFF_ROLE_LABELS[getStaffRole(userData)!] : 'Student'}
                 </span>
               </div>
             )}
@@ -1,6 +1,8 @@
 import { ReactNode } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { Capability } from '../../types';
+import { CAPABILITY_LABELS, STAFF_ROLE_LABELS, getStaffRole, hasAnyCapability } from '../../lib/permissions';
 import { Shield, AlertCircle } from 'lucide-react';
 
 interface ProtectedRouteProps {
@@ -9,19 +11,70 @@ interface ProtectedRouteProps {
   redirectTo?: string;
 }
 
+interface CapabilityRouteProps {
+  children: ReactNode;
+  requiredCapabilities: Capability[]; // Any one of them grants access
+  redirectTo?: string;
+}
+
+const LoadingScreen = () => (
+  <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+    <div className="text-center">
+      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+      <p className="text-gray-600">Loading...</p>
+    </div>
+  </div>
+);
+
+interface AccessDeniedProps {
+  notice?: ReactNode;
+  current: string;
+  required: string;
+  redirectTo: string;
+}
+
+const AccessDenied = ({ notice, current, required, redirectTo }: AccessDeniedProps) => (
+  <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+    <div className="bg-white rounded-lg shadow-lg p-8 max-w-md w-full">
+      <div className="text-center">
+        <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100 mb-4">
+          <AlertCircle className="h-10 w-10 text-red-600" />
+        </div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
+        <p className="text-gray-600 mb-6">
+          You don't have permission to access this page.
+          {notice && (
+            <span className="block mt-2 text-sm">
+              <Shield className="inline w-4 h-4 mr-1" />
+              {notice}
+            </span>
+          )}
+        </p>
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">
+            Current role: <span className="font-semibold">{current}</span>
+          </p>
+          <p className="text-sm text-gray-500">
+            Required: <span className="font-semibold">{required}</span>
+          </p>
+        </div>
+        <button
+          onClick={() => window.location.href = redirectTo}
+          className="mt-6 w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Go to Home
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
 export function ProtectedRoute({ children, requiredRole, redirectTo = '/' }: ProtectedRouteProps) {
   const { currentUser, userData, loading } = useAuth();
 
   // Show loading while checking auth
   if (loading) {
-    return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading...</p>
-        </div>
-      </div>
-    );
+    return <LoadingScreen />;
   }
 
   // Redirect to login if not authenticated
@@ -32,39 +85,42 @@ export function ProtectedRoute({ children, requiredRole, redirectTo = '/' }: Pro
   // Check role-based access
   if (requiredRole && userData?.role !== requiredRole) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
-        <div className="bg-white rounded-lg shadow-lg p-8 max-w-md w-full">
-          <div className="text-center">
-            <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100 mb-4">
-              <AlertCircle className="h-10 w-10 text-red-600" />
-            </div>
-            <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
-            <p className="text-gray-600 mb-6">
-              You don't have permission to access this page.
-              {requiredRole === 'ADMIN' && (
-                <span className="block mt-2 text-sm">
-                  <Shield className="inline w-4 h-4 mr-1" />
-                  This page requires administrator privileges.
-                </span>
-              )}
-            </p>
-            <div className="space-y-2">
-              <p className="text-sm text-gray-500">
-                Current role: <span className="font-semibold">{userData?.role || 'Unknown'}</span>
-              </p>
-              <p className="text-sm text-gray-500">
-                Required role: <span className="font-semibold">{requiredRole}</span>
-              </p>
-            </div>
-            <button
-              onClick={() => window.location.href = redirectTo}
-              className="mt-6 w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              Go to Home
-            </button>
-          </div>
-        </div>
-      </div>
+      <AccessDenied
+        notice={requiredRole === 'ADMIN' && 'This page requires administrator privileges.'}
+        current={userData?.role || 'Unknown'}
+        required={requiredRole}
+        redirectTo={redirectTo}
+      />
+    );
+  }
+
+  return <>{children}</>;
+}
+
+/**
+ * Like ProtectedRoute, but checks the staff capabilities of the user instead
+ * of their role, so e.g. a content author can't open user management
+ */
+export function CapabilityRoute({ children, requiredCapabilities, redirectTo = '/' }: CapabilityRouteProps) {
+  const { currentUser, userData, loading } = useAuth();
+
+  if (loading) {
+    return <LoadingScreen />;
+  }
+
+  if (!currentUser) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!hasAnyCapability(userData, requiredCapabilities)) {
+    const staffRole = getStaffRole(userData);
+    return (
+      <AccessDenied
+        notice="Ask a super admin to change your staff role if you need this page."
+        current={staffRole ? STAFF_ROLE_LABELS[staffRole] : userData?.role || 'Unknown'}
+        required={requiredCapabilities.map(capability => CAPABILITY_LABELS[capability]).join(' or ')}
+        redirectTo={redirectTo}
+      />
     );
   }
 
@@ -0,0 +1,168 @@
+import { getOptionLabel } from '../../lib/questionOrder';
+import { formatNumericAnswer, getQuestionType, isOptionSelected, toggleSelectedIndex } from '../../lib/questionTypes';
+import { AnswerPayload, QuestionType } from '../../types';
+import { LaTeX } from '../LaTeX';
+import { TextWithLaTeX } from '../TextWithLaTeX';
+import { BookOpen, CheckCircle, PlayCircle, XCircle } from 'lucide-react';
+
+interface AnswerableQuestionData {
+  id: string;
+  question_text?: string;
+  question_latex?: string;
+  image_url?: string;
+  question_type?: QuestionType;
+  options: Array<{ option_index: number; option_text: string }>;
+}
+
+// The answer key and solution, shown once the answer has been checked
+export interface AnswerFeedback {
+  isCorrect: boolean;
+  correctIndices: number[];
+  numericAnswer?: number | null;
+  numericTolerance?: number | null;
+  explanationLatex?: string | null;
+  videoSolutionUrl?: string | null;
+}
+
+interface AnswerableQuestionProps {
+  question: AnswerableQuestionData;
+  answer: AnswerPayload;
+  onAnswerChange: (answer: AnswerPayload) => void;
+  feedback?: AnswerFeedback | null;
+}
+
+/**
+ * A question the student answers outside an exam (practice, mistakes notebook),
+ * with instant feedback and the explanation once checked
+ */
+export function AnswerableQuestion({ question, answer, onAnswerChange, feedback }: AnswerableQuestionProps) {
+  const questionType = getQuestionType(question);
+
+  const handleSelectOption = (optionIndex: number) => {
+    if (feedback) return;
+    if (questionType === 'MULTI_SELECT') {
+      onAnswerChange(toggleSelectedIndex(answer, optionIndex));
+    } else {
+      onAnswerChange({ selected_option_index: answer.selected_option_index === optionIndex ? null : optionIndex });
+    }
+  };
+
+  const handleNumericAnswer = (value: string) => {
+    const number = value.trim() === '' ? NaN : Number(value);
+    onAnswerChange({ selected_option_index: null, numeric_answer: Number.isFinite(number) ? number : null });
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        {question.question_text && (
+          <div className="text-lg text-gray-900 mb-4">
+            <TextWithLaTeX text={question.question_text} />
+          </div>
+        )}
+        {question.question_latex && (
+          <div className="mb-4">
+            <LaTeX block>{question.question_latex}</LaTeX>
+          </div>
+        )}
+        {question.image_url && (
+          <img src={question.image_url} alt="Question" className="max-w-full h-auto rounded-lg border border-gray-200" />
+        )}
+      </div>
+
+      {/* Answer */}
+      {questionType === 'NUMERIC' ? (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Your answer</label>
+          <input
+            key={question.id}
+            type="number"
+            step="any"
+            onChange={(e) => handleNumericAnswer(e.target.value)}
+            disabled={!!feedback}
+            placeholder="Enter a number"
+            className="w-full max-w-xs px-4 py-3 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:outline-none disabled:opacity-60"
+          />
+          {feedback && (
+            <p className="mt-2 text-sm text-gray-700">
+              Correct answer: <span className="font-semibold">{formatNumericAnswer(feedback.numericAnswer, feedback.numericTolerance)}</span>
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {questionType === 'MULTI_SELECT' && (
+            <p className="text-sm text-gray-600">Select all that apply</p>
+          )}
+          {[...question.options]
+            .sort((a, b) => a.option_index - b.option_index)
+            .map((option, position) => {
+              const isSelected = isOptionSelected(answer, option.option_index);
+              const isKey = !!feedback && feedback.correctIndices.includes(option.option_index);
+              const style = feedback
+                ? isKey
+                  ? 'border-green-500 bg-green-50'
+                  : isSelected ? 'border-red-500 bg-red-50' : 'border-gray-200 bg-white opacity-70'
+                : isSelected
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-gray-300 bg-white hover:border-blue-300 hover:bg-blue-50';
+
+              return (
+                <button
+                  key={option.option_index}
+                  onClick={() => handleSelectOption(option.option_index)}
+                  disabled={!!feedback}
+                  className={`w-full text-left p-4 rounded-lg border-2 transition-all ${style}`}
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="font-semibold text-gray-700">{getOptionLabel(position)}.</span>
+                    <div className="flex-1">
+                      <TextWithLaTeX text={option.option_text} />
+                    </div>
+                    {isKey && <CheckCircle className="w-5 h-5 text-green-600" />}
+                    {feedback && isSelected && !isKey && <XCircle className="w-5 h-5 text-red-600" />}
+                  </div>
+                </button>
+              );
+            })}
+        </div>
+      )}
+
+      {/* Feedback */}
+      {feedback && (
+        <div className="mt-6 space-y-4">
+          <div className={`p-4 rounded-lg flex items-center gap-2 font-semibold ${
+            feedback.isCorrect ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}>
+            {feedback.isCorrect ? <CheckCircle className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+            {feedback.isCorrect ? 'Correct!' : 'Not quite.'}
+          </div>
+
+          {feedback.explanationLatex && (
+            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+              <h6 className="font-semibold text-blue-900 mb-3 flex items-center gap-2">
+                <BookOpen className="w-4 h-4" />
+                Explanation
+              </h6>
+              <div className="text-sm text-blue-800">
+                <LaTeX block>{feedback.explanationLatex}</LaTeX>
+              </div>
+            </div>
+          )}
+
+          {feedback.videoSolutionUrl && (
+            <a
+              href={feedback.videoSolutionUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 text-sm font-medium"
+            >
+              <PlayCircle className="w-4 h-4" />
+              Watch Solution Video
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
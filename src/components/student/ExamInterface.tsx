@@ -1,7 +1,10 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Exam } from '../../types';
+import { AnswerPayload, Exam } from '../../types';
 import { LaTeX } from '../LaTeX';
-import { attemptApi } from '../../lib/api';
+import { ApiError, attemptApi } from '../../lib/api';
+import { getAttemptSeed, orderOptions, orderQuestions } from '../../lib/questionOrder';
+import { isSectionedExam } from '../../lib/examSections';
+import { getQuestionType, hasAnswer, isOptionSelected, toggleSelectedIndex } from '../../lib/questionTypes';
 import { TextWithLaTeX } from '../TextWithLaTeX';
 import { ExamTimer } from '../ExamTimer';
 import { AlertCircle } from 'lucide-react';
@@ -15,13 +18,14 @@ interface ExamInterfaceProps {
 
 export function ExamInterface({ exam, studentName, studentEmail, onSubmit }: ExamInterfaceProps) {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<Record<string, number>>({});
+  const [answers, setAnswers] = useState<Record<string, AnswerPayload>>({});
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [attemptId, setAttemptId] = useState<string | null>(null);
   const [isStarting, setIsStarting] = useState(true);
   const [examQuestions, setExamQuestions] = useState<any[]>([]);
   const [totalTimeSeconds, setTotalTimeSeconds] = useState<number>(0);
+  const [expiresAt, setExpiresAt] = useState<string | undefined>(undefined);
   const [isTimeUp, setIsTimeUp] = useState(false);
   const [uiLocked, setUiLocked] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -129,32 +133,44 @@ export function ExamInterface({ exam, studentName, studentEmail, onSubmit }: Exa
             total_time_seconds: attemptResponse.total_time_seconds
           });
           setTotalTimeSeconds(attemptResponse.total_time_seconds);
+          setExpiresAt(attemptResponse.expires_at);
         } else {
           throw new Error('No total_time_seconds received from backend');
         }
         
         // Extract questions from the start response according to API spec
         if (attemptResponse.questions && attemptResponse.questions.length > 0) {
-          const questions = attemptResponse.questions.map((q: any) => {
+          // Deal questions and options in this attempt's (deterministic) order
+          const seed = getAttemptSeed(attemptResponse);
+          const canonicalQuestions = [...attemptResponse.questions].sort((a, b) =>
+            a.questionSetPosition - b.questionSetPosition || a.questionPosition - b.questionPosition
+          );
+          // Sectioned exams only shuffle within sets, like orderExamQuestions on the review pages
+          const settings = isSectionedExam(exam.question_sets) ? { ...exam, shuffle_within_sets: true } : exam;
+          const orderedQuestions = orderQuestions(canonicalQuestions, q => String(q.questionSetPosition), settings, seed);
+
+          const questions = orderedQuestions.map((q: any) => {
             // According to API spec, structure is: { questionSetPosition, questionPosition, question: {...} }
             const questionData = q.question;
             
-            // Handle options - according to spec, they're an array of strings
-            let options = questionData.options || [];
+            // Handle options - according to spec, they're an array of strings (option_index = position + 1)
+            const rawOptions: any[] = questionData.options || [];
             
-            // If options are objects (from database), extract the text and sort by option_index
-            if (options.length > 0 && typeof options[0] === 'object') {
-              options = options
-                .sort((a: any, b: any) => (a.option_index || 0) - (b.option_index || 0))
-                .map((opt: any) => opt.option_text || opt.text || String(opt));
-            }
+            // If options are objects (from database), keep their option_index and extract the text
+            const indexedOptions = rawOptions.map((opt: any, i: number) => typeof opt === 'object'
+              ? { option_index: opt.option_index || i + 1, text: opt.option_text || opt.text || String(opt) }
+              : { option_index: i + 1, text: opt }
+            );
+            const displayOptions = orderOptions(questionData.id, indexedOptions, exam, seed);
             
             return {
               id: questionData.id,
               question_text: questionData.text || questionData.question_text,
               question_latex: questionData.question_latex,
               image_url: questionData.image_url,
-              options: options,
+              question_type: getQuestionType(questionData),
+              options: displayOptions.map(opt => opt.text),
+              optionIndexes: displayOptions.map(opt => opt.option_index), // Display position -> backend option_index
               topic: questionData.topic?.name || 'Unknown',
               marks: questionData.marks || 1
             };
@@ -182,30 +198,30 @@ export function ExamInterface({ exam, studentName, studentEmail, onSubmit }: Exa
     startExamAttempt();
   }, [exam.id]);
 
-  // Backup safety check: Periodically verify time hasn't expired (every 10 seconds)
-  // This ensures auto-submit happens even if timer component has issues
+  // Backup safety check: Periodically ask the server whether time has expired (every 30 seconds)
+  // This ensures auto-submit happens even if timer component has issues; the server clock is authoritative
   useEffect(() => {
     if (!attemptId || !totalTimeSeconds || isSubmitted || hasAutoSubmitted.current) {
       return;
     }
 
-    const timerStartKey = `exam_timer_start_${attemptId}`;
-    
-    const checkTimeExpiry = () => {
-      const startTime = localStorage.getItem(timerStartKey);
-      if (!startTime) return;
-      
-      const elapsed = Math.floor((Date.now() - parseInt(startTime)) / 1000);
-      
-      if (elapsed >= totalTimeSeconds && !hasAutoSubmitted.current && !isTimeUp) {
-        console.log('Safety check: Time expired, triggering auto-submit');
-        setIsTimeUp(true);
-        setUiLocked(true);
-        handleAutoSubmit(attemptId);
+    const checkTimeExpiry = async () => {
+      try {
+        const { time_remaining_seconds } = await attemptApi.getTimeRemaining(attemptId);
+        
+        if (time_remaining_seconds <= 0 && !hasAutoSubmitted.current && !isTimeUp) {
+          console.log('Safety check: Server reports time expired, triggering auto-submit');
+          setIsTimeUp(true);
+          setUiLocked(true);
+          handleAutoSubmit(attemptId);
+        }
+      } catch (err) {
+        // Timer keeps counting down locally while the server is unreachable
+        console.error('Safety check: Failed to fetch time remaining:', err);
       }
     };
 
-    const interval = setInterval(checkTimeExpiry, 10000); // Check every 10 seconds
+    const interval = setInterval(checkTimeExpiry, 30000); // Check every 30 seconds
     return () => clearInterval(interval);
   }, [totalTimeSeconds, isSubmitted, isTimeUp, attemptId, handleAutoSubmit]);
 
@@ -242,25 +258,19 @@ export function ExamInterface({ exam, studentName, studentEmail, onSubmit }: Exa
 
   const currentQuestion = examQuestions[currentQuestionIndex];
 
-  const handleAnswer = async (questionId: string, answerIndex: number) => {
-    // Don't allow answers if UI is locked (time expired)
-    if (uiLocked || isTimeUp || isSubmitted || isSubmitting) return;
-
+  const saveAnswer = async (questionId: string, answer: AnswerPayload) => {
     // Update local state
     setAnswers(prev => ({
       ...prev,
-      [questionId]: answerIndex
+      [questionId]: answer
     }));
 
     // Submit answer to backend if attempt has started
     if (attemptId) {
       try {
-        // answerIndex is already 0-based from our option mapping
-        // Backend expects 1-based, so add 1
-        const backendIndex = answerIndex + 1;
         await attemptApi.submitAnswer(attemptId, {
           question_id: questionId,
-          selected_option_index: backendIndex,
+          ...answer,
         });
       } catch (err: any) {
         console.error('Error submitting answer:', err);
@@ -269,6 +279,32 @@ export function ExamInterface({ exam, studentName, studentEmail, onSubmit }: Exa
     }
   };
 
+  const handleAnswer = async (questionId: string, answerIndex: number) => {
+    // Don't allow answers if UI is locked (time expired)
+    if (uiLocked || isTimeUp || isSubmitted || isSubmitting) return;
+
+    // answerIndex is the 0-based display position; map it back to the canonical option_index
+    const question = examQuestions.find(q => q.id === questionId);
+    const backendIndex = question?.optionIndexes?.[answerIndex] ?? answerIndex + 1;
+
+    if (question?.question_type === 'MULTI_SELECT') {
+      await saveAnswer(questionId, toggleSelectedIndex(answers[questionId], backendIndex));
+    } else {
+      await saveAnswer(questionId, { selected_option_index: backendIndex });
+    }
+  };
+
+  // Numeric answers are saved when the input loses focus
+  const handleNumericAnswer = async (questionId: string, value: string) => {
+    if (uiLocked || isTimeUp || isSubmitted || isSubmitting) return;
+
+    const parsed = value.trim() === '' ? null : Number(value);
+    if (parsed !== null && !Number.isFinite(parsed)) return;
+    if (parsed === (answers[questionId]?.numeric_answer ?? null)) return;
+
+    await saveAnswer(questionId, { selected_option_index: null, numeric_answer: parsed });
+  };
+
   // Manual submit exam
   const handleSubmit = async () => {
     if (isSubmitted || isSubmitting || !attemptId || uiLocked) return;
@@ -308,7 +344,7 @@ export function ExamInterface({ exam, studentName, studentEmail, onSubmit }: Exa
     } catch (err: any) {
       console.error('Error submitting exam:', err);
       // Handle 410 Gone - attempt already expired/submitted
-      if (err.message?.includes('410') || err.message?.includes('expired') || err.message?.includes('already submitted')) {
+      if ((err instanceof ApiError && err.status === 410) || err.message?.includes('expired') || err.message?.includes('already submitted')) {
         setError('This exam has already been submitted or expired.');
         setIsSubmitted(true);
         onSubmit({ attemptId });
@@ -342,7 +378,7 @@ export function ExamInterface({ exam, studentName, studentEmail, onSubmit }: Exa
     setCurrentQuestionIndex(index);
   };
 
-  const answeredQuestions = Object.keys(answers).length;
+  const answeredQuestions = Object.values(answers).filter(hasAnswer).length;
   const progress = examQuestions.length > 0 ? (answeredQuestions / examQuestions.length) * 100 : 0;
 
   return (
@@ -363,6 +399,7 @@ export function ExamInterface({ exam, studentName, studentEmail, onSubmit }: Exa
               <ExamTimer 
                 totalTimeSeconds={totalTimeSeconds}
                 attemptId={attemptId}
+                expiresAt={expiresAt}
                 onTimeUp={handleTimeUp}
                 showWarnings={true}
                 className="flex-shrink-0"
@@ -459,32 +496,53 @@ export function ExamInterface({ exam, studentName, studentEmail, onSubmit }: Exa
             </div>
 
             {/* Answer Options */}
+            {currentQuestion.question_type === 'NUMERIC' ? (
+              <div className="mb-6 sm:mb-8">
+                <label className="block text-sm sm:text-base font-medium text-gray-700 mb-2">
+                  Your answer
+                </label>
+                <input
+                  key={currentQuestion.id}
+                  type="number"
+                  step="any"
+                  defaultValue={answers[currentQuestion.id]?.numeric_answer ?? ''}
+                  onBlur={(e) => handleNumericAnswer(currentQuestion.id, e.target.value)}
+                  disabled={uiLocked || isTimeUp || isSubmitted || isSubmitting}
+                  placeholder="Enter a number"
+                  className="w-full max-w-xs p-4 text-base sm:text-lg border-2 border-gray-200 rounded-xl focus:border-indigo-500 focus:outline-none disabled:opacity-50"
+                />
+              </div>
+            ) : (
             <div className="space-y-3 sm:space-y-4 mb-6 sm:mb-8">
+              {currentQuestion.question_type === 'MULTI_SELECT' && (
+                <p className="text-sm text-gray-600">Select all that apply</p>
+              )}
               {currentQuestion.options.map((option: string, index: number) => {
                 // Options are now guaranteed to be strings from our mapping above
                 const optionText = option || '';
                 const optionIndex = index;
+                const isSelected = isOptionSelected(answers[currentQuestion.id], currentQuestion.optionIndexes[index]);
                 
                 return (
                   <label
                     key={index}
                     className={`group flex items-start sm:items-center p-4 sm:p-5 md:p-6 border-2 rounded-xl cursor-pointer transition-all duration-200 ${
-                      answers[currentQuestion.id] === optionIndex
+                      isSelected
                         ? 'border-indigo-500 bg-gradient-to-r from-indigo-50 to-purple-50 shadow-md scale-[1.02]'
                         : 'border-gray-200 hover:border-indigo-300 hover:bg-indigo-50/50 hover:shadow-sm'
                     }`}
                   >
                     <input
-                      type="radio"
+                      type={currentQuestion.question_type === 'MULTI_SELECT' ? 'checkbox' : 'radio'}
                       name={`question-${currentQuestion.id}`}
                       value={optionIndex}
-                      checked={answers[currentQuestion.id] === optionIndex}
+                      checked={isSelected}
                       onChange={() => handleAnswer(currentQuestion.id, optionIndex)}
                       disabled={uiLocked || isTimeUp || isSubmitted || isSubmitting}
                       className="w-5 h-5 sm:w-6 sm:h-6 text-indigo-600 mr-3 sm:mr-4 mt-0.5 sm:mt-0 flex-shrink-0 disabled:opacity-50"
                     />
                     <div className={`text-sm sm:text-base md:text-lg flex-1 ${
-                      answers[currentQuestion.id] === optionIndex ? 'text-gray-900 font-medium' : 'text-gray-700'
+                      isSelected ? 'text-gray-900 font-medium' : 'text-gray-700'
                     }`}>
                       <TextWithLaTeX text={optionText} />
                     </div>
@@ -492,6 +550,7 @@ export function ExamInterface({ exam, studentName, studentEmail, onSubmit }: Exa
                 );
               })}
             </div>
+            )}
 
             {/* Navigation Buttons */}
             <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-3 sm:gap-4 pt-4 sm:pt-6 border-t border-gray-200">
@@ -539,7 +598,7 @@ export function ExamInterface({ exam, studentName, studentEmail, onSubmit }: Exa
                   className={`aspect-square flex items-center justify-center text-xs font-semibold rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
                     currentQuestionIndex === index
                       ? 'bg-gradient-to-br from-indigo-500 to-purple-500 text-white shadow-md scale-110'
-                      : answers[question.id] !== undefined
+                      : hasAnswer(answers[question.id])
                       ? 'bg-green-100 text-green-700 border border-green-300 hover:bg-green-200'
                       : 'bg-gray-100 text-gray-600 border border-gray-300 hover:bg-gray-200'
                   }`}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { Maximize, ShieldAlert } from 'lucide-react';
+import { INTEGRITY_EVENT_LABELS, RecordedIntegrityEvent } from '../../lib/integrityMonitor';
+
+interface ProctoringGuardProps {
+  active: boolean; // False once the attempt is being submitted
+  requireFullscreen?: boolean;
+  violationCount: number;
+  maxViolations?: number | null;
+  lastEvent: RecordedIntegrityEvent | null; // Most recent event, shown as a warning
+}
+
+const WARNING_DURATION_MS = 6000;
+
+/**
+ * Proctoring UI for an attempt. Keeps the exam behind a prompt while fullscreen is
+ * required but not active, and warns the student whenever an integrity event is recorded.
+ * Recording itself is done by IntegrityMonitor.
+ */
+export function ProctoringGuard({
+  active,
+  requireFullscreen = false,
+  violationCount,
+  maxViolations,
+  lastEvent
+}: ProctoringGuardProps) {
+  const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
+  const [warning, setWarning] = useState<RecordedIntegrityEvent | null>(null);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  useEffect(() => {
+    if (!lastEvent) return;
+    setWarning(lastEvent);
+    const timeout = setTimeout(() => setWarning(null), WARNING_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [lastEvent]);
+
+  const enterFullscreen = () => {
+    document.documentElement.requestFullscreen().catch(err => {
+      console.error('Could not enter fullscreen:', err);
+    });
+  };
+
+  if (!active) return null;
+
+  const remaining = maxViolations ? Math.max(0, maxViolations - violationCount) : null;
+  const limitText = remaining === null
+    ? 'This has been recorded and will be visible to your examiner.'
+    : `This has been recorded. Your exam will be submitted automatically after ${remaining} more.`;
+
+  return (
+    <>
+      {warning && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-full max-w-lg px-4">
+          <div className="bg-orange-100 border-2 border-orange-400 text-orange-900 rounded-lg shadow-lg px-4 py-3 flex items-start gap-3">
+            <ShieldAlert className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-semibold">{INTEGRITY_EVENT_LABELS[warning.type]}</p>
+              <p>{limitText}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {requireFullscreen && !isFullscreen && (
+        <div className="fixed inset-0 bg-gray-900 bg-opacity-95 z-40 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg shadow-2xl max-w-md w-full p-8 text-center">
+            <Maximize className="w-12 h-12 text-blue-600 mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-gray-900 mb-2">Fullscreen Required</h2>
+            <p className="text-gray-600 mb-2">
+              This exam must be taken in fullscreen. Leaving fullscreen is recorded as a violation.
+            </p>
+            {violationCount > 0 && (
+              <p className="text-sm text-orange-700 mb-2">
+                Violations recorded: {violationCount}{maxViolations ? ` of ${maxViolations}` : ''}
+              </p>
+            )}
+            <button
+              onClick={enterFullscreen}
+              className="mt-4 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-semibold"
+            >
+              Enter Fullscreen
+            </button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,103 @@
+import { Timer } from 'lucide-react';
+import { formatDuration } from '../../lib/questionTiming';
+
+interface QuestionTimeCell {
+  number: number; // 1-based, as shown in the review
+  timeSpentSeconds: number;
+  visitCount: number;
+  answerChanges: number;
+  isCorrect: boolean;
+}
+
+interface QuestionTimeHeatmapProps {
+  questions: QuestionTimeCell[];
+  onSelect?: (number: number) => void;
+}
+
+// Light to dark, as a share of the longest time spent on a question
+const HEAT_STYLES = ['bg-orange-50', 'bg-orange-100', 'bg-orange-200', 'bg-orange-300', 'bg-orange-400', 'bg-orange-500 text-white'];
+
+/**
+ * Time spent on each question of an attempt, as a heatmap grid
+ */
+export function QuestionTimeHeatmap({ questions, onSelect }: QuestionTimeHeatmapProps) {
+  const totalSeconds = questions.reduce((sum, question) => sum + question.timeSpentSeconds, 0);
+  const longest = questions.reduce<QuestionTimeCell | null>(
+    (max, question) => (!max || question.timeSpentSeconds > max.timeSpentSeconds ? question : max),
+    null
+  );
+  const maxSeconds = longest?.timeSpentSeconds || 0;
+  const revisited = questions.filter(question => question.visitCount > 1).length;
+  const changed = questions.filter(question => question.answerChanges > 0).length;
+
+  const getHeatStyle = (seconds: number) => {
+    if (maxSeconds === 0) return HEAT_STYLES[0];
+    return HEAT_STYLES[Math.min(HEAT_STYLES.length - 1, Math.floor((seconds / maxSeconds) * HEAT_STYLES.length))];
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex items-center gap-2 mb-4">
+        <Timer className="w-5 h-5 text-orange-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Time per Question</h3>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 text-sm">
+        <div>
+          <p className="text-gray-600">Time on questions</p>
+          <p className="text-lg font-semibold text-gray-900">{formatDuration(totalSeconds)}</p>
+        </div>
+        <div>
+          <p className="text-gray-600">Average per question</p>
+          <p className="text-lg font-semibold text-gray-900">
+            {formatDuration(questions.length > 0 ? totalSeconds / questions.length : 0)}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-600">Longest</p>
+          <p className="text-lg font-semibold text-gray-900">
+            {longest ? `Q${longest.number} · ${formatDuration(longest.timeSpentSeconds)}` : '-'}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-600">Revisited / changed</p>
+          <p className="text-lg font-semibold text-gray-900">{revisited} / {changed}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-5 sm:grid-cols-8 md:grid-cols-10 gap-2">
+        {questions.map(question => (
+          <button
+            key={question.number}
+            onClick={() => onSelect?.(question.number)}
+            title={`Question ${question.number}: ${formatDuration(question.timeSpentSeconds)}, ` +
+              `${question.visitCount} visit${question.visitCount !== 1 ? 's' : ''}, ` +
+              `${question.answerChanges} answer change${question.answerChanges !== 1 ? 's' : ''}`}
+            className={`rounded-lg border-2 p-1 text-center transition-transform hover:scale-105 ${
+              getHeatStyle(question.timeSpentSeconds)
+            } ${question.isCorrect ? 'border-green-500' : 'border-red-500'}`}
+          >
+            <div className="text-sm font-bold">{question.number}</div>
+            <div className="text-xs">{formatDuration(question.timeSpentSeconds)}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mt-4 text-xs text-gray-600">
+        <div className="flex items-center gap-1">
+          <span>Less time</span>
+          {HEAT_STYLES.map(style => (
+            <span key={style} className={`w-4 h-4 rounded ${style}`} />
+          ))}
+          <span>More time</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="w-4 h-4 rounded border-2 border-green-500" /> Correct
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="w-4 h-4 rounded border-2 border-red-500" /> Incorrect
+        </div>
+      </div>
+    </div>
+  );
+}
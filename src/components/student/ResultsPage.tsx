@@ -1,23 +1,35 @@
 import { useState } from 'react';
-import { StudentResult, Question, Topic } from '../../types';
+import { StudentResult, Question, Topic, MarkingScheme } from '../../types';
 import { LaTeX } from '../LaTeX';
 import { Award, AlertTriangle, CheckCircle2, XCircle, Film, ArrowRight, User } from 'lucide-react';
 import { VideoPlayer } from '../VideoPlayer';
 import { TextWithLaTeX } from '../TextWithLaTeX';
 import { TopicHeader } from './TopicHeader';
+import { calculateMarks, formatMarks } from '../../lib/marking';
 
 interface ResultsPageProps {
   result: StudentResult;
   questions: Question[];
   topics: Topic[];
+  markingScheme?: Partial<MarkingScheme>; // Exam marking scheme, defaults to one mark per correct answer
 }
 
-export function ResultsPage({ result, questions, topics }: ResultsPageProps) {
+export function ResultsPage({ result, questions, topics, markingScheme }: ResultsPageProps) {
   const [showVideoModal, setShowVideoModal] = useState<string | null>(null);
-  const percentage = Math.round((result.score / result.total_questions) * 100);
-
   const incorrectQuestions = questions.filter(q => result.answers[q.id] !== q.correct_answer);
 
+  const marks = calculateMarks(
+    questions.map(q => ({
+      selected_option_index: result.answers[q.id] ?? null,
+      is_correct: !incorrectQuestions.includes(q),
+      question: q,
+    })),
+    markingScheme
+  );
+  const percentage = marks.maximum > 0
+    ? Math.round(marks.percentage)
+    : Math.round((result.score / result.total_questions) * 100);
+
   const incorrectQuestionsByTopic: { [topicName: string]: Question[] } = {};
   incorrectQuestions.forEach(q => {
     const topicName = q.topic || 'Uncategorized';
@@ -75,6 +87,12 @@ export function ResultsPage({ result, questions, topics }: ResultsPageProps) {
               </div>
               <p className="text-xs text-gray-500 uppercase tracking-wider mb-1">Score</p>
               <p className="text-3xl font-bold text-blue-600">{percentage}%</p>
+              {marks.maximum > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatMarks(marks.obtained)} / {formatMarks(marks.maximum)} marks
+                  {marks.lost > 0 && ` (${formatMarks(-marks.lost)} penalty)`}
+                </p>
+              )}
             </div>
 
             <div className="text-center p-4 rounded-xl bg-purple-50 border border-purple-100 hover:shadow-md transition-shadow">
@@ -0,0 +1,71 @@
+import { Layers } from 'lucide-react';
+import { formatMarks } from '../../lib/marking';
+
+interface SectionScore {
+  position: number;
+  title: string;
+  total_questions: number;
+  correct_answers: number;
+  marks_obtained?: number;
+  total_marks?: number;
+}
+
+interface SectionPerformanceProps {
+  sections: SectionScore[];
+}
+
+/**
+ * Section-wise score breakdown for sectioned exams
+ */
+export function SectionPerformance({ sections }: SectionPerformanceProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Layers className="w-6 h-6 text-indigo-600" />
+        <h2 className="text-xl font-bold text-gray-900">Section-wise Performance</h2>
+      </div>
+
+      <div className="space-y-4">
+        {[...sections].sort((a, b) => a.position - b.position).map(section => {
+          const { marks_obtained, total_marks } = section;
+          const hasMarks = marks_obtained !== undefined && !!total_marks;
+          const percentage = hasMarks
+            ? (marks_obtained / total_marks) * 100
+            : section.total_questions > 0 ? (section.correct_answers / section.total_questions) * 100 : 0;
+
+          return (
+            <div key={section.position} className="border-b border-gray-200 pb-4 last:border-0 last:pb-0">
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-medium text-gray-900">{section.title}</h3>
+                <span className={`text-sm font-semibold ${
+                  percentage >= 80 ? 'text-green-600' :
+                  percentage >= 60 ? 'text-yellow-600' :
+                  'text-red-600'
+                }`}>
+                  {percentage.toFixed(0)}%
+                </span>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <div className="flex-1 bg-gray-200 rounded-full h-3">
+                  <div
+                    className={`h-3 rounded-full transition-all ${
+                      percentage >= 80 ? 'bg-green-500' :
+                      percentage >= 60 ? 'bg-yellow-500' :
+                      'bg-red-500'
+                    }`}
+                    style={{ width: `${Math.min(100, Math.max(0, percentage))}%` }}
+                  />
+                </div>
+                <span className="text-sm text-gray-600 whitespace-nowrap">
+                  {section.correct_answers} / {section.total_questions} correct
+                  {hasMarks && ` · ${formatMarks(marks_obtained)}/${formatMarks(total_marks)} marks`}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
-import { analyticsApi, attemptApi } from '../../lib/api';
+import { analyticsApi, attemptApi, isAbortError, topicApi } from '../../lib/api';
 import { EnhancedAnalyticsService } from '../../lib/enhancedAnalytics';
+import { getMarkedPercentage } from '../../lib/marking';
+import { TopicMastery, computeTopicMastery } from '../../lib/topicMastery';
+import { TopicMasteryMap } from './TopicMasteryMap';
 import { useAuth } from '../../contexts/AuthContext';
 import { 
   FileText, 
@@ -25,12 +28,15 @@ export function StudentAnalyticsDashboard() {
   const [userPerformance, setUserPerformance] = useState<any>(null);
   const [topicPerformance, setTopicPerformance] = useState<any[]>([]);
   const [myAttempts, setMyAttempts] = useState<any[]>([]);
+  const [topicMastery, setTopicMastery] = useState<TopicMastery[]>([]);
 
   useEffect(() => {
-    loadAnalytics();
+    const controller = new AbortController();
+    loadAnalytics(controller.signal);
+    return () => controller.abort();
   }, [userData]);
 
-  const loadAnalytics = async () => {
+  const loadAnalytics = async (signal?: AbortSignal) => {
     if (!userData) return;
 
     try {
@@ -40,7 +46,8 @@ export function StudentAnalyticsDashboard() {
       console.log('Loading student analytics for user:', userData.id);
 
       // Get enhanced user performance data
-      const dashboardData = await EnhancedAnalyticsService.getDashboardData(userData.id, false);
+      const dashboardData = await EnhancedAnalyticsService.getDashboardData(userData.id, false, undefined, { signal });
+      if (signal?.aborted) return;
       
       console.log('Student dashboard data:', dashboardData);
 
@@ -49,17 +56,38 @@ export function StudentAnalyticsDashboard() {
         setUserPerformance(dashboardData.userPerformance);
       }
       // Try to load user-specific topic analytics
+      let loadedTopicPerformance: Awaited<ReturnType<typeof analyticsApi.getUserTopicPerformance>> = [];
       try {
-        const topics = await analyticsApi.getUserTopicPerformance(userData.id);
-        setTopicPerformance(Array.isArray(topics) ? topics : []);
+        const topics = await analyticsApi.getUserTopicPerformance(userData.id, { signal });
+        loadedTopicPerformance = Array.isArray(topics) ? topics : [];
+        setTopicPerformance(loadedTopicPerformance);
       } catch (err: any) {
+        if (isAbortError(err)) return;
         console.warn('Could not load user topic performance:', err);
         setTopicPerformance([]);
       }
 
+      // Topic mastery weighs each answer by recency, so it needs the answers themselves
+      try {
+        const [detailedAttempts, topics] = await Promise.all([
+          analyticsApi.getUserDetailedAttempts(userData.id, { take: 50 }, { signal }),
+          topicApi.getAll(undefined, { signal }),
+        ]);
+        const videoUrls = new Map(topics.map(topic => [topic.id, topic.explanation_video_url]));
+        setTopicMastery(computeTopicMastery(loadedTopicPerformance, detailedAttempts).map(topic => ({
+          ...topic,
+          explanationVideoUrl: topic.explanationVideoUrl || videoUrls.get(topic.topicId),
+        })));
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.warn('Could not load topic mastery:', err);
+        // Keep the map from the aggregate accuracy, just without recency weighting
+        setTopicMastery(computeTopicMastery(loadedTopicPerformance, []));
+      }
+
       // Load all user's attempts directly from API
       try {
-        const attempts = await attemptApi.getMyAttempts();
+        const attempts = await attemptApi.getMyAttempts(undefined, { signal });
         // Filter only submitted/expired attempts
         const completedAttempts = attempts.filter(
           (attempt) => attempt.status === 'SUBMITTED' || attempt.status === 'EXPIRED'
@@ -67,6 +95,7 @@ export function StudentAnalyticsDashboard() {
         setMyAttempts(completedAttempts);
         console.log('Loaded attempts:', completedAttempts);
       } catch (err: any) {
+        if (isAbortError(err)) return;
         console.warn('Could not load user attempts:', err);
         setMyAttempts([]);
       }
@@ -75,7 +104,7 @@ export function StudentAnalyticsDashboard() {
       setError(err.message || 'Failed to load analytics');
       console.error('Error loading student analytics:', err);
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
     }
   };
 
@@ -95,7 +124,7 @@ export function StudentAnalyticsDashboard() {
       <div className="bg-red-50 border border-red-200 rounded-lg p-4">
         <p className="text-red-800">{error}</p>
         <button 
-          onClick={loadAnalytics}
+          onClick={() => loadAnalytics()}
           className="mt-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm"
         >
           Try Again
@@ -167,6 +196,9 @@ export function StudentAnalyticsDashboard() {
             </div>
           </div>
 
+          {/* Topic Mastery */}
+          {topicMastery.length > 0 && <TopicMasteryMap topics={topicMastery} />}
+
           {/* Performance Trend */}
           {userPerformance.improvementTrend && Array.isArray(userPerformance.improvementTrend) && userPerformance.improvementTrend.length > 0 && (
             <div className="bg-white rounded-lg shadow-md p-6">
@@ -223,9 +255,11 @@ export function StudentAnalyticsDashboard() {
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
                     {myAttempts.map((attempt: any, idx: number) => {
-                      const scorePercentage = attempt.total_questions > 0 
-                        ? ((attempt.score || 0) / attempt.total_questions) * 100 
-                        : 0;
+                      const scorePercentage = attempt.total_marks
+                        ? getMarkedPercentage(attempt)
+                        : attempt.total_questions > 0 
+                          ? ((attempt.score || 0) / attempt.total_questions) * 100 
+                          : 0;
                       const timeTaken = attempt.time_taken_seconds || 0;
                       
                       return (
@@ -313,7 +347,7 @@ export function StudentAnalyticsDashboard() {
             Start taking exams to see your performance analytics here.
           </p>
           <button 
-            onClick={loadAnalytics}
+            onClick={() => loadAnalytics()}
             className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
           >
             Refresh Data
@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
-import { examApi, attemptApi } from '../../lib/api';
+import { useNavigate } from 'react-router-dom';
+import { examApi, attemptApi, isAbortError, reviewApi } from '../../lib/api';
+import { isCardDue } from '../../lib/spacedRepetition';
 import { 
+  BookX,
   Clock, 
   Calendar,
   PlayCircle,
@@ -9,8 +12,10 @@ import {
   TrendingUp,
   BookOpen,
   History,
-  Award
+  Award,
+  Lock
 } from 'lucide-react';
+import { getExamAvailability, getTimeUntilOpen, formatCountdown } from '../../lib/examSchedule';
 
 interface StudentDashboardProps {
   onStartExam: (examId: string, examLink: string) => void;
@@ -22,6 +27,8 @@ interface Exam {
   title: string;
   time_limit_seconds: number;
   exam_link: string;
+  opens_at?: string | null;
+  closes_at?: string | null;
   created_at: string;
 }
 
@@ -43,27 +50,46 @@ export function StudentDashboard({ onStartExam, onViewResults }: StudentDashboar
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'available' | 'history'>('available');
+  const [reviewCounts, setReviewCounts] = useState<{ due: number; total: number } | null>(null);
+  const navigate = useNavigate();
 
   useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
     const fetchData = async () => {
       try {
         setLoading(true);
         setError(null);
         const [examsData, attemptsData] = await Promise.all([
-          examApi.getAll(),
-          attemptApi.getMyAttempts(),
+          examApi.getAll(undefined, { signal }),
+          attemptApi.getMyAttempts(undefined, { signal }),
         ]);
         setExams(examsData);
         setAttempts(attemptsData);
       } catch (err: any) {
+        if (isAbortError(err)) return;
         setError(err.message || 'Failed to load data');
         console.error('Error loading data:', err);
       } finally {
-        setLoading(false);
+        if (!signal.aborted) setLoading(false);
+      }
+    };
+
+    // The notebook is optional on the dashboard, a failure here isn't worth an error
+    const fetchReviewCounts = async () => {
+      try {
+        const cards = await reviewApi.getMyCards(undefined, { signal });
+        setReviewCounts({ due: cards.filter(card => isCardDue(card)).length, total: cards.length });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('Error loading review cards:', err);
       }
     };
 
     fetchData();
+    fetchReviewCounts();
+    return () => controller.abort();
   }, []);
 
   const formatTime = (seconds: number): string => {
@@ -104,6 +130,79 @@ export function StudentDashboard({ onStartExam, onViewResults }: StudentDashboar
     }
   };
 
+  // Group exams by their availability window
+  const liveExams = exams.filter(exam => getExamAvailability(exam) === 'LIVE');
+  const upcomingExams = exams
+    .filter(exam => getExamAvailability(exam) === 'UPCOMING')
+    .sort((a, b) => new Date(a.opens_at!).getTime() - new Date(b.opens_at!).getTime());
+  const pastExams = exams
+    .filter(exam => getExamAvailability(exam) === 'CLOSED')
+    .sort((a, b) => new Date(b.closes_at!).getTime() - new Date(a.closes_at!).getTime());
+
+  const renderExamCard = (exam: Exam) => {
+    const availability = getExamAvailability(exam);
+
+    return (
+      <div
+        key={exam.id}
+        className={`border border-gray-200 rounded-lg p-5 transition-shadow ${
+          availability === 'CLOSED' ? 'bg-gray-50' : 'hover:shadow-lg'
+        }`}
+      >
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">
+          {exam.title}
+        </h3>
+
+        <div className="space-y-2 mb-4">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Clock className="w-4 h-4" />
+            <span>{formatTime(exam.time_limit_seconds)}</span>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Calendar className="w-4 h-4" />
+            {availability === 'UPCOMING' ? (
+              <span>Opens {new Date(exam.opens_at!).toLocaleString()}</span>
+            ) : availability === 'CLOSED' ? (
+              <span>Closed {new Date(exam.closes_at!).toLocaleString()}</span>
+            ) : exam.closes_at ? (
+              <span>Closes {new Date(exam.closes_at).toLocaleString()}</span>
+            ) : (
+              <span>Created {new Date(exam.created_at).toLocaleDateString()}</span>
+            )}
+          </div>
+        </div>
+
+        {availability === 'LIVE' && (
+          <button
+            onClick={() => onStartExam(exam.id, exam.exam_link)}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+          >
+            <PlayCircle className="w-5 h-5" />
+            Start Exam
+          </button>
+        )}
+        {availability === 'UPCOMING' && (
+          <div className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-50 text-blue-700 rounded-lg font-medium">
+            <Clock className="w-5 h-5" />
+            Opens in {formatCountdown(getTimeUntilOpen(exam))}
+          </div>
+        )}
+        {availability === 'CLOSED' && (
+          <div className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 text-gray-500 rounded-lg font-medium">
+            <Lock className="w-5 h-5" />
+            Closed
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const examSections = [
+    { key: 'live', title: 'Live Now', exams: liveExams },
+    { key: 'upcoming', title: 'Upcoming', exams: upcomingExams },
+    { key: 'past', title: 'Past', exams: pastExams },
+  ].filter(section => section.exams.length > 0);
+
   // Calculate stats
   const completedAttempts = attempts.filter(a => a.status === 'SUBMITTED');
   const averageScore = completedAttempts.length > 0
@@ -139,7 +238,10 @@ export function StudentDashboard({ onStartExam, onViewResults }: StudentDashboar
               </div>
               <h3 className="text-sm font-medium text-gray-600">Available Exams</h3>
             </div>
-            <p className="text-3xl font-bold text-gray-900">{exams.length}</p>
+            <p className="text-3xl font-bold text-gray-900">{liveExams.length}</p>
+            {upcomingExams.length > 0 && (
+              <p className="text-sm text-gray-500 mt-1">{upcomingExams.length} upcoming</p>
+            )}
           </div>
 
           <div className="bg-white rounded-lg shadow-md p-6">
@@ -163,6 +265,35 @@ export function StudentDashboard({ onStartExam, onViewResults }: StudentDashboar
           </div>
         </div>
 
+        {/* Mistakes Notebook */}
+        {reviewCounts && reviewCounts.total > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-5 mb-8 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-red-100 rounded-lg">
+                <BookX className="w-6 h-6 text-red-600" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-gray-900">Mistakes Notebook</h3>
+                <p className="text-sm text-gray-600">
+                  {reviewCounts.due > 0
+                    ? `${reviewCounts.due} of ${reviewCounts.total} questions due for review`
+                    : `${reviewCounts.total} questions, none due right now`}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={() => navigate('/mistakes')}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                reviewCounts.due > 0
+                  ? 'bg-red-600 text-white hover:bg-red-700'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {reviewCounts.due > 0 ? 'Review Now' : 'Open Notebook'}
+            </button>
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6 flex items-center gap-2">
@@ -185,7 +316,7 @@ export function StudentDashboard({ onStartExam, onViewResults }: StudentDashboar
               >
                 <div className="flex items-center gap-2">
                   <BookOpen className="w-4 h-4" />
-                  Available Exams
+                  Exams
                 </div>
               </button>
               <button
@@ -213,34 +344,15 @@ export function StudentDashboard({ onStartExam, onViewResults }: StudentDashboar
                   <p className="text-gray-600">No exams available at the moment</p>
                 </div>
               ) : (
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {exams.map((exam) => (
-                    <div
-                      key={exam.id}
-                      className="border border-gray-200 rounded-lg p-5 hover:shadow-lg transition-shadow"
-                    >
-                      <h3 className="text-lg font-semibold text-gray-900 mb-3">
-                        {exam.title}
+                <div className="space-y-8">
+                  {examSections.map(section => (
+                    <div key={section.key}>
+                      <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-3">
+                        {section.title} ({section.exams.length})
                       </h3>
-
-                      <div className="space-y-2 mb-4">
-                        <div className="flex items-center gap-2 text-sm text-gray-600">
-                          <Clock className="w-4 h-4" />
-                          <span>{formatTime(exam.time_limit_seconds)}</span>
-                        </div>
-                        <div className="flex items-center gap-2 text-sm text-gray-600">
-                          <Calendar className="w-4 h-4" />
-                          <span>Created {new Date(exam.created_at).toLocaleDateString()}</span>
-                        </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                        {section.exams.map(renderExamCard)}
                       </div>
-
-                      <button
-                        onClick={() => onStartExam(exam.id, exam.exam_link)}
-                        className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
-                      >
-                        <PlayCircle className="w-5 h-5" />
-                        Start Exam
-                      </button>
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,238 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
+import { StudentExamInterface } from './StudentExamInterface';
+import { ApiError, attemptApi, examApi } from '../../lib/api';
+
+vi.mock('../../lib/api', async importOriginal => ({
+  ...await importOriginal<typeof import('../../lib/api')>(),
+  examApi: { getByLink: vi.fn(), getById: vi.fn() },
+  attemptApi: {
+    start: vi.fn(),
+    submitAnswer: vi.fn(),
+    submit: vi.fn(),
+    getTimeRemaining: vi.fn(),
+    closeSection: vi.fn(),
+  },
+}));
+
+const TIME_LIMIT_SECONDS = 60;
+
+const question = (id: string, text: string, options: string[]) => ({
+  id,
+  question_text: text,
+  options: options.map((option_text, i) => ({ option_index: i + 1, option_text })),
+});
+
+const exam = {
+  id: 'exam-1',
+  title: 'Foundation Mock Test',
+  time_limit_seconds: TIME_LIMIT_SECONDS,
+  exam_link: 'foundation-mock-test',
+  exam_question_sets: [{
+    position: 1,
+    question_set: {
+      id: 'set-1',
+      title: 'Mathematics',
+      question_set_questions: [
+        { position: 1, question: question('q-1', 'What is 2 + 2?', ['3', '4', '5']) },
+        { position: 2, question: question('q-2', 'Which number is prime?', ['4', '6', '7']) },
+        { position: 3, question: question('q-3', 'What is 10 / 2?', ['2', '5', '20']) },
+      ],
+    },
+  }],
+};
+
+const SECTION_TIME_LIMIT_SECONDS = 600;
+
+// Two timed sections: Physics (p-1, p-2) then Chemistry (c-1)
+const sectionedExam = {
+  ...exam,
+  time_limit_seconds: 2 * SECTION_TIME_LIMIT_SECONDS,
+  exam_question_sets: [
+    {
+      position: 1,
+      section_time_limit_seconds: SECTION_TIME_LIMIT_SECONDS,
+      question_set: {
+        id: 'set-physics',
+        title: 'Physics',
+        question_set_questions: [
+          { position: 1, question: question('p-1', 'What is the unit of force?', ['Newton', 'Joule', 'Watt']) },
+          { position: 2, question: question('p-2', 'What is the unit of power?', ['Pascal', 'Watt', 'Volt']) },
+        ],
+      },
+    },
+    {
+      position: 2,
+      section_time_limit_seconds: SECTION_TIME_LIMIT_SECONDS,
+      question_set: {
+        id: 'set-chemistry',
+        title: 'Chemistry',
+        question_set_questions: [
+          { position: 1, question: question('c-1', 'What is the symbol for sodium?', ['S', 'Na', 'So']) },
+        ],
+      },
+    },
+  ],
+};
+
+// Run the timers due in the next ms milliseconds, and the requests they start
+const advance = (ms: number) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+// The in-progress attempt the stubbed server starts
+let attempt: Awaited<ReturnType<typeof attemptApi.start>>;
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2024-05-01T09:00:00Z') });
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+  const startedAt = Date.now();
+  const expiresAt = startedAt + TIME_LIMIT_SECONDS * 1000;
+  attempt = {
+    id: 'attempt-1',
+    exam_id: exam.id,
+    user_id: 'user-1',
+    status: 'IN_PROGRESS',
+    total_time_seconds: TIME_LIMIT_SECONDS,
+    started_at: new Date(startedAt).toISOString(),
+    expires_at: new Date(expiresAt).toISOString(),
+  };
+
+  vi.mocked(examApi.getByLink).mockReset().mockResolvedValue(exam as Awaited<ReturnType<typeof examApi.getByLink>>);
+  vi.mocked(attemptApi.start).mockReset().mockResolvedValue(attempt);
+  vi.mocked(attemptApi.submitAnswer).mockReset().mockImplementation(async (attemptId, data) => ({
+    ...data,
+    id: `answer-${data.question_id}`,
+    attempt_id: attemptId,
+    answered_at: new Date().toISOString(),
+  }));
+  vi.mocked(attemptApi.submit).mockReset().mockResolvedValue({ ...attempt, status: 'SUBMITTED' });
+  vi.mocked(attemptApi.getTimeRemaining).mockReset().mockImplementation(async () => ({
+    time_remaining_seconds: Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000)),
+    server_timestamp: new Date().toISOString(),
+  }));
+});
+
+describe('StudentExamInterface', () => {
+  it('starts the attempt, saves answers and submits automatically when time runs out', async () => {
+    const onComplete = vi.fn();
+    render(<StudentExamInterface examLink="foundation-mock-test" onComplete={onComplete} />);
+    await advance(0);
+
+    expect(examApi.getByLink).toHaveBeenCalledWith('foundation-mock-test');
+    expect(attemptApi.start).toHaveBeenCalledWith('exam-1');
+    expect(screen.getByText('Foundation Mock Test')).toBeTruthy();
+    expect(screen.getByText('What is 2 + 2?')).toBeTruthy();
+    expect(screen.getByText('00:01:00')).toBeTruthy();
+
+    // Answer the first two questions, leave the third one unanswered
+    fireEvent.click(screen.getByText('4').closest('button')!);
+    await advance(0);
+    expect(attemptApi.submitAnswer).toHaveBeenLastCalledWith('attempt-1', expect.objectContaining({
+      question_id: 'q-1',
+      selected_option_index: 2,
+    }));
+
+    fireEvent.click(screen.getByRole('button', { name: /Next/ }));
+    expect(screen.getByText('Which number is prime?')).toBeTruthy();
+    fireEvent.click(screen.getByText('7').closest('button')!);
+    await advance(0);
+    expect(attemptApi.submitAnswer).toHaveBeenLastCalledWith('attempt-1', expect.objectContaining({
+      question_id: 'q-2',
+      selected_option_index: 3,
+    }));
+    expect(attemptApi.submit).not.toHaveBeenCalled();
+
+    await advance(TIME_LIMIT_SECONDS * 1000);
+
+    expect(screen.getByText(/TIME'S UP!/, { selector: 'span.text-2xl' })).toBeTruthy();
+    expect(screen.getByText('4').closest('button')).toHaveProperty('disabled', true);
+    expect(attemptApi.submitAnswer).toHaveBeenCalledWith('attempt-1', expect.objectContaining({
+      question_id: 'q-3',
+      selected_option_index: null,
+    }));
+    expect(attemptApi.submit).toHaveBeenCalledTimes(1);
+    expect(attemptApi.submit).toHaveBeenCalledWith('attempt-1');
+    expect(onComplete).not.toHaveBeenCalled();
+
+    // The time's up message stays up briefly before moving on to the results
+    await advance(2000);
+    expect(onComplete).toHaveBeenCalledWith('attempt-1');
+    expect(attemptApi.submit).toHaveBeenCalledTimes(1);
+    expect(localStorage.getItem('exam_answer_queue_attempt-1')).toBeNull();
+  });
+
+  it('goes straight to the results when the attempt was already submitted', async () => {
+    vi.mocked(attemptApi.start).mockResolvedValue({
+      id: 'attempt-1',
+      exam_id: exam.id,
+      user_id: 'user-1',
+      status: 'SUBMITTED',
+      total_time_seconds: TIME_LIMIT_SECONDS,
+    });
+    const onComplete = vi.fn();
+    render(<StudentExamInterface examLink="foundation-mock-test" onComplete={onComplete} />);
+    await advance(0);
+
+    expect(onComplete).toHaveBeenCalledWith('attempt-1');
+    expect(attemptApi.submitAnswer).not.toHaveBeenCalled();
+    expect(attemptApi.submit).not.toHaveBeenCalled();
+  });
+
+  it('saves a section before closing it and only syncs the open section at submit', async () => {
+    // The stubbed server refuses answers outside the open section, like the real one
+    const sectionQuestions: Record<number, string[]> = { 1: ['p-1', 'p-2'], 2: ['c-1'] };
+    let openSection = 1;
+    vi.mocked(examApi.getByLink).mockResolvedValue(sectionedExam as Awaited<ReturnType<typeof examApi.getByLink>>);
+    vi.mocked(attemptApi.start).mockResolvedValue({
+      ...attempt,
+      total_time_seconds: 2 * SECTION_TIME_LIMIT_SECONDS,
+      current_section_position: 1,
+      section_expires_at: new Date(Date.now() + SECTION_TIME_LIMIT_SECONDS * 1000).toISOString(),
+    });
+    const acknowledge = vi.mocked(attemptApi.submitAnswer).getMockImplementation()!;
+    vi.mocked(attemptApi.submitAnswer).mockImplementation(async (attemptId, data) => {
+      if (!sectionQuestions[openSection].includes(data.question_id)) {
+        throw new ApiError('This section is closed', 409, 'SECTION_CLOSED');
+      }
+      return acknowledge(attemptId, data);
+    });
+    vi.mocked(attemptApi.closeSection).mockImplementation(async () => {
+      openSection = 2;
+      return { ...attempt, current_section_position: 2, section_expires_at: null };
+    });
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+
+    const onComplete = vi.fn();
+    render(<StudentExamInterface examLink="foundation-mock-test" onComplete={onComplete} />);
+    await advance(0);
+
+    // Answer the first physics question, skip the second and move on
+    fireEvent.click(screen.getByText('Newton').closest('button')!);
+    await advance(0);
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    fireEvent.click(screen.getByRole('button', { name: /Next Section/ }));
+    await advance(0);
+
+    expect(attemptApi.closeSection).toHaveBeenCalledWith('attempt-1', 1);
+    const submitAnswer = vi.mocked(attemptApi.submitAnswer);
+    const skipped = submitAnswer.mock.calls.findIndex(([, data]) => data.question_id === 'p-2');
+    expect(submitAnswer.mock.calls[skipped][1]).toEqual(expect.objectContaining({ selected_option_index: null }));
+    expect(submitAnswer.mock.invocationCallOrder[skipped])
+      .toBeLessThan(vi.mocked(attemptApi.closeSection).mock.invocationCallOrder[0]);
+    expect(screen.getByText('What is the symbol for sodium?')).toBeTruthy();
+
+    const callsBeforeChemistry = submitAnswer.mock.calls.length;
+    fireEvent.click(screen.getByText('Na').closest('button')!);
+    await advance(0);
+    fireEvent.click(screen.getByRole('button', { name: 'Submit Exam Early' }));
+    fireEvent.click(within(screen.getByText('Submit Exam?').parentElement!).getByRole('button', { name: 'Submit Exam' }));
+    await advance(0);
+
+    // Closed physics questions are not sent again, so none of them are refused
+    const submittedIds = submitAnswer.mock.calls.slice(callsBeforeChemistry).map(([, data]) => data.question_id);
+    expect(submittedIds.every(id => id === 'c-1')).toBe(true);
+    expect(screen.queryByText(/This section is closed/)).toBeNull();
+    expect(attemptApi.submit).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledWith('attempt-1');
+  });
+});
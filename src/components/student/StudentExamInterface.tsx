@@ -1,5 +1,28 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { examApi, attemptApi } from '../../lib/api';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { ApiError, examApi, attemptApi } from '../../lib/api';
+import { AnswerQueue, RejectedAnswer } from '../../lib/answerQueue';
+import { getAttemptSeed, getOptionLabel, orderExamQuestions, orderOptions } from '../../lib/questionOrder';
+import { ExamSection, getExamSections } from '../../lib/examSections';
+import { IntegrityMonitor, RecordedIntegrityEvent } from '../../lib/integrityMonitor';
+import { QuestionTimeTracker } from '../../lib/questionTiming';
+import {
+  EMPTY_ANSWER,
+  getQuestionType,
+  hasAnswer,
+  isOptionSelected,
+  toggleSelectedIndex,
+} from '../../lib/questionTypes';
+import {
+  QUESTION_STATUS_LABELS,
+  QUESTION_STATUSES,
+  QuestionStatus,
+  clearReviewState,
+  countStatuses,
+  getQuestionStatus,
+  loadReviewState,
+  saveReviewState,
+} from '../../lib/questionStatus';
+import { AnswerPayload, QuestionType } from '../../types';
 import { 
   AlertCircle, 
   ChevronRight, 
@@ -7,10 +30,28 @@ import {
   CheckCircle,
   Send,
   Grid3x3,
-  BookOpen
+  BookOpen,
+  CloudOff,
+  Flag,
+  Lock,
+  Clock,
+  ShieldAlert,
+  X
 } from 'lucide-react';
 import { TextWithLaTeX } from '../TextWithLaTeX';
 import { ExamTimer } from '../ExamTimer';
+import { ProctoringGuard } from './ProctoringGuard';
+
+// Palette colours per question status
+const STATUS_STYLES: Record<QuestionStatus, string> = {
+  NOT_VISITED: 'bg-gray-100 text-gray-600 border-gray-300 hover:bg-gray-200',
+  NOT_ANSWERED: 'bg-red-100 text-red-700 border-red-300 hover:bg-red-200',
+  ANSWERED: 'bg-green-100 text-green-700 border-green-300 hover:bg-green-200',
+  MARKED: 'bg-purple-100 text-purple-700 border-purple-400 hover:bg-purple-200',
+  ANSWERED_MARKED: 'bg-purple-100 text-purple-700 border-purple-400 hover:bg-purple-200',
+};
+
+const isMarkedStatus = (status: QuestionStatus) => status === 'MARKED' || status === 'ANSWERED_MARKED';
 
 interface StudentExamInterfaceProps {
   examId?: string;
@@ -24,6 +65,7 @@ interface Question {
   question_latex?: string;
   image_url?: string;
   video_solution_url?: string;
+  question_type?: QuestionType;
   topic?: {
     id: string;
     name: string;
@@ -49,8 +91,15 @@ interface Exam {
   title: string;
   time_limit_seconds: number;
   exam_link: string;
+  shuffle_questions?: boolean;
+  shuffle_within_sets?: boolean;
+  shuffle_options?: boolean;
+  proctoring_enabled?: boolean;
+  require_fullscreen?: boolean;
+  max_violations?: number | null;
   exam_question_sets?: Array<{
     position: number;
+    section_time_limit_seconds?: number | null;
     question_set: QuestionSet;
   }>;
 }
@@ -59,28 +108,57 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
   const [exam, setExam] = useState<Exam | null>(null);
   const [attemptId, setAttemptId] = useState<string | null>(null);
   const [totalTimeSeconds, setTotalTimeSeconds] = useState<number>(0);
+  const [expiresAt, setExpiresAt] = useState<string | undefined>(undefined);
+  const [shuffleSeed, setShuffleSeed] = useState<number | null>(null);
+  const [currentSectionPosition, setCurrentSectionPosition] = useState<number | null>(null);
+  const [sectionExpiresAt, setSectionExpiresAt] = useState<string | undefined>(undefined);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
   // Exam state
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [answers, setAnswers] = useState<Map<string, number | null>>(new Map());
+  const [answers, setAnswers] = useState<Map<string, AnswerPayload>>(new Map());
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isTimeUp, setIsTimeUp] = useState(false);
   const [showQuestionGrid, setShowQuestionGrid] = useState(false);
+  const [showMarkedOnly, setShowMarkedOnly] = useState(false); // Palette filter
+  const [showSubmitSummary, setShowSubmitSummary] = useState(false);
+  const [visitedQuestions, setVisitedQuestions] = useState<Set<string>>(new Set());
+  const [markedQuestions, setMarkedQuestions] = useState<Set<string>>(new Set());
+  const [isClosingSection, setIsClosingSection] = useState(false);
+  const [sectionNotice, setSectionNotice] = useState<string | null>(null);
   const [uiLocked, setUiLocked] = useState(false); // Lock UI when time expires
+  const [unsyncedCount, setUnsyncedCount] = useState(0);
+  const [rejectedAnswers, setRejectedAnswers] = useState<RejectedAnswer[]>([]); // Refused by the backend, not retried
+  const [violationCount, setViolationCount] = useState(0);
+  const [lastIntegrityEvent, setLastIntegrityEvent] = useState<RecordedIntegrityEvent | null>(null);
+  const [violationLimitReached, setViolationLimitReached] = useState(false);
+  const answerQueue = useRef<AnswerQueue | null>(null);
+  const questionTimes = useRef<QuestionTimeTracker | null>(null);
+  const integrityMonitor = useRef<IntegrityMonitor | null>(null);
+  const recordedViolations = useRef(0); // Integrity events the server had when the attempt was loaded
+  const handleViolationLimitRef = useRef<() => void>(() => {});
   const hasAutoSubmitted = useRef(false);
   const hasInitialized = useRef(false); // Prevent double initialization
+  const closingSection = useRef(false);
 
-  // Flatten all questions from exam
-  const allQuestions: Question[] = exam?.exam_question_sets
-    ?.flatMap(eqs => eqs.question_set.question_set_questions
-      .sort((a, b) => a.position - b.position)
-      .map(qsq => qsq.question)
-    ) || [];
+  // Flatten all questions from exam, in the order this attempt was dealt
+  const allQuestions: Question[] = useMemo(
+    () => exam && shuffleSeed !== null ? orderExamQuestions(exam.exam_question_sets, exam, shuffleSeed) : [],
+    [exam, shuffleSeed]
+  );
 
   const currentQuestion = allQuestions[currentQuestionIndex];
 
+  // Sections of a sectioned exam (none otherwise) and the one that is open
+  const sections = useMemo(() => getExamSections(exam?.exam_question_sets, allQuestions), [exam, allQuestions]);
+  const activeSection = sections.find(section => section.position === currentSectionPosition) ?? sections[0];
+
+  // Questions outside the open section can't be viewed or answered
+  const isQuestionOpen = useCallback((index: number) => {
+    return !activeSection || (index >= activeSection.startIndex && index <= activeSection.endIndex);
+  }, [activeSection]);
+
   // Load exam and start attempt
   useEffect(() => {
     // Prevent double initialization (React 18 Strict Mode runs effects twice in dev)
@@ -120,6 +198,14 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
           return;
         }
         
+        setShuffleSeed(getAttemptSeed(attempt));
+        setCurrentSectionPosition(attempt.current_section_position ?? null);
+        setSectionExpiresAt(attempt.section_expires_at ?? undefined);
+        recordedViolations.current = attempt.integrity_violation_count ?? 0;
+        // Restored in the same render as the attempt id, so the palette is never saved empty over it
+        const reviewState = loadReviewState(attempt.id);
+        setVisitedQuestions(reviewState.visited);
+        setMarkedQuestions(reviewState.marked);
         setAttemptId(attempt.id);
         
         // Store total_time_seconds for timer
@@ -130,6 +216,7 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
             total_time_seconds: attempt.total_time_seconds
           });
           setTotalTimeSeconds(attempt.total_time_seconds);
+          setExpiresAt(attempt.expires_at);
         } else {
           throw new Error('No total_time_seconds received from backend');
         }
@@ -145,6 +232,118 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
     init();
   }, [examId, examLink]);
 
+  // Persistent outbound queue for answers, keyed by attempt
+  useEffect(() => {
+    if (!attemptId) return;
+
+    const queue = new AnswerQueue(attemptId);
+    answerQueue.current = queue;
+
+    // Restore answers that were picked but never reached the backend (e.g. reload while offline)
+    if (queue.pendingCount > 0) {
+      setAnswers(prev => {
+        const restored = new Map(prev);
+        queue.pending.forEach(item => restored.set(item.question_id, {
+          selected_option_index: item.selected_option_index,
+          selected_option_indices: item.selected_option_indices,
+          numeric_answer: item.numeric_answer,
+        }));
+        return restored;
+      });
+      void queue.flush();
+    }
+
+    const unsubscribe = queue.subscribe((pendingCount, rejected) => {
+      setUnsyncedCount(pendingCount);
+      setRejectedAnswers(rejected);
+    });
+    return () => {
+      unsubscribe();
+      queue.dispose();
+      answerQueue.current = null;
+    };
+  }, [attemptId]);
+
+  // Time spent on each question, keyed by attempt
+  useEffect(() => {
+    if (!attemptId) return;
+
+    const tracker = new QuestionTimeTracker(attemptId);
+    questionTimes.current = tracker;
+    return () => {
+      tracker.dispose();
+      questionTimes.current = null;
+    };
+  }, [attemptId]);
+
+  // Only the question on screen is timed, and nothing while the exam is locked
+  useEffect(() => {
+    const tracker = questionTimes.current;
+    if (!tracker) return;
+    if (currentQuestion && !uiLocked && !isTimeUp) {
+      tracker.open(currentQuestion.id);
+    } else {
+      tracker.stop();
+    }
+  }, [attemptId, currentQuestion, uiLocked, isTimeUp]);
+
+  // Resuming, or moving on to a new section, starts at the section's first question
+  useEffect(() => {
+    if (activeSection && !isQuestionOpen(currentQuestionIndex)) {
+      setCurrentQuestionIndex(activeSection.startIndex);
+    }
+  }, [activeSection, currentQuestionIndex, isQuestionOpen]);
+
+  // The question on screen counts as visited
+  useEffect(() => {
+    if (!currentQuestion || visitedQuestions.has(currentQuestion.id)) return;
+    setVisitedQuestions(prev => new Set(prev).add(currentQuestion.id));
+  }, [currentQuestion, visitedQuestions]);
+
+  useEffect(() => {
+    if (!attemptId) return;
+    saveReviewState(attemptId, { visited: visitedQuestions, marked: markedQuestions });
+  }, [attemptId, visitedQuestions, markedQuestions]);
+
+  // Queue null answers for the unattempted ones among these questions, resend answers whose
+  // time tracking changed since they were saved, and wait for the queue to drain.
+  // Returns the number of answers that still could not be synced.
+  const syncAnswers = useCallback(async (questions: Question[]): Promise<number> => {
+    const queue = answerQueue.current;
+    if (!queue) return 0;
+    const tracker = questionTimes.current;
+
+    const unattemptedQuestions = questions.filter(q => !answers.has(q.id));
+    if (unattemptedQuestions.length > 0) {
+      console.log(`Queueing ${unattemptedQuestions.length} unattempted questions with null answers`);
+      unattemptedQuestions.forEach(question => queue.enqueue(question.id, EMPTY_ANSWER, tracker?.report(question.id)));
+    }
+    if (tracker) {
+      questions
+        .filter(q => answers.has(q.id) && tracker.hasUnreportedTime(q.id))
+        .forEach(question => queue.enqueue(question.id, answers.get(question.id) || EMPTY_ANSWER, tracker.report(question.id)));
+    }
+
+    return queue.flushNow();
+  }, [answers]);
+
+  // Before submitting: only the open section still accepts answers, closed sections
+  // were synced when the student moved on from them
+  const syncOpenAnswers = useCallback((): Promise<number> => {
+    return syncAnswers(allQuestions.filter((_, index) => isQuestionOpen(index)));
+  }, [allQuestions, isQuestionOpen, syncAnswers]);
+
+  // Stop proctoring once the attempt is final; its events were flushed before submitting,
+  // and the server no longer accepts events for a final attempt
+  const stopProctoring = useCallback(() => {
+    integrityMonitor.current?.dispose();
+    integrityMonitor.current?.clear();
+    integrityMonitor.current = null;
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    }
+  }, []);
+
   // Auto-submit when time expires (idempotent) - DEFINED BEFORE USE
   const handleAutoSubmit = useCallback(async (attemptIdToSubmit: string) => {
     if (hasAutoSubmitted.current) {
@@ -159,24 +358,21 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
     try {
       console.log('Auto-submitting exam due to time expiry:', attemptIdToSubmit);
       
-      // Submit null answers for all unattempted questions before final submit
-      const unattemptedQuestions = allQuestions.filter(q => !answers.has(q.id));
-      if (unattemptedQuestions.length > 0) {
-        console.log(`Auto-submit: Submitting ${unattemptedQuestions.length} unattempted questions with null answers`);
-        for (const question of unattemptedQuestions) {
-          try {
-            await attemptApi.submitAnswer(attemptIdToSubmit, {
-              question_id: question.id,
-              selected_option_index: null,
-            });
-          } catch (err) {
-            console.error(`Failed to submit null answer for question ${question.id}:`, err);
-            // Continue with other questions even if one fails
-          }
-        }
+      // Time is up, so finalize even if some answers could not be synced
+      const unsynced = await syncOpenAnswers();
+      if (unsynced > 0) {
+        console.warn(`Auto-submit: ${unsynced} answer(s) could not be synced before submission`);
+      }
+      const unsentEvents = await integrityMonitor.current?.flush() ?? 0;
+      if (unsentEvents > 0) {
+        console.warn(`Auto-submit: ${unsentEvents} integrity event(s) could not be sent before submission`);
       }
       
       await attemptApi.submit(attemptIdToSubmit);
+      answerQueue.current?.clear();
+      questionTimes.current?.clear();
+      clearReviewState(attemptIdToSubmit);
+      stopProctoring();
       
       // Small delay to show "time's up" message before redirect
       setTimeout(() => {
@@ -198,32 +394,78 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
         }
       }, 2000);
     }
-  }, [allQuestions, answers, onComplete]);
+  }, [syncOpenAnswers, stopProctoring, onComplete]);
+
+  // Too many integrity violations: lock the exam and submit it like a time-up
+  const handleViolationLimit = useCallback(() => {
+    if (hasAutoSubmitted.current || !attemptId || uiLocked) return;
+    console.warn('Integrity violation limit reached, auto-submitting');
+    setViolationLimitReached(true);
+    handleAutoSubmit(attemptId);
+  }, [attemptId, uiLocked, handleAutoSubmit]);
 
-  // Backup safety check: Periodically verify time hasn't expired (every 10 seconds)
-  // This ensures auto-submit happens even if timer component has issues or tab was closed
+  useEffect(() => {
+    handleViolationLimitRef.current = handleViolationLimit;
+  }, [handleViolationLimit]);
+
+  // Proctoring: record integrity events while the attempt is in progress
+  useEffect(() => {
+    if (!attemptId || !exam?.proctoring_enabled) return;
+
+    const maxViolations = exam.max_violations;
+    const updateViolationCount = (count: number) => {
+      setViolationCount(count);
+      if (maxViolations && count >= maxViolations) {
+        handleViolationLimitRef.current();
+      }
+    };
+    const monitor = new IntegrityMonitor(attemptId, {
+      requireFullscreen: exam.require_fullscreen,
+      recordedCount: recordedViolations.current,
+      onViolation: (event, count) => {
+        setLastIntegrityEvent(event);
+        updateViolationCount(count);
+      },
+      onCountSynced: updateViolationCount,
+    });
+    integrityMonitor.current = monitor;
+    monitor.start();
+
+    // Resumed attempt that already reached the limit before a reload
+    updateViolationCount(monitor.violationCount);
+
+    return () => {
+      monitor.dispose();
+      if (integrityMonitor.current === monitor) {
+        integrityMonitor.current = null;
+      }
+    };
+  }, [attemptId, exam]);
+
+  // Backup safety check: Periodically ask the server whether time has expired (every 30 seconds)
+  // This ensures auto-submit happens even if timer component has issues; the server clock is authoritative
   useEffect(() => {
     if (!attemptId || !totalTimeSeconds || isSubmitting || hasAutoSubmitted.current) {
       return;
     }
 
-    const timerStartKey = `exam_timer_start_${attemptId}`;
-
-    const checkTimeExpiry = () => {
-      const startTime = localStorage.getItem(timerStartKey);
-      if (!startTime) return;
-      
-      const elapsed = Math.floor((Date.now() - parseInt(startTime)) / 1000);
-      
-      if (elapsed >= totalTimeSeconds && !hasAutoSubmitted.current && !isTimeUp) {
-        console.log('Safety check: Time expired, triggering auto-submit');
-        setIsTimeUp(true);
-        setUiLocked(true);
-        handleAutoSubmit(attemptId);
+    const checkTimeExpiry = async () => {
+      try {
+        const { time_remaining_seconds } = await attemptApi.getTimeRemaining(attemptId);
+        
+        if (time_remaining_seconds <= 0 && !hasAutoSubmitted.current && !isTimeUp) {
+          console.log('Safety check: Server reports time expired, triggering auto-submit');
+          setIsTimeUp(true);
+          setUiLocked(true);
+          handleAutoSubmit(attemptId);
+        }
+      } catch (err) {
+        // Timer keeps counting down locally while the server is unreachable
+        console.error('Safety check: Failed to fetch time remaining:', err);
       }
     };
 
-    const interval = setInterval(checkTimeExpiry, 10000); // Check every 10 seconds
+    const interval = setInterval(checkTimeExpiry, 30000); // Check every 30 seconds
     return () => clearInterval(interval);
   }, [totalTimeSeconds, isSubmitting, isTimeUp, attemptId, handleAutoSubmit]);
 
@@ -237,37 +479,121 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
     handleAutoSubmit(attemptId);
   }, [attemptId, handleAutoSubmit]);
 
-  // Handle answer selection
-  const handleSelectAnswer = async (optionIndex: number) => {
-    // Don't allow answer changes if UI is locked (time expired)
-    if (uiLocked || !attemptId || !currentQuestion || isTimeUp) {
+  // Close a section and open the next one. The last section's time running out ends the exam.
+  const closeSection = useCallback(async (section: ExamSection, reason: 'TIME_UP' | 'NEXT') => {
+    if (!attemptId || closingSection.current || hasAutoSubmitted.current) return;
+
+    const nextSection = sections.find(s => s.position > section.position);
+    if (!nextSection) {
+      if (reason === 'TIME_UP') handleTimeUp();
       return;
     }
 
+    closingSection.current = true;
+    setIsClosingSection(true);
+    try {
+      setError(null);
+      // The server rejects answers for closed sections, so this section's answers go first.
+      // Moving on also sends null answers and time tracking for its questions; when its time
+      // ran out the server has closed it already, and only answers still queued are sent.
+      const unsynced = reason === 'NEXT'
+        ? await syncAnswers(allQuestions.slice(section.startIndex, section.endIndex + 1))
+        : await answerQueue.current?.flushNow() ?? 0;
+      if (unsynced > 0 && reason === 'NEXT') {
+        setError(
+          `${unsynced} answer(s) have not been saved yet. Check your internet connection and try again.`
+        );
+        return;
+      }
+
+      const attempt = await attemptApi.closeSection(attemptId, section.position);
+      setCurrentSectionPosition(attempt.current_section_position ?? nextSection.position);
+      setSectionExpiresAt(attempt.section_expires_at ?? undefined);
+      setCurrentQuestionIndex(nextSection.startIndex);
+      setShowQuestionGrid(false);
+      setShowSubmitSummary(false);
+      setSectionNotice(reason === 'TIME_UP'
+        ? `Time is up for ${section.title}. You are now in ${nextSection.title}.`
+        : null);
+    } catch (err) {
+      console.error('Error closing section:', err);
+      setError(err instanceof Error ? err.message : 'Failed to move to the next section');
+    } finally {
+      closingSection.current = false;
+      setIsClosingSection(false);
+    }
+  }, [attemptId, sections, allQuestions, syncAnswers, handleTimeUp]);
+
+  const handleSectionTimeUp = useCallback(() => {
+    if (activeSection) {
+      closeSection(activeSection, 'TIME_UP');
+    }
+  }, [activeSection, closeSection]);
+
+  const handleNextSection = () => {
+    if (!activeSection || uiLocked || isTimeUp) return;
+
+    const unanswered = allQuestions
+      .slice(activeSection.startIndex, activeSection.endIndex + 1)
+      .filter(q => !hasAnswer(answers.get(q.id))).length;
+    const confirmed = window.confirm(
+      `Move on to the next section? You will not be able to return to "${activeSection.title}".` +
+      (unanswered > 0 ? ` It has ${unanswered} unanswered question(s).` : '')
+    );
+    if (confirmed) {
+      closeSection(activeSection, 'NEXT');
+    }
+  };
+
+  // Store an answer locally and queue it for the backend; the queue retries until it is acknowledged
+  const saveAnswer = (questionId: string, answer: AnswerPayload) => {
+    const tracker = questionTimes.current;
+    if (hasAnswer(answers.get(questionId))) {
+      tracker?.recordAnswerChange(questionId);
+    }
+
     const newAnswers = new Map(answers);
+    newAnswers.set(questionId, answer);
+    setAnswers(newAnswers);
+    answerQueue.current?.enqueue(questionId, answer, tracker?.report(questionId));
+  };
+
+  // Handle answer selection
+  const handleSelectAnswer = (optionIndex: number) => {
+    // Don't allow answer changes if UI is locked (time expired) or the section is closed
+    if (uiLocked || !attemptId || !currentQuestion || isTimeUp || !isQuestionOpen(currentQuestionIndex)) {
+      return;
+    }
+
     const currentAnswer = answers.get(currentQuestion.id);
-    
+
+    if (getQuestionType(currentQuestion) === 'MULTI_SELECT') {
+      saveAnswer(currentQuestion.id, toggleSelectedIndex(currentAnswer, optionIndex));
+      return;
+    }
+
     // Toggle: if same option clicked, deselect it
-    const newAnswer = currentAnswer === optionIndex ? null : optionIndex;
-    newAnswers.set(currentQuestion.id, newAnswer);
-    setAnswers(newAnswers);
+    const newIndex = currentAnswer?.selected_option_index === optionIndex ? null : optionIndex;
+    saveAnswer(currentQuestion.id, { selected_option_index: newIndex });
+  };
 
-    // Submit answer to backend
-    try {
-      await attemptApi.submitAnswer(attemptId, {
-        question_id: currentQuestion.id,
-        selected_option_index: newAnswer,
-      });
-    } catch (err: any) {
-      setError(err.message || 'Failed to save answer');
-      console.error('Error saving answer:', err);
+  // Numeric answers are saved when the input loses focus
+  const handleNumericAnswer = (value: string) => {
+    if (uiLocked || !attemptId || !currentQuestion || isTimeUp || !isQuestionOpen(currentQuestionIndex)) {
+      return;
     }
+
+    const parsed = value.trim() === '' ? null : Number(value);
+    if (parsed !== null && !Number.isFinite(parsed)) return;
+    if (parsed === (answers.get(currentQuestion.id)?.numeric_answer ?? null)) return;
+
+    saveAnswer(currentQuestion.id, { selected_option_index: null, numeric_answer: parsed });
   };
 
-  // Navigation - disabled when UI is locked
+  // Navigation - disabled when UI is locked, and limited to the open section
   const goToNextQuestion = () => {
     if (uiLocked || isTimeUp) return;
-    if (currentQuestionIndex < allQuestions.length - 1) {
+    if (currentQuestionIndex < allQuestions.length - 1 && isQuestionOpen(currentQuestionIndex + 1)) {
       setCurrentQuestionIndex(currentQuestionIndex + 1);
       setShowQuestionGrid(false);
     }
@@ -275,29 +601,46 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
 
   const goToPreviousQuestion = () => {
     if (uiLocked || isTimeUp) return;
-    if (currentQuestionIndex > 0) {
+    if (currentQuestionIndex > 0 && isQuestionOpen(currentQuestionIndex - 1)) {
       setCurrentQuestionIndex(currentQuestionIndex - 1);
       setShowQuestionGrid(false);
     }
   };
 
   const goToQuestion = (index: number) => {
-    if (uiLocked || isTimeUp) return;
+    if (uiLocked || isTimeUp || !isQuestionOpen(index)) return;
     setCurrentQuestionIndex(index);
     setShowQuestionGrid(false);
+    setShowSubmitSummary(false);
   };
 
-  // Manual submit exam
+  const toggleMarkForReview = () => {
+    if (uiLocked || isTimeUp || !currentQuestion) return;
+    setMarkedQuestions(prev => {
+      const next = new Set(prev);
+      if (next.has(currentQuestion.id)) {
+        next.delete(currentQuestion.id);
+      } else {
+        next.add(currentQuestion.id);
+      }
+      return next;
+    });
+  };
+
+  // Cycle through marked questions, wrapping around after the last one
+  const goToNextMarked = () => {
+    const markedIndexes = allQuestions
+      .map((q, index) => (markedQuestions.has(q.id) ? index : -1))
+      .filter(index => index >= 0 && isQuestionOpen(index));
+    if (markedIndexes.length === 0) return;
+    goToQuestion(markedIndexes.find(index => index > currentQuestionIndex) ?? markedIndexes[0]);
+  };
+
+  // Manual submit exam, confirmed from the submit summary dialog
   const handleSubmit = useCallback(async () => {
     if (!attemptId || isSubmitting || uiLocked) return;
 
-    const unanswered = allQuestions.length - answers.size;
-    if (unanswered > 0 && !isTimeUp) {
-      const confirmed = window.confirm(
-        `You have ${unanswered} unanswered question(s). Do you want to submit anyway?`
-      );
-      if (!confirmed) return;
-    }
+    setShowSubmitSummary(false);
 
     try {
       setIsSubmitting(true);
@@ -306,25 +649,32 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
       
       console.log('Submitting exam attempt:', attemptId);
       
-      // Submit null answers for all unattempted questions
-      const unattemptedQuestions = allQuestions.filter(q => !answers.has(q.id));
-      if (unattemptedQuestions.length > 0) {
-        console.log(`Submitting ${unattemptedQuestions.length} unattempted questions with null answers`);
-        for (const question of unattemptedQuestions) {
-          try {
-            await attemptApi.submitAnswer(attemptId, {
-              question_id: question.id,
-              selected_option_index: null,
-            });
-          } catch (err) {
-            console.error(`Failed to submit null answer for question ${question.id}:`, err);
-            // Continue with other questions even if one fails
-          }
-        }
+      // Every answer must reach the backend before the attempt can be finalized
+      const unsynced = await syncOpenAnswers();
+      if (unsynced > 0) {
+        setError(
+          `${unsynced} answer(s) have not been saved yet. Check your internet connection and try submitting again.`
+        );
+        setIsSubmitting(false);
+        setUiLocked(false);
+        return;
+      }
+
+      // Proctoring events too, they would be lost once the attempt is final
+      const unsentEvents = await integrityMonitor.current?.flush() ?? 0;
+      if (unsentEvents > 0) {
+        setError('Some proctoring events have not been sent yet. Check your internet connection and try submitting again.');
+        setIsSubmitting(false);
+        setUiLocked(false);
+        return;
       }
       
       // Now submit the attempt
       await attemptApi.submit(attemptId);
+      answerQueue.current?.clear();
+      questionTimes.current?.clear();
+      clearReviewState(attemptId);
+      stopProctoring();
       
       if (onComplete) {
         onComplete(attemptId);
@@ -333,8 +683,8 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
         window.location.href = '/'; // Redirect to home
       }
     } catch (err: any) {
-      // Handle submission errors
-      if (err.message?.includes('already submitted')) {
+      // Handle submission errors, 410 Gone means the attempt was already submitted or expired
+      if ((err instanceof ApiError && err.status === 410) || err.message?.includes('already submitted')) {
         setError('This exam has already been submitted.');
         if (onComplete) {
           onComplete(attemptId);
@@ -346,7 +696,7 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
         setUiLocked(false);
       }
     }
-  }, [attemptId, isSubmitting, uiLocked, allQuestions, answers, isTimeUp, onComplete]);
+  }, [attemptId, isSubmitting, uiLocked, syncOpenAnswers, stopProctoring, onComplete]);
 
   // Loading state
   if (loading) {
@@ -392,11 +742,33 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
     );
   }
 
-  const answeredCount = answers.size;
+  const questionStatuses = allQuestions.map(q => getQuestionStatus({
+    visited: visitedQuestions.has(q.id),
+    answered: hasAnswer(answers.get(q.id)),
+    marked: markedQuestions.has(q.id),
+  }));
+  const statusCounts = countStatuses(questionStatuses);
+  const markedCount = statusCounts.MARKED + statusCounts.ANSWERED_MARKED;
+  const answeredCount = statusCounts.ANSWERED + statusCounts.ANSWERED_MARKED;
   const progressPercentage = (answeredCount / allQuestions.length) * 100;
+  const unansweredNumbers = allQuestions.map((_, index) => index).filter(index => !hasAnswer(answers.get(allQuestions[index].id)));
+  const markedNumbers = allQuestions.map((_, index) => index).filter(index => isMarkedStatus(questionStatuses[index]));
+  const isCurrentMarked = currentQuestion ? markedQuestions.has(currentQuestion.id) : false;
+  const openMarkedCount = markedNumbers.filter(isQuestionOpen).length;
+  const isLastInSection = !!activeSection && currentQuestionIndex === activeSection.endIndex;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+      {exam.proctoring_enabled && (
+        <ProctoringGuard
+          active={!uiLocked && !isTimeUp}
+          requireFullscreen={exam.require_fullscreen}
+          violationCount={violationCount}
+          maxViolations={exam.max_violations}
+          lastEvent={lastIntegrityEvent}
+        />
+      )}
+
       {/* Header */}
       <div className="bg-white shadow-md border-b border-gray-200 sticky top-0 z-10">
         <div className="max-w-7xl mx-auto px-4 py-4">
@@ -405,6 +777,7 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
               <h1 className="text-2xl font-bold text-gray-900">{exam.title}</h1>
               <p className="text-sm text-gray-600 mt-1">
                 Question {currentQuestionIndex + 1} of {allQuestions.length}
+                {activeSection && ` · ${activeSection.title}`}
               </p>
             </div>
             
@@ -414,11 +787,48 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
                 <ExamTimer 
                   totalTimeSeconds={totalTimeSeconds}
                   attemptId={attemptId}
+                  expiresAt={expiresAt}
                   onTimeUp={handleTimeUp}
                   showWarnings={true}
+                  label={activeSection?.time_limit_seconds ? 'Exam' : undefined}
                 />
               )}
 
+              {attemptId && activeSection?.time_limit_seconds && (
+                <ExamTimer
+                  key={activeSection.position}
+                  totalTimeSeconds={activeSection.time_limit_seconds}
+                  attemptId={attemptId}
+                  expiresAt={sectionExpiresAt}
+                  onTimeUp={handleSectionTimeUp}
+                  showWarnings={true}
+                  sectionPosition={activeSection.position}
+                  label={activeSection.title}
+                />
+              )}
+
+              {unsyncedCount > 0 && (
+                <div
+                  className="flex items-center gap-2 px-3 py-2 bg-yellow-100 text-yellow-800 border border-yellow-300 rounded-lg text-sm font-medium"
+                  title="These answers are saved on this device and will be sent when the connection recovers"
+                >
+                  <CloudOff className="w-4 h-4" />
+                  <span>{unsyncedCount} {unsyncedCount === 1 ? 'answer' : 'answers'} unsynced</span>
+                </div>
+              )}
+
+              {exam.proctoring_enabled && violationCount > 0 && (
+                <div
+                  className="flex items-center gap-2 px-3 py-2 bg-orange-100 text-orange-800 border border-orange-300 rounded-lg text-sm font-medium"
+                  title="Tab switches, leaving fullscreen, copy/paste and similar events are recorded for your examiner"
+                >
+                  <ShieldAlert className="w-4 h-4" />
+                  <span>
+                    {violationCount}{exam.max_violations ? ` / ${exam.max_violations}` : ''} {violationCount === 1 ? 'violation' : 'violations'}
+                  </span>
+                </div>
+              )}
+
               <button
                 onClick={() => setShowQuestionGrid(!showQuestionGrid)}
                 disabled={uiLocked}
@@ -439,7 +849,42 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
           </div>
           <p className="text-xs text-gray-600 mt-1">
             {answeredCount} of {allQuestions.length} questions answered
+            {markedCount > 0 && ` · ${markedCount} marked for review`}
           </p>
+
+          {/* Section Tabs - only the open section can be visited */}
+          {activeSection && (
+            <div className="flex gap-2 mt-3 overflow-x-auto">
+              {sections.map(section => {
+                const isClosed = section.position < activeSection.position;
+                const isActive = section.position === activeSection.position;
+                const sectionQuestions = allQuestions.slice(section.startIndex, section.endIndex + 1);
+                const sectionAnswered = sectionQuestions.filter(q => hasAnswer(answers.get(q.id))).length;
+
+                return (
+                  <button
+                    key={section.position}
+                    onClick={() => goToQuestion(section.startIndex)}
+                    disabled={!isActive || uiLocked}
+                    title={isClosed ? 'This section is closed' : isActive ? undefined : 'Opens after the current section'}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm font-medium whitespace-nowrap transition-colors ${
+                      isActive
+                        ? 'bg-blue-600 text-white border-blue-600'
+                        : isClosed
+                        ? 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed'
+                        : 'bg-white text-gray-600 border-gray-300 cursor-not-allowed'
+                    }`}
+                  >
+                    {isClosed ? <Lock className="w-4 h-4" /> : section.time_limit_seconds ? <Clock className="w-4 h-4" /> : null}
+                    <span>{section.title}</span>
+                    <span className={`text-xs ${isActive ? 'text-blue-100' : ''}`}>
+                      {sectionAnswered}/{sectionQuestions.length}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
         </div>
       </div>
 
@@ -459,37 +904,143 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
               </button>
             </div>
 
-            <div className="grid grid-cols-8 gap-2">
-              {allQuestions.map((q, index) => (
-                <button
-                  key={q.id}
-                  onClick={() => goToQuestion(index)}
-                  className={`aspect-square rounded-lg border-2 font-semibold text-sm transition-all ${
-                    index === currentQuestionIndex
-                      ? 'bg-blue-600 text-white border-blue-600'
-                      : answers.has(q.id)
-                      ? 'bg-green-100 text-green-700 border-green-300 hover:bg-green-200'
-                      : 'bg-gray-100 text-gray-600 border-gray-300 hover:bg-gray-200'
-                  }`}
-                >
-                  {index + 1}
-                </button>
-              ))}
+            <div className="flex items-center gap-2 mb-4">
+              <button
+                onClick={() => setShowMarkedOnly(false)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  !showMarkedOnly ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                All ({allQuestions.length})
+              </button>
+              <button
+                onClick={() => setShowMarkedOnly(true)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  showMarkedOnly ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                Marked for review ({markedCount})
+              </button>
             </div>
 
-            <div className="mt-4 flex gap-4 text-sm">
-              <div className="flex items-center gap-2">
-                <div className="w-6 h-6 rounded bg-blue-600"></div>
-                <span>Current</span>
+            {showMarkedOnly && markedCount === 0 ? (
+              <p className="text-center text-gray-500 py-8">No questions are marked for review.</p>
+            ) : (
+              <div className="grid grid-cols-8 gap-2">
+                {allQuestions.map((q, index) => {
+                  const status = questionStatuses[index];
+                  if (showMarkedOnly && !isMarkedStatus(status)) return null;
+
+                  return (
+                    <button
+                      key={q.id}
+                      onClick={() => goToQuestion(index)}
+                      disabled={!isQuestionOpen(index)}
+                      title={isQuestionOpen(index) ? QUESTION_STATUS_LABELS[status] : 'Not in the open section'}
+                      className={`relative aspect-square rounded-lg border-2 font-semibold text-sm transition-all ${STATUS_STYLES[status]} ${
+                        index === currentQuestionIndex ? 'ring-2 ring-blue-600 ring-offset-2' : ''
+                      } ${isQuestionOpen(index) ? '' : 'opacity-40 cursor-not-allowed'}`}
+                    >
+                      {index + 1}
+                      {status === 'ANSWERED_MARKED' && (
+                        <span className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-green-500 border-2 border-white"></span>
+                      )}
+                    </button>
+                  );
+                })}
               </div>
-              <div className="flex items-center gap-2">
-                <div className="w-6 h-6 rounded bg-green-100 border-2 border-green-300"></div>
-                <span>Answered</span>
+            )}
+
+            <div className="mt-4 flex flex-wrap gap-4 text-sm">
+              {QUESTION_STATUSES.map(status => (
+                <div key={status} className="flex items-center gap-2">
+                  <div className={`relative w-6 h-6 rounded border-2 ${STATUS_STYLES[status]}`}>
+                    {status === 'ANSWERED_MARKED' && (
+                      <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-green-500"></span>
+                    )}
+                  </div>
+                  <span>{QUESTION_STATUS_LABELS[status]} ({statusCounts[status]})</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Submit Summary Dialog */}
+      {showSubmitSummary && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 z-30 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg shadow-2xl max-w-lg w-full max-h-[80vh] overflow-y-auto p-6">
+            <h3 className="text-xl font-bold text-gray-900 mb-4">Submit Exam?</h3>
+
+            <div className="space-y-2 mb-4">
+              {QUESTION_STATUSES.map(status => (
+                <div key={status} className="flex items-center justify-between text-sm">
+                  <div className="flex items-center gap-2">
+                    <div className={`w-4 h-4 rounded border-2 ${STATUS_STYLES[status]}`}></div>
+                    <span className="text-gray-700">{QUESTION_STATUS_LABELS[status]}</span>
+                  </div>
+                  <span className="font-semibold text-gray-900">{statusCounts[status]}</span>
+                </div>
+              ))}
+            </div>
+
+            {unansweredNumbers.length > 0 && (
+              <div className="mb-4">
+                <p className="text-sm font-medium text-red-700 mb-2">
+                  Unanswered ({unansweredNumbers.length})
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {unansweredNumbers.map(index => (
+                    <button
+                      key={index}
+                      onClick={() => goToQuestion(index)}
+                      disabled={!isQuestionOpen(index)}
+                      className="w-9 h-9 rounded-lg border-2 text-sm font-semibold bg-red-50 text-red-700 border-red-300 hover:bg-red-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      {index + 1}
+                    </button>
+                  ))}
+                </div>
               </div>
-              <div className="flex items-center gap-2">
-                <div className="w-6 h-6 rounded bg-gray-100 border-2 border-gray-300"></div>
-                <span>Unanswered</span>
+            )}
+
+            {markedNumbers.length > 0 && (
+              <div className="mb-4">
+                <p className="text-sm font-medium text-purple-700 mb-2">
+                  Marked for review ({markedNumbers.length})
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {markedNumbers.map(index => (
+                    <button
+                      key={index}
+                      onClick={() => goToQuestion(index)}
+                      disabled={!isQuestionOpen(index)}
+                      className="w-9 h-9 rounded-lg border-2 text-sm font-semibold bg-purple-50 text-purple-700 border-purple-300 hover:bg-purple-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      {index + 1}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">Answers to questions marked for review are still graded.</p>
               </div>
+            )}
+
+            <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+              <button
+                onClick={() => setShowSubmitSummary(false)}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                Return to Exam
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={isSubmitting || uiLocked}
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-semibold"
+              >
+                <Send className="w-4 h-4" />
+                Submit Exam
+              </button>
             </div>
           </div>
         </div>
@@ -497,6 +1048,20 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
 
       {/* Main Content */}
       <div className="max-w-4xl mx-auto px-4 py-8">
+        {violationLimitReached && (
+          <div className="mb-6 bg-red-100 border-2 border-red-500 rounded-xl p-6 text-center">
+            <div className="flex items-center justify-center gap-3 text-red-700 mb-2">
+              <ShieldAlert className="w-8 h-8" />
+              <span className="text-2xl font-bold">Violation Limit Reached</span>
+            </div>
+            <p className="text-red-600 text-lg font-medium">
+              {isSubmitting
+                ? 'Too many integrity violations were recorded. Submitting your exam automatically...'
+                : 'Too many integrity violations were recorded. Your exam has been submitted.'}
+            </p>
+          </div>
+        )}
+
         {/* Time's Up Banner */}
         {isTimeUp && (
           <div className="mb-6 bg-red-100 border-2 border-red-500 rounded-xl p-6 text-center animate-pulse">
@@ -515,6 +1080,37 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
           </div>
         )}
         
+        {rejectedAnswers.length > 0 && !isTimeUp && (
+          <div className="mb-4 bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div className="flex-1 text-sm">
+              <p className="font-medium">
+                {rejectedAnswers.length === 1 ? 'An answer was' : `${rejectedAnswers.length} answers were`} not accepted and will not be counted:
+              </p>
+              <ul className="mt-1 list-disc list-inside">
+                {rejectedAnswers.map(item => {
+                  const index = allQuestions.findIndex(q => q.id === item.question_id);
+                  return (
+                    <li key={item.question_id}>
+                      {index >= 0 ? `Question ${index + 1}` : 'A question'}: {item.error}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {sectionNotice && (
+          <div className="mb-4 bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded-lg flex items-center gap-2">
+            <Clock className="w-5 h-5" />
+            <span className="flex-1">{sectionNotice}</span>
+            <button onClick={() => setSectionNotice(null)} className="text-blue-400 hover:text-blue-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         {error && (
           <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg flex items-center gap-2">
             <AlertCircle className="w-5 h-5" />
@@ -534,9 +1130,23 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
 
             {/* Question */}
             <div className="mb-6">
-              <h2 className="text-lg font-semibold text-gray-700 mb-4">
-                Question {currentQuestionIndex + 1}
-              </h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-gray-700">
+                  Question {currentQuestionIndex + 1}
+                </h2>
+                <button
+                  onClick={toggleMarkForReview}
+                  disabled={uiLocked || isTimeUp}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                    isCurrentMarked
+                      ? 'bg-purple-600 text-white border-purple-600 hover:bg-purple-700'
+                      : 'bg-white text-purple-700 border-purple-300 hover:bg-purple-50'
+                  }`}
+                >
+                  <Flag className="w-4 h-4" />
+                  {isCurrentMarked ? 'Marked for Review' : 'Mark for Review'}
+                </button>
+              </div>
               
               {currentQuestion.question_text && (
                 <div className="text-gray-900 text-lg mb-3">
@@ -561,12 +1171,32 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
               )}
             </div>
 
-            {/* Options */}
+            {/* Answer */}
+            {getQuestionType(currentQuestion) === 'NUMERIC' ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Your answer
+                </label>
+                <input
+                  key={currentQuestion.id}
+                  type="number"
+                  step="any"
+                  defaultValue={answers.get(currentQuestion.id)?.numeric_answer ?? ''}
+                  onBlur={(e) => handleNumericAnswer(e.target.value)}
+                  disabled={uiLocked || isTimeUp}
+                  placeholder="Enter a number"
+                  className="w-full max-w-xs px-4 py-3 border-2 border-gray-300 rounded-lg focus:border-blue-500 focus:outline-none disabled:opacity-60 disabled:cursor-not-allowed"
+                />
+              </div>
+            ) : (
             <div className="space-y-3">
-              {currentQuestion.options
-                .sort((a, b) => a.option_index - b.option_index)
-                .map((option) => {
-                  const isSelected = answers.get(currentQuestion.id) === option.option_index;
+              {getQuestionType(currentQuestion) === 'MULTI_SELECT' && (
+                <p className="text-sm text-gray-600">Select all that apply</p>
+              )}
+              {orderOptions(currentQuestion.id, currentQuestion.options, exam, shuffleSeed ?? 0)
+                .map((option, position) => {
+                  const isSelected = isOptionSelected(answers.get(currentQuestion.id), option.option_index);
+                  const isMultiSelect = getQuestionType(currentQuestion) === 'MULTI_SELECT';
                   
                   return (
                     <button
@@ -580,7 +1210,7 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
                       } ${(uiLocked || isTimeUp) ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'}`}
                     >
                       <div className="flex items-center gap-3">
-                        <div className={`flex-shrink-0 w-6 h-6 rounded-full border-2 flex items-center justify-center ${
+                        <div className={`flex-shrink-0 w-6 h-6 ${isMultiSelect ? 'rounded' : 'rounded-full'} border-2 flex items-center justify-center ${
                           isSelected
                             ? 'border-blue-500 bg-blue-500'
                             : 'border-gray-400'
@@ -589,7 +1219,7 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
                         </div>
                         <div className="flex-1">
                           <span className="inline-block mr-2 font-semibold text-gray-700">
-                            {String.fromCharCode(65 + option.option_index - 1)}.
+                            {getOptionLabel(position)}.
                           </span>
                           <TextWithLaTeX text={option.option_text} />
                         </div>
@@ -598,12 +1228,13 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
                   );
                 })}
             </div>
+            )}
 
             {/* Navigation */}
             <div className="flex items-center justify-between mt-8 pt-6 border-t border-gray-200">
               <button
                 onClick={goToPreviousQuestion}
-                disabled={currentQuestionIndex === 0 || uiLocked}
+                disabled={currentQuestionIndex === 0 || !isQuestionOpen(currentQuestionIndex - 1) || uiLocked}
                 className="flex items-center gap-2 px-6 py-3 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
                 <ChevronLeft className="w-5 h-5" />
@@ -612,7 +1243,7 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
 
               {currentQuestionIndex === allQuestions.length - 1 ? (
                 <button
-                  onClick={handleSubmit}
+                  onClick={() => setShowSubmitSummary(true)}
                   disabled={isSubmitting || uiLocked}
                   className="flex items-center gap-2 px-8 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-semibold"
                 >
@@ -633,6 +1264,15 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
                     </>
                   )}
                 </button>
+              ) : isLastInSection ? (
+                <button
+                  onClick={handleNextSection}
+                  disabled={isClosingSection || uiLocked}
+                  className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-semibold"
+                >
+                  {isClosingSection ? 'Closing Section...' : 'Next Section'}
+                  <ChevronRight className="w-5 h-5" />
+                </button>
               ) : (
                 <button
                   onClick={goToNextQuestion}
@@ -647,9 +1287,19 @@ export function StudentExamInterface({ examId, examLink, onComplete }: StudentEx
 
             {/* Submit Button (always visible) */}
             {!isTimeUp && (
-              <div className="mt-4 text-center">
+              <div className="mt-4 flex items-center justify-center gap-3">
+                {openMarkedCount > 0 && (
+                  <button
+                    onClick={goToNextMarked}
+                    disabled={uiLocked}
+                    className="flex items-center gap-2 px-6 py-2 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+                  >
+                    <Flag className="w-4 h-4" />
+                    Next Marked ({openMarkedCount})
+                  </button>
+                )}
                 <button
-                  onClick={handleSubmit}
+                  onClick={() => setShowSubmitSummary(true)}
                   disabled={isSubmitting || uiLocked}
                   className="px-6 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium"
                 >
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { attemptApi } from '../../lib/api';
+import { attemptApi, examApi, isAbortError } from '../../lib/api';
 import { 
   CheckCircle, 
   XCircle, 
@@ -8,8 +8,19 @@ import {
   Award,
   BarChart3,
   Home,
-  FileText
+  FileText,
+  RotateCcw
 } from 'lucide-react';
+import { RetakePolicy } from '../../types';
+import {
+  DEFAULT_RETAKE_POLICY,
+  RETAKE_POLICY_LABELS,
+  getAttemptUsage,
+  getPolicyScore,
+  isFinishedAttempt,
+} from '../../lib/attemptPolicy';
+import { formatMarks, getAttemptMarks } from '../../lib/marking';
+import { SectionPerformance } from './SectionPerformance';
 
 interface StudentResultsPageProps {
   attemptId: string;
@@ -22,6 +33,8 @@ interface AttemptResult {
     id: string;
     title: string;
     time_limit_seconds: number;
+    marks_per_correct?: number;
+    penalty_per_wrong?: number;
   };
   user: {
     id: string;
@@ -34,6 +47,16 @@ interface AttemptResult {
   score: number;
   total_questions: number;
   correct_answers: number;
+  marks_obtained?: number;
+  total_marks?: number;
+  section_performance?: Array<{
+    position: number;
+    title: string;
+    total_questions: number;
+    correct_answers: number;
+    marks_obtained?: number;
+    total_marks?: number;
+  }>;
   topic_performance?: Array<{
     topic_id?: string;
     topic_name: string;
@@ -49,27 +72,71 @@ interface AttemptResult {
   }>;
 }
 
+interface RetakeSummary {
+  policy: RetakePolicy;
+  maxAttempts: number | null;
+  attemptNumber: number;
+  attemptsUsed: number;
+  remaining: number | null;
+  countedScore: number | null;
+  countsThisAttempt: boolean;
+}
+
 export function StudentResultsPage({ attemptId, onGoHome }: StudentResultsPageProps) {
   const [result, setResult] = useState<AttemptResult | null>(null);
+  const [retakeSummary, setRetakeSummary] = useState<RetakeSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
     const fetchResult = async () => {
       try {
         setLoading(true);
         setError(null);
-        const data = await attemptApi.getById(attemptId);
+        const data = await attemptApi.getById(attemptId, { signal });
         setResult(data as AttemptResult);
+
+        // Retake information is supplementary - don't fail the page if it can't be loaded
+        try {
+          const [exam, myAttempts] = await Promise.all([
+            examApi.getById(data.exam_id, { signal }),
+            attemptApi.getMyAttempts(undefined, { signal }),
+          ]);
+          const examAttempts = myAttempts.filter(a => a.exam_id === data.exam_id);
+          const policy = exam.retake_policy || DEFAULT_RETAKE_POLICY;
+          const usage = getAttemptUsage(exam, examAttempts);
+          const counted = getPolicyScore(examAttempts, policy);
+          const finishedInOrder = examAttempts
+            .filter(isFinishedAttempt)
+            .sort((a, b) => new Date(a.started_at || 0).getTime() - new Date(b.started_at || 0).getTime());
+
+          setRetakeSummary({
+            policy,
+            maxAttempts: exam.max_attempts ?? null,
+            attemptNumber: finishedInOrder.findIndex(a => a.id === attemptId) + 1,
+            attemptsUsed: usage.used,
+            remaining: usage.remaining,
+            countedScore: counted?.score ?? null,
+            countsThisAttempt: policy === 'AVERAGE' || counted?.attemptId === attemptId,
+          });
+        } catch (retakeErr) {
+          if (isAbortError(retakeErr)) return;
+          console.warn('Could not load retake information:', retakeErr);
+        }
       } catch (err: any) {
+        if (isAbortError(err)) return;
         setError(err.message || 'Failed to load results');
         console.error('Error fetching results:', err);
       } finally {
-        setLoading(false);
+        if (!signal.aborted) setLoading(false);
       }
     };
 
     fetchResult();
+    return () => controller.abort();
   }, [attemptId]);
 
   if (loading) {
@@ -102,9 +169,13 @@ export function StudentResultsPage({ attemptId, onGoHome }: StudentResultsPagePr
     );
   }
 
-  const scorePercentage = result.total_questions > 0 
-    ? (result.correct_answers / result.total_questions) * 100 
-    : 0;
+  // Marks under the exam's marking scheme take precedence over the plain correct count
+  const marks = getAttemptMarks(result);
+  const scorePercentage = marks
+    ? marks.percentage
+    : result.total_questions > 0 
+      ? (result.correct_answers / result.total_questions) * 100 
+      : 0;
 
   const timeTaken = result.submitted_at && result.started_at
     ? Math.floor((new Date(result.submitted_at).getTime() - new Date(result.started_at).getTime()) / 1000)
@@ -151,11 +222,56 @@ export function StudentResultsPage({ attemptId, onGoHome }: StudentResultsPagePr
             <div className="text-xl mb-2">
               {result.correct_answers} / {result.total_questions} Correct
             </div>
+            {marks && (
+              <div className="text-sm mb-2 opacity-90">
+                {formatMarks(marks.obtained)} / {formatMarks(marks.maximum)} marks
+                {marks.lost > 0 && ` · ${formatMarks(marks.gained, true)} for correct, ${formatMarks(-marks.lost)} for wrong answers`}
+              </div>
+            )}
             <div className={`text-2xl font-semibold ${gradeInfo.color} bg-white rounded-lg px-4 py-2 inline-block`}>
               Grade: {gradeInfo.grade}
             </div>
             <div className="text-sm mt-2 opacity-90">{gradeInfo.message}</div>
           </div>
+
+          {/* Retake Summary - only relevant when more than one attempt is allowed */}
+          {retakeSummary && retakeSummary.maxAttempts !== 1 && (
+            <div className="border border-gray-200 rounded-lg p-4 text-left">
+              <div className="flex items-center gap-2 mb-3">
+                <RotateCcw className="w-5 h-5 text-indigo-600" />
+                <h3 className="font-semibold text-gray-900">Attempts</h3>
+                <span className="text-xs text-gray-500">{RETAKE_POLICY_LABELS[retakeSummary.policy]}</span>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">This Attempt</p>
+                  <p className="text-lg font-semibold text-gray-900">
+                    {retakeSummary.attemptNumber > 0 ? `#${retakeSummary.attemptNumber}` : '—'}
+                    {retakeSummary.maxAttempts && ` of ${retakeSummary.maxAttempts}`}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">Counted Score</p>
+                  <p className="text-lg font-semibold text-gray-900">
+                    {retakeSummary.countedScore !== null ? `${retakeSummary.countedScore.toFixed(1)}%` : '—'}
+                  </p>
+                  <p className={`text-xs ${retakeSummary.countsThisAttempt ? 'text-green-600' : 'text-gray-500'}`}>
+                    {retakeSummary.policy === 'AVERAGE'
+                      ? `Averaged over ${retakeSummary.attemptsUsed} attempt${retakeSummary.attemptsUsed !== 1 ? 's' : ''}`
+                      : retakeSummary.countsThisAttempt
+                      ? 'This attempt counts'
+                      : 'Another attempt counts'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">Attempts Remaining</p>
+                  <p className="text-lg font-semibold text-gray-900">
+                    {retakeSummary.remaining === null ? 'Unlimited' : retakeSummary.remaining}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Stats Grid */}
@@ -193,6 +309,11 @@ export function StudentResultsPage({ attemptId, onGoHome }: StudentResultsPagePr
           </div>
         </div>
 
+        {/* Section Performance */}
+        {result.section_performance && result.section_performance.length > 0 && (
+          <SectionPerformance sections={result.section_performance} />
+        )}
+
         {/* Topic Performance */}
         {result.topic_performance && result.topic_performance.length > 0 && (
           <div className="bg-white rounded-lg shadow-md p-6 mb-6">
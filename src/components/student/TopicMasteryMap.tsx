@@ -0,0 +1,107 @@
+import { useNavigate } from 'react-router-dom';
+import { ArrowDownRight, ArrowRight, ArrowUpRight, Dumbbell, Map as MapIcon, PlayCircle } from 'lucide-react';
+import { MASTERY_LEVEL_LABELS, MasteryLevel, MasteryTrend, TopicMastery, isWeakTopic } from '../../lib/topicMastery';
+
+interface TopicMasteryMapProps {
+  topics: TopicMastery[];
+}
+
+const LEVEL_STYLES: Record<MasteryLevel, string> = {
+  MASTERED: 'bg-green-100 border-green-300 text-green-900',
+  PROFICIENT: 'bg-lime-50 border-lime-300 text-lime-900',
+  DEVELOPING: 'bg-yellow-50 border-yellow-300 text-yellow-900',
+  WEAK: 'bg-red-50 border-red-300 text-red-900',
+};
+
+const LEVEL_SWATCHES: Record<MasteryLevel, string> = {
+  MASTERED: 'bg-green-400',
+  PROFICIENT: 'bg-lime-400',
+  DEVELOPING: 'bg-yellow-400',
+  WEAK: 'bg-red-400',
+};
+
+const TREND_ICONS: Record<MasteryTrend, { icon: typeof ArrowRight; className: string; label: string }> = {
+  UP: { icon: ArrowUpRight, className: 'text-green-600', label: 'Improving' },
+  DOWN: { icon: ArrowDownRight, className: 'text-red-600', label: 'Slipping' },
+  STEADY: { icon: ArrowRight, className: 'text-gray-500', label: 'Steady' },
+};
+
+/**
+ * Color-coded grid of the student's mastery per topic, with trend arrows and
+ * study links for the weak ones
+ */
+export function TopicMasteryMap({ topics }: TopicMasteryMapProps) {
+  const navigate = useNavigate();
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <MapIcon className="w-5 h-5 text-blue-600" />
+          <h4 className="text-lg font-semibold text-gray-900">Topic Mastery</h4>
+        </div>
+        <div className="hidden md:flex items-center gap-3 text-xs text-gray-600">
+          {(Object.keys(MASTERY_LEVEL_LABELS) as MasteryLevel[]).map(level => (
+            <span key={level} className="flex items-center gap-1">
+              <span className={`w-3 h-3 rounded ${LEVEL_SWATCHES[level]}`} />
+              {MASTERY_LEVEL_LABELS[level]}
+            </span>
+          ))}
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Based on every question you've answered, with recent exams counting more than older ones.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {topics.map(topic => {
+          const trend = topic.trend ? TREND_ICONS[topic.trend] : null;
+          const TrendIcon = trend?.icon;
+          return (
+            <div key={topic.topicId} className={`rounded-lg border-2 p-4 ${LEVEL_STYLES[topic.level]}`}>
+              <div className="flex items-start justify-between gap-2">
+                <h5 className="font-semibold">{topic.topicName}</h5>
+                {trend && TrendIcon && (
+                  <span title={trend.label}>
+                    <TrendIcon className={`w-5 h-5 flex-shrink-0 ${trend.className}`} />
+                  </span>
+                )}
+              </div>
+              <div className="flex items-baseline gap-2 mt-1">
+                <span className="text-2xl font-bold">{Math.round(topic.mastery * 100)}%</span>
+                <span className="text-xs opacity-75">{MASTERY_LEVEL_LABELS[topic.level]}</span>
+              </div>
+              <p className="text-xs opacity-75">
+                {topic.answered} question{topic.answered !== 1 ? 's' : ''} answered
+                {topic.lastAttemptAt && ` · last ${new Date(topic.lastAttemptAt).toLocaleDateString()}`}
+              </p>
+
+              {isWeakTopic(topic) && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {topic.explanationVideoUrl && (
+                    <a
+                      href={topic.explanationVideoUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 px-2 py-1 bg-white border border-current rounded text-xs font-medium hover:bg-gray-50"
+                    >
+                      <PlayCircle className="w-3.5 h-3.5" />
+                      Watch explanation
+                    </a>
+                  )}
+                  <button
+                    onClick={() => navigate(`/practice?topic=${topic.topicId}`)}
+                    className="inline-flex items-center gap-1 px-2 py-1 bg-white border border-current rounded text-xs font-medium hover:bg-gray-50"
+                  >
+                    <Dumbbell className="w-3.5 h-3.5" />
+                    Practice
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
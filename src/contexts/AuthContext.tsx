@@ -2,10 +2,14 @@ import React, { createContext, useContext, useEffect, useState, useCallback } fr
 import { User as FirebaseUser, onAuthStateChanged } from 'firebase/auth';
 import { auth } from '../lib/firebase';
 import { getUserData, UserData } from '../lib/auth';
-import { userApi } from '../lib/api';
+import { userApi, USE_MOCK_BACKEND } from '../lib/api';
+import { MockAuthUser, onMockAuthStateChanged } from '../lib/mockAuth';
+
+// Firebase user, or the offline stand-in when running against the mock backend
+type AuthUser = FirebaseUser | MockAuthUser;
 
 interface AuthContextType {
-  currentUser: FirebaseUser | null;
+  currentUser: AuthUser | null;
   userData: UserData | null;
   loading: boolean;
   refreshUserData: () => Promise<void>;
@@ -31,11 +35,11 @@ interface AuthProviderProps {
 }
 
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  const [currentUser, setCurrentUser] = useState<FirebaseUser | null>(null);
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
   const [userData, setUserData] = useState<UserData | null>(null);
   const [loading, setLoading] = useState(true);
 
-  const fetchUserDataFromAPI = useCallback(async (user: FirebaseUser): Promise<UserData | null> => {
+  const fetchUserDataFromAPI = useCallback(async (user: AuthUser): Promise<UserData | null> => {
     try {
       const apiData = await userApi.getCurrentUser();
       return {
@@ -48,11 +52,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         address: apiData.address,
         is_enrolled: apiData.is_enrolled,
         role: apiData.role,
+        staff_role: apiData.staff_role,
         created_at: apiData.created_at,
         uid: apiData.firebase_uid,
         createdAt: apiData.created_at,
       };
     } catch (error) {
+      // Mock accounts only exist in the mock backend
+      if (USE_MOCK_BACKEND) {
+        console.error('Error fetching user data:', error);
+        return null;
+      }
       // Fallback to Firestore if API fails
       try {
         return await getUserData(user.uid);
@@ -71,7 +81,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   }, [currentUser, fetchUserDataFromAPI]);
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+    const handleAuthStateChanged = async (user: AuthUser | null) => {
       setCurrentUser(user);
       
       if (user) {
@@ -93,9 +103,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       }
       
       setLoading(false);
-    });
+    };
 
-    return unsubscribe;
+    return USE_MOCK_BACKEND
+      ? onMockAuthStateChanged(handleAuthStateChanged)
+      : onAuthStateChanged(auth, handleAuthStateChanged);
   }, [fetchUserDataFromAPI]);
 
   const value: AuthContextType = {
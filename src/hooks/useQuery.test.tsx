@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useQuery } from './useQuery';
+import { queryCache, queryKeys } from '../lib/queryCache';
+
+beforeEach(() => {
+  queryCache.clear();
+});
+
+describe('useQuery', () => {
+  it('loads once however often the key is rebuilt', async () => {
+    const fetcher = vi.fn(async () => ['Algebra']);
+    const { result, rerender } = renderHook(() => useQuery(queryKeys.topics({ include_count: true }), fetcher));
+
+    await waitFor(() => expect(result.current.data).toEqual(['Algebra']));
+    rerender();
+    rerender();
+
+    expect(result.current.loading).toBe(false);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('tries a failed load again when the list is opened again', async () => {
+    const fetcher = vi.fn()
+      .mockRejectedValueOnce(new Error('Could not reach the server'))
+      .mockResolvedValue(['Algebra']);
+
+    const first = renderHook(() => useQuery(queryKeys.topics(), fetcher));
+    await waitFor(() => expect(first.result.current.error?.message).toBe('Could not reach the server'));
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    first.unmount();
+
+    const second = renderHook(() => useQuery(queryKeys.topics(), fetcher));
+    await waitFor(() => expect(second.result.current.data).toEqual(['Algebra']));
+    expect(second.result.current.error).toBeNull();
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { DEFAULT_STALE_TIME_MS, QueryKey, queryCache } from '../lib/queryCache';
+
+interface UseQueryOptions {
+  staleTimeMs?: number;
+}
+
+interface UseQueryResult<T> {
+  data: T | undefined;
+  error: Error | null;
+  loading: boolean; // Nothing to show yet
+  isFetching: boolean; // Any request in flight, including background refreshes
+  refetch: () => Promise<T | undefined>;
+}
+
+/**
+ * Read an API list through the query cache: returns cached data right away
+ * and refetches it in the background when stale or invalidated, or when the
+ * last load failed.
+ * Errors are reported in `error`, never thrown.
+ */
+export const useQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { staleTimeMs = DEFAULT_STALE_TIME_MS }: UseQueryOptions = {}
+): UseQueryResult<T> => {
+  // The key is rebuilt from its serialized form, so a new array with the same parts
+  // doesn't resubscribe. The fetcher is read from a ref for the same reason.
+  const hash = JSON.stringify(key);
+  const stableKey = useMemo(() => JSON.parse(hash) as QueryKey, [hash]);
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback(
+    (onChange: () => void) => queryCache.subscribe(stableKey, onChange),
+    [stableKey]
+  );
+  const state = useSyncExternalStore(subscribe, () => queryCache.getState<T>(stableKey));
+
+  useEffect(() => {
+    // Failures are kept in the cache entry and read back from there
+    const load = () => {
+      queryCache.fetch(stableKey, fetcherRef.current).catch(() => undefined);
+    };
+    const revalidate = () => {
+      if (queryCache.isStale(stableKey, staleTimeMs)) load();
+    };
+    // A load that failed earlier is tried again when a reader mounts
+    if (queryCache.getState(stableKey).error) {
+      load();
+    } else {
+      revalidate();
+    }
+    // Invalidation notifies subscribers, which then refetch
+    return queryCache.subscribe(stableKey, revalidate);
+  }, [stableKey, staleTimeMs]);
+
+  const refetch = useCallback(async () => {
+    try {
+      return await queryCache.fetch(stableKey, fetcherRef.current);
+    } catch {
+      return undefined;
+    }
+  }, [stableKey]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    loading: state.data === undefined && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+  };
+};
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnswerQueue } from './answerQueue';
+import { ApiError, attemptApi } from './api';
+
+vi.mock('./api', async importOriginal => ({
+  ...await importOriginal<typeof import('./api')>(),
+  attemptApi: { submitAnswer: vi.fn() },
+}));
+
+const submitAnswer = vi.mocked(attemptApi.submitAnswer);
+
+const acknowledge: typeof attemptApi.submitAnswer = async (attemptId, data) => ({
+  ...data,
+  id: `answer-${data.question_id}`,
+  attempt_id: attemptId,
+  answered_at: new Date().toISOString(),
+});
+
+const sectionClosed = () => new ApiError('Section is closed', 409, 'SECTION_CLOSED');
+
+beforeEach(() => {
+  submitAnswer.mockReset();
+  submitAnswer.mockImplementation(acknowledge);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('AnswerQueue', () => {
+  it('keeps an answer queued while the server is unreachable', async () => {
+    submitAnswer.mockRejectedValueOnce(new ApiError('Could not reach the server', 0, 'NETWORK_ERROR'));
+    const queue = new AnswerQueue('attempt-1');
+
+    queue.enqueue('q-1', { selected_option_index: 2 });
+    await expect(queue.flushNow()).resolves.toBe(1);
+    expect(queue.rejected).toEqual([]);
+
+    await expect(queue.flushNow()).resolves.toBe(0);
+    expect(submitAnswer).toHaveBeenCalledTimes(2);
+    queue.dispose();
+  });
+
+  it('sets aside an answer the server refuses and sends the ones behind it', async () => {
+    submitAnswer.mockRejectedValueOnce(sectionClosed());
+    const queue = new AnswerQueue('attempt-1');
+    const listener = vi.fn();
+    queue.subscribe(listener);
+
+    queue.enqueue('q-1', { selected_option_index: 2 });
+    queue.enqueue('q-2', { selected_option_index: 1 });
+
+    await expect(queue.flushNow()).resolves.toBe(0);
+    expect(submitAnswer).toHaveBeenCalledTimes(2);
+    expect(submitAnswer).toHaveBeenLastCalledWith('attempt-1', expect.objectContaining({ question_id: 'q-2' }));
+    expect(queue.rejected).toEqual([expect.objectContaining({
+      question_id: 'q-1',
+      error: 'Section is closed',
+      status: 409,
+    })]);
+    expect(listener).toHaveBeenLastCalledWith(0, queue.rejected);
+
+    // Nothing is sent again on later flushes
+    await queue.flushNow();
+    expect(submitAnswer).toHaveBeenCalledTimes(2);
+    queue.dispose();
+  });
+
+  it('gives a rejected answer another chance when it is answered again', async () => {
+    submitAnswer.mockRejectedValueOnce(sectionClosed());
+    const queue = new AnswerQueue('attempt-1');
+    queue.enqueue('q-1', { selected_option_index: 2 });
+    await queue.flushNow();
+    expect(queue.rejected).toHaveLength(1);
+
+    queue.enqueue('q-1', { selected_option_index: 3 });
+    await queue.flushNow();
+
+    expect(queue.rejected).toEqual([]);
+    expect(submitAnswer).toHaveBeenLastCalledWith('attempt-1', expect.objectContaining({
+      question_id: 'q-1',
+      selected_option_index: 3,
+    }));
+    queue.dispose();
+  });
+
+  it('keeps rejected answers across reloads until the queue is cleared', async () => {
+    submitAnswer.mockRejectedValueOnce(sectionClosed());
+    const queue = new AnswerQueue('attempt-1');
+    queue.enqueue('q-1', { selected_option_index: 2 });
+    await queue.flushNow();
+    queue.dispose();
+
+    const reloaded = new AnswerQueue('attempt-1');
+    expect(reloaded.rejected).toEqual([expect.objectContaining({ question_id: 'q-1' })]);
+    expect(reloaded.pendingCount).toBe(0);
+
+    reloaded.clear();
+    expect(new AnswerQueue('attempt-1').rejected).toEqual([]);
+    reloaded.dispose();
+  });
+});
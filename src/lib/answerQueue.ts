@@ -0,0 +1,243 @@
+import { ApiError, attemptApi } from './api';
+import { AnswerPayload, QuestionTiming } from '../types';
+
+// Outbound answer queue persisted to localStorage so answers survive flaky
+// connections and page reloads until the backend acknowledges them.
+// Answers the backend refuses outright (4xx) are not retried: they are moved
+// to a rejected list so they don't hold up the answers queued behind them.
+
+const QUEUE_KEY_PREFIX = 'exam_answer_queue_';
+const REJECTED_KEY_PREFIX = 'exam_answer_rejected_';
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+export interface QueuedAnswer extends AnswerPayload, Partial<QuestionTiming> {
+  question_id: string;
+  queued_at: number;
+  attempts: number;
+}
+
+export interface RejectedAnswer extends QueuedAnswer {
+  error: string; // Why the backend refused it
+  status: number; // 0 when the request never reached the backend
+}
+
+type QueueListener = (pendingCount: number, rejected: RejectedAnswer[]) => void;
+
+// Only failures that may go away on their own are worth sending again
+const isRetryableFailure = (err: unknown): boolean => err instanceof ApiError && err.isRetryable;
+
+export class AnswerQueue {
+  private readonly storageKey: string;
+  private readonly rejectedKey: string;
+  private items: QueuedAnswer[];
+  private rejectedItems: RejectedAnswer[];
+  private listeners = new Set<QueueListener>();
+  private flushPromise: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = BASE_RETRY_DELAY_MS;
+  private disposed = false;
+
+  constructor(private readonly attemptId: string) {
+    this.storageKey = `${QUEUE_KEY_PREFIX}${attemptId}`;
+    this.rejectedKey = `${REJECTED_KEY_PREFIX}${attemptId}`;
+    this.items = this.load(this.storageKey);
+    this.rejectedItems = this.load(this.rejectedKey);
+    window.addEventListener('online', this.handleOnline);
+  }
+
+  /**
+   * Answers still waiting to be acknowledged by the backend
+   */
+  get pending(): QueuedAnswer[] {
+    return [...this.items];
+  }
+
+  get pendingCount(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Answers the backend refused, e.g. for a closed section or an expired attempt
+   */
+  get rejected(): RejectedAnswer[] {
+    return [...this.rejectedItems];
+  }
+
+  /**
+   * Queue an answer and try to send it right away.
+   * A newer answer for the same question replaces the queued one,
+   * and a rejected one, which gets another chance.
+   * Time tracking totals for the question are sent along with it.
+   */
+  enqueue(questionId: string, answer: AnswerPayload, timing?: QuestionTiming): void {
+    this.rejectedItems = this.rejectedItems.filter(item => item.question_id !== questionId);
+    this.items = [
+      ...this.items.filter(item => item.question_id !== questionId),
+      {
+        ...answer,
+        ...timing,
+        question_id: questionId,
+        queued_at: Date.now(),
+        attempts: 0,
+      },
+    ];
+    this.persist();
+    this.resetBackoff();
+    void this.flush();
+  }
+
+  /**
+   * Send every queued answer in order. Resolves once the queue has been
+   * drained or the first failure has scheduled a retry.
+   */
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.drain().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  /**
+   * Flush immediately, bypassing any scheduled backoff.
+   * Returns the number of answers still unsynced afterwards; rejected answers don't count.
+   */
+  async flushNow(): Promise<number> {
+    this.resetBackoff();
+    await this.flush();
+    return this.items.length;
+  }
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    listener(this.items.length, this.rejected);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Remove the persisted queue once the attempt has been finalized
+   */
+  clear(): void {
+    this.items = [];
+    this.rejectedItems = [];
+    localStorage.removeItem(this.storageKey);
+    localStorage.removeItem(this.rejectedKey);
+    this.notify();
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.clearRetryTimer();
+    this.listeners.clear();
+    window.removeEventListener('online', this.handleOnline);
+  }
+
+  private async drain(): Promise<void> {
+    this.clearRetryTimer();
+
+    while (this.items.length > 0 && !this.disposed) {
+      const item = this.items[0];
+      try {
+        await attemptApi.submitAnswer(this.attemptId, {
+          question_id: item.question_id,
+          selected_option_index: item.selected_option_index,
+          selected_option_indices: item.selected_option_indices,
+          numeric_answer: item.numeric_answer,
+          time_spent_seconds: item.time_spent_seconds,
+          visit_count: item.visit_count,
+          answer_changes: item.answer_changes,
+        });
+        // Only drop the entry if it was not replaced while the request was in flight
+        this.items = this.items.filter(existing => existing !== item);
+        this.persist();
+        this.retryDelay = BASE_RETRY_DELAY_MS;
+      } catch (err) {
+        console.error(`Failed to sync answer for question ${item.question_id}:`, err);
+        if (!isRetryableFailure(err)) {
+          // Sending it again would fail the same way, move on to the next answer
+          if (this.items.includes(item)) {
+            this.rejectedItems = [
+              ...this.rejectedItems.filter(existing => existing.question_id !== item.question_id),
+              {
+                ...item,
+                attempts: item.attempts + 1,
+                error: err instanceof Error ? err.message : String(err),
+                status: err instanceof ApiError ? err.status : 0,
+              },
+            ];
+            this.items = this.items.filter(existing => existing !== item);
+          }
+          this.persist();
+          continue;
+        }
+        this.items = this.items.map(existing =>
+          existing === item ? { ...existing, attempts: existing.attempts + 1 } : existing
+        );
+        this.persist();
+        this.scheduleRetry();
+        return;
+      }
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.disposed) return;
+    this.clearRetryTimer();
+    const delay = this.retryDelay;
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY_MS);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.flush();
+    }, delay);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private resetBackoff(): void {
+    this.retryDelay = BASE_RETRY_DELAY_MS;
+    this.clearRetryTimer();
+  }
+
+  private handleOnline = () => {
+    this.resetBackoff();
+    void this.flush();
+  };
+
+  private load<T extends QueuedAnswer>(key: string): T[] {
+    try {
+      const data = localStorage.getItem(key);
+      return data ? JSON.parse(data) : [];
+    } catch (err) {
+      console.error('Failed to read answer queue from storage:', err);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    this.save(this.storageKey, this.items);
+    this.save(this.rejectedKey, this.rejectedItems);
+    this.notify();
+  }
+
+  private save(key: string, items: QueuedAnswer[]): void {
+    if (items.length === 0) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(items));
+    }
+  }
+
+  private notify(): void {
+    const rejected = this.rejected;
+    this.listeners.forEach(listener => listener(this.items.length, rejected));
+  }
+}
@@ -0,0 +1,367 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { auth } from './firebase';
+import { API_BASE_URL, ApiError, apiCall, attemptApi, isAbortError, questionApi, userApi } from './api';
+
+const fetchMock = vi.fn<typeof fetch>();
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const success = <T>(data: T) => jsonResponse(200, { success: true, data, timestamp: '2024-01-01T00:00:00.000Z' });
+
+const failure = (status: number, code: string, message: string, details?: unknown) =>
+  jsonResponse(status, { error: { code, message, details, timestamp: '2024-01-01T00:00:00.000Z' } });
+
+// Resolves with the error the promise rejects with, so its fields can be checked
+const rejectionOf = async (promise: Promise<unknown>): Promise<ApiError> => {
+  try {
+    await promise;
+  } catch (err) {
+    expect(err).toBeInstanceOf(ApiError);
+    return err as ApiError;
+  }
+  throw new Error('Expected the call to fail');
+};
+
+// A fetch that only settles when its request is aborted, like a server that never answers
+const hangUntilAborted: typeof fetch = (_input, init) => new Promise((_resolve, reject) => {
+  const abort = () => reject(new DOMException('Aborted', 'AbortError'));
+  if (init?.signal?.aborted) abort();
+  init?.signal?.addEventListener('abort', abort);
+});
+
+const sentRequest = (call = 0) => {
+  const [url, init] = fetchMock.mock.calls[call];
+  return { url, init: init!, headers: init!.headers as Record<string, string> };
+};
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  Object.assign(auth, { currentUser: null });
+});
+
+describe('apiCall', () => {
+  it('unwraps the data of a success envelope', async () => {
+    fetchMock.mockResolvedValueOnce(success({ id: 'topic-1', name: 'Algebra' }));
+
+    await expect(apiCall('/topics/topic-1')).resolves.toEqual({ id: 'topic-1', name: 'Algebra' });
+
+    const { url, headers } = sentRequest();
+    expect(url).toBe(`${API_BASE_URL}/topics/topic-1`);
+    expect(headers['Content-Type']).toBe('application/json');
+    expect(headers['Authorization']).toBeUndefined();
+  });
+
+  it('sends the signed-in user\'s ID token', async () => {
+    Object.assign(auth, { currentUser: { getIdToken: async () => 'id-token' } });
+    fetchMock.mockResolvedValueOnce(success({}));
+
+    await apiCall('/me');
+
+    expect(sentRequest().headers['Authorization']).toBe('Bearer id-token');
+  });
+
+  it('keeps an Authorization header passed by the caller', async () => {
+    Object.assign(auth, { currentUser: { getIdToken: async () => 'id-token' } });
+    fetchMock.mockResolvedValueOnce(success({}));
+
+    await apiCall('/register', { method: 'POST', headers: { Authorization: 'Bearer fresh-token' } });
+
+    expect(sentRequest().headers['authorization']).toBe('Bearer fresh-token');
+    expect(sentRequest().headers['Authorization']).toBeUndefined();
+  });
+
+  it('turns an error envelope into an ApiError', async () => {
+    fetchMock.mockResolvedValueOnce(
+      failure(409, 'ATTEMPT_LIMIT_REACHED', 'No attempts left', { max_attempts: 2 })
+    );
+
+    const error = await rejectionOf(apiCall('/exams/exam-1/start', { method: 'POST' }));
+
+    expect(error.message).toBe('No attempts left');
+    expect(error.status).toBe(409);
+    expect(error.code).toBe('ATTEMPT_LIMIT_REACHED');
+    expect(error.details).toEqual({ max_attempts: 2 });
+    expect(error.isRetryable).toBe(false);
+  });
+
+  it('takes the request id from the X-Request-Id header, then from the envelope', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(
+      404,
+      { error: { code: 'NOT_FOUND', message: 'Exam not found', timestamp: '', request_id: 'body-id' } },
+      { 'X-Request-Id': 'header-id' }
+    ));
+    expect((await rejectionOf(apiCall('/exams/missing'))).requestId).toBe('header-id');
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(
+      404,
+      { error: { code: 'NOT_FOUND', message: 'Exam not found', timestamp: '', request_id: 'body-id' } }
+    ));
+    expect((await rejectionOf(apiCall('/exams/missing'))).requestId).toBe('body-id');
+  });
+
+  it('reports a failed response that is not JSON', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('<html>Bad Gateway</html>', { status: 502 }));
+
+    const error = await rejectionOf(apiCall('/exams', { method: 'POST', body: '{}' }));
+
+    expect(error.message).toBe('API request failed (502)');
+    expect(error.status).toBe(502);
+    expect(error.code).toBe('INVALID_RESPONSE');
+  });
+
+  it('rejects a successful response without the success envelope', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { id: 'topic-1' }));
+    const error = await rejectionOf(apiCall('/topics/topic-1'));
+    expect(error.code).toBe('INVALID_RESPONSE');
+    expect(error.message).toBe('Invalid API response format');
+
+    fetchMock.mockResolvedValueOnce(new Response('not json', { status: 200 }));
+    expect((await rejectionOf(apiCall('/topics/topic-1'))).code).toBe('INVALID_RESPONSE');
+  });
+
+  it('uses a generic error for a failed response without an error envelope', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(400, { message: 'Bad input' }));
+
+    const error = await rejectionOf(apiCall('/topics', { method: 'POST', body: '{}' }));
+
+    expect(error.message).toBe('API request failed');
+    expect(error.code).toBe('UNKNOWN_ERROR');
+  });
+
+  it('reports a network failure with status 0', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    const error = await rejectionOf(apiCall('/topics', { method: 'POST', body: '{}' }));
+
+    expect(error.status).toBe(0);
+    expect(error.code).toBe('NETWORK_ERROR');
+    expect(error.isRetryable).toBe(true);
+  });
+
+  it('gives up on a request that takes longer than the timeout', async () => {
+    fetchMock.mockImplementation(hangUntilAborted);
+
+    const error = await rejectionOf(apiCall('/topics', { method: 'POST', body: '{}', timeoutMs: 20 }));
+
+    expect(error.code).toBe('TIMEOUT');
+    expect(error.status).toBe(0);
+  });
+
+  it('stops when the caller aborts, without retrying', async () => {
+    fetchMock.mockImplementation(hangUntilAborted);
+    const controller = new AbortController();
+
+    const request = apiCall('/topics', { signal: controller.signal });
+    controller.abort();
+    const error = await rejectionOf(request);
+
+    expect(error.code).toBe('ABORTED');
+    expect(isAbortError(error)).toBe(true);
+    expect(error.isRetryable).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a GET after a server error', async () => {
+    fetchMock
+      .mockResolvedValueOnce(failure(503, 'UNAVAILABLE', 'Try again later'))
+      .mockResolvedValueOnce(success(['topic-1']));
+
+    await expect(apiCall('/topics')).resolves.toEqual(['topic-1']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up on a GET once the retries are used up', async () => {
+    fetchMock.mockImplementation(async () => failure(500, 'INTERNAL_ERROR', 'Server error'));
+
+    const error = await rejectionOf(apiCall('/topics', { retries: 1 }));
+
+    expect(error.status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry client errors or requests that change data', async () => {
+    fetchMock.mockImplementation(async () => failure(404, 'NOT_FOUND', 'Topic not found'));
+    await rejectionOf(apiCall('/topics/missing'));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async () => failure(503, 'UNAVAILABLE', 'Try again later'));
+    await rejectionOf(apiCall('/topics', { method: 'POST', body: '{}' }));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('questionApi.create validation', () => {
+  const validQuestion = {
+    topic_id: 'topic-1',
+    question_text: 'What is 2 + 2?',
+    correct_answer_index: 2,
+    options: [
+      { option_index: 1, option_text: '3' },
+      { option_index: 2, option_text: '4' },
+      { option_index: 3, option_text: '5' },
+    ],
+  };
+  const trueFalseOptions = [
+    { option_index: 1, option_text: 'True' },
+    { option_index: 2, option_text: 'False' },
+  ];
+
+  it.each([
+    ['a topic', { topic_id: ' ' }, 'topic_id is required and must be a string'],
+    ['question content', { question_text: '' }, 'At least one of question_text, question_latex, or image_url must be provided'],
+    ['at least two options', { options: validQuestion.options.slice(0, 1) }, 'Between 2 and 6 options are required'],
+    ['at most six options', {
+      options: Array.from({ length: 7 }, (_, i) => ({ option_index: i + 1, option_text: `${i}` })),
+    }, 'Between 2 and 6 options are required'],
+    ['option indices in range', {
+      options: [...validQuestion.options.slice(0, 2), { option_index: 4, option_text: '5' }],
+    }, 'Each option must have option_index between 1 and 3'],
+    ['distinct option indices', {
+      options: [...validQuestion.options.slice(0, 2), { option_index: 2, option_text: '5' }],
+    }, 'Duplicate option indices are not allowed'],
+    ['a correct answer among the options', { correct_answer_index: 4 }, 'correct_answer_index must be an integer between 1 and 3'],
+    ['exactly two options for TRUE_FALSE', { question_type: 'TRUE_FALSE' as const }, 'TRUE_FALSE questions must have exactly 2 options'],
+    ['a correct option for MULTI_SELECT', {
+      question_type: 'MULTI_SELECT' as const,
+      correct_answer_indices: [],
+    }, 'correct_answer_indices must contain at least one option for MULTI_SELECT questions'],
+    ['distinct correct options for MULTI_SELECT', {
+      question_type: 'MULTI_SELECT' as const,
+      correct_answer_indices: [1, 1],
+    }, 'correct_answer_indices must be distinct option indices of this question'],
+    ['an answer for NUMERIC', {
+      question_type: 'NUMERIC' as const,
+      options: [],
+    }, 'numeric_answer is required for NUMERIC questions'],
+    ['a non-negative tolerance for NUMERIC', {
+      question_type: 'NUMERIC' as const,
+      numeric_answer: 9.8,
+      numeric_tolerance: -0.1,
+      options: [],
+    }, 'numeric_tolerance must be zero or a positive number'],
+    ['no options for NUMERIC', {
+      question_type: 'NUMERIC' as const,
+      numeric_answer: 9.8,
+    }, 'NUMERIC questions must not have options'],
+    ['positive marks', { marks: 0 }, 'marks must be a positive number'],
+    ['a non-negative penalty', { penalty: -1 }, 'penalty must be zero or a positive number'],
+    ['a known difficulty', { difficulty: 'EXTREME' as 'HARD' }, 'difficulty must be one of EASY, MEDIUM, HARD, or null'],
+  ])('requires %s', async (_rule, changes, message) => {
+    await expect(questionApi.create({ ...validQuestion, ...changes })).rejects.toThrow(message);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['SINGLE_CHOICE', {}],
+    ['TRUE_FALSE', { question_type: 'TRUE_FALSE' as const, correct_answer_index: 1, options: trueFalseOptions }],
+    ['MULTI_SELECT', { question_type: 'MULTI_SELECT' as const, correct_answer_indices: [1, 3] }],
+    ['NUMERIC', { question_type: 'NUMERIC' as const, numeric_answer: 9.8, numeric_tolerance: 0, options: [] }],
+    ['LaTeX-only', { question_text: undefined, question_latex: '2 + 2', marks: 4, penalty: 0, difficulty: null }],
+  ])('sends a valid %s question', async (_type, changes) => {
+    const question = { ...validQuestion, ...changes };
+    fetchMock.mockResolvedValueOnce(success({ id: 'question-1', ...question }));
+
+    await expect(questionApi.create(question)).resolves.toMatchObject({ id: 'question-1' });
+
+    const { url, init } = sentRequest();
+    expect(url).toBe(`${API_BASE_URL}/questions`);
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body as string)).toEqual(JSON.parse(JSON.stringify(question)));
+  });
+});
+
+describe('questionApi.update validation', () => {
+  it.each([
+    ['only new options', { options: [{ option_index: 1, option_text: 'Yes' }, { option_index: 2, option_text: 'No' }] }],
+    ['only a new type', { question_type: 'MULTI_SELECT' as const }],
+  ])('leaves a patch with %s to the backend', async (_patch, patch) => {
+    fetchMock.mockResolvedValueOnce(success({ id: 'question-1' }));
+
+    await questionApi.update('question-1', patch);
+
+    const { url, init } = sentRequest();
+    expect(url).toBe(`${API_BASE_URL}/questions/question-1`);
+    expect(init.method).toBe('PATCH');
+  });
+
+  it('checks the answer key when the type and options are sent together', async () => {
+    await expect(questionApi.update('question-1', {
+      question_type: 'TRUE_FALSE',
+      options: [{ option_index: 1, option_text: 'True' }],
+    })).rejects.toThrow('TRUE_FALSE questions must have exactly 2 options');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('attemptApi.submitAnswer validation', () => {
+  const validAnswer = { question_id: 'question-1', selected_option_index: 2 };
+
+  it.each([
+    ['a question', { question_id: '' }, 'Question ID is required'],
+    ['a selected option of at least 1', { selected_option_index: 0 }, 'selected_option_index must be an integer between 1 and 6, or null'],
+    ['a selected option of at most 6', { selected_option_index: 7 }, 'selected_option_index must be an integer between 1 and 6, or null'],
+    ['selected options between 1 and 6', {
+      selected_option_index: null,
+      selected_option_indices: [2, 7],
+    }, 'selected_option_indices must contain integers between 1 and 6'],
+    ['a finite numeric answer', {
+      selected_option_index: null,
+      numeric_answer: Number.NaN,
+    }, 'numeric_answer must be a finite number, or null'],
+    ['non-negative time spent', { time_spent_seconds: -5 }, 'time_spent_seconds, visit_count and answer_changes must be non-negative integers'],
+    ['a whole number of visits', { visit_count: 1.5 }, 'time_spent_seconds, visit_count and answer_changes must be non-negative integers'],
+  ])('requires %s', async (_rule, changes, message) => {
+    await expect(attemptApi.submitAnswer('attempt-1', { ...validAnswer, ...changes })).rejects.toThrow(message);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['a selected option', { time_spent_seconds: 42, visit_count: 2, answer_changes: 0 }],
+    ['a cleared answer', { selected_option_index: null }],
+    ['selected options', { selected_option_index: null, selected_option_indices: [1, 6] }],
+    ['a numeric answer', { selected_option_index: null, numeric_answer: -3.5 }],
+  ])('sends %s', async (_kind, changes) => {
+    const answer = { ...validAnswer, ...changes };
+    fetchMock.mockResolvedValueOnce(success({ id: 'answer-1', attempt_id: 'attempt-1', ...answer }));
+
+    await attemptApi.submitAnswer('attempt-1', answer);
+
+    const { url, init } = sentRequest();
+    expect(url).toBe(`${API_BASE_URL}/attempts/attempt-1/answer`);
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body as string)).toEqual(answer);
+  });
+});
+
+describe('userApi.batchUpdateEnrollment validation', () => {
+  it('requires at least one user', async () => {
+    await expect(userApi.batchUpdateEnrollment({ user_ids: [], is_enrolled: true }))
+      .rejects.toThrow('User IDs array is required and must not be empty');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('requires a boolean enrollment status', async () => {
+    const data = { user_ids: ['user-1'], is_enrolled: 'true' as unknown as boolean };
+    await expect(userApi.batchUpdateEnrollment(data)).rejects.toThrow('Enrollment status must be a boolean');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('sends the users and status', async () => {
+    fetchMock.mockResolvedValueOnce(success({ updated_count: 2, total_requested: 2, is_enrolled: false }));
+
+    await expect(userApi.batchUpdateEnrollment({ user_ids: ['user-1', 'user-2'], is_enrolled: false }))
+      .resolves.toEqual({ updated_count: 2, total_requested: 2, is_enrolled: false });
+
+    const { url, init } = sentRequest();
+    expect(url).toBe(`${API_BASE_URL}/users/batch/enrollment`);
+    expect(init.method).toBe('PATCH');
+    expect(JSON.parse(init.body as string)).toEqual({ user_ids: ['user-1', 'user-2'], is_enrolled: false });
+  });
+});
@@ -1,7 +1,22 @@
 import { auth } from './firebase';
+import { getMockCurrentUser } from './mockAuth';
+import { QUESTION_DIFFICULTIES } from './questionDifficulty';
+import { STAFF_ROLES } from './permissions';
+import type {
+  AnswerPayload,
+  IntegrityEventType,
+  QuestionDifficulty,
+  QuestionTiming,
+  QuestionType,
+  RetakePolicy,
+  StaffRole,
+} from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_LOCAL_BACKEND_URL || 'http://localhost:8000/api/v1';
 
+// Serve every request from the in-process mock backend (mockBackend.ts) instead of API_BASE_URL
+const USE_MOCK_BACKEND = import.meta.env.VITE_MOCK_BACKEND === 'true';
+
 // API Response types
 interface ApiSuccessResponse<T> {
   success: true;
@@ -13,25 +28,92 @@ interface ApiErrorResponse {
   error: {
     code: string;
     message: string;
-    details?: any;
+    details?: unknown;
     timestamp: string;
+    request_id?: string;
   };
 }
 
 type ApiResponse<T> = ApiSuccessResponse<T> | ApiErrorResponse;
 
+/**
+ * Error thrown by every API call. Keeps the backend error envelope, so callers
+ * can branch on `status` or `code` rather than on the message text.
+ * status is 0 when no response arrived (network failure, timeout, abort).
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details?: unknown;
+  readonly requestId: string | null;
+
+  constructor(message: string, status: number, code: string, details?: unknown, requestId: string | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+    this.requestId = requestId;
+  }
+
+  /** Whether the same request may succeed if sent again */
+  get isRetryable(): boolean {
+    if (this.code === 'ABORTED') return false;
+    return this.status === 0 || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+// The caller cancelled the request, e.g. because the page unmounted. Nothing to report.
+export const isAbortError = (err: unknown): boolean => {
+  return err instanceof ApiError && err.code === 'ABORTED';
+};
+
+// Per-call options: every endpoint that loads data accepts an AbortSignal
+export interface ApiCallOptions {
+  signal?: AbortSignal;
+}
+
+interface ApiRequestOptions extends RequestInit {
+  timeoutMs?: number;
+  retries?: number; // Only used for GET requests, which are safe to repeat
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
 // Helper function to get auth token
 const getAuthToken = async (): Promise<string | null> => {
-  const currentUser = auth.currentUser;
+  const currentUser = USE_MOCK_BACKEND ? getMockCurrentUser() : auth.currentUser;
   if (!currentUser) return null;
   return await currentUser.getIdToken();
 };
 
-// Helper function to make authenticated API calls
-const apiCall = async <T>(
+// Wait before a retry, giving up early if the caller aborts
+const waitForRetry = (delayMs: number, signal?: AbortSignal | null): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError('Request was cancelled', 0, 'ABORTED'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError('Request was cancelled', 0, 'ABORTED'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Send one request, with a timeout, and unwrap the response envelope
+const sendRequest = async <T>(
   endpoint: string,
-  options: RequestInit = {}
-): Promise<T> => {
+  options: Omit<ApiRequestOptions, 'retries'>
+): Promise<{ data: T; timestamp: string }> => {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, signal, ...init } = options;
   const token = await getAuthToken();
   
   const headers: Record<string, string> = {
@@ -39,36 +121,115 @@ const apiCall = async <T>(
   };
 
   // Merge existing headers
-  if (options.headers) {
-    const existingHeaders = new Headers(options.headers);
+  if (init.headers) {
+    const existingHeaders = new Headers(init.headers);
     existingHeaders.forEach((value, key) => {
       headers[key] = value;
     });
   }
 
-  if (token) {
+  // A token passed by the caller wins, e.g. when registering before signing in
+  if (token && !headers['authorization']) {
     headers['Authorization'] = `Bearer ${token}`;
   }
 
-  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-    ...options,
-    headers,
-  });
+  // One controller for both the caller's signal and the timeout
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let response: Response;
+  let body: string;
+  try {
+    const requestInit = { ...init, headers, signal: controller.signal };
+    // Loaded on first use, so the mock and its seed data stay out of regular builds
+    response = USE_MOCK_BACKEND
+      ? await (await import('./mockBackend')).mockFetch(endpoint, requestInit)
+      : await fetch(`${API_BASE_URL}${endpoint}`, requestInit);
+    body = await response.text();
+  } catch (err) {
+    if (timedOut) {
+      throw new ApiError(`Request timed out after ${Math.round(timeoutMs / 1000)}s`, 0, 'TIMEOUT');
+    }
+    if (controller.signal.aborted) {
+      throw new ApiError('Request was cancelled', 0, 'ABORTED');
+    }
+    throw new ApiError('Could not reach the server. Check your connection.', 0, 'NETWORK_ERROR', err);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
 
-  const data: ApiResponse<T> = await response.json();
+  const requestId = response.headers.get('X-Request-Id');
+  let data: ApiResponse<T>;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new ApiError(
+      response.ok ? 'Invalid API response format' : `API request failed (${response.status})`,
+      response.status,
+      'INVALID_RESPONSE',
+      undefined,
+      requestId
+    );
+  }
 
   if (!response.ok) {
     if ('error' in data) {
-      throw new Error(data.error.message || 'API request failed');
+      throw new ApiError(
+        data.error.message || 'API request failed',
+        response.status,
+        data.error.code,
+        data.error.details,
+        requestId || data.error.request_id || null
+      );
     }
-    throw new Error('API request failed');
+    throw new ApiError('API request failed', response.status, 'UNKNOWN_ERROR', undefined, requestId);
   }
 
   if ('success' in data && data.success) {
-    return data.data;
+    return { data: data.data, timestamp: data.timestamp };
+  }
+
+  throw new ApiError('Invalid API response format', response.status, 'INVALID_RESPONSE', undefined, requestId);
+};
+
+// Helper function to make authenticated API calls, keeping the server timestamp
+// from the response envelope (used for clock synchronization).
+// GET requests are retried with exponential backoff on network errors, timeouts and 5xx.
+const apiCallWithTimestamp = async <T>(
+  endpoint: string,
+  options: ApiRequestOptions = {}
+): Promise<{ data: T; timestamp: string }> => {
+  const { retries, ...requestOptions } = options;
+  const isGet = !options.method || options.method.toUpperCase() === 'GET';
+  const maxRetries = isGet ? retries ?? DEFAULT_GET_RETRIES : 0;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendRequest<T>(endpoint, requestOptions);
+    } catch (err) {
+      if (attempt >= maxRetries || !(err instanceof ApiError) || !err.isRetryable) {
+        throw err;
+      }
+      await waitForRetry(RETRY_BASE_DELAY_MS * 2 ** attempt, options.signal);
+    }
   }
+};
 
-  throw new Error('Invalid API response format');
+// Helper function to make authenticated API calls
+const apiCall = async <T>(
+  endpoint: string,
+  options: ApiRequestOptions = {}
+): Promise<T> => {
+  const { data } = await apiCallWithTimestamp<T>(endpoint, options);
+  return data;
 };
 
 // GET /me response type with firebase_info
@@ -82,6 +243,7 @@ interface GetMeResponse {
   address?: string;
   is_enrolled: boolean;
   role: 'ADMIN' | 'STUDENT';
+  staff_role?: StaffRole | null; // ADMIN only, missing for full access
   created_at: string;
   firebase_info?: {
     email_verified: boolean;
@@ -148,7 +310,9 @@ interface AdminUserResponse {
   address?: string;
   is_enrolled: boolean;
   role: 'ADMIN' | 'STUDENT';
+  staff_role?: StaffRole | null;
   created_at: string;
+  batches?: Array<{ id: string; name: string }>;
 }
 
 interface GetUsersParams {
@@ -156,6 +320,7 @@ interface GetUsersParams {
   limit?: number;
   role?: 'ADMIN' | 'STUDENT';
   isEnrolled?: boolean;
+  batchId?: string;
   search?: string;
 }
 
@@ -176,6 +341,7 @@ interface UpdateUserRequest {
   address?: string;
   is_enrolled?: boolean;
   role?: 'ADMIN' | 'STUDENT';
+  staff_role?: StaffRole | null; // Cleared by the backend when role is STUDENT
 }
 
 interface UpdateEnrollmentRequest {
@@ -200,8 +366,8 @@ export const userApi = {
    * GET /me
    * Returns user profile with firebase_info
    */
-  getCurrentUser: async (): Promise<GetMeResponse> => {
-    return apiCall<GetMeResponse>('/me');
+  getCurrentUser: async (options?: ApiCallOptions): Promise<GetMeResponse> => {
+    return apiCall<GetMeResponse>('/me', options);
   },
 
   /**
@@ -226,39 +392,47 @@ export const userApi = {
   /**
    * Get all users with filtering and pagination (Admin only)
    * GET /users
-   * Query params: page, limit, role, isEnrolled, search
+   * Query params: page, limit, role, isEnrolled, batchId, search
    */
-  getAllUsers: async (params?: GetUsersParams): Promise<GetUsersResponse> => {
+  getAllUsers: async (params?: GetUsersParams, options?: ApiCallOptions): Promise<GetUsersResponse> => {
     const queryParams = new URLSearchParams();
     if (params?.page) queryParams.append('page', params.page.toString());
     if (params?.limit) queryParams.append('limit', params.limit.toString());
     if (params?.role) queryParams.append('role', params.role);
     if (params?.isEnrolled !== undefined) queryParams.append('isEnrolled', params.isEnrolled.toString());
+    if (params?.batchId) queryParams.append('batchId', params.batchId);
     if (params?.search) queryParams.append('search', params.search);
 
     const queryString = queryParams.toString();
-    return apiCall<GetUsersResponse>(`/users${queryString ? `?${queryString}` : ''}`);
+    return apiCall<GetUsersResponse>(`/users${queryString ? `?${queryString}` : ''}`, options);
   },
 
   /**
    * Get user by ID (Admin only)
    * GET /users/:id
    */
-  getUserById: async (userId: string): Promise<AdminUserResponse> => {
+  getUserById: async (userId: string, options?: ApiCallOptions): Promise<AdminUserResponse> => {
     if (!userId || userId.trim() === '') {
       throw new Error('Valid user ID is required');
     }
-    return apiCall<AdminUserResponse>(`/users/${userId}`);
+    return apiCall<AdminUserResponse>(`/users/${userId}`, options);
   },
 
   /**
    * Update user profile (Admin or self)
    * PATCH /users/:id
+   * role and staff_role require the manage_users capability
    */
   updateUser: async (userId: string, data: UpdateUserRequest): Promise<AdminUserResponse> => {
     if (!userId || userId.trim() === '') {
       throw new Error('Valid user ID is required');
     }
+    if (data.staff_role !== undefined && data.staff_role !== null && !STAFF_ROLES.includes(data.staff_role)) {
+      throw new Error(`staff_role must be one of ${STAFF_ROLES.join(', ')}, or null`);
+    }
+    if (data.staff_role && data.role === 'STUDENT') {
+      throw new Error('Only admins can have a staff role');
+    }
     return apiCall<AdminUserResponse>(`/users/${userId}`, {
       method: 'PATCH',
       body: JSON.stringify(data),
@@ -300,6 +474,118 @@ export const userApi = {
   },
 };
 
+// Batch API types
+interface BatchResponse {
+  id: string;
+  name: string;
+  start_date: string;
+  created_at: string;
+  member_count?: number;
+  exam_count?: number;
+}
+
+interface CreateBatchRequest {
+  name: string;
+  start_date: string; // ISO date
+}
+
+interface UpdateBatchRequest {
+  name?: string;
+  start_date?: string;
+}
+
+interface BatchMembersRequest {
+  user_ids: string[];
+}
+
+interface BatchMembersResponse {
+  updated_count: number;
+  total_requested: number;
+}
+
+// Validate a batch name and start date
+const validateBatch = (name?: string, startDate?: string) => {
+  if (name !== undefined && (!name || name.trim() === '')) {
+    throw new Error('Batch name is required and must be a non-empty string');
+  }
+  if (startDate !== undefined && Number.isNaN(Date.parse(startDate))) {
+    throw new Error('start_date must be a valid ISO date string');
+  }
+};
+
+// Batch API endpoints - cohorts of students that exams are assigned to (Admin only)
+export const batchApi = {
+  /**
+   * Get all batches with member and exam counts
+   * GET /batches
+   */
+  getAll: async (options?: ApiCallOptions): Promise<BatchResponse[]> => {
+    return apiCall<BatchResponse[]>('/batches', options);
+  },
+
+  /**
+   * Create new batch
+   * POST /batches
+   */
+  create: async (data: CreateBatchRequest): Promise<BatchResponse> => {
+    validateBatch(data.name, data.start_date);
+    return apiCall<BatchResponse>('/batches', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Update batch
+   * PATCH /batches/:id
+   */
+  update: async (id: string, data: UpdateBatchRequest): Promise<BatchResponse> => {
+    validateBatch(data.name, data.start_date);
+    return apiCall<BatchResponse>(`/batches/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Delete batch. Members and assigned exams are kept, only the links are removed.
+   * DELETE /batches/:id
+   */
+  delete: async (id: string): Promise<void> => {
+    return apiCall<void>(`/batches/${id}`, {
+      method: 'DELETE',
+    });
+  },
+
+  /**
+   * Add users to a batch, users already in it are skipped
+   * POST /batches/:id/members
+   */
+  addMembers: async (id: string, data: BatchMembersRequest): Promise<BatchMembersResponse> => {
+    if (!data.user_ids || data.user_ids.length === 0) {
+      throw new Error('User IDs array is required and must not be empty');
+    }
+    return apiCall<BatchMembersResponse>(`/batches/${id}/members`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Remove users from a batch
+   * POST /batches/:id/members/remove
+   */
+  removeMembers: async (id: string, data: BatchMembersRequest): Promise<BatchMembersResponse> => {
+    if (!data.user_ids || data.user_ids.length === 0) {
+      throw new Error('User IDs array is required and must not be empty');
+    }
+    return apiCall<BatchMembersResponse>(`/batches/${id}/members/remove`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+};
+
 // Topic API endpoints
 export const topicApi = {
   /**
@@ -307,22 +593,22 @@ export const topicApi = {
    * GET /topics
    * Query params: skip, take, include_count
    */
-  getAll: async (params?: GetTopicsParams): Promise<TopicResponse[]> => {
+  getAll: async (params?: GetTopicsParams, options?: ApiCallOptions): Promise<TopicResponse[]> => {
     const queryParams = new URLSearchParams();
     if (params?.skip !== undefined) queryParams.append('skip', params.skip.toString());
     if (params?.take !== undefined) queryParams.append('take', params.take.toString());
     if (params?.include_count !== undefined) queryParams.append('include_count', params.include_count.toString());
     
     const endpoint = queryParams.toString() ? `/topics?${queryParams.toString()}` : '/topics';
-    return apiCall<TopicResponse[]>(endpoint);
+    return apiCall<TopicResponse[]>(endpoint, options);
   },
 
   /**
    * Get topic by ID
    * GET /topics/:id
    */
-  getById: async (id: string): Promise<TopicResponse> => {
-    return apiCall<TopicResponse>(`/topics/${id}`);
+  getById: async (id: string, options?: ApiCallOptions): Promise<TopicResponse> => {
+    return apiCall<TopicResponse>(`/topics/${id}`, options);
   },
 
   /**
@@ -375,9 +661,16 @@ interface QuestionResponse {
   question_text?: string;
   question_latex?: string;
   image_url?: string;
+  question_type?: QuestionType;
   correct_answer_index?: number; // Not included for students
+  correct_answer_indices?: number[]; // Not included for students
+  numeric_answer?: number | null; // Not included for students
+  numeric_tolerance?: number | null; // Not included for students
   explanation_latex?: string;
   video_solution_url?: string;
+  marks?: number | null;
+  penalty?: number | null;
+  difficulty?: QuestionDifficulty | null;
   created_at: string;
   topic?: {
     id: string;
@@ -391,9 +684,16 @@ interface CreateQuestionRequest {
   question_text?: string;
   question_latex?: string;
   image_url?: string;
-  correct_answer_index: number;
+  question_type?: QuestionType; // Defaults to SINGLE_CHOICE
+  correct_answer_index?: number; // Required for SINGLE_CHOICE and TRUE_FALSE
+  correct_answer_indices?: number[]; // Required for MULTI_SELECT
+  numeric_answer?: number | null; // Required for NUMERIC
+  numeric_tolerance?: number | null;
   explanation_latex?: string;
   video_solution_url?: string;
+  marks?: number | null; // null to use the exam's marking scheme
+  penalty?: number | null; // null to use the exam's marking scheme
+  difficulty?: QuestionDifficulty | null; // null to leave untagged
   options: Array<{
     option_index: number;
     option_text: string;
@@ -405,17 +705,109 @@ interface UpdateQuestionRequest {
   question_text?: string;
   question_latex?: string;
   image_url?: string;
+  question_type?: QuestionType;
   correct_answer_index?: number;
+  correct_answer_indices?: number[];
+  numeric_answer?: number | null;
+  numeric_tolerance?: number | null;
   explanation_latex?: string;
   video_solution_url?: string;
+  marks?: number | null;
+  penalty?: number | null;
+  difficulty?: QuestionDifficulty | null;
   options?: Array<{
     option_index: number;
     option_text: string;
   }>;
 }
 
+// Validate marks awarded for a correct answer and deducted for a wrong one
+const validateMarks = (
+  marks: number | null | undefined,
+  penalty: number | null | undefined,
+  fields: { marks: string; penalty: string } = { marks: 'marks', penalty: 'penalty' }
+) => {
+  if (marks !== undefined && marks !== null && (!Number.isFinite(marks) || marks <= 0)) {
+    throw new Error(`${fields.marks} must be a positive number`);
+  }
+  if (penalty !== undefined && penalty !== null && (!Number.isFinite(penalty) || penalty < 0)) {
+    throw new Error(`${fields.penalty} must be zero or a positive number`);
+  }
+};
+
+// Validate a difficulty tag
+const validateDifficulty = (difficulty?: QuestionDifficulty | null) => {
+  if (difficulty !== undefined && difficulty !== null && !QUESTION_DIFFICULTIES.includes(difficulty)) {
+    throw new Error(`difficulty must be one of ${QUESTION_DIFFICULTIES.join(', ')}, or null`);
+  }
+};
+
+// Validate options and answer key for the question type
+const validateAnswerKey = (data: CreateQuestionRequest | UpdateQuestionRequest) => {
+  const type = data.question_type || 'SINGLE_CHOICE';
+  const options = data.options || [];
+
+  if (type === 'NUMERIC') {
+    if (data.numeric_answer === undefined || data.numeric_answer === null || !Number.isFinite(data.numeric_answer)) {
+      throw new Error('numeric_answer is required for NUMERIC questions');
+    }
+    if (data.numeric_tolerance !== undefined && data.numeric_tolerance !== null &&
+        (!Number.isFinite(data.numeric_tolerance) || data.numeric_tolerance < 0)) {
+      throw new Error('numeric_tolerance must be zero or a positive number');
+    }
+    if (options.length > 0) {
+      throw new Error('NUMERIC questions must not have options');
+    }
+    return;
+  }
+
+  if (type === 'TRUE_FALSE' && options.length !== 2) {
+    throw new Error('TRUE_FALSE questions must have exactly 2 options');
+  }
+  if (options.length < 2 || options.length > 6) {
+    throw new Error('Between 2 and 6 options are required');
+  }
+
+  const indices = options.map(o => o.option_index);
+  if (indices.some(i => !Number.isInteger(i) || i < 1 || i > options.length)) {
+    throw new Error(`Each option must have option_index between 1 and ${options.length}`);
+  }
+  if (new Set(indices).size !== indices.length) {
+    throw new Error('Duplicate option indices are not allowed');
+  }
+
+  if (type === 'MULTI_SELECT') {
+    const correct = data.correct_answer_indices || [];
+    if (correct.length === 0) {
+      throw new Error('correct_answer_indices must contain at least one option for MULTI_SELECT questions');
+    }
+    if (correct.some(i => !indices.includes(i)) || new Set(correct).size !== correct.length) {
+      throw new Error('correct_answer_indices must be distinct option indices of this question');
+    }
+  } else if (!data.correct_answer_index || !indices.includes(data.correct_answer_index)) {
+    throw new Error(`correct_answer_index must be an integer between 1 and ${options.length}`);
+  }
+};
+
+/**
+ * Validate a new question the way questionApi.create does.
+ * Exported so bulk imports can report problems per row before creating anything.
+ */
+export const validateQuestion = (data: CreateQuestionRequest) => {
+  if (!data.topic_id || data.topic_id.trim() === '') {
+    throw new Error('topic_id is required and must be a string');
+  }
+  if (!data.question_text && !data.question_latex && !data.image_url) {
+    throw new Error('At least one of question_text, question_latex, or image_url must be provided');
+  }
+  validateAnswerKey(data);
+  validateMarks(data.marks, data.penalty);
+  validateDifficulty(data.difficulty);
+};
+
 interface GetQuestionsParams {
   topic_id?: string;
+  difficulty?: QuestionDifficulty;
   skip?: number;
   take?: number;
 }
@@ -426,22 +818,23 @@ export const questionApi = {
    * Get all questions with filtering and pagination
    * GET /questions
    */
-  getAll: async (params?: GetQuestionsParams): Promise<QuestionResponse[]> => {
+  getAll: async (params?: GetQuestionsParams, options?: ApiCallOptions): Promise<QuestionResponse[]> => {
     const queryParams = new URLSearchParams();
     if (params?.topic_id) queryParams.append('topic_id', params.topic_id);
+    if (params?.difficulty) queryParams.append('difficulty', params.difficulty);
     if (params?.skip !== undefined) queryParams.append('skip', params.skip.toString());
     if (params?.take !== undefined) queryParams.append('take', params.take.toString());
     
     const endpoint = queryParams.toString() ? `/questions?${queryParams.toString()}` : '/questions';
-    return apiCall<QuestionResponse[]>(endpoint);
+    return apiCall<QuestionResponse[]>(endpoint, options);
   },
 
   /**
    * Get question by ID
    * GET /questions/:id
    */
-  getById: async (id: string): Promise<QuestionResponse> => {
-    return apiCall<QuestionResponse>(`/questions/${id}`);
+  getById: async (id: string, options?: ApiCallOptions): Promise<QuestionResponse> => {
+    return apiCall<QuestionResponse>(`/questions/${id}`, options);
   },
 
   /**
@@ -449,28 +842,7 @@ export const questionApi = {
    * POST /questions
    */
   create: async (data: CreateQuestionRequest): Promise<QuestionResponse> => {
-    // Validation
-    if (!data.topic_id || data.topic_id.trim() === '') {
-      throw new Error('topic_id is required and must be a string');
-    }
-    if (data.correct_answer_index < 1 || data.correct_answer_index > 4) {
-      throw new Error('correct_answer_index must be an integer between 1 and 4');
-    }
-    if (!data.question_text && !data.question_latex && !data.image_url) {
-      throw new Error('At least one of question_text, question_latex, or image_url must be provided');
-    }
-    if (!data.options || data.options.length !== 4) {
-      throw new Error('Exactly 4 options are required');
-    }
-    
-    // Validate options
-    const indices = data.options.map(o => o.option_index);
-    if (indices.some(i => i < 1 || i > 4)) {
-      throw new Error('Each option must have option_index between 1 and 4');
-    }
-    if (new Set(indices).size !== indices.length) {
-      throw new Error('Duplicate option indices are not allowed');
-    }
+    validateQuestion(data);
     
     return apiCall<QuestionResponse>('/questions', {
       method: 'POST',
@@ -483,6 +855,13 @@ export const questionApi = {
    * PATCH /questions/:id
    */
   update: async (id: string, data: UpdateQuestionRequest): Promise<QuestionResponse> => {
+    // The answer key can only be checked when the type and options are sent together,
+    // a patch with just one of them is checked by the backend against the stored question
+    if (data.question_type !== undefined && data.options !== undefined) {
+      validateAnswerKey(data);
+    }
+    validateMarks(data.marks, data.penalty);
+    validateDifficulty(data.difficulty);
     return apiCall<QuestionResponse>(`/questions/${id}`, {
       method: 'PATCH',
       body: JSON.stringify(data),
@@ -540,21 +919,21 @@ export const questionSetApi = {
    * Get all question sets with pagination
    * GET /question-sets
    */
-  getAll: async (params?: GetQuestionSetsParams): Promise<QuestionSetResponse[]> => {
+  getAll: async (params?: GetQuestionSetsParams, options?: ApiCallOptions): Promise<QuestionSetResponse[]> => {
     const queryParams = new URLSearchParams();
     if (params?.skip !== undefined) queryParams.append('skip', params.skip.toString());
     if (params?.take !== undefined) queryParams.append('take', params.take.toString());
     
     const endpoint = queryParams.toString() ? `/question-sets?${queryParams.toString()}` : '/question-sets';
-    return apiCall<QuestionSetResponse[]>(endpoint);
+    return apiCall<QuestionSetResponse[]>(endpoint, options);
   },
 
   /**
    * Get question set by ID with questions
    * GET /question-sets/:id
    */
-  getById: async (id: string): Promise<QuestionSetResponse> => {
-    return apiCall<QuestionSetResponse>(`/question-sets/${id}`);
+  getById: async (id: string, options?: ApiCallOptions): Promise<QuestionSetResponse> => {
+    return apiCall<QuestionSetResponse>(`/question-sets/${id}`, options);
   },
 
   /**
@@ -646,9 +1025,23 @@ interface ExamResponse {
   title: string;
   time_limit_seconds: number;
   exam_link: string;
+  opens_at?: string | null;
+  closes_at?: string | null;
+  max_attempts?: number | null;
+  retake_policy?: RetakePolicy;
+  shuffle_questions?: boolean;
+  shuffle_within_sets?: boolean;
+  shuffle_options?: boolean;
+  marks_per_correct?: number;
+  penalty_per_wrong?: number;
+  proctoring_enabled?: boolean;
+  require_fullscreen?: boolean;
+  max_violations?: number | null;
   created_at: string;
+  batches?: Array<{ id: string; name: string }>; // Empty for an exam open to every student
   exam_question_sets?: Array<{
     position: number;
+    section_time_limit_seconds?: number | null;
     question_set: any;
   }>;
 }
@@ -657,18 +1050,110 @@ interface CreateExamRequest {
   title: string;
   time_limit_seconds: number;
   exam_link: string;
+  opens_at?: string | null; // ISO timestamp, null for no start restriction
+  closes_at?: string | null; // ISO timestamp, null for no end restriction
+  max_attempts?: number | null; // null for unlimited attempts
+  retake_policy?: RetakePolicy;
+  shuffle_questions?: boolean;
+  shuffle_within_sets?: boolean; // Requires shuffle_questions
+  shuffle_options?: boolean;
+  marks_per_correct?: number; // Defaults to 1
+  penalty_per_wrong?: number; // Defaults to 0 (no negative marking)
+  proctoring_enabled?: boolean; // Record integrity events during attempts
+  require_fullscreen?: boolean; // Requires proctoring_enabled
+  max_violations?: number | null; // Auto-submit after this many integrity events, null for never
+  batch_ids?: string[]; // Only these batches can take the exam, empty for every student
 }
 
 interface UpdateExamRequest {
   title?: string;
   time_limit_seconds?: number;
   exam_link?: string;
+  opens_at?: string | null;
+  closes_at?: string | null;
+  max_attempts?: number | null;
+  retake_policy?: RetakePolicy;
+  shuffle_questions?: boolean;
+  shuffle_within_sets?: boolean;
+  shuffle_options?: boolean;
+  marks_per_correct?: number;
+  penalty_per_wrong?: number;
+  proctoring_enabled?: boolean;
+  require_fullscreen?: boolean;
+  max_violations?: number | null;
+  batch_ids?: string[]; // Replaces the assigned batches
+}
+
+interface ExamAttemptResponse {
+  id: string;
+  exam_id: string;
+  user_id: string;
+  status: 'IN_PROGRESS' | 'SUBMITTED' | 'EXPIRED';
+  score: number | null;
+  marks_obtained?: number;
+  total_marks?: number;
+  started_at: string;
+  submitted_at: string | null;
+  user?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  exam_answers?: Array<AnswerPayload & { // Only with include_answers
+    question_id: string;
+    is_correct?: boolean;
+  }>;
 }
 
+// Validate attempt limit and retake policy settings
+const validateAttemptPolicy = (maxAttempts?: number | null, retakePolicy?: RetakePolicy) => {
+  if (maxAttempts !== undefined && maxAttempts !== null &&
+      (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+    throw new Error('max_attempts must be a positive integer, or null for unlimited attempts');
+  }
+  if (retakePolicy !== undefined && !['BEST', 'LATEST', 'AVERAGE'].includes(retakePolicy)) {
+    throw new Error('retake_policy must be one of BEST, LATEST or AVERAGE');
+  }
+};
+
+// Validate question/option shuffle settings
+const validateShuffleSettings = (shuffleQuestions?: boolean, shuffleWithinSets?: boolean) => {
+  if (shuffleWithinSets && shuffleQuestions === false) {
+    throw new Error('shuffle_within_sets requires shuffle_questions to be enabled');
+  }
+};
+
+// Validate proctoring settings
+const validateProctoringSettings = (proctoringEnabled?: boolean, requireFullscreen?: boolean, maxViolations?: number | null) => {
+  if ((requireFullscreen || (maxViolations !== undefined && maxViolations !== null)) && proctoringEnabled === false) {
+    throw new Error('require_fullscreen and max_violations require proctoring_enabled');
+  }
+  if (maxViolations !== undefined && maxViolations !== null &&
+      (!Number.isInteger(maxViolations) || maxViolations < 1)) {
+    throw new Error('max_violations must be a positive integer, or null to never auto-submit');
+  }
+};
+
+// Validate an exam availability window
+const validateExamWindow = (opensAt?: string | null, closesAt?: string | null) => {
+  const opens = opensAt ? Date.parse(opensAt) : null;
+  const closes = closesAt ? Date.parse(closesAt) : null;
+  if (opens !== null && Number.isNaN(opens)) {
+    throw new Error('opens_at must be a valid ISO date string');
+  }
+  if (closes !== null && Number.isNaN(closes)) {
+    throw new Error('closes_at must be a valid ISO date string');
+  }
+  if (opens !== null && closes !== null && closes <= opens) {
+    throw new Error('closes_at must be later than opens_at');
+  }
+};
+
 interface SetQuestionSetsRequest {
   question_sets: Array<{
     question_set_id: string;
     position: number;
+    section_time_limit_seconds?: number | null; // Makes the set a timed section, null for none
   }>;
 }
 
@@ -683,29 +1168,29 @@ export const examApi = {
    * Get all exams with pagination
    * GET /exams
    */
-  getAll: async (params?: GetExamsParams): Promise<ExamResponse[]> => {
+  getAll: async (params?: GetExamsParams, options?: ApiCallOptions): Promise<ExamResponse[]> => {
     const queryParams = new URLSearchParams();
     if (params?.skip !== undefined) queryParams.append('skip', params.skip.toString());
     if (params?.take !== undefined) queryParams.append('take', params.take.toString());
     
     const endpoint = queryParams.toString() ? `/exams?${queryParams.toString()}` : '/exams';
-    return apiCall<ExamResponse[]>(endpoint);
+    return apiCall<ExamResponse[]>(endpoint, options);
   },
 
   /**
    * Get exam by ID
    * GET /exams/:id
    */
-  getById: async (id: string): Promise<ExamResponse> => {
-    return apiCall<ExamResponse>(`/exams/${id}`);
+  getById: async (id: string, options?: ApiCallOptions): Promise<ExamResponse> => {
+    return apiCall<ExamResponse>(`/exams/${id}`, options);
   },
 
   /**
    * Get exam by link
    * GET /exams/link/:examLink
    */
-  getByLink: async (examLink: string): Promise<ExamResponse> => {
-    return apiCall<ExamResponse>(`/exams/link/${examLink}`);
+  getByLink: async (examLink: string, options?: ApiCallOptions): Promise<ExamResponse> => {
+    return apiCall<ExamResponse>(`/exams/link/${examLink}`, options);
   },
 
   /**
@@ -722,6 +1207,11 @@ export const examApi = {
     if (!/^[a-zA-Z0-9_-]+$/.test(data.exam_link)) {
       throw new Error('exam_link can only contain letters, numbers, hyphens, and underscores');
     }
+    validateExamWindow(data.opens_at, data.closes_at);
+    validateAttemptPolicy(data.max_attempts, data.retake_policy);
+    validateShuffleSettings(data.shuffle_questions, data.shuffle_within_sets);
+    validateMarks(data.marks_per_correct, data.penalty_per_wrong, { marks: 'marks_per_correct', penalty: 'penalty_per_wrong' });
+    validateProctoringSettings(data.proctoring_enabled, data.require_fullscreen, data.max_violations);
     
     return apiCall<ExamResponse>('/exams', {
       method: 'POST',
@@ -734,6 +1224,12 @@ export const examApi = {
    * PATCH /exams/:id
    */
   update: async (id: string, data: UpdateExamRequest): Promise<ExamResponse> => {
+    validateExamWindow(data.opens_at, data.closes_at);
+    validateAttemptPolicy(data.max_attempts, data.retake_policy);
+    validateShuffleSettings(data.shuffle_questions, data.shuffle_within_sets);
+    validateMarks(data.marks_per_correct, data.penalty_per_wrong, { marks: 'marks_per_correct', penalty: 'penalty_per_wrong' });
+    validateProctoringSettings(data.proctoring_enabled, data.require_fullscreen, data.max_violations);
+    
     return apiCall<ExamResponse>(`/exams/${id}`, {
       method: 'PATCH',
       body: JSON.stringify(data),
@@ -779,6 +1275,10 @@ export const examApi = {
     if (new Set(questionSetIds).size !== questionSetIds.length) {
       throw new Error('Duplicate question sets are not allowed in the same exam');
     }
+    if (data.question_sets.some(q => q.section_time_limit_seconds !== undefined && q.section_time_limit_seconds !== null &&
+        (!Number.isInteger(q.section_time_limit_seconds) || q.section_time_limit_seconds <= 0))) {
+      throw new Error('section_time_limit_seconds must be a positive integer, or null for no section time limit');
+    }
     
     return apiCall<ExamResponse>(`/exams/${id}/question-sets`, {
       method: 'PUT',
@@ -799,16 +1299,22 @@ export const examApi = {
   /**
    * Get all attempts for an exam (Admin only)
    * GET /exams/:id/attempts
+   * include_answers adds each attempt's answers, for item analysis
    */
-  getAttempts: async (id: string, params?: { skip?: number; take?: number }): Promise<any[]> => {
+  getAttempts: async (
+    id: string,
+    params?: { skip?: number; take?: number; include_answers?: boolean },
+    options?: ApiCallOptions
+  ): Promise<ExamAttemptResponse[]> => {
     const queryParams = new URLSearchParams();
     if (params?.skip !== undefined) queryParams.append('skip', params.skip.toString());
     if (params?.take !== undefined) queryParams.append('take', params.take.toString());
+    if (params?.include_answers) queryParams.append('include_answers', 'true');
     
     const endpoint = queryParams.toString() 
       ? `/exams/${id}/attempts?${queryParams.toString()}` 
       : `/exams/${id}/attempts`;
-    return apiCall<any[]>(endpoint);
+    return apiCall<ExamAttemptResponse[]>(endpoint, options);
   },
 };
 
@@ -819,21 +1325,42 @@ interface AttemptResponse {
   user_id: string;
   status: 'IN_PROGRESS' | 'SUBMITTED' | 'EXPIRED';
   total_time_seconds: number;
+  started_at?: string;
+  expires_at?: string;
   submitted_at?: string;
   completed_at?: string;
+  shuffle_seed?: number | null; // Generated at start when the exam shuffles questions or options
+  current_section_position?: number | null; // Sectioned exams: position of the open section
+  section_expires_at?: string | null; // Sectioned exams: when the open section closes, if it is timed
+  integrity_violation_count?: number; // Integrity events the server has recorded for the attempt
+  marks_obtained?: number; // Under the exam's marking scheme, can be negative
+  total_marks?: number;
   score?: number;
   total_questions?: number;
   time_taken_seconds?: number;
   correct_answers?: number;
-  topic_performance?: Array<{
-    topic_name: string;
+  topic_performance?: AttemptTopicPerformance[];
+  section_performance?: Array<{
+    position: number;
+    title: string;
     total_questions: number;
     correct_answers: number;
-    percentage: number;
+    marks_obtained?: number;
+    total_marks?: number;
   }>;
-  exam?: any;
-  user?: any;
-  answers?: any[];
+  exam?: {
+    id: string;
+    title: string;
+    time_limit_seconds: number;
+    marks_per_correct?: number;
+    penalty_per_wrong?: number;
+  };
+  user?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  answers?: SubmitAnswerResponse[];
   questions?: Array<{
     questionSetPosition: number;
     questionPosition: number;
@@ -842,6 +1369,7 @@ interface AttemptResponse {
       text: string;
       question_latex?: string;
       image_url?: string;
+      question_type?: QuestionType;
       options: string[];
       marks: number;
       topic?: {
@@ -851,16 +1379,72 @@ interface AttemptResponse {
   }>;
 }
 
-interface SubmitAnswerRequest {
+interface AttemptTopicPerformance {
+  topic_id?: string;
+  topic_name: string;
+  total_questions: number;
+  correct_answers: number;
+  percentage: number;
+}
+
+interface TimeRemainingResponse {
+  time_remaining_seconds: number;
+  current_section_position?: number | null; // Sectioned exams only
+  section_time_remaining_seconds?: number | null; // Only when the open section is timed
+  server_timestamp: string; // Server clock at the time of the response
+}
+
+interface SubmitAnswerRequest extends AnswerPayload, Partial<QuestionTiming> {
   question_id: string;
-  selected_option_index: number | null;
 }
 
+interface SubmitAnswerResponse extends AnswerPayload, Partial<QuestionTiming> {
+  id: string;
+  attempt_id: string;
+  question_id: string;
+  is_correct?: boolean; // Only present once the attempt is graded
+  answered_at: string;
+}
+
+interface IntegrityEventRequest {
+  type: IntegrityEventType;
+  occurred_at: string; // ISO timestamp on the student's device
+  details?: string;
+}
+
+interface RecordIntegrityEventsResponse {
+  violation_count: number; // All integrity events recorded for the attempt, including these
+}
+
+interface IntegrityEventResponse extends IntegrityEventRequest {
+  id: string;
+  attempt_id: string;
+  received_at?: string; // Server time the event arrived, events are sent in batches
+}
+
+// Validate one answer as sent by a student
+const validateAnswerPayload = (data: AnswerPayload & { question_id: string }) => {
+  if (!data.question_id) {
+    throw new Error('Question ID is required');
+  }
+  if (data.selected_option_index !== null && 
+      (data.selected_option_index < 1 || data.selected_option_index > 6)) {
+    throw new Error('selected_option_index must be an integer between 1 and 6, or null');
+  }
+  if (data.selected_option_indices?.some(i => i < 1 || i > 6)) {
+    throw new Error('selected_option_indices must contain integers between 1 and 6');
+  }
+  if (data.numeric_answer !== undefined && data.numeric_answer !== null && !Number.isFinite(data.numeric_answer)) {
+    throw new Error('numeric_answer must be a finite number, or null');
+  }
+};
+
 // Exam Attempt API endpoints
 export const attemptApi = {
   /**
-   * Start a new exam attempt
+   * Start a new exam attempt (or resume the in-progress one)
    * POST /exams/:id/start
+   * Rejected by the backend once the exam's max_attempts has been used up
    */
   start: async (examId: string): Promise<AttemptResponse> => {
     return apiCall<AttemptResponse>(`/exams/${examId}/start`, {
@@ -872,16 +1456,15 @@ export const attemptApi = {
    * Submit an answer for a question
    * POST /attempts/:attemptId/answer
    */
-  submitAnswer: async (attemptId: string, data: SubmitAnswerRequest): Promise<any> => {
-    if (!data.question_id) {
-      throw new Error('Question ID is required');
-    }
-    if (data.selected_option_index !== null && 
-        (data.selected_option_index < 1 || data.selected_option_index > 4)) {
-      throw new Error('selected_option_index must be an integer between 1 and 4, or null');
+  submitAnswer: async (attemptId: string, data: SubmitAnswerRequest): Promise<SubmitAnswerResponse> => {
+    validateAnswerPayload(data);
+    if ([data.time_spent_seconds, data.visit_count, data.answer_changes].some(
+      value => value !== undefined && (!Number.isInteger(value) || value < 0)
+    )) {
+      throw new Error('time_spent_seconds, visit_count and answer_changes must be non-negative integers');
     }
     
-    return apiCall<any>(`/attempts/${attemptId}/answer`, {
+    return apiCall<SubmitAnswerResponse>(`/attempts/${attemptId}/answer`, {
       method: 'POST',
       body: JSON.stringify(data),
     });
@@ -897,41 +1480,253 @@ export const attemptApi = {
     });
   },
 
+  /**
+   * Close a section of a sectioned exam and open the next one.
+   * POST /attempts/:attemptId/sections/:position/close
+   * Closing an already closed section is a no-op; the response has the section that is now open.
+   */
+  closeSection: async (attemptId: string, position: number): Promise<AttemptResponse> => {
+    return apiCall<AttemptResponse>(`/attempts/${attemptId}/sections/${position}/close`, {
+      method: 'POST',
+    });
+  },
+
   /**
    * Get attempt details
    * GET /attempts/:attemptId
    */
-  getById: async (attemptId: string): Promise<AttemptResponse> => {
-    return apiCall<AttemptResponse>(`/attempts/${attemptId}`);
+  getById: async (attemptId: string, options?: ApiCallOptions): Promise<AttemptResponse> => {
+    return apiCall<AttemptResponse>(`/attempts/${attemptId}`, options);
   },
 
   /**
    * Get time remaining for an attempt
    * GET /attempts/:attemptId/time-remaining
+   * Includes the envelope timestamp so callers can measure client clock drift
+   */
+  getTimeRemaining: async (attemptId: string, options?: ApiCallOptions): Promise<TimeRemainingResponse> => {
+    const { data, timestamp } = await apiCallWithTimestamp<Omit<TimeRemainingResponse, 'server_timestamp'>>(
+      `/attempts/${attemptId}/time-remaining`,
+      options
+    );
+    return { ...data, server_timestamp: timestamp };
+  },
+
+  /**
+   * Record proctoring events for an attempt, in the order they happened
+   * POST /attempts/:attemptId/integrity-events
+   * The server counts the events towards the exam's max_violations and submits the attempt at the limit.
    */
-  getTimeRemaining: async (attemptId: string): Promise<{ time_remaining_seconds: number }> => {
-    return apiCall<{ time_remaining_seconds: number }>(`/attempts/${attemptId}/time-remaining`);
+  recordIntegrityEvents: async (
+    attemptId: string,
+    events: IntegrityEventRequest[]
+  ): Promise<RecordIntegrityEventsResponse | null> => {
+    if (events.length === 0) return null;
+    return apiCall<RecordIntegrityEventsResponse>(`/attempts/${attemptId}/integrity-events`, {
+      method: 'POST',
+      body: JSON.stringify({ events }),
+    });
+  },
+
+  /**
+   * Get the integrity timeline of an attempt (Admin only)
+   * GET /attempts/:attemptId/integrity-events
+   */
+  getIntegrityEvents: async (attemptId: string, options?: ApiCallOptions): Promise<IntegrityEventResponse[]> => {
+    return apiCall<IntegrityEventResponse[]>(`/attempts/${attemptId}/integrity-events`, options);
   },
 
   /**
    * Get topic-wise performance for an attempt
    * GET /attempts/:attemptId/topic-performance
    */
-  getTopicPerformance: async (attemptId: string): Promise<any[]> => {
-    return apiCall<any[]>(`/attempts/${attemptId}/topic-performance`);
+  getTopicPerformance: async (attemptId: string, options?: ApiCallOptions): Promise<AttemptTopicPerformance[]> => {
+    return apiCall<AttemptTopicPerformance[]>(`/attempts/${attemptId}/topic-performance`, options);
   },
 
   /**
    * Get current user's attempt history
    * GET /me/attempts
    */
-  getMyAttempts: async (params?: { skip?: number; take?: number }): Promise<AttemptResponse[]> => {
+  getMyAttempts: async (params?: { skip?: number; take?: number }, options?: ApiCallOptions): Promise<AttemptResponse[]> => {
     const queryParams = new URLSearchParams();
     if (params?.skip !== undefined) queryParams.append('skip', params.skip.toString());
     if (params?.take !== undefined) queryParams.append('take', params.take.toString());
     
     const endpoint = queryParams.toString() ? `/me/attempts?${queryParams.toString()}` : '/me/attempts';
-    return apiCall<AttemptResponse[]>(endpoint);
+    return apiCall<AttemptResponse[]>(endpoint, options);
+  },
+};
+
+// ============================================================================
+// PRACTICE API
+// ============================================================================
+
+interface PracticeSessionResponse {
+  id: string;
+  user_id: string;
+  topic_ids: string[];
+  started_at: string;
+  ended_at?: string | null;
+  questions_answered: number;
+  correct_answers: number;
+}
+
+interface SubmitPracticeAnswerRequest extends AnswerPayload {
+  question_id: string;
+  difficulty: QuestionDifficulty; // Level the question was served at
+  time_spent_seconds?: number;
+}
+
+// Returned straight after answering, practice gives instant feedback
+interface PracticeFeedbackResponse {
+  question_id: string;
+  is_correct: boolean;
+  correct_answer_index?: number | null;
+  correct_answer_indices?: number[] | null;
+  numeric_answer?: number | null;
+  numeric_tolerance?: number | null;
+  explanation_latex?: string | null;
+  video_solution_url?: string | null;
+  session: PracticeSessionResponse;
+}
+
+// Practice API endpoints. Practice sessions are ungraded and never show up as exam attempts.
+export const practiceApi = {
+  /**
+   * Start a practice session over the given topics
+   * POST /practice/sessions
+   */
+  startSession: async (topicIds: string[]): Promise<PracticeSessionResponse> => {
+    if (topicIds.length === 0) {
+      throw new Error('Select at least one topic to practice');
+    }
+    return apiCall<PracticeSessionResponse>('/practice/sessions', {
+      method: 'POST',
+      body: JSON.stringify({ topic_ids: topicIds }),
+    });
+  },
+
+  /**
+   * Get the next unanswered question of the session, without its answer key
+   * GET /practice/sessions/:sessionId/next?difficulty=
+   * Falls back to the nearest difficulty that has questions left; null once the topics are exhausted
+   */
+  getNextQuestion: async (sessionId: string, difficulty: QuestionDifficulty, options?: ApiCallOptions): Promise<QuestionResponse | null> => {
+    validateDifficulty(difficulty);
+    return apiCall<QuestionResponse | null>(
+      `/practice/sessions/${sessionId}/next?${new URLSearchParams({ difficulty }).toString()}`,
+      options
+    );
+  },
+
+  /**
+   * Answer a practice question and get the correct answer and explanation back
+   * POST /practice/sessions/:sessionId/answers
+   */
+  submitAnswer: async (sessionId: string, data: SubmitPracticeAnswerRequest): Promise<PracticeFeedbackResponse> => {
+    validateAnswerPayload(data);
+    validateDifficulty(data.difficulty);
+    if (data.time_spent_seconds !== undefined && (!Number.isInteger(data.time_spent_seconds) || data.time_spent_seconds < 0)) {
+      throw new Error('time_spent_seconds must be a non-negative integer');
+    }
+    return apiCall<PracticeFeedbackResponse>(`/practice/sessions/${sessionId}/answers`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * End a practice session
+   * POST /practice/sessions/:sessionId/end
+   */
+  endSession: async (sessionId: string): Promise<PracticeSessionResponse> => {
+    return apiCall<PracticeSessionResponse>(`/practice/sessions/${sessionId}/end`, {
+      method: 'POST',
+    });
+  },
+
+  /**
+   * Get current user's practice sessions, most recent first
+   * GET /practice/sessions/me
+   */
+  getMySessions: async (params?: { skip?: number; take?: number }, options?: ApiCallOptions): Promise<PracticeSessionResponse[]> => {
+    const queryParams = new URLSearchParams();
+    if (params?.skip !== undefined) queryParams.append('skip', params.skip.toString());
+    if (params?.take !== undefined) queryParams.append('take', params.take.toString());
+
+    const endpoint = queryParams.toString() ? `/practice/sessions/me?${queryParams.toString()}` : '/practice/sessions/me';
+    return apiCall<PracticeSessionResponse[]>(endpoint, options);
+  },
+};
+
+// ============================================================================
+// REVIEW CARDS API
+// ============================================================================
+
+interface ReviewCardResponse {
+  id: string;
+  user_id: string;
+  question_id: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at?: string | null;
+  created_at: string;
+  question: QuestionResponse; // Includes the answer key, the student has already seen it in review
+  source_exam?: { id: string; title: string } | null; // Exam the question was first missed in
+}
+
+interface RecordReviewRequest {
+  quality: number; // SM-2 grade 0-5, below 3 means the answer was wrong
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+}
+
+// Review Cards API endpoints - the student's mistakes notebook
+export const reviewApi = {
+  /**
+   * Get current user's review cards, soonest due first
+   * GET /me/review-cards
+   */
+  getMyCards: async (params?: { due_only?: boolean }, options?: ApiCallOptions): Promise<ReviewCardResponse[]> => {
+    const endpoint = params?.due_only ? '/me/review-cards?due_only=true' : '/me/review-cards';
+    return apiCall<ReviewCardResponse[]>(endpoint, options);
+  },
+
+  /**
+   * Save the outcome of reviewing a card and its next schedule
+   * POST /me/review-cards/:cardId/reviews
+   */
+  recordReview: async (cardId: string, data: RecordReviewRequest): Promise<ReviewCardResponse> => {
+    if (!Number.isInteger(data.quality) || data.quality < 0 || data.quality > 5) {
+      throw new Error('quality must be an integer between 0 and 5');
+    }
+    if (data.ease_factor < 1.3) {
+      throw new Error('ease_factor must be at least 1.3');
+    }
+    if (!Number.isInteger(data.interval_days) || data.interval_days < 1) {
+      throw new Error('interval_days must be a positive integer');
+    }
+    return apiCall<ReviewCardResponse>(`/me/review-cards/${cardId}/reviews`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  /**
+   * Remove a card from the notebook
+   * DELETE /me/review-cards/:cardId
+   */
+  delete: async (cardId: string): Promise<void> => {
+    return apiCall<void>(`/me/review-cards/${cardId}`, {
+      method: 'DELETE',
+    });
   },
 };
 
@@ -944,7 +1739,7 @@ interface UserPerformanceAnalytics {
   userName: string;
   totalExamsTaken: number;
   completedExams: number;
-  averageScore: number | null;
+  averageScore: number | null; // Percentage of marks obtained under each exam's marking scheme
   averageTimeSpent: number;
   completionRate: number;
   topicWisePerformance: Array<{
@@ -959,7 +1754,9 @@ interface UserPerformanceAnalytics {
     examTitle: string;
     score: number;
     totalQuestions: number;
-    scorePercentage: number;
+    scorePercentage: number; // Marks-based, can be negative with negative marking
+    marksObtained?: number;
+    totalMarks?: number;
     timeTaken: number;
     completedAt: string | null;
     status: string;
@@ -1009,10 +1806,15 @@ interface DetailedAttempt {
   time_taken_seconds: number;
   started_at: string;
   submitted_at: string | null;
+  shuffle_seed?: number | null;
+  marks_obtained?: number;
+  total_marks?: number;
   exam: {
     id: string;
     title: string;
     time_limit_seconds: number;
+    marks_per_correct?: number;
+    penalty_per_wrong?: number;
   };
   user: {
     id: string;
@@ -1023,15 +1825,26 @@ interface DetailedAttempt {
     id: string;
     question_id: string;
     selected_option_index: number | null;
+    selected_option_indices?: number[] | null;
+    numeric_answer?: number | null;
     is_correct?: boolean; // Only present for SUBMITTED/EXPIRED attempts
     answered_at: string;
+    time_spent_seconds?: number | null; // Not tracked for older attempts
+    visit_count?: number | null;
+    answer_changes?: number | null;
     question: {
       id: string;
       question_text: string;
+      question_type?: QuestionType;
       correct_answer_index?: number; // Only present for SUBMITTED/EXPIRED attempts
+      correct_answer_indices?: number[]; // Only present for SUBMITTED/EXPIRED attempts
+      numeric_answer?: number | null; // Only present for SUBMITTED/EXPIRED attempts
+      numeric_tolerance?: number | null; // Only present for SUBMITTED/EXPIRED attempts
       explanation_latex?: string; // Only present for SUBMITTED/EXPIRED attempts
       video_solution_url?: string; // Only present for SUBMITTED/EXPIRED attempts
       image_url?: string;
+      marks?: number | null;
+      penalty?: number | null;
       options: Array<{
         id: string;
         option_index: number;
@@ -1046,6 +1859,12 @@ interface DetailedAttempt {
   }>;
 }
 
+interface DetailedExamResults {
+  exam_id: string;
+  exam_title: string;
+  attempts: DetailedAttempt[]; // Just the one attempt when attemptId is given
+}
+
 interface ExamAnalytics {
   exam_id: string;
   exam_title: string;
@@ -1061,6 +1880,7 @@ interface ExamAnalytics {
     correct_answers: number;
     total_attempts: number;
     accuracy_percentage: number;
+    average_time_spent_seconds?: number | null; // Over attempts with time tracking
   }>;
 }
 
@@ -1117,15 +1937,15 @@ export const analyticsApi = {
    * Get user performance analytics
    * GET /analytics/users/:id
    */
-  getUserPerformance: async (userId: string): Promise<UserPerformanceAnalytics> => {
-    return apiCall<UserPerformanceAnalytics>(`/analytics/users/${userId}`);
+  getUserPerformance: async (userId: string, options?: ApiCallOptions): Promise<UserPerformanceAnalytics> => {
+    return apiCall<UserPerformanceAnalytics>(`/analytics/users/${userId}`, options);
   },
 
   /**
    * Get user exam history
    * GET /analytics/users/:id/history
    */
-  getUserHistory: async (userId: string, params?: { skip?: number; take?: number }): Promise<ExamHistoryItem[]> => {
+  getUserHistory: async (userId: string, params?: { skip?: number; take?: number }, options?: ApiCallOptions): Promise<ExamHistoryItem[]> => {
     const queryParams = new URLSearchParams();
     if (params?.skip !== undefined) queryParams.append('skip', params.skip.toString());
     if (params?.take !== undefined) queryParams.append('take', params.take.toString());
@@ -1133,30 +1953,30 @@ export const analyticsApi = {
     const endpoint = queryParams.toString() 
       ? `/analytics/users/${userId}/history?${queryParams.toString()}` 
       : `/analytics/users/${userId}/history`;
-    return apiCall<ExamHistoryItem[]>(endpoint);
+    return apiCall<ExamHistoryItem[]>(endpoint, options);
   },
 
   /**
    * Get user topic performance
    * GET /analytics/users/:id/topics
    */
-  getUserTopicPerformance: async (userId: string): Promise<TopicPerformance[]> => {
-    return apiCall<TopicPerformance[]>(`/analytics/users/${userId}/topics`);
+  getUserTopicPerformance: async (userId: string, options?: ApiCallOptions): Promise<TopicPerformance[]> => {
+    return apiCall<TopicPerformance[]>(`/analytics/users/${userId}/topics`, options);
   },
 
   /**
    * Get user improvement trend
    * GET /analytics/users/:id/trend
    */
-  getUserTrend: async (userId: string): Promise<ImprovementTrend> => {
-    return apiCall<ImprovementTrend>(`/analytics/users/${userId}/trend`);
+  getUserTrend: async (userId: string, options?: ApiCallOptions): Promise<ImprovementTrend> => {
+    return apiCall<ImprovementTrend>(`/analytics/users/${userId}/trend`, options);
   },
 
   /**
    * Get detailed user attempts with questions and answers (Admin only)
    * GET /analytics/users/:userId/attempts/detailed
    */
-  getUserDetailedAttempts: async (userId: string, params?: { skip?: number; take?: number }): Promise<DetailedAttempt[]> => {
+  getUserDetailedAttempts: async (userId: string, params?: { skip?: number; take?: number }, options?: ApiCallOptions): Promise<DetailedAttempt[]> => {
     const queryParams = new URLSearchParams();
     if (params?.skip !== undefined) queryParams.append('skip', params.skip.toString());
     if (params?.take !== undefined) queryParams.append('take', params.take.toString());
@@ -1165,7 +1985,7 @@ export const analyticsApi = {
       ? `/analytics/users/${userId}/attempts/detailed?${queryParams.toString()}` 
       : `/analytics/users/${userId}/attempts/detailed`;
     
-    return apiCall<DetailedAttempt[]>(endpoint);
+    return apiCall<DetailedAttempt[]>(endpoint, options);
   },
 
 
@@ -1173,44 +1993,50 @@ export const analyticsApi = {
   /**
    * Get exam analytics (Admin only)
    * GET /analytics/exams/:id
+   * batch_id limits the attempts to members of that batch
    */
-  getExamAnalytics: async (examId: string): Promise<ExamAnalytics> => {
-    return apiCall<ExamAnalytics>(`/analytics/exams/${examId}`);
+  getExamAnalytics: async (examId: string, params?: { batch_id?: string }, options?: ApiCallOptions): Promise<ExamAnalytics> => {
+    const queryParams = params?.batch_id ? `?batch_id=${params.batch_id}` : '';
+    return apiCall<ExamAnalytics>(`/analytics/exams/${examId}${queryParams}`, options);
   },
 
   /**
    * Get detailed exam results (Admin only)
    * GET /analytics/exams/:id/detailed
    */
-  getDetailedExamResults: async (examId: string, attemptId?: string): Promise<any> => {
+  getDetailedExamResults: async (examId: string, attemptId?: string, options?: ApiCallOptions): Promise<DetailedExamResults> => {
     const queryParams = attemptId ? `?attemptId=${attemptId}` : '';
-    return apiCall<any>(`/analytics/exams/${examId}/detailed${queryParams}`);
+    return apiCall<DetailedExamResults>(`/analytics/exams/${examId}/detailed${queryParams}`, options);
   },
 
   /**
    * Get system analytics (Admin only)
    * GET /analytics/system
+   * batch_id limits users and attempts to members of that batch
    */
-  getSystemAnalytics: async (): Promise<SystemAnalytics> => {
-    return apiCall<SystemAnalytics>('/analytics/system');
+  getSystemAnalytics: async (params?: { batch_id?: string }, options?: ApiCallOptions): Promise<SystemAnalytics> => {
+    const queryParams = params?.batch_id ? `?batch_id=${params.batch_id}` : '';
+    return apiCall<SystemAnalytics>(`/analytics/system${queryParams}`, options);
   },
 
   /**
    * Get exam usage statistics (Admin only)
    * GET /analytics/exams/usage
    */
-  getExamUsageStats: async (): Promise<ExamUsageStats[]> => {
-    return apiCall<ExamUsageStats[]>('/analytics/exams/usage');
+  getExamUsageStats: async (params?: { batch_id?: string }, options?: ApiCallOptions): Promise<ExamUsageStats[]> => {
+    const queryParams = params?.batch_id ? `?batch_id=${params.batch_id}` : '';
+    return apiCall<ExamUsageStats[]>(`/analytics/exams/usage${queryParams}`, options);
   },
 
   /**
    * Get top performing topics (Admin only)
    * GET /analytics/topics/top-performing
    */
-  getTopPerformingTopics: async (): Promise<TopPerformingTopic[]> => {
-    return apiCall<TopPerformingTopic[]>('/analytics/topics/top-performing');
+  getTopPerformingTopics: async (params?: { batch_id?: string }, options?: ApiCallOptions): Promise<TopPerformingTopic[]> => {
+    const queryParams = params?.batch_id ? `?batch_id=${params.batch_id}` : '';
+    return apiCall<TopPerformingTopic[]>(`/analytics/topics/top-performing${queryParams}`, options);
   },
 };
 
 // Export API utilities
-export { getAuthToken, apiCall, API_BASE_URL };
+export { getAuthToken, apiCall, API_BASE_URL, USE_MOCK_BACKEND };
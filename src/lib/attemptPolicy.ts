@@ -0,0 +1,107 @@
+import { RetakePolicy } from '../types';
+import { getMarkedPercentage } from './marking';
+
+// Helpers for per-exam attempt limits and retake scoring policies
+
+export const DEFAULT_RETAKE_POLICY: RetakePolicy = 'BEST';
+
+export const RETAKE_POLICY_LABELS: Record<RetakePolicy, string> = {
+  BEST: 'Best score counts',
+  LATEST: 'Latest score counts',
+  AVERAGE: 'Average of all attempts',
+};
+
+interface AttemptLike {
+  id: string;
+  status: 'IN_PROGRESS' | 'SUBMITTED' | 'EXPIRED' | string;
+  score?: number | null;
+  correct_answers?: number;
+  total_questions?: number;
+  marks_obtained?: number | null;
+  total_marks?: number | null;
+  submitted_at?: string | null;
+  completed_at?: string | null;
+  started_at?: string | null;
+}
+
+interface ExamPolicy {
+  max_attempts?: number | null;
+  retake_policy?: RetakePolicy;
+}
+
+export interface AttemptUsage {
+  used: number; // Finished (submitted or expired) attempts
+  remaining: number | null; // null = unlimited
+  limitReached: boolean;
+  inProgressAttemptId: string | null;
+}
+
+export const isFinishedAttempt = (attempt: AttemptLike): boolean => {
+  return attempt.status === 'SUBMITTED' || attempt.status === 'EXPIRED';
+};
+
+/**
+ * Score of a single attempt as a percentage, using marks when the exam has a marking scheme
+ */
+export const getAttemptPercentage = (attempt: AttemptLike): number => {
+  if (attempt.total_marks) {
+    return getMarkedPercentage(attempt);
+  }
+  if (attempt.correct_answers !== undefined && attempt.total_questions) {
+    return (attempt.correct_answers / attempt.total_questions) * 100;
+  }
+  return attempt.score ?? 0;
+};
+
+const getAttemptTime = (attempt: AttemptLike): number => {
+  const date = attempt.submitted_at || attempt.completed_at || attempt.started_at;
+  return date ? new Date(date).getTime() : 0;
+};
+
+/**
+ * How many attempts a user has used on an exam and whether they may start another.
+ * An in-progress attempt can always be resumed, even when the limit is reached.
+ */
+export const getAttemptUsage = (exam: ExamPolicy, attempts: AttemptLike[]): AttemptUsage => {
+  const used = attempts.filter(isFinishedAttempt).length;
+  const inProgress = attempts.find(a => a.status === 'IN_PROGRESS');
+  const maxAttempts = exam.max_attempts ?? null;
+  const remaining = maxAttempts === null ? null : Math.max(0, maxAttempts - used);
+
+  return {
+    used,
+    remaining,
+    limitReached: remaining === 0 && !inProgress,
+    inProgressAttemptId: inProgress?.id ?? null,
+  };
+};
+
+/**
+ * Combine finished attempts into the score that counts under the retake policy.
+ * Returns null when no attempt has been finished yet.
+ */
+export const getPolicyScore = (
+  attempts: AttemptLike[],
+  policy: RetakePolicy = DEFAULT_RETAKE_POLICY
+): { score: number; attemptId: string | null } | null => {
+  const finished = attempts.filter(isFinishedAttempt);
+  if (finished.length === 0) return null;
+
+  switch (policy) {
+    case 'LATEST': {
+      const latest = [...finished].sort((a, b) => getAttemptTime(b) - getAttemptTime(a))[0];
+      return { score: getAttemptPercentage(latest), attemptId: latest.id };
+    }
+    case 'AVERAGE': {
+      const total = finished.reduce((sum, a) => sum + getAttemptPercentage(a), 0);
+      return { score: total / finished.length, attemptId: null };
+    }
+    case 'BEST':
+    default: {
+      const best = finished.reduce((top, a) =>
+        getAttemptPercentage(a) > getAttemptPercentage(top) ? a : top
+      );
+      return { score: getAttemptPercentage(best), attemptId: best.id };
+    }
+  }
+};
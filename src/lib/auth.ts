@@ -9,6 +9,10 @@ import {
 } from 'firebase/auth';
 import { doc, setDoc, getDoc, updateDoc } from 'firebase/firestore';
 import { auth, db } from './firebase';
+import { apiCall, userApi, USE_MOCK_BACKEND } from './api';
+import { createMockToken, endMockSession, MockAuthUser, startMockSession } from './mockAuth';
+import { queryCache } from './queryCache';
+import type { StaffRole } from '../types';
 
 // User data interface for Firestore (aligns with backend User model)
 export interface UserData {
@@ -21,6 +25,7 @@ export interface UserData {
   address?: string;
   is_enrolled: boolean;
   role: 'ADMIN' | 'STUDENT';
+  staff_role?: StaffRole | null;
   created_at: string;
   // For backward compatibility
   uid?: string;
@@ -28,12 +33,38 @@ export interface UserData {
   updatedAt?: string;
 }
 
+type BackendUser = Awaited<ReturnType<typeof userApi.getCurrentUser>>;
+
+const toUserData = (user: BackendUser): UserData => ({
+  ...user,
+  uid: user.firebase_uid,
+  createdAt: user.created_at,
+});
+
+// Requests on behalf of an account that is not signed in yet (mock backend only)
+const asMockAccount = (email: string) => ({ Authorization: `Bearer ${createMockToken(email)}` });
+
 // Sign up with email and password
 export const signUp = async (
   email: string,
   password: string,
   userData: Omit<UserData, 'id' | 'firebase_uid' | 'email' | 'created_at' | 'is_enrolled'>
-): Promise<{ user: FirebaseUser; userData: UserData }> => {
+): Promise<{ user: FirebaseUser | MockAuthUser; userData: UserData }> => {
+  if (USE_MOCK_BACKEND) {
+    const registered = await apiCall<BackendUser>('/register', {
+      method: 'POST',
+      headers: asMockAccount(email),
+      body: JSON.stringify({
+        name: userData.name,
+        phone: userData.phone,
+        college_name: userData.college_name,
+        address: userData.address,
+      }),
+    });
+    const user = startMockSession({ email, displayName: registered.name });
+    return { user, userData: toUserData(registered) };
+  }
+
   let firebaseUser: FirebaseUser | null = null;
   
   try {
@@ -139,7 +170,14 @@ export const signUp = async (
 export const signIn = async (
   email: string,
   password: string
-): Promise<{ user: FirebaseUser; userData: UserData | null }> => {
+): Promise<{ user: FirebaseUser | MockAuthUser; userData: UserData | null }> => {
+  // Any password is accepted for an existing mock account
+  if (USE_MOCK_BACKEND) {
+    const profile = await apiCall<BackendUser>('/me', { headers: asMockAccount(email) });
+    const user = startMockSession({ email, displayName: profile.name });
+    return { user, userData: toUserData(profile) };
+  }
+
   try {
     const userCredential: UserCredential = await signInWithEmailAndPassword(
       auth,
@@ -183,7 +221,13 @@ export const signIn = async (
 // Sign out
 export const logOut = async (): Promise<void> => {
   try {
-    await signOut(auth);
+    if (USE_MOCK_BACKEND) {
+      endMockSession();
+    } else {
+      await signOut(auth);
+    }
+    // Cached lists belong to the signed-out user
+    queryCache.clear();
   } catch (error: any) {
     throw new Error(error.message || 'Failed to sign out');
   }
@@ -191,6 +235,9 @@ export const logOut = async (): Promise<void> => {
 
 // Reset password
 export const resetPassword = async (email: string): Promise<void> => {
+  // Mock accounts have no password to reset
+  if (USE_MOCK_BACKEND) return;
+
   try {
     await sendPasswordResetEmail(auth, email);
   } catch (error: any) {
@@ -1,16 +1,18 @@
-import { userApi, topicApi, questionApi, examApi, attemptApi, analyticsApi } from './api';
+import { userApi, topicApi, questionApi, examApi, attemptApi, analyticsApi, ApiCallOptions } from './api';
+import { getMarkedPercentage } from './marking';
 
 // Enhanced analytics that combines multiple API sources
 export class EnhancedAnalyticsService {
   
   /**
-   * Get comprehensive system analytics by combining multiple API sources
+   * Get comprehensive system analytics by combining multiple API sources,
+   * optionally limited to the members of one batch
    */
-  static async getEnhancedSystemAnalytics() {
+  static async getEnhancedSystemAnalytics(batchId?: string, options?: ApiCallOptions) {
     try {
       // Try to get analytics from dedicated endpoint first
       try {
-        const systemAnalytics = await analyticsApi.getSystemAnalytics();
+        const systemAnalytics = await analyticsApi.getSystemAnalytics({ batch_id: batchId }, options);
         console.log('Analytics API response:', systemAnalytics);
         
         // If analytics API doesn't have topic/question counts, supplement them
@@ -18,8 +20,8 @@ export class EnhancedAnalyticsService {
           console.log('Analytics API missing topic/question counts, supplementing...');
           
           try {
-            const topics = await topicApi.getAll({ include_count: true });
-            const questions = await questionApi.getAll({ take: 100 });
+            const topics = await topicApi.getAll({ include_count: true }, options);
+            const questions = await questionApi.getAll({ take: 100 }, options);
             
             return {
               ...systemAnalytics,
@@ -45,9 +47,9 @@ export class EnhancedAnalyticsService {
 
       // Fallback: Aggregate data from multiple sources
       const [users, topics, exams] = await Promise.all([
-        userApi.getAllUsers({ limit: 100 }).catch(() => ({ users: [], pagination: { total: 0 } })),
-        topicApi.getAll({ include_count: true }).catch(() => []),
-        examApi.getAll({ take: 100 }).catch(() => [])
+        userApi.getAllUsers({ limit: 100, batchId }, options).catch(() => ({ users: [], pagination: { total: 0 } })),
+        topicApi.getAll({ include_count: true }, options).catch(() => []),
+        examApi.getAll({ take: 100 }, options).catch(() => [])
       ]);
 
       // Calculate basic metrics
@@ -59,7 +61,7 @@ export class EnhancedAnalyticsService {
       // Get question count
       let totalQuestions = 0;
       try {
-        const questions = await questionApi.getAll({ take: 100 });
+        const questions = await questionApi.getAll({ take: 100 }, options);
         totalQuestions = questions.length;
       } catch (error) {
         console.warn('Could not fetch questions:', error);
@@ -99,24 +101,25 @@ export class EnhancedAnalyticsService {
   /**
    * Get enhanced user performance by combining user attempts and analytics
    */
-  static async getEnhancedUserPerformance(userId: string) {
+  static async getEnhancedUserPerformance(userId: string, options?: ApiCallOptions) {
     try {
       // Try analytics API first
       try {
-        const userAnalytics = await analyticsApi.getUserPerformance(userId);
+        const userAnalytics = await analyticsApi.getUserPerformance(userId, options);
         return userAnalytics;
       } catch (analyticsError) {
         console.warn('User analytics API failed, falling back to attempts data:', analyticsError);
       }
 
       // Fallback: Get user attempts and calculate metrics
-      const attempts = await attemptApi.getMyAttempts({ take: 50 });
+      const attempts = await attemptApi.getMyAttempts({ take: 50 }, options);
       
       const totalAttempts = attempts.length;
       const completedAttempts = attempts.filter(a => a.status === 'SUBMITTED').length;
+      // Percentages follow each exam's marking scheme (negative marking can push them below zero)
       const scores = attempts
         .filter(a => a.status === 'SUBMITTED' && a.score !== null)
-        .map(a => a.score || 0);
+        .map(a => getMarkedPercentage(a));
       
       const averageScore = scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
       const completionRate = totalAttempts > 0 ? (completedAttempts / totalAttempts) * 100 : 0;
@@ -125,7 +128,7 @@ export class EnhancedAnalyticsService {
       const timeTaken = attempts
         .filter(a => a.submitted_at && a.started_at)
         .map(a => {
-          const start = new Date(a.started_at).getTime();
+          const start = new Date(a.started_at!).getTime();
           const end = new Date(a.submitted_at!).getTime();
           return (end - start) / (1000 * 60); // minutes
         });
@@ -147,7 +150,9 @@ export class EnhancedAnalyticsService {
           examTitle: attempt.exam?.title || 'Unknown Exam',
           score: attempt.correct_answers || 0,
           totalQuestions: attempt.total_questions || 0,
-          scorePercentage: attempt.score || 0,
+          scorePercentage: getMarkedPercentage(attempt),
+          marksObtained: attempt.marks_obtained,
+          totalMarks: attempt.total_marks,
           timeTaken: Math.round(averageTimeSpent),
           completedAt: attempt.submitted_at,
           status: attempt.status
@@ -182,7 +187,7 @@ export class EnhancedAnalyticsService {
         monthlyData[monthKey] = { scores: [], count: 0 };
       }
       
-      monthlyData[monthKey].scores.push(attempt.score || 0);
+      monthlyData[monthKey].scores.push(getMarkedPercentage(attempt));
       monthlyData[monthKey].count++;
     });
 
@@ -194,20 +199,20 @@ export class EnhancedAnalyticsService {
   }
 
   /**
-   * Get enhanced topic performance
+   * Get enhanced topic performance, optionally limited to the members of one batch
    */
-  static async getEnhancedTopicPerformance() {
+  static async getEnhancedTopicPerformance(batchId?: string, options?: ApiCallOptions) {
     try {
       // Try analytics API first
       try {
-        const topTopics = await analyticsApi.getTopPerformingTopics();
+        const topTopics = await analyticsApi.getTopPerformingTopics({ batch_id: batchId }, options);
         return topTopics;
       } catch (analyticsError) {
         console.warn('Top topics analytics failed, falling back to topics data:', analyticsError);
       }
 
       // Fallback: Get topics and calculate basic metrics
-      const topics = await topicApi.getAll({ include_count: true });
+      const topics = await topicApi.getAll({ include_count: true }, options);
       
       return topics.map(topic => ({
         topicId: topic.id,
@@ -225,18 +230,18 @@ export class EnhancedAnalyticsService {
   /**
    * Get exam statistics
    */
-  static async getExamStatistics() {
+  static async getExamStatistics(options?: ApiCallOptions) {
     try {
-      const exams = await examApi.getAll({ take: 100 });
+      const exams = await examApi.getAll({ take: 100 }, options);
       
       const examStats = await Promise.all(
         exams.slice(0, 10).map(async (exam) => {
           try {
-            const attempts = await examApi.getAttempts(exam.id, { take: 100 });
-            const completedAttempts = attempts.filter((a: any) => a.status === 'SUBMITTED');
-            const uniqueUsers = new Set(attempts.map((a: any) => a.user_id)).size;
+            const attempts = await examApi.getAttempts(exam.id, { take: 100 }, options);
+            const completedAttempts = attempts.filter(a => a.status === 'SUBMITTED');
+            const uniqueUsers = new Set(attempts.map(a => a.user_id)).size;
             const averageScore = completedAttempts.length > 0 
-              ? completedAttempts.reduce((sum: number, a: any) => sum + (a.score || 0), 0) / completedAttempts.length
+              ? completedAttempts.reduce((sum, a) => sum + (a.score || 0), 0) / completedAttempts.length
               : 0;
 
             return {
@@ -272,8 +277,9 @@ export class EnhancedAnalyticsService {
 
   /**
    * Get comprehensive dashboard data
+   * Pass a signal in options to cancel every request when the dashboard unmounts
    */
-  static async getDashboardData(userId: string, isAdmin: boolean = false) {
+  static async getDashboardData(userId: string, isAdmin: boolean = false, batchId?: string, options?: ApiCallOptions) {
     try {
       const results: any = {
         userPerformance: null,
@@ -284,7 +290,7 @@ export class EnhancedAnalyticsService {
 
       // Always get user performance
       try {
-        results.userPerformance = await this.getEnhancedUserPerformance(userId);
+        results.userPerformance = await this.getEnhancedUserPerformance(userId, options);
       } catch (error) {
         console.error('Failed to get user performance:', error);
       }
@@ -292,19 +298,19 @@ export class EnhancedAnalyticsService {
       // Get admin data if admin
       if (isAdmin) {
         try {
-          results.systemAnalytics = await this.getEnhancedSystemAnalytics();
+          results.systemAnalytics = await this.getEnhancedSystemAnalytics(batchId, options);
         } catch (error) {
           console.error('Failed to get system analytics:', error);
         }
 
         try {
-          results.topPerformingTopics = await this.getEnhancedTopicPerformance();
+          results.topPerformingTopics = await this.getEnhancedTopicPerformance(batchId, options);
         } catch (error) {
           console.error('Failed to get topic performance:', error);
         }
 
         try {
-          results.examStatistics = await this.getExamStatistics();
+          results.examStatistics = await this.getExamStatistics(options);
         } catch (error) {
           console.error('Failed to get exam statistics:', error);
         }
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { getExamsSeenByBatch } from './examBlueprint';
+
+const since = Date.parse('2024-05-01T00:00:00Z');
+
+const exams = [
+  { id: 'open-to-all', closes_at: null, batches: [] },
+  { id: 'morning-batch', closes_at: null, batches: [{ id: 'batch-morning' }] },
+  { id: 'evening-batch', closes_at: null, batches: [{ id: 'batch-evening' }] },
+  { id: 'closed-long-ago', closes_at: '2024-03-01T00:00:00Z', batches: [{ id: 'batch-morning' }] },
+  { id: 'closed-recently', closes_at: '2024-05-10T00:00:00Z', batches: [{ id: 'batch-morning' }] },
+];
+
+const ids = (seen: typeof exams) => seen.map(exam => exam.id);
+
+describe('getExamsSeenByBatch', () => {
+  it("takes the batch's exams and the ones open to every student", () => {
+    expect(ids(getExamsSeenByBatch(exams, 'batch-morning', since)))
+      .toEqual(['open-to-all', 'morning-batch', 'closed-recently']);
+  });
+
+  it('leaves out exams that closed before the window', () => {
+    expect(ids(getExamsSeenByBatch(exams, 'batch-evening', since))).toEqual(['open-to-all', 'evening-batch']);
+  });
+
+  it('takes every exam without a batch', () => {
+    expect(ids(getExamsSeenByBatch(exams, null, since)))
+      .toEqual(['open-to-all', 'morning-batch', 'evening-batch', 'closed-recently']);
+  });
+});
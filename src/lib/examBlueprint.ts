@@ -0,0 +1,123 @@
+import { QuestionDifficulty } from '../types';
+
+// Exam blueprints: "N questions from topic X at difficulty Y" rows that are filled
+// by drawing random questions from the question bank.
+
+export interface BlueprintRow {
+  topic_id: string;
+  difficulty: QuestionDifficulty | null; // null for any difficulty
+  count: number;
+}
+
+interface BlueprintQuestion {
+  id: string;
+  topic_id: string;
+  difficulty?: QuestionDifficulty | null;
+}
+
+export interface BlueprintDraw<Q extends BlueprintQuestion> {
+  rows: Q[][]; // Drawn questions per blueprint row, same order as the blueprint
+  shortfalls: Array<{ row: number; requested: number; available: number }>;
+}
+
+interface ExamWithQuestions {
+  exam_question_sets?: Array<{
+    question_set: {
+      question_set_questions?: Array<{ question: { id: string } }>;
+    } | null;
+  }>;
+}
+
+interface AssignedExam {
+  closes_at?: string | null;
+  batches?: Array<{ id: string }>; // Empty for an exam open to every student
+}
+
+export const DEFAULT_RECENT_EXCLUSION_DAYS = 30;
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export const matchesBlueprintRow = (question: BlueprintQuestion, row: BlueprintRow): boolean => {
+  return question.topic_id === row.topic_id && (!row.difficulty || question.difficulty === row.difficulty);
+};
+
+/**
+ * Draw random questions for every row. Excluded questions are never drawn and no
+ * question is drawn twice, so overlapping rows (e.g. "any difficulty" next to
+ * "hard" for the same topic) take from what is left. Rows that can't be filled
+ * get as many as are available and are reported as shortfalls.
+ */
+export const drawBlueprint = <Q extends BlueprintQuestion>(
+  rows: BlueprintRow[],
+  pool: Q[],
+  excludedIds: Set<string> = new Set()
+): BlueprintDraw<Q> => {
+  const used = new Set(excludedIds);
+  // Specific difficulties first so "any difficulty" rows don't use up their questions
+  const order = rows.map((_, index) => index).sort((a, b) => Number(!rows[a].difficulty) - Number(!rows[b].difficulty));
+  const drawn: Q[][] = rows.map(() => []);
+  const shortfalls: BlueprintDraw<Q>['shortfalls'] = [];
+
+  order.forEach(index => {
+    const row = rows[index];
+    const candidates = shuffle(pool.filter(question => !used.has(question.id) && matchesBlueprintRow(question, row)));
+    drawn[index] = candidates.slice(0, row.count);
+    drawn[index].forEach(question => used.add(question.id));
+    if (drawn[index].length < row.count) {
+      shortfalls.push({ row: index, requested: row.count, available: drawn[index].length });
+    }
+  });
+
+  return { rows: drawn, shortfalls: shortfalls.sort((a, b) => a.row - b.row) };
+};
+
+/**
+ * Redraw a single row, keeping the questions drawn for the other rows
+ */
+export const redrawBlueprintRow = <Q extends BlueprintQuestion>(
+  rows: BlueprintRow[],
+  draw: BlueprintDraw<Q>,
+  rowIndex: number,
+  pool: Q[],
+  excludedIds: Set<string> = new Set()
+): BlueprintDraw<Q> => {
+  const otherIds = draw.rows.flatMap((questions, index) => (index === rowIndex ? [] : questions.map(q => q.id)));
+  const redrawn = drawBlueprint([rows[rowIndex]], pool, new Set([...excludedIds, ...otherIds]));
+  return {
+    rows: draw.rows.map((questions, index) => (index === rowIndex ? redrawn.rows[0] : questions)),
+    shortfalls: [
+      ...draw.shortfalls.filter(shortfall => shortfall.row !== rowIndex),
+      ...redrawn.shortfalls.map(shortfall => ({ ...shortfall, row: rowIndex })),
+    ].sort((a, b) => a.row - b.row),
+  };
+};
+
+/**
+ * Ids of every question that appears in the given exams
+ */
+export const getExamQuestionIds = (exams: ExamWithQuestions[]): Set<string> => {
+  return new Set(exams.flatMap(exam =>
+    (exam.exam_question_sets || []).flatMap(examSet =>
+      (examSet.question_set?.question_set_questions || []).map(entry => entry.question.id)
+    )
+  ));
+};
+
+/**
+ * Exams a batch has seen since the given time: assigned to it or open to every student,
+ * and not closed before then. Scheduled exams count too, the batch is about to see them.
+ * Without a batch every exam counts.
+ */
+export const getExamsSeenByBatch = <E extends AssignedExam>(exams: E[], batchId: string | null, since: number): E[] => {
+  return exams.filter(exam => {
+    const assigned = !batchId || !exam.batches?.length || exam.batches.some(batch => batch.id === batchId);
+    return assigned && (!exam.closes_at || Date.parse(exam.closes_at) >= since);
+  });
+};
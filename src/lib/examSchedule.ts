@@ -0,0 +1,70 @@
+// Helpers for exam availability windows (opens_at / closes_at)
+
+export type ExamAvailability = 'UPCOMING' | 'LIVE' | 'CLOSED';
+
+interface ScheduledExam {
+  opens_at?: Date | string | null;
+  closes_at?: Date | string | null;
+}
+
+const toTime = (value?: Date | string | null): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Work out whether an exam is upcoming, live or closed at the given time.
+ * A missing opens_at / closes_at means the window is open on that side.
+ */
+export const getExamAvailability = (exam: ScheduledExam, now: number = Date.now()): ExamAvailability => {
+  const opensAt = toTime(exam.opens_at);
+  const closesAt = toTime(exam.closes_at);
+
+  if (opensAt !== null && now < opensAt) return 'UPCOMING';
+  if (closesAt !== null && now >= closesAt) return 'CLOSED';
+  return 'LIVE';
+};
+
+/**
+ * Milliseconds until the exam opens, or 0 if it is already open
+ */
+export const getTimeUntilOpen = (exam: ScheduledExam, now: number = Date.now()): number => {
+  const opensAt = toTime(exam.opens_at);
+  return opensAt === null ? 0 : Math.max(0, opensAt - now);
+};
+
+/**
+ * Format a duration as "2d 4h 10m" / "4h 10m 5s" / "10m 5s"
+ */
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m ${seconds}s`;
+  return `${minutes}m ${seconds}s`;
+};
+
+/**
+ * Convert an ISO timestamp to the value format of <input type="datetime-local">
+ */
+export const toDateTimeLocalValue = (value?: Date | string | null): string => {
+  const time = toTime(value);
+  if (time === null) return '';
+  const date = new Date(time);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Convert a datetime-local input value (local time) to an ISO timestamp, or null when empty
+ */
+export const fromDateTimeLocalValue = (value: string): string | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
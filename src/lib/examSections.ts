@@ -0,0 +1,61 @@
+// Sectioned exams: when any question set in an exam has its own time limit,
+// every set becomes a section. Sections are taken one at a time in position
+// order, and a closed section (time ran out or the student moved on) can't be
+// reopened. The server decides which section is open.
+
+interface SectionedQuestionSet {
+  position: number;
+  section_time_limit_seconds?: number | null;
+  question_set?: {
+    title?: string;
+    question_set_questions?: Array<{ question: { id: string } }>;
+  };
+}
+
+export interface ExamSection {
+  position: number; // Exam question set position
+  title: string;
+  time_limit_seconds: number | null; // null = only the exam timer applies
+  startIndex: number; // First question, as an index into the attempt's question order
+  endIndex: number; // Last question (inclusive)
+}
+
+export const isSectionedExam = (examQuestionSets?: Array<{ section_time_limit_seconds?: number | null }>): boolean => {
+  return (examQuestionSets || []).some(eqs => (eqs.section_time_limit_seconds ?? 0) > 0);
+};
+
+/**
+ * Sections of a sectioned exam located in the attempt's question order.
+ * Sectioned exams only shuffle within sets, so each section is one contiguous run.
+ * Returns an empty list for exams without sections.
+ */
+export const getExamSections = (
+  examQuestionSets: SectionedQuestionSet[] | undefined,
+  questions: Array<{ id: string }>
+): ExamSection[] => {
+  if (!isSectionedExam(examQuestionSets)) return [];
+
+  const indexById = new Map(questions.map((question, index) => [question.id, index]));
+  return [...(examQuestionSets || [])]
+    .sort((a, b) => a.position - b.position)
+    .map(eqs => {
+      const indexes = (eqs.question_set?.question_set_questions || [])
+        .map(qsq => indexById.get(qsq.question.id))
+        .filter((index): index is number => index !== undefined);
+      return {
+        position: eqs.position,
+        title: eqs.question_set?.title || `Section ${eqs.position}`,
+        time_limit_seconds: eqs.section_time_limit_seconds || null,
+        startIndex: indexes.length > 0 ? Math.min(...indexes) : -1,
+        endIndex: indexes.length > 0 ? Math.max(...indexes) : -1,
+      };
+    })
+    .filter(section => section.startIndex >= 0);
+};
+
+/**
+ * Total of the section time limits, in seconds
+ */
+export const getTotalSectionTime = (examQuestionSets?: Array<{ section_time_limit_seconds?: number | null }>): number => {
+  return (examQuestionSets || []).reduce((sum, eqs) => sum + (eqs.section_time_limit_seconds ?? 0), 0);
+};
@@ -3,11 +3,15 @@ import { initializeApp } from "firebase/app";
 import { getAuth } from "firebase/auth";
 import { getFirestore } from "firebase/firestore";
 
+// With the mock backend the app signs in offline (see mockAuth.ts), so Firebase
+// only needs placeholder settings to initialize when none are configured
+const useMockBackend = import.meta.env.VITE_MOCK_BACKEND === 'true';
+
 // Your web app's Firebase configuration
 const firebaseConfig = {
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
-  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+  apiKey: import.meta.env.VITE_FIREBASE_API_KEY || (useMockBackend ? 'mock-api-key' : undefined),
+  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN || (useMockBackend ? 'localhost' : undefined),
+  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID || (useMockBackend ? 'mock-project' : undefined),
   storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
   messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
   appId: import.meta.env.VITE_FIREBASE_APP_ID
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IntegrityMonitor } from './integrityMonitor';
+import { ApiError, attemptApi } from './api';
+
+vi.mock('./api', async importOriginal => ({
+  ...await importOriginal<typeof import('./api')>(),
+  attemptApi: { recordIntegrityEvents: vi.fn() },
+}));
+
+const recordIntegrityEvents = vi.mocked(attemptApi.recordIntegrityEvents);
+
+// Events the stubbed server has recorded for the attempt
+let serverCount: number;
+
+beforeEach(() => {
+  serverCount = 3;
+  recordIntegrityEvents.mockReset();
+  recordIntegrityEvents.mockImplementation(async (_attemptId, events) => {
+    serverCount += events.length;
+    return { violation_count: serverCount };
+  });
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('IntegrityMonitor', () => {
+  it('counts the events the server has recorded', async () => {
+    const onCountSynced = vi.fn();
+    const monitor = new IntegrityMonitor('attempt-1', { recordedCount: 3, onCountSynced });
+    monitor.record('TAB_HIDDEN');
+    expect(monitor.violationCount).toBe(4);
+
+    // Another tab of the same attempt reported one more in the meantime
+    serverCount++;
+    await expect(monitor.flush()).resolves.toBe(0);
+
+    expect(monitor.violationCount).toBe(5);
+    expect(onCountSynced).toHaveBeenCalledWith(5);
+    monitor.dispose();
+  });
+
+  it('does not reset the count when local storage is cleared', async () => {
+    const monitor = new IntegrityMonitor('attempt-1', { recordedCount: 3 });
+    monitor.record('COPY');
+    await monitor.flush();
+    monitor.dispose();
+    localStorage.clear();
+
+    const resumed = new IntegrityMonitor('attempt-1', { recordedCount: serverCount });
+    expect(resumed.violationCount).toBe(4);
+    resumed.dispose();
+  });
+
+  it('keeps events the server has not acknowledged', async () => {
+    recordIntegrityEvents.mockRejectedValueOnce(new ApiError('Could not reach the server', 0, 'NETWORK_ERROR'));
+    const monitor = new IntegrityMonitor('attempt-1', { recordedCount: 3 });
+    monitor.record('PASTE');
+
+    await expect(monitor.flush()).resolves.toBe(1);
+    expect(monitor.violationCount).toBe(4);
+    expect(new IntegrityMonitor('attempt-1').pendingCount).toBe(1);
+
+    await expect(monitor.flush()).resolves.toBe(0);
+    expect(recordIntegrityEvents).toHaveBeenCalledTimes(2);
+    expect(monitor.violationCount).toBe(4);
+    monitor.dispose();
+  });
+});
@@ -0,0 +1,241 @@
+import { attemptApi } from './api';
+import { IntegrityEventType } from '../types';
+
+// Proctoring signals recorded against an attempt: tab switches, leaving the window,
+// fullscreen exits, copy/cut/paste and right-click attempts, and a devtools heuristic.
+// Events are kept in localStorage until the backend has them and sent in batches.
+// The backend's count of recorded events is the one that counts towards max_violations,
+// so clearing storage only loses events that were never sent.
+
+const EVENTS_KEY_PREFIX = 'exam_integrity_events_';
+const FLUSH_DELAY_MS = 2000;
+const RETRY_DELAY_MS = 15000;
+const DEVTOOLS_CHECK_INTERVAL_MS = 2000;
+// Docked devtools shrink the page by at least this many pixels. Only a heuristic:
+// browser zoom and some toolbars can trigger it too, so the size is recorded for review.
+const DEVTOOLS_SIZE_THRESHOLD = 160;
+// A blur that turns into a hidden tab within this time is recorded once, as TAB_HIDDEN
+const BLUR_GRACE_MS = 300;
+
+export const INTEGRITY_EVENT_LABELS: Record<IntegrityEventType, string> = {
+  TAB_HIDDEN: 'Switched tab or minimised',
+  WINDOW_BLUR: 'Left the exam window',
+  FULLSCREEN_EXIT: 'Exited fullscreen',
+  COPY: 'Copy attempt',
+  CUT: 'Cut attempt',
+  PASTE: 'Paste attempt',
+  CONTEXT_MENU: 'Right-click',
+  DEVTOOLS_OPEN: 'Developer tools opened',
+};
+
+export interface RecordedIntegrityEvent {
+  type: IntegrityEventType;
+  occurred_at: string;
+  details?: string;
+}
+
+interface IntegrityMonitorOptions {
+  requireFullscreen?: boolean; // Record leaving fullscreen as a violation
+  recordedCount?: number; // Events the server had recorded when the attempt was started or resumed
+  onViolation?: (event: RecordedIntegrityEvent, violationCount: number) => void;
+  onCountSynced?: (violationCount: number) => void; // The server acknowledged a batch
+}
+
+export class IntegrityMonitor {
+  private readonly eventsKey: string;
+  private pending: RecordedIntegrityEvent[];
+  private recordedCount: number;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private blurTimer: ReturnType<typeof setTimeout> | null = null;
+  private devtoolsTimer: ReturnType<typeof setInterval> | null = null;
+  private devtoolsOpen = false;
+  private flushPromise: Promise<void> | null = null;
+  private started = false;
+  private disposed = false;
+
+  constructor(private readonly attemptId: string, private readonly options: IntegrityMonitorOptions = {}) {
+    this.eventsKey = `${EVENTS_KEY_PREFIX}${attemptId}`;
+    this.pending = this.load();
+    this.recordedCount = options.recordedCount ?? 0;
+  }
+
+  /**
+   * Integrity events the server has recorded for this attempt, plus the ones not sent yet
+   */
+  get violationCount(): number {
+    return this.recordedCount + this.pending.length;
+  }
+
+  /**
+   * Events that have not reached the server yet
+   */
+  get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  start(): void {
+    if (this.started || this.disposed) return;
+    this.started = true;
+
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('blur', this.handleBlur);
+    document.addEventListener('fullscreenchange', this.handleFullscreenChange);
+    document.addEventListener('copy', this.handleClipboard);
+    document.addEventListener('cut', this.handleClipboard);
+    document.addEventListener('paste', this.handleClipboard);
+    document.addEventListener('contextmenu', this.handleContextMenu);
+    this.devtoolsTimer = setInterval(this.checkDevtools, DEVTOOLS_CHECK_INTERVAL_MS);
+
+    // Events left over from before a reload
+    if (this.pending.length > 0) {
+      void this.flush();
+    }
+  }
+
+  record(type: IntegrityEventType, details?: string): void {
+    if (this.disposed) return;
+
+    const event: RecordedIntegrityEvent = { type, occurred_at: new Date().toISOString(), ...(details ? { details } : {}) };
+    this.pending = [...this.pending, event];
+    this.persist();
+    console.warn('Integrity event recorded:', event);
+    this.options.onViolation?.(event, this.violationCount);
+    this.scheduleFlush(FLUSH_DELAY_MS);
+  }
+
+  /**
+   * Send recorded events now. Failed sends are retried later.
+   * Resolves with the number of events still not sent.
+   */
+  async flush(): Promise<number> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.send().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    await this.flushPromise;
+    return this.pending.length;
+  }
+
+  /**
+   * Remove the persisted events once the attempt has been finalized
+   */
+  clear(): void {
+    this.pending = [];
+    localStorage.removeItem(this.eventsKey);
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.clearFlushTimer();
+    if (this.blurTimer) clearTimeout(this.blurTimer);
+    if (this.devtoolsTimer) clearInterval(this.devtoolsTimer);
+
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('blur', this.handleBlur);
+    document.removeEventListener('fullscreenchange', this.handleFullscreenChange);
+    document.removeEventListener('copy', this.handleClipboard);
+    document.removeEventListener('cut', this.handleClipboard);
+    document.removeEventListener('paste', this.handleClipboard);
+    document.removeEventListener('contextmenu', this.handleContextMenu);
+  }
+
+  private handleVisibilityChange = () => {
+    if (!document.hidden) return;
+    if (this.blurTimer) {
+      clearTimeout(this.blurTimer);
+      this.blurTimer = null;
+    }
+    this.record('TAB_HIDDEN');
+  };
+
+  private handleBlur = () => {
+    if (this.blurTimer) clearTimeout(this.blurTimer);
+    this.blurTimer = setTimeout(() => {
+      this.blurTimer = null;
+      if (!document.hidden) {
+        this.record('WINDOW_BLUR');
+      }
+    }, BLUR_GRACE_MS);
+  };
+
+  private handleFullscreenChange = () => {
+    if (this.options.requireFullscreen && !document.fullscreenElement) {
+      this.record('FULLSCREEN_EXIT');
+    }
+  };
+
+  private handleClipboard = (e: ClipboardEvent) => {
+    e.preventDefault();
+    this.record(e.type.toUpperCase() as 'COPY' | 'CUT' | 'PASTE');
+  };
+
+  private handleContextMenu = (e: MouseEvent) => {
+    e.preventDefault();
+    this.record('CONTEXT_MENU');
+  };
+
+  private checkDevtools = () => {
+    const widthGap = window.outerWidth - window.innerWidth;
+    const heightGap = window.outerHeight - window.innerHeight;
+    const open = widthGap > DEVTOOLS_SIZE_THRESHOLD || heightGap > DEVTOOLS_SIZE_THRESHOLD;
+    if (open && !this.devtoolsOpen) {
+      this.record('DEVTOOLS_OPEN', `Viewport ${widthGap}px narrower, ${heightGap}px shorter than the window`);
+    }
+    this.devtoolsOpen = open;
+  };
+
+  private async send(): Promise<void> {
+    if (this.pending.length === 0) return;
+    this.clearFlushTimer();
+
+    const batch = this.pending;
+    try {
+      const response = await attemptApi.recordIntegrityEvents(this.attemptId, batch);
+      this.pending = this.pending.filter(event => !batch.includes(event));
+      this.recordedCount = response?.violation_count ?? this.recordedCount + batch.length;
+      this.persist();
+      this.options.onCountSynced?.(this.violationCount);
+      if (this.pending.length > 0) {
+        this.scheduleFlush(FLUSH_DELAY_MS);
+      }
+    } catch (err) {
+      console.error('Failed to send integrity events:', err);
+      this.scheduleFlush(RETRY_DELAY_MS);
+    }
+  }
+
+  private scheduleFlush(delay: number): void {
+    if (this.disposed) return;
+    this.clearFlushTimer();
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, delay);
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private load(): RecordedIntegrityEvent[] {
+    try {
+      const data = localStorage.getItem(this.eventsKey);
+      return data ? JSON.parse(data) : [];
+    } catch (err) {
+      console.error('Failed to read integrity events from storage:', err);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    if (this.pending.length === 0) {
+      localStorage.removeItem(this.eventsKey);
+    } else {
+      localStorage.setItem(this.eventsKey, JSON.stringify(this.pending));
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import { AnswerPayload, QuestionType } from '../types';
+import { getCorrectIndices, getQuestionType, getSelectedIndices, hasAnswer, isAnswerCorrect, isChoiceType } from './questionTypes';
+
+// Classical test theory item statistics for one exam, computed from its finished
+// attempts. Every question is scored 0/1 (skipped counts as wrong); the attempt's
+// total is the number of questions it got right.
+
+// Upper and lower groups for the discrimination index (Kelley's 27%)
+const GROUP_FRACTION = 0.27;
+// Fewer attempts than this and the statistics are too noisy to act on
+export const MIN_RELIABLE_ATTEMPTS = 20;
+const EASY_P_VALUE = 0.9;
+const HARD_P_VALUE = 0.2;
+const LOW_DISCRIMINATION = 0.2;
+// A distractor chosen by fewer test takers than this isn't doing its job
+const NON_FUNCTIONING_DISTRACTOR_RATE = 0.05;
+
+export type ItemFlag =
+  | 'POSSIBLE_WRONG_KEY'
+  | 'NEGATIVE_DISCRIMINATION'
+  | 'LOW_DISCRIMINATION'
+  | 'TOO_EASY'
+  | 'TOO_HARD';
+
+export const ITEM_FLAG_LABELS: Record<ItemFlag, string> = {
+  POSSIBLE_WRONG_KEY: 'Possible wrong key',
+  NEGATIVE_DISCRIMINATION: 'Negative discrimination',
+  LOW_DISCRIMINATION: 'Low discrimination',
+  TOO_EASY: 'Too easy',
+  TOO_HARD: 'Too hard',
+};
+
+interface AnalysedQuestion {
+  id: string;
+  question_type?: QuestionType | null;
+  correct_answer_index?: number | null;
+  correct_answer_indices?: number[] | null;
+  numeric_answer?: number | null;
+  numeric_tolerance?: number | null;
+  options?: Array<{ option_index: number }>;
+}
+
+interface AnalysedAttempt {
+  id: string;
+  status: string;
+  exam_answers?: Array<Partial<AnswerPayload> & { question_id: string; is_correct?: boolean }>;
+}
+
+export interface OptionStatistics {
+  optionIndex: number;
+  isKey: boolean;
+  count: number; // Test takers who picked the option
+  rate: number; // Share of all test takers, 0-1
+  upperCount: number;
+  lowerCount: number;
+  nonFunctioning: boolean; // Distractors only
+}
+
+export interface ItemStatistics {
+  questionId: string;
+  attempts: number;
+  correct: number;
+  omitted: number;
+  difficulty: number; // p-value: share answering correctly, 0-1
+  discrimination: number | null; // Upper group p minus lower group p
+  pointBiserial: number | null; // Correlation of the item with the rest of the test
+  options: OptionStatistics[]; // Empty for numeric questions
+  flags: ItemFlag[];
+}
+
+export interface ItemAnalysis {
+  attemptCount: number;
+  groupSize: number; // Attempts in each of the upper and lower groups
+  meanScore: number; // Questions correct per attempt
+  items: ItemStatistics[];
+}
+
+type AttemptAnswers = Map<string, Partial<AnswerPayload> & { is_correct?: boolean }>;
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Item statistics for every question, in the order given.
+ * Only submitted and expired attempts count.
+ */
+export const analyseItems = (questions: AnalysedQuestion[], attempts: AnalysedAttempt[]): ItemAnalysis => {
+  const finished = attempts.filter(attempt => attempt.status === 'SUBMITTED' || attempt.status === 'EXPIRED');
+  const answerMaps: AttemptAnswers[] = finished.map(attempt =>
+    new Map((attempt.exam_answers || []).map(answer => [answer.question_id, answer]))
+  );
+
+  // Item scores per attempt, one row per attempt
+  const scores = answerMaps.map(answers => questions.map(question => {
+    const answer = answers.get(question.id);
+    return (answer?.is_correct ?? isAnswerCorrect(question, answer)) ? 1 : 0;
+  }));
+  const totals = scores.map(row => row.reduce<number>((sum, score) => sum + score, 0));
+
+  // Attempt positions ranked by total score, best first
+  const ranked = totals.map((total, index) => ({ total, index })).sort((a, b) => b.total - a.total);
+  const groupSize = finished.length >= 2 ? Math.max(1, Math.round(finished.length * GROUP_FRACTION)) : 0;
+  const upper = new Set(ranked.slice(0, groupSize).map(entry => entry.index));
+  const lower = new Set(ranked.slice(ranked.length - groupSize).map(entry => entry.index));
+
+  const items = questions.map((question, questionIndex): ItemStatistics => {
+    const itemScores = scores.map(row => row[questionIndex]);
+    const correct = itemScores.reduce<number>((sum, score) => sum + score, 0);
+    const difficulty = finished.length > 0 ? correct / finished.length : 0;
+    const omitted = answerMaps.filter(answers => !hasAnswer(answers.get(question.id))).length;
+
+    const groupP = (group: Set<number>) => mean([...group].map(index => itemScores[index]));
+    const discrimination = groupSize > 0 ? groupP(upper) - groupP(lower) : null;
+    const pointBiserial = getPointBiserial(itemScores, totals);
+
+    const options = isChoiceType(getQuestionType(question))
+      ? getOptionStatistics(question, answerMaps, upper, lower)
+      : [];
+
+    const flags: ItemFlag[] = [];
+    const key = options.filter(option => option.isKey);
+    const keyUpperCount = Math.min(...key.map(option => option.upperCount));
+    if (key.length > 0 && options.some(option => !option.isKey && option.upperCount > keyUpperCount)) {
+      flags.push('POSSIBLE_WRONG_KEY');
+    }
+    if ((discrimination !== null && discrimination < 0) || (pointBiserial !== null && pointBiserial < 0)) {
+      flags.push('NEGATIVE_DISCRIMINATION');
+    } else if (discrimination !== null && discrimination < LOW_DISCRIMINATION) {
+      flags.push('LOW_DISCRIMINATION');
+    }
+    if (finished.length > 0 && difficulty > EASY_P_VALUE) flags.push('TOO_EASY');
+    if (finished.length > 0 && difficulty < HARD_P_VALUE) flags.push('TOO_HARD');
+
+    return {
+      questionId: question.id,
+      attempts: finished.length,
+      correct,
+      omitted,
+      difficulty,
+      discrimination,
+      pointBiserial,
+      options,
+      flags,
+    };
+  });
+
+  return {
+    attemptCount: finished.length,
+    groupSize,
+    meanScore: mean(totals),
+    items,
+  };
+};
+
+// Corrected point-biserial: correlates the item with the total score excluding the
+// item itself, so an item doesn't correlate with its own contribution.
+// null when either side has no variance.
+const getPointBiserial = (itemScores: number[], totals: number[]): number | null => {
+  const n = itemScores.length;
+  if (n < 2) return null;
+
+  const rest = totals.map((total, index) => total - itemScores[index]);
+  const p = mean(itemScores);
+  const restMean = mean(rest);
+  const restSd = Math.sqrt(mean(rest.map(value => (value - restMean) ** 2)));
+  if (p === 0 || p === 1 || restSd === 0) return null;
+
+  const correctMean = mean(rest.filter((_, index) => itemScores[index] === 1));
+  const wrongMean = mean(rest.filter((_, index) => itemScores[index] === 0));
+  return ((correctMean - wrongMean) / restSd) * Math.sqrt(p * (1 - p));
+};
+
+const getOptionStatistics = (
+  question: AnalysedQuestion,
+  answerMaps: AttemptAnswers[],
+  upper: Set<number>,
+  lower: Set<number>
+): OptionStatistics[] => {
+  const keys = getCorrectIndices(question);
+  const optionIndexes = (question.options || []).map(option => option.option_index).sort((a, b) => a - b);
+
+  return optionIndexes.map(optionIndex => {
+    const chosenBy = answerMaps
+      .map((answers, index) => (getSelectedIndices(answers.get(question.id)).includes(optionIndex) ? index : -1))
+      .filter(index => index >= 0);
+    const isKey = keys.includes(optionIndex);
+    const rate = answerMaps.length > 0 ? chosenBy.length / answerMaps.length : 0;
+
+    return {
+      optionIndex,
+      isKey,
+      count: chosenBy.length,
+      rate,
+      upperCount: chosenBy.filter(index => upper.has(index)).length,
+      lowerCount: chosenBy.filter(index => lower.has(index)).length,
+      nonFunctioning: !isKey && answerMaps.length > 0 && rate < NON_FUNCTIONING_DISTRACTOR_RATE,
+    };
+  });
+};
@@ -0,0 +1,163 @@
+import { AnswerPayload, MarkingScheme } from '../types';
+import { hasAnswer } from './questionTypes';
+
+// Helpers for marking schemes (e.g. +4 / -1) and per-question overrides.
+// Skipped questions always score zero.
+
+export const DEFAULT_MARKING_SCHEME: MarkingScheme = {
+  marks_per_correct: 1,
+  penalty_per_wrong: 0,
+};
+
+export type AnswerOutcome = 'CORRECT' | 'WRONG' | 'SKIPPED';
+
+interface MarkedExam {
+  marks_per_correct?: number | null;
+  penalty_per_wrong?: number | null;
+}
+
+interface MarkedQuestion {
+  marks?: number | null; // Overrides the exam's marks_per_correct
+  penalty?: number | null; // Overrides the exam's penalty_per_wrong
+}
+
+interface MarkedAnswer extends Partial<AnswerPayload> {
+  is_correct?: boolean;
+  question?: MarkedQuestion;
+}
+
+interface MarkedAttempt {
+  score?: number | null;
+  marks_obtained?: number | null;
+  total_marks?: number | null;
+}
+
+export interface MarksSummary {
+  obtained: number;
+  maximum: number;
+  gained: number; // Marks from correct answers
+  lost: number; // Marks deducted for wrong answers (positive number)
+  percentage: number; // Can be negative when penalties outweigh correct answers
+  correct: number;
+  wrong: number;
+  skipped: number;
+}
+
+/**
+ * Exam-level marking scheme, falling back to one mark per correct answer and no penalty
+ */
+export const getMarkingScheme = (exam?: MarkedExam | null): MarkingScheme => ({
+  marks_per_correct: exam?.marks_per_correct ?? DEFAULT_MARKING_SCHEME.marks_per_correct,
+  penalty_per_wrong: exam?.penalty_per_wrong ?? DEFAULT_MARKING_SCHEME.penalty_per_wrong,
+});
+
+/**
+ * Marking that applies to a single question - its own overrides win over the exam scheme
+ */
+export const getQuestionMarking = (exam?: MarkedExam | null, question?: MarkedQuestion | null): MarkingScheme => {
+  const scheme = getMarkingScheme(exam);
+  return {
+    marks_per_correct: question?.marks ?? scheme.marks_per_correct,
+    penalty_per_wrong: question?.penalty ?? scheme.penalty_per_wrong,
+  };
+};
+
+export const hasNegativeMarking = (exam?: MarkedExam | null): boolean => {
+  return getMarkingScheme(exam).penalty_per_wrong > 0;
+};
+
+export const getAnswerOutcome = (answer: MarkedAnswer): AnswerOutcome => {
+  if (!hasAnswer(answer)) return 'SKIPPED';
+  return answer.is_correct ? 'CORRECT' : 'WRONG';
+};
+
+/**
+ * Marks awarded for one answer under the given marking
+ */
+export const getAnswerMarks = (outcome: AnswerOutcome, marking: MarkingScheme): number => {
+  switch (outcome) {
+    case 'CORRECT':
+      return marking.marks_per_correct;
+    case 'WRONG':
+      return -marking.penalty_per_wrong;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Total marks for a set of graded answers
+ */
+export const calculateMarks = (answers: MarkedAnswer[], exam?: MarkedExam | null): MarksSummary => {
+  const summary = answers.reduce(
+    (acc, answer) => {
+      const marking = getQuestionMarking(exam, answer.question);
+      const outcome = getAnswerOutcome(answer);
+      const answerMarks = getAnswerMarks(outcome, marking);
+      acc.obtained += answerMarks;
+      acc.maximum += marking.marks_per_correct;
+      if (outcome === 'CORRECT') {
+        acc.correct++;
+        acc.gained += answerMarks;
+      } else if (outcome === 'WRONG') {
+        acc.wrong++;
+        acc.lost -= answerMarks;
+      } else {
+        acc.skipped++;
+      }
+      return acc;
+    },
+    { obtained: 0, maximum: 0, gained: 0, lost: 0, correct: 0, wrong: 0, skipped: 0 }
+  );
+
+  return {
+    ...summary,
+    percentage: summary.maximum > 0 ? (summary.obtained / summary.maximum) * 100 : 0,
+  };
+};
+
+/**
+ * Marks for a graded attempt: the backend's totals when present, otherwise
+ * calculated from its answers. Returns null when neither is available.
+ */
+export const getAttemptMarks = (
+  attempt: MarkedAttempt & { answers?: MarkedAnswer[]; exam?: MarkedExam | null }
+): MarksSummary | null => {
+  const fromAnswers = attempt.answers && attempt.answers.length > 0
+    ? calculateMarks(attempt.answers, attempt.exam)
+    : null;
+
+  if (attempt.marks_obtained !== undefined && attempt.marks_obtained !== null && attempt.total_marks) {
+    return {
+      correct: fromAnswers?.correct ?? 0,
+      wrong: fromAnswers?.wrong ?? 0,
+      skipped: fromAnswers?.skipped ?? 0,
+      gained: fromAnswers?.gained ?? 0,
+      lost: fromAnswers?.lost ?? 0,
+      obtained: attempt.marks_obtained,
+      maximum: attempt.total_marks,
+      percentage: (attempt.marks_obtained / attempt.total_marks) * 100,
+    };
+  }
+  return fromAnswers;
+};
+
+/**
+ * Percentage of marks for an attempt. Uses the backend's marks when present,
+ * otherwise the stored score (already a percentage).
+ */
+export const getMarkedPercentage = (attempt: MarkedAttempt): number => {
+  if (attempt.marks_obtained !== undefined && attempt.marks_obtained !== null && attempt.total_marks) {
+    return (attempt.marks_obtained / attempt.total_marks) * 100;
+  }
+  return attempt.score ?? 0;
+};
+
+/**
+ * Format marks for display: whole numbers as-is, fractions to two places,
+ * with an explicit sign when requested (+4, -1)
+ */
+export const formatMarks = (marks: number, withSign = false): string => {
+  const value = Number.isInteger(marks) ? marks.toString() : marks.toFixed(2);
+  return withSign && marks > 0 ? `+${value}` : value;
+};
@@ -0,0 +1,101 @@
+import type { User as FirebaseUser } from 'firebase/auth';
+
+// Offline stand-in for Firebase Auth, used together with the mock backend
+// (VITE_MOCK_BACKEND=true). Any password signs in; the ID token just carries
+// the email, and the mock backend looks the account up by it.
+
+const SESSION_KEY = 'mock_auth_session';
+const TOKEN_PREFIX = 'mock-token:';
+
+// The parts of a Firebase user the app reads
+export type MockAuthUser = Pick<FirebaseUser, 'uid' | 'email' | 'displayName' | 'getIdToken'>;
+
+interface MockSession {
+  email: string;
+  displayName: string | null;
+}
+
+type AuthListener = (user: MockAuthUser | null) => void;
+
+const listeners = new Set<AuthListener>();
+
+export const mockUid = (email: string): string => `mock:${email.trim().toLowerCase()}`;
+
+export const createMockToken = (email: string): string => `${TOKEN_PREFIX}${email.trim().toLowerCase()}`;
+
+/**
+ * Email carried by a mock ID token, or null if it isn't one
+ */
+export const parseMockToken = (token: string): string | null => {
+  return token.startsWith(TOKEN_PREFIX) ? token.slice(TOKEN_PREFIX.length) || null : null;
+};
+
+const toUser = (session: MockSession): MockAuthUser => ({
+  uid: mockUid(session.email),
+  email: session.email,
+  displayName: session.displayName,
+  getIdToken: async () => createMockToken(session.email),
+});
+
+// localStorage is missing outside the browser, e.g. in tests
+const loadSession = (): MockSession | null => {
+  try {
+    const data = typeof localStorage !== 'undefined' ? localStorage.getItem(SESSION_KEY) : null;
+    return data ? JSON.parse(data) : null;
+  } catch {
+    return null;
+  }
+};
+
+let currentUser: MockAuthUser | null = null;
+let loaded = false;
+
+export const getMockCurrentUser = (): MockAuthUser | null => {
+  if (!loaded) {
+    const session = loadSession();
+    currentUser = session ? toUser(session) : null;
+    loaded = true;
+  }
+  return currentUser;
+};
+
+const notify = () => listeners.forEach(listener => listener(currentUser));
+
+/**
+ * Sign in as the given email. The session survives reloads until ended.
+ */
+export const startMockSession = (session: MockSession): MockAuthUser => {
+  const stored = { ...session, email: session.email.trim().toLowerCase() };
+  const user = toUser(stored);
+  currentUser = user;
+  loaded = true;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(stored));
+  }
+  notify();
+  return user;
+};
+
+export const endMockSession = (): void => {
+  currentUser = null;
+  loaded = true;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.removeItem(SESSION_KEY);
+  }
+  notify();
+};
+
+/**
+ * Same contract as Firebase's onAuthStateChanged: called right away with the
+ * current user, then on every sign in and sign out
+ */
+export const onMockAuthStateChanged = (listener: AuthListener): (() => void) => {
+  listeners.add(listener);
+  const user = getMockCurrentUser();
+  queueMicrotask(() => {
+    if (listeners.has(listener)) listener(user);
+  });
+  return () => {
+    listeners.delete(listener);
+  };
+};
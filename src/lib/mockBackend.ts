@@ -0,0 +1,1660 @@
+import type { AnswerPayload, Capability, QuestionDifficulty } from '../types';
+import { calculateMarks } from './marking';
+import { parseMockToken, mockUid } from './mockAuth';
+import {
+  createSeedData,
+  MockAnswer,
+  MockAttempt,
+  MockDatabase,
+  MockExam,
+  MockPracticeSession,
+  MockQuestion,
+  MockQuestionSet,
+  MockReviewCard,
+  MockTopic,
+  MockUser,
+} from './mockData';
+import { hasAnyCapability } from './permissions';
+import { hasAnswer, isAnswerCorrect } from './questionTypes';
+import { isSectionedExam } from './examSections';
+
+// In-process mock of the /api/v1 backend (see COMPLETE_API_SPECIFICATION.md), enabled
+// with VITE_MOCK_BACKEND=true. api.ts sends requests to mockFetch instead of the network,
+// so the whole app runs offline against seeded data. Responses use the real envelope and
+// status codes; data persists in localStorage until resetMockBackend() is called.
+
+const STORAGE_KEY = 'mock_backend_db';
+const LATENCY_MS = 150;
+const DEFAULT_TAKE = 20;
+const MAX_TAKE = 100;
+// Submits and answers racing the timer are still accepted this long after expiry
+const EXPIRY_GRACE_MS = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class MockHttpError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details?: unknown;
+
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = 'MockHttpError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+interface MockRequest {
+  db: MockDatabase;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+  email: string | null; // From the mock ID token
+  user: MockUser | null;
+  now: number;
+}
+
+type RouteAuth = 'user' | 'token' | 'none';
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: (req: MockRequest) => unknown;
+  status: number;
+  auth: RouteAuth;
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+// ============================================================================
+// DATABASE
+// ============================================================================
+
+let database: MockDatabase | null = null;
+
+const hasStorage = (): boolean => typeof localStorage !== 'undefined';
+
+const loadDatabase = (): MockDatabase => {
+  try {
+    const data = hasStorage() ? localStorage.getItem(STORAGE_KEY) : null;
+    if (data) return JSON.parse(data);
+  } catch {
+    // Unreadable data is replaced by a fresh seed
+  }
+  return createSeedData();
+};
+
+const getDatabase = (): MockDatabase => {
+  if (!database) database = loadDatabase();
+  return database;
+};
+
+const saveDatabase = () => {
+  if (database && hasStorage()) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(database));
+  }
+};
+
+/**
+ * Replace the mock data, by default with a fresh seed. Handy in the console
+ * (after a reload) and for tests that need a known starting point.
+ */
+export const resetMockBackend = (data: MockDatabase = createSeedData()): void => {
+  database = data;
+  saveDatabase();
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const newId = (prefix: string): string => {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+const iso = (time: number): string => new Date(time).toISOString();
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const average = (values: number[]): number => {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+};
+
+const bodyOf = <T>(req: MockRequest): Partial<T> => (req.body ?? {}) as Partial<T>;
+
+const paginate = <T>(items: T[], query: URLSearchParams): T[] => {
+  const skip = Math.max(0, Number(query.get('skip')) || 0);
+  const take = Math.min(MAX_TAKE, Math.max(1, Number(query.get('take')) || DEFAULT_TAKE));
+  return items.slice(skip, skip + take);
+};
+
+const requireText = (value: unknown, message: string): string => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new MockHttpError(400, 'VALIDATION_ERROR', message);
+  }
+  return value.trim();
+};
+
+const me = (req: MockRequest): MockUser => {
+  if (!req.user) throw new MockHttpError(401, 'UNAUTHORIZED', 'Missing or invalid authentication token');
+  return req.user;
+};
+
+const requireCapability = (req: MockRequest, ...capabilities: Capability[]): MockUser => {
+  const user = me(req);
+  if (!hasAnyCapability(user, capabilities)) {
+    throw new MockHttpError(403, 'FORBIDDEN', 'You do not have permission to perform this action');
+  }
+  return user;
+};
+
+const isStaff = (user: MockUser): boolean => user.role === 'ADMIN';
+
+// Staff may read everyone's data with the capability, students only their own
+const requireSelfOr = (req: MockRequest, userId: string, ...capabilities: Capability[]): MockUser => {
+  const user = me(req);
+  if (user.id !== userId && !hasAnyCapability(user, capabilities)) {
+    throw new MockHttpError(403, 'FORBIDDEN', 'Access denied - you can only view your own data');
+  }
+  return user;
+};
+
+const findOr404 = <T extends { id: string }>(items: T[], id: string, name: string): T => {
+  const item = items.find(candidate => candidate.id === id);
+  if (!item) throw new MockHttpError(404, 'NOT_FOUND', `${name} not found`);
+  return item;
+};
+
+// ============================================================================
+// RESPONSE SHAPES
+// ============================================================================
+
+const userResponse = (db: MockDatabase, user: MockUser) => ({
+  ...user,
+  batches: db.batches
+    .filter(batch => batch.user_ids.includes(user.id))
+    .map(batch => ({ id: batch.id, name: batch.name })),
+});
+
+const topicResponse = (db: MockDatabase, topic: MockTopic, includeCount = false) => ({
+  ...topic,
+  ...(includeCount && { _count: { questions: db.questions.filter(q => q.topic_id === topic.id).length } }),
+});
+
+// The answer key and explanation are left out for students taking an exam
+const questionResponse = (db: MockDatabase, question: MockQuestion, withKey: boolean) => {
+  const {
+    correct_answer_index, correct_answer_indices, numeric_answer, numeric_tolerance,
+    explanation_latex, video_solution_url, ...rest
+  } = question;
+  const topic = db.topics.find(t => t.id === question.topic_id);
+  return {
+    ...rest,
+    ...(withKey && {
+      correct_answer_index, correct_answer_indices, numeric_answer, numeric_tolerance,
+      explanation_latex, video_solution_url,
+    }),
+    topic: topic ? { id: topic.id, name: topic.name } : undefined,
+    options: [...question.options].sort((a, b) => a.option_index - b.option_index),
+  };
+};
+
+const questionSetResponse = (db: MockDatabase, set: MockQuestionSet, withQuestions: boolean, withKey: boolean) => {
+  const { questions, ...rest } = set;
+  if (!withQuestions) return rest;
+  return {
+    ...rest,
+    question_set_questions: [...questions]
+      .sort((a, b) => a.position - b.position)
+      .flatMap(({ question_id, position }) => {
+        const question = db.questions.find(q => q.id === question_id);
+        return question ? [{ position, question: questionResponse(db, question, withKey) }] : [];
+      }),
+  };
+};
+
+const examResponse = (db: MockDatabase, exam: MockExam, withSets: boolean, withKey: boolean) => {
+  const { question_sets, batch_ids, ...rest } = exam;
+  return {
+    ...rest,
+    batches: db.batches.filter(b => batch_ids.includes(b.id)).map(b => ({ id: b.id, name: b.name })),
+    ...(withSets && {
+      exam_question_sets: [...question_sets]
+        .sort((a, b) => a.position - b.position)
+        .flatMap(({ question_set_id, position, section_time_limit_seconds }) => {
+          const set = db.questionSets.find(s => s.id === question_set_id);
+          return set
+            ? [{ position, section_time_limit_seconds, question_set: questionSetResponse(db, set, true, withKey) }]
+            : [];
+        }),
+    }),
+  };
+};
+
+// ============================================================================
+// EXAMS AND ATTEMPTS
+// ============================================================================
+
+interface ExamQuestion {
+  question: MockQuestion;
+  setPosition: number;
+  setTitle: string;
+  position: number;
+}
+
+// Every question of an exam in canonical order
+const getExamQuestions = (db: MockDatabase, exam: MockExam): ExamQuestion[] => {
+  return [...exam.question_sets]
+    .sort((a, b) => a.position - b.position)
+    .flatMap(eqs => {
+      const set = db.questionSets.find(s => s.id === eqs.question_set_id);
+      if (!set) return [];
+      return [...set.questions]
+        .sort((a, b) => a.position - b.position)
+        .flatMap(({ question_id, position }) => {
+          const question = db.questions.find(q => q.id === question_id);
+          return question ? [{ question, setPosition: eqs.position, setTitle: set.title, position }] : [];
+        });
+    });
+};
+
+const canTakeExam = (db: MockDatabase, user: MockUser, exam: MockExam): boolean => {
+  if (isStaff(user) || exam.batch_ids.length === 0) return true;
+  return db.batches.some(batch => exam.batch_ids.includes(batch.id) && batch.user_ids.includes(user.id));
+};
+
+const findExamFor = (req: MockRequest, exam: MockExam | undefined): MockExam => {
+  const user = me(req);
+  if (!exam) throw new MockHttpError(404, 'NOT_FOUND', 'Exam not found');
+  if (!canTakeExam(req.db, user, exam)) {
+    throw new MockHttpError(403, 'FORBIDDEN', 'This exam is not assigned to your batch');
+  }
+  return exam;
+};
+
+const isFinished = (attempt: MockAttempt): boolean => attempt.status !== 'IN_PROGRESS';
+
+const gradeAttempt = (db: MockDatabase, attempt: MockAttempt) => {
+  const exam = db.exams.find(e => e.id === attempt.exam_id);
+  const items = (exam ? getExamQuestions(db, exam) : []).map(item => {
+    const answer = attempt.answers.find(a => a.question_id === item.question.id);
+    return { ...item, answer, is_correct: isAnswerCorrect(item.question, answer) };
+  });
+  const marks = calculateMarks(
+    items.map(item => ({ ...item.answer, is_correct: item.is_correct, question: item.question })),
+    exam
+  );
+  return { exam, items, marks };
+};
+
+type GradedItem = ReturnType<typeof gradeAttempt>['items'][number];
+
+const groupPerformance = <K extends string>(items: GradedItem[], getKey: (item: GradedItem) => K) => {
+  const groups = new Map<K, GradedItem[]>();
+  items.forEach(item => groups.set(getKey(item), [...(groups.get(getKey(item)) || []), item]));
+  return [...groups.entries()].map(([key, group]) => ({
+    key,
+    items: group,
+    total_questions: group.length,
+    correct_answers: group.filter(item => item.is_correct).length,
+  }));
+};
+
+// Scores of a finished attempt, as returned by submit and attempt details
+const attemptResults = (db: MockDatabase, attempt: MockAttempt) => {
+  const { exam, items, marks } = gradeAttempt(db, attempt);
+  const finishedAt = attempt.submitted_at ? Date.parse(attempt.submitted_at) : Date.parse(attempt.expires_at);
+  return {
+    score: round(marks.percentage),
+    marks_obtained: marks.obtained,
+    total_marks: marks.maximum,
+    total_questions: items.length,
+    correct_answers: marks.correct,
+    time_taken_seconds: Math.max(0, Math.round((finishedAt - Date.parse(attempt.started_at)) / 1000)),
+    topic_performance: groupPerformance(items, item => item.question.topic_id).map(group => ({
+      topic_id: group.key,
+      topic_name: db.topics.find(t => t.id === group.key)?.name || 'Unknown topic',
+      total_questions: group.total_questions,
+      correct_answers: group.correct_answers,
+      percentage: round((group.correct_answers / group.total_questions) * 100),
+    })),
+    ...(exam && isSectionedExam(exam.question_sets) && {
+      section_performance: groupPerformance(items, item => String(item.setPosition)).map(group => {
+        const sectionMarks = calculateMarks(
+          group.items.map(item => ({ ...item.answer, is_correct: item.is_correct, question: item.question })),
+          exam
+        );
+        return {
+          position: Number(group.key),
+          title: group.items[0].setTitle,
+          total_questions: group.total_questions,
+          correct_answers: group.correct_answers,
+          marks_obtained: sectionMarks.obtained,
+          total_marks: sectionMarks.maximum,
+        };
+      }),
+    }),
+  };
+};
+
+const answerResponse = (db: MockDatabase, attempt: MockAttempt, answer: MockAnswer) => {
+  const question = db.questions.find(q => q.id === answer.question_id);
+  return {
+    ...answer,
+    attempt_id: attempt.id,
+    ...(isFinished(attempt) && question && { is_correct: isAnswerCorrect(question, answer) }),
+  };
+};
+
+const attemptResponse = (db: MockDatabase, attempt: MockAttempt, withQuestions = false) => {
+  const exam = db.exams.find(e => e.id === attempt.exam_id);
+  const user = db.users.find(u => u.id === attempt.user_id);
+  return {
+    id: attempt.id,
+    exam_id: attempt.exam_id,
+    user_id: attempt.user_id,
+    status: attempt.status,
+    started_at: attempt.started_at,
+    expires_at: attempt.expires_at,
+    submitted_at: attempt.submitted_at ?? undefined,
+    completed_at: attempt.submitted_at ?? undefined,
+    shuffle_seed: attempt.shuffle_seed,
+    current_section_position: attempt.current_section_position,
+    section_expires_at: attempt.section_expires_at,
+    integrity_violation_count: attempt.integrity_events.length,
+    total_time_seconds: exam?.time_limit_seconds ?? 0,
+    exam: exam && {
+      id: exam.id,
+      title: exam.title,
+      time_limit_seconds: exam.time_limit_seconds,
+      marks_per_correct: exam.marks_per_correct,
+      penalty_per_wrong: exam.penalty_per_wrong,
+    },
+    user: user && { id: user.id, name: user.name, email: user.email },
+    answers: attempt.answers.map(answer => answerResponse(db, attempt, answer)),
+    ...(isFinished(attempt) && attemptResults(db, attempt)),
+    ...(withQuestions && exam && {
+      questions: getExamQuestions(db, exam).map(({ question, setPosition, position }) => ({
+        questionSetPosition: setPosition,
+        questionPosition: position,
+        question: {
+          id: question.id,
+          text: question.question_text || '',
+          question_latex: question.question_latex,
+          image_url: question.image_url,
+          question_type: question.question_type,
+          options: [...question.options].sort((a, b) => a.option_index - b.option_index).map(o => o.option_text),
+          marks: question.marks ?? exam.marks_per_correct,
+          topic: { name: db.topics.find(t => t.id === question.topic_id)?.name || '' },
+        },
+      })),
+    }),
+  };
+};
+
+// Grade and close an attempt. Wrong answers go to the student's mistakes notebook.
+const finalizeAttempt = (db: MockDatabase, attempt: MockAttempt, now: number) => {
+  attempt.status = 'SUBMITTED';
+  attempt.submitted_at = iso(Math.min(now, Date.parse(attempt.expires_at)));
+  attempt.current_section_position = null;
+  attempt.section_expires_at = null;
+
+  gradeAttempt(db, attempt).items
+    .filter(item => item.answer && hasAnswer(item.answer) && !item.is_correct)
+    .filter(item => !db.reviewCards.some(c => c.user_id === attempt.user_id && c.question_id === item.question.id))
+    .forEach(item => db.reviewCards.push({
+      id: newId('card'),
+      user_id: attempt.user_id,
+      question_id: item.question.id,
+      ease_factor: 2.5,
+      interval_days: 1,
+      repetitions: 0,
+      lapses: 0,
+      due_at: iso(now + DAY_MS),
+      last_reviewed_at: null,
+      created_at: iso(now),
+      source_exam_id: attempt.exam_id,
+    }));
+};
+
+// Sections whose time ran out are closed as if the student had moved on
+const syncSection = (db: MockDatabase, attempt: MockAttempt, now: number) => {
+  const exam = db.exams.find(e => e.id === attempt.exam_id);
+  while (exam && attempt.status === 'IN_PROGRESS' && attempt.section_expires_at &&
+      now >= Date.parse(attempt.section_expires_at)) {
+    if (!openNextSection(exam, attempt, Date.parse(attempt.section_expires_at))) break;
+  }
+};
+
+const openNextSection = (exam: MockExam, attempt: MockAttempt, openedAt: number): boolean => {
+  const next = [...exam.question_sets]
+    .sort((a, b) => a.position - b.position)
+    .find(eqs => eqs.position > (attempt.current_section_position ?? 0));
+  if (!next) return false;
+  attempt.current_section_position = next.position;
+  attempt.section_expires_at = next.section_time_limit_seconds
+    ? iso(Math.min(openedAt + next.section_time_limit_seconds * 1000, Date.parse(attempt.expires_at)))
+    : null;
+  return true;
+};
+
+const findAttemptFor = (req: MockRequest, ...capabilities: Capability[]): MockAttempt => {
+  const attempt = findOr404(req.db.attempts, req.params.attemptId, 'Attempt');
+  requireSelfOr(req, attempt.user_id, ...capabilities);
+  syncSection(req.db, attempt, req.now);
+  return attempt;
+};
+
+// In-progress attempt that can still be changed, finalizing it once its time is up
+const findOpenAttempt = (req: MockRequest): MockAttempt => {
+  const attempt = findAttemptFor(req);
+  if (attempt.user_id !== me(req).id) {
+    throw new MockHttpError(403, 'FORBIDDEN', 'You can only change your own attempts');
+  }
+  if (isFinished(attempt)) {
+    throw new MockHttpError(409, 'ATTEMPT_NOT_IN_PROGRESS', 'Attempt already submitted');
+  }
+  if (req.now > Date.parse(attempt.expires_at) + EXPIRY_GRACE_MS) {
+    finalizeAttempt(req.db, attempt, req.now);
+    throw new MockHttpError(410, 'ATTEMPT_EXPIRED', 'Attempt has expired');
+  }
+  return attempt;
+};
+
+// ============================================================================
+// ANALYTICS
+// ============================================================================
+
+// Users in the batch given by ?batch_id, or null when not filtering
+const batchMembers = (req: MockRequest): Set<string> | null => {
+  const batchId = req.query.get('batch_id');
+  if (!batchId) return null;
+  return new Set(findOr404(req.db.batches, batchId, 'Batch').user_ids);
+};
+
+const finishedAttempts = (db: MockDatabase, members: Set<string> | null, filter: (a: MockAttempt) => boolean = () => true) => {
+  return db.attempts
+    .filter(a => isFinished(a) && filter(a) && (!members || members.has(a.user_id)))
+    .map(attempt => ({ attempt, ...attemptResults(db, attempt), graded: gradeAttempt(db, attempt) }));
+};
+
+const detailedAttempt = (db: MockDatabase, attempt: MockAttempt) => {
+  const exam = db.exams.find(e => e.id === attempt.exam_id);
+  const user = db.users.find(u => u.id === attempt.user_id);
+  const finished = isFinished(attempt);
+  const results = finished ? attemptResults(db, attempt) : null;
+  return {
+    id: attempt.id,
+    exam_id: attempt.exam_id,
+    user_id: attempt.user_id,
+    status: attempt.status,
+    score: results?.score ?? 0,
+    total_questions: results?.total_questions ?? (exam ? getExamQuestions(db, exam).length : 0),
+    time_taken_seconds: results?.time_taken_seconds ?? 0,
+    started_at: attempt.started_at,
+    submitted_at: attempt.submitted_at,
+    shuffle_seed: attempt.shuffle_seed,
+    marks_obtained: results?.marks_obtained,
+    total_marks: results?.total_marks,
+    exam: {
+      id: attempt.exam_id,
+      title: exam?.title || 'Deleted exam',
+      time_limit_seconds: exam?.time_limit_seconds ?? 0,
+      marks_per_correct: exam?.marks_per_correct,
+      penalty_per_wrong: exam?.penalty_per_wrong,
+    },
+    user: { id: attempt.user_id, name: user?.name || '', email: user?.email || '' },
+    exam_answers: attempt.answers.flatMap(answer => {
+      const question = db.questions.find(q => q.id === answer.question_id);
+      if (!question) return [];
+      const topic = db.topics.find(t => t.id === question.topic_id);
+      return [{
+        ...answerResponse(db, attempt, answer),
+        question: {
+          ...questionResponse(db, question, finished),
+          question_text: question.question_text || '',
+          topic: {
+            id: question.topic_id,
+            name: topic?.name || '',
+            ...(finished && { explanation_video_url: topic?.explanation_video_url }),
+          },
+        },
+      }];
+    }),
+  };
+};
+
+const examUsage = (db: MockDatabase, members: Set<string> | null) => db.exams.map(exam => {
+  const attempts = db.attempts.filter(a => a.exam_id === exam.id && (!members || members.has(a.user_id)));
+  const finished = finishedAttempts(db, members, a => a.exam_id === exam.id);
+  return {
+    exam,
+    total_attempts: attempts.length,
+    unique_users: new Set(attempts.map(a => a.user_id)).size,
+    completion_rate: attempts.length > 0 ? round((finished.length / attempts.length) * 100) : 0,
+    average_score: round(average(finished.map(f => f.score))),
+  };
+});
+
+const topTopics = (db: MockDatabase, members: Set<string> | null) => {
+  const items = finishedAttempts(db, members).flatMap(f => f.graded.items.filter(item => hasAnswer(item.answer)));
+  return db.topics
+    .map(topic => {
+      const answered = items.filter(item => item.question.topic_id === topic.id);
+      return {
+        topicId: topic.id,
+        topicName: topic.name,
+        totalQuestions: db.questions.filter(q => q.topic_id === topic.id).length,
+        totalAttempts: answered.length,
+        averageAccuracy: answered.length > 0
+          ? round((answered.filter(item => item.is_correct).length / answered.length) * 100)
+          : 0,
+      };
+    })
+    .sort((a, b) => b.averageAccuracy - a.averageAccuracy);
+};
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+const routes: Route[] = [];
+
+// Paths with fixed segments must be registered before parameterized ones that also match them
+const route = (
+  method: string,
+  path: string,
+  handler: (req: MockRequest) => unknown,
+  { status = 200, auth = 'user' }: { status?: number; auth?: RouteAuth } = {}
+) => {
+  const keys: string[] = [];
+  const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  })}$`);
+  routes.push({ method, pattern, keys, handler, status, auth });
+};
+
+route('GET', '/health', req => ({ status: 'healthy', timestamp: iso(req.now) }), { auth: 'none' });
+
+// ---- Profile ----
+
+route('POST', '/register', req => {
+  const email = req.email as string;
+  if (req.db.users.some(u => u.email === email)) {
+    throw new MockHttpError(409, 'USER_EXISTS', 'An account with this email already exists');
+  }
+  const data = bodyOf<MockUser>(req);
+  const user: MockUser = {
+    id: newId('user'),
+    firebase_uid: mockUid(email),
+    name: requireText(data.name, 'Name is required and must be a non-empty string'),
+    email,
+    phone: data.phone,
+    college_name: data.college_name,
+    address: data.address,
+    is_enrolled: true,
+    role: 'STUDENT',
+    created_at: iso(req.now),
+  };
+  req.db.users.push(user);
+  return user;
+}, { status: 201, auth: 'token' });
+
+route('GET', '/me', req => {
+  const user = me(req);
+  return { ...user, firebase_info: { email_verified: true, uid: user.firebase_uid } };
+});
+
+route('PATCH', '/me', req => {
+  const user = me(req);
+  const data = bodyOf<MockUser>(req);
+  if (data.name !== undefined) user.name = requireText(data.name, 'Name is required and must be a non-empty string');
+  if (data.phone !== undefined) user.phone = data.phone;
+  if (data.college_name !== undefined) user.college_name = data.college_name;
+  if (data.address !== undefined) user.address = data.address;
+  return user;
+});
+
+route('GET', '/me/attempts', req => {
+  const user = me(req);
+  const attempts = req.db.attempts
+    .filter(a => a.user_id === user.id)
+    .sort((a, b) => Date.parse(b.started_at) - Date.parse(a.started_at));
+  return paginate(attempts, req.query).map(attempt => attemptResponse(req.db, attempt));
+});
+
+// ---- Users ----
+
+route('GET', '/users', req => {
+  requireCapability(req, 'manage_users', 'view_analytics', 'review_attempts');
+  const { query } = req;
+  const search = query.get('search')?.toLowerCase();
+  const batch = query.get('batchId') ? findOr404(req.db.batches, query.get('batchId') as string, 'Batch') : null;
+  const users = req.db.users.filter(user =>
+    (!query.get('role') || user.role === query.get('role')) &&
+    (!query.get('isEnrolled') || String(user.is_enrolled) === query.get('isEnrolled')) &&
+    (!batch || batch.user_ids.includes(user.id)) &&
+    (!search || user.name.toLowerCase().includes(search) || user.email.includes(search))
+  );
+  const page = Math.max(1, Number(query.get('page')) || 1);
+  const limit = Math.min(MAX_TAKE, Math.max(1, Number(query.get('limit')) || DEFAULT_TAKE));
+  return {
+    users: users.slice((page - 1) * limit, page * limit).map(user => userResponse(req.db, user)),
+    pagination: { page, limit, total: users.length, totalPages: Math.ceil(users.length / limit) },
+  };
+});
+
+route('PATCH', '/users/batch/enrollment', req => {
+  requireCapability(req, 'manage_users');
+  const data = bodyOf<{ user_ids: string[]; is_enrolled: boolean }>(req);
+  if (!Array.isArray(data.user_ids) || data.user_ids.length === 0) {
+    throw new MockHttpError(400, 'VALIDATION_ERROR', 'User IDs array is required and must not be empty');
+  }
+  if (typeof data.is_enrolled !== 'boolean') {
+    throw new MockHttpError(400, 'VALIDATION_ERROR', 'Enrollment status must be a boolean');
+  }
+  const users = req.db.users.filter(u => data.user_ids?.includes(u.id));
+  users.forEach(user => { user.is_enrolled = data.is_enrolled as boolean; });
+  return { updated_count: users.length, total_requested: data.user_ids.length, is_enrolled: data.is_enrolled };
+});
+
+route('GET', '/users/:id', req => {
+  requireSelfOr(req, req.params.id, 'manage_users', 'view_analytics', 'review_attempts');
+  return userResponse(req.db, findOr404(req.db.users, req.params.id, 'User'));
+});
+
+route('PATCH', '/users/:id', req => {
+  const actor = requireSelfOr(req, req.params.id, 'manage_users');
+  const user = findOr404(req.db.users, req.params.id, 'User');
+  const data = bodyOf<MockUser>(req);
+  const canManage = hasAnyCapability(actor, ['manage_users']);
+  if ((data.role !== undefined || data.staff_role !== undefined || data.is_enrolled !== undefined) && !canManage) {
+    throw new MockHttpError(403, 'FORBIDDEN', 'Only administrators can change roles and enrollment');
+  }
+  if (data.name !== undefined) user.name = requireText(data.name, 'Name is required and must be a non-empty string');
+  if (data.phone !== undefined) user.phone = data.phone;
+  if (data.college_name !== undefined) user.college_name = data.college_name;
+  if (data.address !== undefined) user.address = data.address;
+  if (data.is_enrolled !== undefined) user.is_enrolled = data.is_enrolled;
+  if (data.role !== undefined) user.role = data.role;
+  if (data.staff_role !== undefined) user.staff_role = data.staff_role;
+  if (user.role === 'STUDENT') user.staff_role = null;
+  return userResponse(req.db, user);
+});
+
+route('PATCH', '/users/:id/enrollment', req => {
+  requireCapability(req, 'manage_users');
+  const user = findOr404(req.db.users, req.params.id, 'User');
+  const { is_enrolled } = bodyOf<{ is_enrolled: boolean }>(req);
+  if (typeof is_enrolled !== 'boolean') {
+    throw new MockHttpError(400, 'VALIDATION_ERROR', 'Enrollment status must be a boolean');
+  }
+  user.is_enrolled = is_enrolled;
+  return userResponse(req.db, user);
+});
+
+// ---- Batches ----
+
+const batchResponse = (db: MockDatabase, id: string) => {
+  const { user_ids, ...batch } = findOr404(db.batches, id, 'Batch');
+  return { ...batch, member_count: user_ids.length, exam_count: db.exams.filter(e => e.batch_ids.includes(id)).length };
+};
+
+route('GET', '/batches', req => {
+  requireCapability(req, 'manage_users', 'manage_exams', 'view_analytics');
+  return req.db.batches.map(batch => batchResponse(req.db, batch.id));
+});
+
+route('POST', '/batches', req => {
+  requireCapability(req, 'manage_users');
+  const data = bodyOf<{ name: string; start_date: string }>(req);
+  const batch = {
+    id: newId('batch'),
+    name: requireText(data.name, 'Batch name is required and must be a non-empty string'),
+    start_date: requireText(data.start_date, 'start_date must be a valid ISO date string'),
+    created_at: iso(req.now),
+    user_ids: [],
+  };
+  req.db.batches.push(batch);
+  return batchResponse(req.db, batch.id);
+}, { status: 201 });
+
+route('PATCH', '/batches/:id', req => {
+  requireCapability(req, 'manage_users');
+  const batch = findOr404(req.db.batches, req.params.id, 'Batch');
+  const data = bodyOf<{ name: string; start_date: string }>(req);
+  if (data.name !== undefined) batch.name = requireText(data.name, 'Batch name is required and must be a non-empty string');
+  if (data.start_date !== undefined) batch.start_date = data.start_date;
+  return batchResponse(req.db, batch.id);
+});
+
+route('DELETE', '/batches/:id', req => {
+  requireCapability(req, 'manage_users');
+  findOr404(req.db.batches, req.params.id, 'Batch');
+  req.db.batches = req.db.batches.filter(b => b.id !== req.params.id);
+  req.db.exams.forEach(exam => { exam.batch_ids = exam.batch_ids.filter(id => id !== req.params.id); });
+  return null;
+});
+
+const updateMembers = (req: MockRequest, add: boolean) => {
+  requireCapability(req, 'manage_users');
+  const batch = findOr404(req.db.batches, req.params.id, 'Batch');
+  const { user_ids = [] } = bodyOf<{ user_ids: string[] }>(req);
+  if (user_ids.length === 0) {
+    throw new MockHttpError(400, 'VALIDATION_ERROR', 'User IDs array is required and must not be empty');
+  }
+  const before = batch.user_ids.length;
+  batch.user_ids = add
+    ? [...new Set([...batch.user_ids, ...user_ids.filter(id => req.db.users.some(u => u.id === id))])]
+    : batch.user_ids.filter(id => !user_ids.includes(id));
+  return { updated_count: Math.abs(batch.user_ids.length - before), total_requested: user_ids.length };
+};
+
+route('POST', '/batches/:id/members', req => updateMembers(req, true));
+route('POST', '/batches/:id/members/remove', req => updateMembers(req, false));
+
+// ---- Topics ----
+
+const assertUniqueTopicName = (db: MockDatabase, name: string, exceptId?: string) => {
+  if (db.topics.some(t => t.id !== exceptId && t.name.toLowerCase() === name.toLowerCase())) {
+    throw new MockHttpError(409, 'CONFLICT', 'Topic with this name already exists');
+  }
+};
+
+route('GET', '/topics', req => {
+  me(req);
+  const includeCount = req.query.get('include_count') === 'true';
+  return paginate(req.db.topics, req.query).map(topic => topicResponse(req.db, topic, includeCount));
+});
+
+route('GET', '/topics/:id', req => {
+  me(req);
+  return topicResponse(req.db, findOr404(req.db.topics, req.params.id, 'Topic'), true);
+});
+
+route('POST', '/topics', req => {
+  requireCapability(req, 'manage_content');
+  const data = bodyOf<MockTopic>(req);
+  const name = requireText(data.name, 'Topic name is required and must be a non-empty string');
+  assertUniqueTopicName(req.db, name);
+  const topic: MockTopic = { id: newId('topic'), name, explanation_video_url: data.explanation_video_url, created_at: iso(req.now) };
+  req.db.topics.push(topic);
+  return topicResponse(req.db, topic, true);
+}, { status: 201 });
+
+route('PATCH', '/topics/:id', req => {
+  requireCapability(req, 'manage_content');
+  const topic = findOr404(req.db.topics, req.params.id, 'Topic');
+  const data = bodyOf<MockTopic>(req);
+  if (data.name !== undefined) {
+    topic.name = requireText(data.name, 'Topic name is required and must be a non-empty string');
+    assertUniqueTopicName(req.db, topic.name, topic.id);
+  }
+  if (data.explanation_video_url !== undefined) topic.explanation_video_url = data.explanation_video_url;
+  return topicResponse(req.db, topic, true);
+});
+
+route('DELETE', '/topics/:id', req => {
+  requireCapability(req, 'manage_content');
+  findOr404(req.db.topics, req.params.id, 'Topic');
+  if (req.db.questions.some(q => q.topic_id === req.params.id)) {
+    throw new MockHttpError(409, 'CONFLICT', 'Cannot delete topic because it is being used by questions');
+  }
+  req.db.topics = req.db.topics.filter(t => t.id !== req.params.id);
+  return null;
+});
+
+// ---- Questions ----
+
+type QuestionBody = Omit<MockQuestion, 'options'> & { options: Array<{ option_index: number; option_text: string }> };
+
+const applyQuestionBody = (db: MockDatabase, question: MockQuestion, data: Partial<QuestionBody>) => {
+  if (data.topic_id !== undefined) question.topic_id = findOr404(db.topics, data.topic_id, 'Topic').id;
+  const fields = [
+    'question_text', 'question_latex', 'image_url', 'question_type', 'correct_answer_index',
+    'correct_answer_indices', 'numeric_answer', 'numeric_tolerance', 'explanation_latex',
+    'video_solution_url', 'marks', 'penalty', 'difficulty',
+  ] as const;
+  fields.forEach(field => {
+    if (data[field] !== undefined) Object.assign(question, { [field]: data[field] });
+  });
+  if (data.options !== undefined) {
+    question.options = data.options.map(o => ({ id: `${question.id}-o${o.option_index}`, ...o }));
+  }
+};
+
+route('GET', '/questions', req => {
+  const user = me(req);
+  const topicId = req.query.get('topic_id');
+  const difficulty = req.query.get('difficulty');
+  const questions = req.db.questions.filter(q =>
+    (!topicId || q.topic_id === topicId) && (!difficulty || q.difficulty === difficulty)
+  );
+  return paginate(questions, req.query).map(q => questionResponse(req.db, q, isStaff(user)));
+});
+
+route('GET', '/questions/:id', req => {
+  const user = me(req);
+  return questionResponse(req.db, findOr404(req.db.questions, req.params.id, 'Question'), isStaff(user));
+});
+
+route('POST', '/questions', req => {
+  requireCapability(req, 'manage_content');
+  const data = bodyOf<QuestionBody>(req);
+  const question: MockQuestion = {
+    id: newId('question'),
+    topic_id: findOr404(req.db.topics, requireText(data.topic_id, 'topic_id is required and must be a string'), 'Topic').id,
+    question_type: 'SINGLE_CHOICE',
+    created_at: iso(req.now),
+    options: [],
+  };
+  applyQuestionBody(req.db, question, data);
+  if (!question.question_text && !question.question_latex && !question.image_url) {
+    throw new MockHttpError(400, 'VALIDATION_ERROR', 'At least one of question_text, question_latex, or image_url must be provided');
+  }
+  req.db.questions.push(question);
+  return questionResponse(req.db, question, true);
+}, { status: 201 });
+
+route('PATCH', '/questions/:id', req => {
+  requireCapability(req, 'manage_content');
+  const question = findOr404(req.db.questions, req.params.id, 'Question');
+  applyQuestionBody(req.db, question, bodyOf<QuestionBody>(req));
+  return questionResponse(req.db, question, true);
+});
+
+route('DELETE', '/questions/:id', req => {
+  requireCapability(req, 'manage_content');
+  findOr404(req.db.questions, req.params.id, 'Question');
+  const inUse = req.db.questionSets.some(set => set.questions.some(q => q.question_id === req.params.id)) ||
+    req.db.attempts.some(attempt => attempt.answers.some(a => a.question_id === req.params.id));
+  if (inUse) {
+    throw new MockHttpError(409, 'CONFLICT', 'Cannot delete question because it is being used in question sets or exam attempts');
+  }
+  req.db.questions = req.db.questions.filter(q => q.id !== req.params.id);
+  req.db.reviewCards = req.db.reviewCards.filter(c => c.question_id !== req.params.id);
+  return null;
+});
+
+// ---- Question sets ----
+
+route('GET', '/question-sets', req => {
+  me(req);
+  return paginate(req.db.questionSets, req.query).map(set => questionSetResponse(req.db, set, false, false));
+});
+
+route('GET', '/question-sets/:id', req => {
+  const user = me(req);
+  return questionSetResponse(req.db, findOr404(req.db.questionSets, req.params.id, 'Question set'), true, isStaff(user));
+});
+
+route('POST', '/question-sets', req => {
+  requireCapability(req, 'manage_content');
+  const data = bodyOf<MockQuestionSet>(req);
+  const set: MockQuestionSet = {
+    id: newId('set'),
+    title: requireText(data.title, 'Question set title is required and must be a non-empty string'),
+    description: data.description,
+    created_at: iso(req.now),
+    questions: [],
+  };
+  req.db.questionSets.push(set);
+  return questionSetResponse(req.db, set, true, true);
+}, { status: 201 });
+
+route('PATCH', '/question-sets/:id', req => {
+  requireCapability(req, 'manage_content');
+  const set = findOr404(req.db.questionSets, req.params.id, 'Question set');
+  const data = bodyOf<MockQuestionSet>(req);
+  if (data.title !== undefined) set.title = requireText(data.title, 'Question set title is required and must be a non-empty string');
+  if (data.description !== undefined) set.description = data.description;
+  return questionSetResponse(req.db, set, true, true);
+});
+
+route('DELETE', '/question-sets/:id', req => {
+  requireCapability(req, 'manage_content');
+  findOr404(req.db.questionSets, req.params.id, 'Question set');
+  if (req.db.exams.some(exam => exam.question_sets.some(eqs => eqs.question_set_id === req.params.id))) {
+    throw new MockHttpError(409, 'CONFLICT', 'Cannot delete question set because it is being used in exams');
+  }
+  req.db.questionSets = req.db.questionSets.filter(s => s.id !== req.params.id);
+  return null;
+});
+
+route('PUT', '/question-sets/:id/questions', req => {
+  requireCapability(req, 'manage_content');
+  const set = findOr404(req.db.questionSets, req.params.id, 'Question set');
+  const { questions = [] } = bodyOf<MockQuestionSet>(req);
+  const missing = questions.filter(q => !req.db.questions.some(question => question.id === q.question_id));
+  if (missing.length > 0) {
+    throw new MockHttpError(404, 'NOT_FOUND', 'Questions not found', { question_ids: missing.map(q => q.question_id) });
+  }
+  set.questions = questions.map(({ question_id, position }) => ({ question_id, position }));
+  return questionSetResponse(req.db, set, true, true);
+});
+
+route('DELETE', '/question-sets/:id/questions/:questionId', req => {
+  requireCapability(req, 'manage_content');
+  const set = findOr404(req.db.questionSets, req.params.id, 'Question set');
+  if (!set.questions.some(q => q.question_id === req.params.questionId)) {
+    throw new MockHttpError(404, 'NOT_FOUND', 'Question not found in question set');
+  }
+  set.questions = set.questions
+    .filter(q => q.question_id !== req.params.questionId)
+    .sort((a, b) => a.position - b.position)
+    .map((q, i) => ({ ...q, position: i + 1 }));
+  return null;
+});
+
+// ---- Exams ----
+
+type ExamBody = Omit<MockExam, 'question_sets'>;
+
+const applyExamBody = (db: MockDatabase, exam: MockExam, data: Partial<ExamBody>) => {
+  if (data.exam_link !== undefined && db.exams.some(e => e.id !== exam.id && e.exam_link === data.exam_link)) {
+    throw new MockHttpError(409, 'CONFLICT', 'Exam link already exists');
+  }
+  if (data.batch_ids !== undefined) {
+    data.batch_ids.forEach(id => findOr404(db.batches, id, 'Batch'));
+  }
+  const fields = [
+    'title', 'time_limit_seconds', 'exam_link', 'opens_at', 'closes_at', 'max_attempts', 'retake_policy',
+    'shuffle_questions', 'shuffle_within_sets', 'shuffle_options', 'marks_per_correct', 'penalty_per_wrong',
+    'proctoring_enabled', 'require_fullscreen', 'max_violations', 'batch_ids',
+  ] as const;
+  fields.forEach(field => {
+    if (data[field] !== undefined) Object.assign(exam, { [field]: data[field] });
+  });
+};
+
+route('GET', '/exams', req => {
+  const user = me(req);
+  const exams = req.db.exams.filter(exam => canTakeExam(req.db, user, exam));
+  return paginate(exams, req.query).map(exam => examResponse(req.db, exam, false, false));
+});
+
+route('GET', '/exams/link/:examLink', req => {
+  const exam = findExamFor(req, req.db.exams.find(e => e.exam_link === req.params.examLink));
+  return examResponse(req.db, exam, true, isStaff(me(req)));
+});
+
+route('GET', '/exams/:id', req => {
+  const exam = findExamFor(req, req.db.exams.find(e => e.id === req.params.id));
+  return examResponse(req.db, exam, true, isStaff(me(req)));
+});
+
+route('POST', '/exams', req => {
+  requireCapability(req, 'manage_exams');
+  const data = bodyOf<ExamBody>(req);
+  const exam: MockExam = {
+    id: newId('exam'),
+    title: requireText(data.title, 'Exam title is required and must be a non-empty string'),
+    time_limit_seconds: data.time_limit_seconds ?? 0,
+    exam_link: requireText(data.exam_link, 'exam_link is required'),
+    opens_at: null,
+    closes_at: null,
+    max_attempts: null,
+    retake_policy: 'BEST',
+    shuffle_questions: false,
+    shuffle_within_sets: false,
+    shuffle_options: false,
+    marks_per_correct: 1,
+    penalty_per_wrong: 0,
+    proctoring_enabled: false,
+    require_fullscreen: false,
+    max_violations: null,
+    created_at: iso(req.now),
+    question_sets: [],
+    batch_ids: [],
+  };
+  if (exam.time_limit_seconds <= 0) {
+    throw new MockHttpError(400, 'VALIDATION_ERROR', 'time_limit_seconds is required and must be a positive integer');
+  }
+  applyExamBody(req.db, exam, data);
+  req.db.exams.push(exam);
+  return examResponse(req.db, exam, true, true);
+}, { status: 201 });
+
+route('PATCH', '/exams/:id', req => {
+  requireCapability(req, 'manage_exams');
+  const exam = findOr404(req.db.exams, req.params.id, 'Exam');
+  applyExamBody(req.db, exam, bodyOf<ExamBody>(req));
+  return examResponse(req.db, exam, true, true);
+});
+
+route('DELETE', '/exams/:id', req => {
+  requireCapability(req, 'manage_exams');
+  findOr404(req.db.exams, req.params.id, 'Exam');
+  if (req.db.attempts.some(a => a.exam_id === req.params.id && a.status === 'IN_PROGRESS')) {
+    throw new MockHttpError(409, 'CONFLICT', 'Cannot delete exam because it has active attempts');
+  }
+  req.db.exams = req.db.exams.filter(e => e.id !== req.params.id);
+  req.db.attempts = req.db.attempts.filter(a => a.exam_id !== req.params.id);
+  return null;
+});
+
+route('PUT', '/exams/:id/question-sets', req => {
+  requireCapability(req, 'manage_exams');
+  const exam = findOr404(req.db.exams, req.params.id, 'Exam');
+  const { question_sets = [] } = bodyOf<MockExam>(req);
+  const missing = question_sets.filter(eqs => !req.db.questionSets.some(set => set.id === eqs.question_set_id));
+  if (missing.length > 0) {
+    throw new MockHttpError(404, 'NOT_FOUND', 'Question sets not found', { question_set_ids: missing.map(eqs => eqs.question_set_id) });
+  }
+  exam.question_sets = question_sets.map(eqs => ({
+    question_set_id: eqs.question_set_id,
+    position: eqs.position,
+    section_time_limit_seconds: eqs.section_time_limit_seconds ?? null,
+  }));
+  return examResponse(req.db, exam, true, true);
+});
+
+route('DELETE', '/exams/:id/question-sets/:questionSetId', req => {
+  requireCapability(req, 'manage_exams');
+  const exam = findOr404(req.db.exams, req.params.id, 'Exam');
+  if (!exam.question_sets.some(eqs => eqs.question_set_id === req.params.questionSetId)) {
+    throw new MockHttpError(404, 'NOT_FOUND', 'Question set not found in exam');
+  }
+  exam.question_sets = exam.question_sets
+    .filter(eqs => eqs.question_set_id !== req.params.questionSetId)
+    .sort((a, b) => a.position - b.position)
+    .map((eqs, i) => ({ ...eqs, position: i + 1 }));
+  return null;
+});
+
+route('GET', '/exams/:id/attempts', req => {
+  requireCapability(req, 'review_attempts', 'view_analytics');
+  findOr404(req.db.exams, req.params.id, 'Exam');
+  const includeAnswers = req.query.get('include_answers') === 'true';
+  const attempts = req.db.attempts
+    .filter(a => a.exam_id === req.params.id)
+    .sort((a, b) => Date.parse(b.started_at) - Date.parse(a.started_at));
+  return paginate(attempts, req.query).map(attempt => {
+    const user = req.db.users.find(u => u.id === attempt.user_id);
+    const results = isFinished(attempt) ? attemptResults(req.db, attempt) : null;
+    return {
+      id: attempt.id,
+      exam_id: attempt.exam_id,
+      user_id: attempt.user_id,
+      status: attempt.status,
+      score: results?.score ?? null,
+      marks_obtained: results?.marks_obtained,
+      total_marks: results?.total_marks,
+      started_at: attempt.started_at,
+      submitted_at: attempt.submitted_at,
+      user: user && { id: user.id, name: user.name, email: user.email },
+      ...(includeAnswers && { exam_answers: attempt.answers.map(answer => answerResponse(req.db, attempt, answer)) }),
+    };
+  });
+});
+
+// ---- Attempts ----
+
+route('POST', '/exams/:id/start', req => {
+  const user = me(req);
+  const { db, now } = req;
+  const exam = findExamFor(req, db.exams.find(e => e.id === req.params.id));
+  const attempts = db.attempts.filter(a => a.exam_id === exam.id && a.user_id === user.id);
+
+  const active = attempts.find(a => a.status === 'IN_PROGRESS');
+  if (active) {
+    // Resuming after the time ran out submits the attempt instead
+    if (now > Date.parse(active.expires_at)) {
+      finalizeAttempt(db, active, now);
+      return attemptResponse(db, active);
+    }
+    syncSection(db, active, now);
+    return attemptResponse(db, active, true);
+  }
+
+  if (user.role === 'STUDENT' && !user.is_enrolled) {
+    throw new MockHttpError(403, 'NOT_ENROLLED', 'Your account is not enrolled yet. Ask an administrator to enroll you.');
+  }
+  if (exam.opens_at && now < Date.parse(exam.opens_at)) {
+    throw new MockHttpError(403, 'EXAM_NOT_OPEN', `This exam opens at ${exam.opens_at}`);
+  }
+  if (exam.closes_at && now > Date.parse(exam.closes_at)) {
+    throw new MockHttpError(403, 'EXAM_CLOSED', 'This exam is closed');
+  }
+  if (exam.max_attempts !== null && attempts.filter(isFinished).length >= exam.max_attempts) {
+    throw new MockHttpError(422, 'MAX_ATTEMPTS_REACHED', `You have used all ${exam.max_attempts} attempt(s) for this exam`);
+  }
+
+  const attempt: MockAttempt = {
+    id: newId('attempt'),
+    exam_id: exam.id,
+    user_id: user.id,
+    status: 'IN_PROGRESS',
+    started_at: iso(now),
+    expires_at: iso(now + exam.time_limit_seconds * 1000),
+    submitted_at: null,
+    shuffle_seed: exam.shuffle_questions || exam.shuffle_options ? Math.floor(Math.random() * 2 ** 32) : null,
+    current_section_position: null,
+    section_expires_at: null,
+    answers: [],
+    integrity_events: [],
+  };
+  if (isSectionedExam(exam.question_sets)) openNextSection(exam, attempt, now);
+  db.attempts.push(attempt);
+  return attemptResponse(db, attempt, true);
+});
+
+route('POST', '/attempts/:attemptId/answer', req => {
+  const attempt = findOpenAttempt(req);
+  const data = bodyOf<MockAnswer>(req);
+  const question_id = requireText(data.question_id, 'Question ID is required');
+  const exam = findOr404(req.db.exams, attempt.exam_id, 'Exam');
+  const item = getExamQuestions(req.db, exam).find(q => q.question.id === question_id);
+  if (!item) throw new MockHttpError(404, 'NOT_FOUND', 'Question not found');
+  if (attempt.current_section_position !== null && item.setPosition !== attempt.current_section_position) {
+    throw new MockHttpError(409, 'SECTION_CLOSED', 'This question belongs to a section that is not open');
+  }
+
+  const answer: MockAnswer = {
+    id: attempt.answers.find(a => a.question_id === question_id)?.id || newId('answer'),
+    question_id,
+    selected_option_index: data.selected_option_index ?? null,
+    selected_option_indices: data.selected_option_indices ?? null,
+    numeric_answer: data.numeric_answer ?? null,
+    time_spent_seconds: data.time_spent_seconds,
+    visit_count: data.visit_count,
+    answer_changes: data.answer_changes,
+    answered_at: iso(req.now),
+  };
+  attempt.answers = [...attempt.answers.filter(a => a.question_id !== question_id), answer];
+  return answerResponse(req.db, attempt, answer);
+});
+
+route('POST', '/attempts/:attemptId/submit', req => {
+  const attempt = findOpenAttempt(req);
+  finalizeAttempt(req.db, attempt, req.now);
+  return attemptResponse(req.db, attempt);
+});
+
+route('POST', '/attempts/:attemptId/sections/:position/close', req => {
+  const attempt = findOpenAttempt(req);
+  const exam = findOr404(req.db.exams, attempt.exam_id, 'Exam');
+  if (!isSectionedExam(exam.question_sets)) {
+    throw new MockHttpError(400, 'VALIDATION_ERROR', 'This exam has no sections');
+  }
+  // Closing a section that is already closed changes nothing
+  if (Number(req.params.position) === attempt.current_section_position) {
+    openNextSection(exam, attempt, req.now);
+  }
+  return attemptResponse(req.db, attempt, true);
+});
+
+route('GET', '/attempts/:attemptId', req => {
+  return attemptResponse(req.db, findAttemptFor(req, 'review_attempts'), true);
+});
+
+route('GET', '/attempts/:attemptId/time-remaining', req => {
+  const attempt = findAttemptFor(req, 'review_attempts');
+  const open = attempt.status === 'IN_PROGRESS';
+  return {
+    time_remaining_seconds: open ? Math.max(0, Math.floor((Date.parse(attempt.expires_at) - req.now) / 1000)) : 0,
+    current_section_position: attempt.current_section_position,
+    section_time_remaining_seconds: open && attempt.section_expires_at
+      ? Math.max(0, Math.floor((Date.parse(attempt.section_expires_at) - req.now) / 1000))
+      : null,
+  };
+});
+
+route('POST', '/attempts/:attemptId/integrity-events', req => {
+  const attempt = findOpenAttempt(req);
+  const { events = [] } = bodyOf<{ events: MockAttempt['integrity_events'] }>(req);
+  attempt.integrity_events.push(...events.map(event => ({
+    id: newId('event'),
+    type: event.type,
+    occurred_at: event.occurred_at,
+    details: event.details,
+    received_at: iso(req.now),
+  })));
+  const exam = req.db.exams.find(e => e.id === attempt.exam_id);
+  if (exam?.proctoring_enabled && exam.max_violations !== null && attempt.integrity_events.length >= exam.max_violations) {
+    finalizeAttempt(req.db, attempt, req.now);
+  }
+  return { violation_count: attempt.integrity_events.length };
+});
+
+route('GET', '/attempts/:attemptId/integrity-events', req => {
+  requireCapability(req, 'review_attempts');
+  const attempt = findAttemptFor(req, 'review_attempts');
+  return attempt.integrity_events.map(event => ({ ...event, attempt_id: attempt.id }));
+});
+
+route('GET', '/attempts/:attemptId/topic-performance', req => {
+  const attempt = findAttemptFor(req, 'review_attempts');
+  if (!isFinished(attempt)) {
+    throw new MockHttpError(409, 'ATTEMPT_NOT_SUBMITTED', 'Topic performance is available once the attempt is submitted');
+  }
+  return attemptResults(req.db, attempt).topic_performance;
+});
+
+// ---- Practice ----
+
+const DIFFICULTY_LEVELS: QuestionDifficulty[] = ['EASY', 'MEDIUM', 'HARD'];
+
+const practiceResponse = (session: MockPracticeSession) => {
+  const { answers, ...rest } = session;
+  return { ...rest, questions_answered: answers.length, correct_answers: answers.filter(a => a.is_correct).length };
+};
+
+const findSessionFor = (req: MockRequest): MockPracticeSession => {
+  const session = findOr404(req.db.practiceSessions, req.params.sessionId, 'Practice session');
+  if (session.user_id !== me(req).id) {
+    throw new MockHttpError(403, 'FORBIDDEN', 'You can only use your own practice sessions');
+  }
+  return session;
+};
+
+route('POST', '/practice/sessions', req => {
+  const user = me(req);
+  const { topic_ids = [] } = bodyOf<MockPracticeSession>(req);
+  if (topic_ids.length === 0) throw new MockHttpError(400, 'VALIDATION_ERROR', 'Select at least one topic to practice');
+  topic_ids.forEach(id => findOr404(req.db.topics, id, 'Topic'));
+  const session: MockPracticeSession = {
+    id: newId('practice'), user_id: user.id, topic_ids, started_at: iso(req.now), ended_at: null, answers: [],
+  };
+  req.db.practiceSessions.push(session);
+  return practiceResponse(session);
+}, { status: 201 });
+
+route('GET', '/practice/sessions/me', req => {
+  const user = me(req);
+  const sessions = req.db.practiceSessions
+    .filter(s => s.user_id === user.id)
+    .sort((a, b) => Date.parse(b.started_at) - Date.parse(a.started_at));
+  return paginate(sessions, req.query).map(practiceResponse);
+});
+
+route('GET', '/practice/sessions/:sessionId/next', req => {
+  const session = findSessionFor(req);
+  const level = DIFFICULTY_LEVELS.indexOf((req.query.get('difficulty') as QuestionDifficulty) || 'MEDIUM');
+  const remaining = req.db.questions.filter(q =>
+    session.topic_ids.includes(q.topic_id) && !session.answers.some(a => a.question_id === q.id)
+  );
+  // Nearest difficulty with questions left, untagged questions count as MEDIUM
+  const distance = (q: MockQuestion) => Math.abs(DIFFICULTY_LEVELS.indexOf(q.difficulty || 'MEDIUM') - level);
+  const next = [...remaining].sort((a, b) => distance(a) - distance(b))[0];
+  return next ? questionResponse(req.db, next, false) : null;
+});
+
+route('POST', '/practice/sessions/:sessionId/answers', req => {
+  const session = findSessionFor(req);
+  if (session.ended_at) throw new MockHttpError(409, 'SESSION_ENDED', 'This practice session has ended');
+  const data = bodyOf<AnswerPayload & { question_id: string }>(req);
+  const question = findOr404(req.db.questions, requireText(data.question_id, 'Question ID is required'), 'Question');
+  const is_correct = isAnswerCorrect(question, data);
+  session.answers = [...session.answers.filter(a => a.question_id !== question.id), { question_id: question.id, is_correct }];
+  return {
+    question_id: question.id,
+    is_correct,
+    correct_answer_index: question.correct_answer_index ?? null,
+    correct_answer_indices: question.correct_answer_indices ?? null,
+    numeric_answer: question.numeric_answer ?? null,
+    numeric_tolerance: question.numeric_tolerance ?? null,
+    explanation_latex: question.explanation_latex ?? null,
+    video_solution_url: question.video_solution_url ?? null,
+    session: practiceResponse(session),
+  };
+});
+
+route('POST', '/practice/sessions/:sessionId/end', req => {
+  const session = findSessionFor(req);
+  session.ended_at = session.ended_at || iso(req.now);
+  return practiceResponse(session);
+});
+
+// ---- Review cards ----
+
+const cardResponse = (db: MockDatabase, card: MockReviewCard) => {
+  const { source_exam_id, ...rest } = card;
+  const question = db.questions.find(q => q.id === card.question_id);
+  const exam = db.exams.find(e => e.id === source_exam_id);
+  return {
+    ...rest,
+    question: question && questionResponse(db, question, true),
+    source_exam: exam ? { id: exam.id, title: exam.title } : null,
+  };
+};
+
+const findCardFor = (req: MockRequest): MockReviewCard => {
+  const card = findOr404(req.db.reviewCards, req.params.cardId, 'Review card');
+  if (card.user_id !== me(req).id) throw new MockHttpError(404, 'NOT_FOUND', 'Review card not found');
+  return card;
+};
+
+route('GET', '/me/review-cards', req => {
+  const user = me(req);
+  const dueOnly = req.query.get('due_only') === 'true';
+  return req.db.reviewCards
+    .filter(card => card.user_id === user.id && (!dueOnly || Date.parse(card.due_at) <= req.now))
+    .sort((a, b) => Date.parse(a.due_at) - Date.parse(b.due_at))
+    .map(card => cardResponse(req.db, card));
+});
+
+route('POST', '/me/review-cards/:cardId/reviews', req => {
+  const card = findCardFor(req);
+  const data = bodyOf<MockReviewCard>(req);
+  Object.assign(card, {
+    ease_factor: data.ease_factor ?? card.ease_factor,
+    interval_days: data.interval_days ?? card.interval_days,
+    repetitions: data.repetitions ?? card.repetitions,
+    lapses: data.lapses ?? card.lapses,
+    due_at: data.due_at ?? card.due_at,
+    last_reviewed_at: iso(req.now),
+  });
+  return cardResponse(req.db, card);
+});
+
+route('DELETE', '/me/review-cards/:cardId', req => {
+  const card = findCardFor(req);
+  req.db.reviewCards = req.db.reviewCards.filter(c => c.id !== card.id);
+  return null;
+});
+
+// ---- Analytics ----
+
+route('GET', '/analytics/users/:id', req => {
+  requireSelfOr(req, req.params.id, 'view_analytics');
+  const user = findOr404(req.db.users, req.params.id, 'User');
+  const attempts = req.db.attempts.filter(a => a.user_id === user.id);
+  const finished = finishedAttempts(req.db, null, a => a.user_id === user.id)
+    .sort((a, b) => Date.parse(b.attempt.submitted_at || '') - Date.parse(a.attempt.submitted_at || ''));
+
+  const topics = new Map<string, { attempts: number; correct: number; best: number }>();
+  finished.forEach(f => f.topic_performance.forEach(tp => {
+    const topic = topics.get(tp.topic_name) || { attempts: 0, correct: 0, best: 0 };
+    topics.set(tp.topic_name, {
+      attempts: topic.attempts + tp.total_questions,
+      correct: topic.correct + tp.correct_answers,
+      best: Math.max(topic.best, tp.percentage),
+    });
+  }));
+  const months = new Map<string, number[]>();
+  finished.forEach(f => {
+    const period = (f.attempt.submitted_at || f.attempt.started_at).slice(0, 7);
+    months.set(period, [...(months.get(period) || []), f.score]);
+  });
+
+  return {
+    userId: user.id,
+    userName: user.name,
+    totalExamsTaken: attempts.length,
+    completedExams: finished.length,
+    averageScore: finished.length > 0 ? round(average(finished.map(f => f.score))) : null,
+    averageTimeSpent: Math.round(average(finished.map(f => f.time_taken_seconds))),
+    completionRate: attempts.length > 0 ? round((finished.length / attempts.length) * 100) : 0,
+    topicWisePerformance: [...topics.entries()].map(([topicName, topic]) => ({
+      topicName,
+      attempts: topic.attempts,
+      averageScore: round((topic.correct / topic.attempts) * 100),
+      bestScore: topic.best,
+    })),
+    recentAttempts: finished.slice(0, 10).map(f => ({
+      attemptId: f.attempt.id,
+      examId: f.attempt.exam_id,
+      examTitle: f.graded.exam?.title || 'Deleted exam',
+      score: f.correct_answers,
+      totalQuestions: f.total_questions,
+      scorePercentage: f.score,
+      marksObtained: f.marks_obtained,
+      totalMarks: f.total_marks,
+      timeTaken: f.time_taken_seconds,
+      completedAt: f.attempt.submitted_at,
+      status: f.attempt.status,
+    })),
+    improvementTrend: [...months.entries()].sort().map(([period, scores]) => ({
+      period,
+      averageScore: round(average(scores)),
+      attemptsCount: scores.length,
+    })),
+  };
+});
+
+route('GET', '/analytics/users/:id/history', req => {
+  requireSelfOr(req, req.params.id, 'view_analytics');
+  const finished = finishedAttempts(req.db, null, a => a.user_id === req.params.id)
+    .sort((a, b) => Date.parse(b.attempt.started_at) - Date.parse(a.attempt.started_at));
+  return paginate(finished, req.query).map(f => ({
+    attempt_id: f.attempt.id,
+    exam_title: f.graded.exam?.title || 'Deleted exam',
+    score: f.score,
+    started_at: f.attempt.started_at,
+    submitted_at: f.attempt.submitted_at,
+    time_taken_minutes: round(f.time_taken_seconds / 60),
+    status: f.attempt.status,
+  }));
+});
+
+route('GET', '/analytics/users/:id/topics', req => {
+  requireSelfOr(req, req.params.id, 'view_analytics');
+  const items = finishedAttempts(req.db, null, a => a.user_id === req.params.id)
+    .flatMap(f => f.graded.items.filter(item => hasAnswer(item.answer)));
+  return groupPerformance(items, item => item.question.topic_id).map(group => ({
+    topic_id: group.key,
+    topic_name: req.db.topics.find(t => t.id === group.key)?.name || 'Unknown topic',
+    total_questions_attempted: group.total_questions,
+    correct_answers: group.correct_answers,
+    accuracy_percentage: round((group.correct_answers / group.total_questions) * 100),
+    average_time_per_question_seconds: Math.round(average(group.items.map(item => item.answer?.time_spent_seconds ?? 0))),
+  }));
+});
+
+route('GET', '/analytics/users/:id/trend', req => {
+  requireSelfOr(req, req.params.id, 'view_analytics');
+  const progression = finishedAttempts(req.db, null, a => a.user_id === req.params.id)
+    .map(f => ({ exam_date: f.attempt.submitted_at as string, score: f.score }))
+    .sort((a, b) => Date.parse(a.exam_date) - Date.parse(b.exam_date));
+  const half = Math.floor(progression.length / 2);
+  const improvementRate = progression.length > 1
+    ? round(average(progression.slice(half).map(p => p.score)) - average(progression.slice(0, half).map(p => p.score)))
+    : 0;
+  return {
+    trend: improvementRate > 5 ? 'IMPROVING' : improvementRate < -5 ? 'DECLINING' : 'STABLE',
+    score_progression: progression,
+    improvement_rate: improvementRate,
+  };
+});
+
+route('GET', '/analytics/users/:userId/attempts/detailed', req => {
+  requireSelfOr(req, req.params.userId, 'review_attempts');
+  findOr404(req.db.users, req.params.userId, 'User');
+  const attempts = req.db.attempts
+    .filter(a => a.user_id === req.params.userId)
+    .sort((a, b) => Date.parse(b.started_at) - Date.parse(a.started_at));
+  return paginate(attempts, req.query).map(attempt => detailedAttempt(req.db, attempt));
+});
+
+route('GET', '/analytics/exams/usage', req => {
+  requireCapability(req, 'view_analytics');
+  return examUsage(req.db, batchMembers(req)).map(({ exam, ...usage }) => ({
+    exam_id: exam.id,
+    exam_title: exam.title,
+    ...usage,
+  }));
+});
+
+route('GET', '/analytics/exams/:id', req => {
+  requireCapability(req, 'view_analytics');
+  const exam = findOr404(req.db.exams, req.params.id, 'Exam');
+  const members = batchMembers(req);
+  const attempts = req.db.attempts.filter(a => a.exam_id === exam.id && (!members || members.has(a.user_id)));
+  const finished = finishedAttempts(req.db, members, a => a.exam_id === exam.id);
+  const scores = finished.map(f => f.score);
+  return {
+    exam_id: exam.id,
+    exam_title: exam.title,
+    total_attempts: attempts.length,
+    completed_attempts: finished.length,
+    average_score: round(average(scores)),
+    highest_score: scores.length > 0 ? Math.max(...scores) : 0,
+    lowest_score: scores.length > 0 ? Math.min(...scores) : 0,
+    average_completion_time_minutes: round(average(finished.map(f => f.time_taken_seconds)) / 60),
+    question_analytics: getExamQuestions(req.db, exam).map(({ question }) => {
+      const items = finished.flatMap(f => f.graded.items.filter(item => item.question.id === question.id));
+      const timed = items.filter(item => item.answer?.time_spent_seconds !== undefined);
+      return {
+        question_id: question.id,
+        question_text: question.question_text || question.question_latex || '',
+        correct_answers: items.filter(item => item.is_correct).length,
+        total_attempts: items.length,
+        accuracy_percentage: items.length > 0 ? round((items.filter(item => item.is_correct).length / items.length) * 100) : 0,
+        average_time_spent_seconds: timed.length > 0
+          ? Math.round(average(timed.map(item => item.answer?.time_spent_seconds ?? 0)))
+          : null,
+      };
+    }),
+  };
+});
+
+route('GET', '/analytics/exams/:id/detailed', req => {
+  requireCapability(req, 'review_attempts', 'view_analytics');
+  const exam = findOr404(req.db.exams, req.params.id, 'Exam');
+  const attemptId = req.query.get('attemptId');
+  return {
+    exam_id: exam.id,
+    exam_title: exam.title,
+    attempts: req.db.attempts
+      .filter(a => a.exam_id === exam.id && (!attemptId || a.id === attemptId))
+      .map(attempt => detailedAttempt(req.db, attempt)),
+  };
+});
+
+route('GET', '/analytics/system', req => {
+  requireCapability(req, 'view_analytics');
+  const members = batchMembers(req);
+  const users = req.db.users.filter(u => !members || members.has(u.id));
+  const attempts = req.db.attempts.filter(a => !members || members.has(a.user_id));
+  const finished = finishedAttempts(req.db, members);
+  const activeWithin = (days: number) => new Set(
+    attempts.filter(a => req.now - Date.parse(a.started_at) <= days * DAY_MS).map(a => a.user_id)
+  ).size;
+  const usage = examUsage(req.db, members);
+  return {
+    totalUsers: users.length,
+    activeUsers: activeWithin(30),
+    totalExams: req.db.exams.length,
+    totalAttempts: attempts.length,
+    completedAttempts: finished.length,
+    systemCompletionRate: attempts.length > 0 ? round((finished.length / attempts.length) * 100) : 0,
+    averageSystemScore: round(average(finished.map(f => f.score))),
+    topPerformingTopics: topTopics(req.db, members),
+    userEngagement: {
+      dailyActiveUsers: activeWithin(1),
+      weeklyActiveUsers: activeWithin(7),
+      monthlyActiveUsers: activeWithin(30),
+      averageAttemptsPerUser: users.length > 0 ? round(attempts.length / users.length) : 0,
+    },
+    examUsageStats: usage.map(({ exam, total_attempts, unique_users, average_score }) => ({
+      examId: exam.id,
+      examTitle: exam.title,
+      totalAttempts: total_attempts,
+      uniqueUsers: unique_users,
+      averageScore: average_score,
+      popularity: attempts.length > 0 ? round((total_attempts / attempts.length) * 100) : 0,
+    })),
+  };
+});
+
+route('GET', '/analytics/topics/top-performing', req => {
+  requireCapability(req, 'view_analytics');
+  return topTopics(req.db, batchMembers(req));
+});
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+const errorBody = (error: MockHttpError, requestId: string, now: number) => ({
+  error: { code: error.code, message: error.message, details: error.details, timestamp: iso(now), request_id: requestId },
+});
+
+let requestCount = 0;
+
+/**
+ * Handle one request synchronously and return the status and JSON body the
+ * backend would send. token is the raw Authorization bearer token, if any.
+ */
+export const handleMockRequest = (
+  method: string,
+  endpoint: string,
+  { token = null, body, requestId = `mock-${++requestCount}` }: { token?: string | null; body?: unknown; requestId?: string } = {}
+): MockResponse => {
+  const now = Date.now();
+  const url = new URL(endpoint, 'http://mock.local');
+  const upperMethod = method.toUpperCase();
+
+  try {
+    const match = routes
+      .filter(r => r.method === upperMethod)
+      .map(r => ({ route: r, values: r.pattern.exec(url.pathname) }))
+      .find(candidate => candidate.values !== null);
+    if (!match?.values) {
+      throw new MockHttpError(404, 'NOT_FOUND', `Route ${upperMethod} ${url.pathname} not found`);
+    }
+
+    const db = getDatabase();
+    const email = token ? parseMockToken(token) : null;
+    if (match.route.auth !== 'none' && !email) {
+      throw new MockHttpError(401, 'UNAUTHORIZED', 'Missing or invalid authentication token');
+    }
+    const user = email ? db.users.find(u => u.email === email) ?? null : null;
+    if (match.route.auth === 'user' && !user) {
+      throw new MockHttpError(404, 'USER_NOT_FOUND', 'No account found for this email. Sign up first, or use a seeded account such as student@example.com.');
+    }
+
+    const params = Object.fromEntries(
+      match.route.keys.map((key, i) => [key, decodeURIComponent(match.values?.[i + 1] || '')])
+    );
+    const data = match.route.handler({ db, params, query: url.searchParams, body, email, user, now });
+    saveDatabase();
+    return { status: match.route.status, body: { success: true, data: data ?? null, timestamp: iso(now) } };
+  } catch (err) {
+    // Expiring an attempt is saved even though the request fails
+    saveDatabase();
+    const error = err instanceof MockHttpError
+      ? err
+      : new MockHttpError(500, 'INTERNAL_ERROR', err instanceof Error ? err.message : 'Unexpected mock backend error');
+    return { status: error.status, body: errorBody(error, requestId, now) };
+  }
+};
+
+const wait = (ms: number, signal?: AbortSignal | null): Promise<void> => new Promise((resolve, reject) => {
+  const abort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('The request was aborted', 'AbortError'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', abort);
+    resolve();
+  }, ms);
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort, { once: true });
+});
+
+/**
+ * Drop-in replacement for fetch(`${API_BASE_URL}${endpoint}`, init), with a
+ * little latency so loading states show up as they do against a real server
+ */
+export const mockFetch = async (endpoint: string, init: RequestInit = {}): Promise<Response> => {
+  await wait(LATENCY_MS, init.signal);
+  const authorization = new Headers(init.headers).get('Authorization');
+  const requestId = `mock-${++requestCount}`;
+  const { status, body } = handleMockRequest(init.method || 'GET', endpoint, {
+    token: authorization?.replace(/^Bearer\s+/i, '') || null,
+    body: typeof init.body === 'string' && init.body ? JSON.parse(init.body) : undefined,
+    requestId,
+  });
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'X-Request-Id': requestId },
+  });
+};
@@ -0,0 +1,311 @@
+import type {
+  AnswerPayload,
+  IntegrityEventType,
+  QuestionDifficulty,
+  QuestionTiming,
+  QuestionType,
+  RetakePolicy,
+  StaffRole,
+} from '../types';
+import { mockUid } from './mockAuth';
+
+// Records and seed data of the mock backend (see mockBackend.ts). Records are stored
+// the way the backend's tables are, responses are assembled from them per request.
+
+export interface MockUser {
+  id: string;
+  firebase_uid: string;
+  name: string;
+  email: string;
+  phone?: string;
+  college_name?: string;
+  address?: string;
+  is_enrolled: boolean;
+  role: 'ADMIN' | 'STUDENT';
+  staff_role?: StaffRole | null;
+  created_at: string;
+}
+
+export interface MockTopic {
+  id: string;
+  name: string;
+  explanation_video_url?: string;
+  created_at: string;
+}
+
+export interface MockQuestion {
+  id: string;
+  topic_id: string;
+  question_text?: string;
+  question_latex?: string;
+  image_url?: string;
+  question_type: QuestionType;
+  correct_answer_index?: number;
+  correct_answer_indices?: number[];
+  numeric_answer?: number | null;
+  numeric_tolerance?: number | null;
+  explanation_latex?: string;
+  video_solution_url?: string;
+  marks?: number | null;
+  penalty?: number | null;
+  difficulty?: QuestionDifficulty | null;
+  created_at: string;
+  options: Array<{ id: string; option_index: number; option_text: string }>;
+}
+
+export interface MockQuestionSet {
+  id: string;
+  title: string;
+  description?: string;
+  created_at: string;
+  questions: Array<{ question_id: string; position: number }>;
+}
+
+export interface MockExam {
+  id: string;
+  title: string;
+  time_limit_seconds: number;
+  exam_link: string;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_attempts: number | null;
+  retake_policy: RetakePolicy;
+  shuffle_questions: boolean;
+  shuffle_within_sets: boolean;
+  shuffle_options: boolean;
+  marks_per_correct: number;
+  penalty_per_wrong: number;
+  proctoring_enabled: boolean;
+  require_fullscreen: boolean;
+  max_violations: number | null;
+  created_at: string;
+  question_sets: Array<{ question_set_id: string; position: number; section_time_limit_seconds: number | null }>;
+  batch_ids: string[];
+}
+
+export interface MockBatch {
+  id: string;
+  name: string;
+  start_date: string;
+  created_at: string;
+  user_ids: string[];
+}
+
+export interface MockAnswer extends AnswerPayload, Partial<QuestionTiming> {
+  id: string;
+  question_id: string;
+  answered_at: string;
+}
+
+export interface MockIntegrityEvent {
+  id: string;
+  type: IntegrityEventType;
+  occurred_at: string;
+  details?: string;
+  received_at: string;
+}
+
+export interface MockAttempt {
+  id: string;
+  exam_id: string;
+  user_id: string;
+  status: 'IN_PROGRESS' | 'SUBMITTED' | 'EXPIRED';
+  started_at: string;
+  expires_at: string;
+  submitted_at: string | null;
+  shuffle_seed: number | null;
+  current_section_position: number | null;
+  section_expires_at: string | null;
+  answers: MockAnswer[];
+  integrity_events: MockIntegrityEvent[];
+}
+
+export interface MockPracticeSession {
+  id: string;
+  user_id: string;
+  topic_ids: string[];
+  started_at: string;
+  ended_at: string | null;
+  answers: Array<{ question_id: string; is_correct: boolean }>;
+}
+
+export interface MockReviewCard {
+  id: string;
+  user_id: string;
+  question_id: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+  created_at: string;
+  source_exam_id: string | null;
+}
+
+export interface MockDatabase {
+  users: MockUser[];
+  topics: MockTopic[];
+  questions: MockQuestion[];
+  questionSets: MockQuestionSet[];
+  exams: MockExam[];
+  batches: MockBatch[];
+  attempts: MockAttempt[];
+  practiceSessions: MockPracticeSession[];
+  reviewCards: MockReviewCard[];
+}
+
+// Seeded accounts, any password signs in
+export const MOCK_ACCOUNTS = {
+  admin: 'admin@example.com',
+  author: 'author@example.com',
+  student: 'student@example.com',
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number, now: number): string => new Date(now - days * DAY_MS).toISOString();
+
+const options = (questionId: string, texts: string[]) => texts.map((option_text, i) => ({
+  id: `${questionId}-o${i + 1}`,
+  option_index: i + 1,
+  option_text,
+}));
+
+/**
+ * A small but complete data set: staff and students, three topics with every
+ * question type, two exams (one sectioned and assigned to a batch) and a
+ * graded attempt so the analytics pages have something to show.
+ */
+export const createSeedData = (now: number = Date.now()): MockDatabase => {
+  const created = daysAgo(30, now);
+
+  const users: MockUser[] = [
+    { id: 'user-admin', firebase_uid: mockUid(MOCK_ACCOUNTS.admin), name: 'Asha Admin', email: MOCK_ACCOUNTS.admin, is_enrolled: true, role: 'ADMIN', staff_role: 'SUPER_ADMIN', created_at: created },
+    { id: 'user-author', firebase_uid: mockUid(MOCK_ACCOUNTS.author), name: 'Carlos Content', email: MOCK_ACCOUNTS.author, is_enrolled: true, role: 'ADMIN', staff_role: 'CONTENT_AUTHOR', created_at: created },
+    { id: 'user-student', firebase_uid: mockUid(MOCK_ACCOUNTS.student), name: 'Priya Student', email: MOCK_ACCOUNTS.student, college_name: 'City College', is_enrolled: true, role: 'STUDENT', created_at: created },
+    { id: 'user-sam', firebase_uid: mockUid('sam@example.com'), name: 'Sam Learner', email: 'sam@example.com', is_enrolled: true, role: 'STUDENT', created_at: created },
+    { id: 'user-nina', firebase_uid: mockUid('nina@example.com'), name: 'Nina Newcomer', email: 'nina@example.com', is_enrolled: false, role: 'STUDENT', created_at: daysAgo(2, now) },
+  ];
+
+  const topics: MockTopic[] = [
+    { id: 'topic-algebra', name: 'Algebra', explanation_video_url: 'https://www.youtube.com/watch?v=NybHckSEQBI', created_at: created },
+    { id: 'topic-mechanics', name: 'Mechanics', created_at: created },
+    { id: 'topic-organic', name: 'Organic Chemistry', created_at: created },
+  ];
+
+  const questions: MockQuestion[] = [
+    { id: 'q-linear', topic_id: 'topic-algebra', question_text: 'Solve for x:', question_latex: '2x + 3 = 11', question_type: 'SINGLE_CHOICE', correct_answer_index: 2, difficulty: 'EASY', explanation_latex: '2x = 8 \\Rightarrow x = 4', created_at: created, options: options('q-linear', ['3', '4', '5', '7']) },
+    { id: 'q-primes', topic_id: 'topic-algebra', question_text: 'Which of the following are prime numbers?', question_type: 'MULTI_SELECT', correct_answer_indices: [1, 3], difficulty: 'MEDIUM', created_at: created, options: options('q-primes', ['2', '4', '7', '9']) },
+    { id: 'q-sqrt', topic_id: 'topic-algebra', question_text: 'Evaluate:', question_latex: '\\sqrt{144}', question_type: 'NUMERIC', numeric_answer: 12, numeric_tolerance: 0, difficulty: 'EASY', created_at: created, options: [] },
+    { id: 'q-force-unit', topic_id: 'topic-mechanics', question_text: 'What is the SI unit of force?', question_type: 'SINGLE_CHOICE', correct_answer_index: 2, difficulty: 'EASY', created_at: created, options: options('q-force-unit', ['Joule', 'Newton', 'Watt', 'Pascal']) },
+    { id: 'q-rest', topic_id: 'topic-mechanics', question_text: 'The net force on an object at rest is zero.', question_type: 'TRUE_FALSE', correct_answer_index: 1, difficulty: 'MEDIUM', created_at: created, options: options('q-rest', ['True', 'False']) },
+    { id: 'q-speed', topic_id: 'topic-mechanics', question_text: 'A car accelerates from rest at 2 m/s² for 5 s. What is its final speed in m/s?', question_type: 'NUMERIC', numeric_answer: 10, numeric_tolerance: 0.1, difficulty: 'MEDIUM', created_at: created, options: [] },
+    { id: 'q-alcohol', topic_id: 'topic-organic', question_text: 'Which functional group do alcohols contain?', question_type: 'SINGLE_CHOICE', correct_answer_index: 1, difficulty: 'EASY', created_at: created, options: options('q-alcohol', ['-OH', '-COOH', '-CHO', '-NH2']) },
+    { id: 'q-hydrocarbons', topic_id: 'topic-organic', question_text: 'Which of these are hydrocarbons?', question_type: 'MULTI_SELECT', correct_answer_indices: [1, 3], difficulty: 'HARD', marks: 6, penalty: 2, created_at: created, options: options('q-hydrocarbons', ['Methane', 'Ethanol', 'Benzene', 'Acetic acid']) },
+    { id: 'q-alkanes', topic_id: 'topic-organic', question_text: 'What is the general formula of alkanes?', question_type: 'SINGLE_CHOICE', correct_answer_index: 2, difficulty: 'MEDIUM', created_at: created, options: options('q-alkanes', ['C_nH_{2n}', 'C_nH_{2n+2}', 'C_nH_{2n-2}', 'C_nH_n']) },
+  ];
+
+  const questionSets: MockQuestionSet[] = [
+    {
+      id: 'set-maths', title: 'Mathematics Basics', description: 'Linear equations, primes and roots', created_at: created,
+      questions: ['q-linear', 'q-primes', 'q-sqrt'].map((question_id, i) => ({ question_id, position: i + 1 })),
+    },
+    {
+      id: 'set-science', title: 'Science Fundamentals', description: 'Mechanics and organic chemistry', created_at: created,
+      questions: ['q-force-unit', 'q-rest', 'q-speed', 'q-alcohol', 'q-hydrocarbons', 'q-alkanes'].map((question_id, i) => ({ question_id, position: i + 1 })),
+    },
+  ];
+
+  const batches: MockBatch[] = [
+    { id: 'batch-morning', name: 'JEE 2026 Morning', start_date: daysAgo(60, now).slice(0, 10), created_at: created, user_ids: ['user-student', 'user-sam'] },
+  ];
+
+  const examDefaults = {
+    opens_at: null,
+    closes_at: null,
+    shuffle_questions: false,
+    shuffle_within_sets: false,
+    shuffle_options: false,
+    require_fullscreen: false,
+    max_violations: null,
+    created_at: created,
+  };
+  const exams: MockExam[] = [
+    {
+      ...examDefaults,
+      id: 'exam-foundation', title: 'Foundation Mock Test', exam_link: 'foundation-mock-test', time_limit_seconds: 1800,
+      max_attempts: 3, retake_policy: 'BEST', marks_per_correct: 4, penalty_per_wrong: 1, proctoring_enabled: false,
+      question_sets: [
+        { question_set_id: 'set-maths', position: 1, section_time_limit_seconds: null },
+        { question_set_id: 'set-science', position: 2, section_time_limit_seconds: null },
+      ],
+      batch_ids: [],
+    },
+    {
+      ...examDefaults,
+      id: 'exam-sectioned', title: 'Sectioned Science Test', exam_link: 'sectioned-science', time_limit_seconds: 1200,
+      max_attempts: null, retake_policy: 'LATEST', marks_per_correct: 1, penalty_per_wrong: 0, proctoring_enabled: true,
+      shuffle_options: true,
+      question_sets: [
+        { question_set_id: 'set-science', position: 1, section_time_limit_seconds: 600 },
+        { question_set_id: 'set-maths', position: 2, section_time_limit_seconds: 600 },
+      ],
+      batch_ids: ['batch-morning'],
+    },
+  ];
+
+  // Priya's graded attempt at the foundation test: strong in algebra, weak in chemistry
+  const startedAt = now - 2 * DAY_MS;
+  const answer = (question_id: string, payload: Partial<AnswerPayload>, minute: number): MockAnswer => ({
+    id: `answer-${question_id}`,
+    question_id,
+    selected_option_index: null,
+    ...payload,
+    answered_at: new Date(startedAt + minute * 60000).toISOString(),
+    time_spent_seconds: 45 + (minute % 4) * 20,
+    visit_count: 1,
+    answer_changes: 0,
+  });
+  const attempts: MockAttempt[] = [
+    {
+      id: 'attempt-seeded',
+      exam_id: 'exam-foundation',
+      user_id: 'user-student',
+      status: 'SUBMITTED',
+      started_at: new Date(startedAt).toISOString(),
+      expires_at: new Date(startedAt + 1800 * 1000).toISOString(),
+      submitted_at: new Date(startedAt + 14 * 60000).toISOString(),
+      shuffle_seed: null,
+      current_section_position: null,
+      section_expires_at: null,
+      answers: [
+        answer('q-linear', { selected_option_index: 2 }, 1),
+        answer('q-primes', { selected_option_indices: [1, 3] }, 3),
+        answer('q-sqrt', { numeric_answer: 12 }, 4),
+        answer('q-force-unit', { selected_option_index: 2 }, 5),
+        answer('q-rest', { selected_option_index: 2 }, 7),
+        answer('q-speed', { numeric_answer: 10 }, 9),
+        answer('q-alcohol', { selected_option_index: 3 }, 10),
+        answer('q-hydrocarbons', { selected_option_indices: [1, 2] }, 12),
+      ],
+      integrity_events: [],
+    },
+  ];
+
+  const reviewCards: MockReviewCard[] = ['q-rest', 'q-alcohol', 'q-hydrocarbons'].map(question_id => ({
+    id: `card-${question_id}`,
+    user_id: 'user-student',
+    question_id,
+    ease_factor: 2.5,
+    interval_days: 1,
+    repetitions: 0,
+    lapses: 0,
+    due_at: new Date(startedAt + DAY_MS).toISOString(),
+    last_reviewed_at: null,
+    created_at: new Date(startedAt + 14 * 60000).toISOString(),
+    source_exam_id: 'exam-foundation',
+  }));
+
+  return { users, topics, questions, questionSets, exams, batches, attempts, practiceSessions: [], reviewCards };
+};
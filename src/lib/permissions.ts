@@ -0,0 +1,63 @@
+import { Capability, StaffRole } from '../types';
+
+// Capability checks for staff (ADMIN) users. Students have no capabilities; what they can
+// see is decided by enrollment and batch instead. The backend enforces the same mapping,
+// so these checks only decide what the UI offers.
+
+// Admins created before staff roles existed keep full access
+export const DEFAULT_STAFF_ROLE: StaffRole = 'SUPER_ADMIN';
+
+export const STAFF_ROLES: StaffRole[] = ['SUPER_ADMIN', 'CONTENT_AUTHOR', 'GRADER', 'ANALYST'];
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  SUPER_ADMIN: 'Super Admin',
+  CONTENT_AUTHOR: 'Content Author',
+  GRADER: 'Grader',
+  ANALYST: 'Analyst',
+};
+
+export const STAFF_ROLE_DESCRIPTIONS: Record<StaffRole, string> = {
+  SUPER_ADMIN: 'Full access, including users and staff roles',
+  CONTENT_AUTHOR: 'Writes topics, questions and question sets',
+  GRADER: 'Reviews exam attempts and student performance',
+  ANALYST: 'Read-only access to analytics',
+};
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  manage_users: 'Manage users',
+  manage_content: 'Manage questions',
+  manage_exams: 'Manage exams',
+  review_attempts: 'Review attempts',
+  view_analytics: 'View analytics',
+};
+
+export const STAFF_ROLE_CAPABILITIES: Record<StaffRole, Capability[]> = {
+  SUPER_ADMIN: ['manage_users', 'manage_content', 'manage_exams', 'review_attempts', 'view_analytics'],
+  CONTENT_AUTHOR: ['manage_content'],
+  GRADER: ['review_attempts', 'view_analytics'],
+  ANALYST: ['view_analytics'],
+};
+
+interface UserWithRole {
+  role: 'ADMIN' | 'STUDENT';
+  staff_role?: StaffRole | null;
+}
+
+export const getStaffRole = (user: UserWithRole | null | undefined): StaffRole | null => {
+  if (!user || user.role !== 'ADMIN') return null;
+  return user.staff_role || DEFAULT_STAFF_ROLE;
+};
+
+export const getCapabilities = (user: UserWithRole | null | undefined): Capability[] => {
+  const staffRole = getStaffRole(user);
+  return staffRole ? STAFF_ROLE_CAPABILITIES[staffRole] : [];
+};
+
+export const hasCapability = (user: UserWithRole | null | undefined, capability: Capability): boolean => {
+  return getCapabilities(user).includes(capability);
+};
+
+export const hasAnyCapability = (user: UserWithRole | null | undefined, capabilities: Capability[]): boolean => {
+  const granted = getCapabilities(user);
+  return capabilities.some(capability => granted.includes(capability));
+};
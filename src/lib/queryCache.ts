@@ -0,0 +1,208 @@
+import { isAbortError } from './api';
+
+// In-memory cache for API reads, shared by the admin tabs so switching between them
+// shows the last loaded lists right away. Cached data is served while it is refetched
+// in the background once stale, concurrent reads of the same key share one request,
+// and mutations invalidate the lists they change.
+
+export type QueryKey = readonly [string, ...unknown[]];
+
+export const DEFAULT_STALE_TIME_MS = 30000;
+
+export interface QueryState<T> {
+  data?: T;
+  error: Error | null;
+  updatedAt: number; // 0 until loaded, and again once invalidated
+  isFetching: boolean;
+}
+
+interface QueryEntry<T> {
+  state: QueryState<T>;
+  promise: Promise<T> | null;
+}
+
+type QueryListener = () => void;
+
+const EMPTY_STATE: QueryState<never> = { error: null, updatedAt: 0, isFetching: false };
+
+/**
+ * Keys for the cached lists. The first element names the entity, so all
+ * lists of one entity can be invalidated together whatever their filters.
+ */
+export const queryKeys = {
+  topics: (params: object = {}) => ['topics', params] as const,
+  questions: (params: object = {}) => ['questions', params] as const,
+  questionSets: (params: object = {}) => ['questionSets', params] as const,
+  exams: (params: object = {}) => ['exams', params] as const,
+  batches: () => ['batches'] as const,
+};
+
+export type QueryEntity = ReturnType<(typeof queryKeys)[keyof typeof queryKeys]>[0];
+
+// Lists that show data of another entity, e.g. question counts on topics
+const DEPENDENT_ENTITIES: Record<QueryEntity, QueryEntity[]> = {
+  topics: ['questions'],
+  questions: ['topics', 'questionSets'],
+  questionSets: ['exams'],
+  exams: ['batches'],
+  batches: ['exams'],
+};
+
+const serializeKey = (key: QueryKey): string => JSON.stringify(key);
+
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean => {
+  return prefix.every((part, i) => JSON.stringify(part) === JSON.stringify(key[i]));
+};
+
+export class QueryCache {
+  private entries = new Map<string, QueryEntry<unknown>>();
+  private keys = new Map<string, QueryKey>();
+  private listeners = new Map<string, Set<QueryListener>>();
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    const entry = this.entries.get(serializeKey(key)) as QueryEntry<T> | undefined;
+    return entry ? entry.state : EMPTY_STATE;
+  }
+
+  getData<T>(key: QueryKey): T | undefined {
+    return this.getState<T>(key).data;
+  }
+
+  /**
+   * Whether the key should be fetched: never loaded, invalidated, or loaded
+   * longer ago than staleTimeMs. A failed load is not retried on every change
+   * to the entry; readers retry it when they mount or refetch.
+   */
+  isStale(key: QueryKey, staleTimeMs: number = DEFAULT_STALE_TIME_MS): boolean {
+    const state = this.getState(key);
+    if (state.error && state.updatedAt > 0) return false;
+    return state.updatedAt === 0 || Date.now() - state.updatedAt > staleTimeMs;
+  }
+
+  /**
+   * Fetch the key, joining the request already in flight for it if there is one
+   */
+  fetch<T>(key: QueryKey, fetcher: () => Promise<T>): Promise<T> {
+    const hash = serializeKey(key);
+    const existing = this.entries.get(hash) as QueryEntry<T> | undefined;
+    if (existing?.promise) return existing.promise;
+
+    const promise = fetcher().then(
+      data => {
+        // Invalidated while in flight: a newer request owns the entry now
+        if (this.entries.get(hash)?.promise === promise) {
+          this.write<T>(key, { data, error: null, updatedAt: Date.now(), isFetching: false }, null);
+        }
+        return data;
+      },
+      err => {
+        if (this.entries.get(hash)?.promise === promise) {
+          const state = this.getState<T>(key);
+          this.write<T>(key, {
+            ...state,
+            // An aborted request leaves the entry stale so the next reader fetches again
+            error: isAbortError(err) ? state.error : err instanceof Error ? err : new Error(String(err)),
+            updatedAt: isAbortError(err) ? 0 : Date.now(),
+            isFetching: false,
+          }, null);
+        }
+        throw err;
+      }
+    );
+
+    this.write<T>(key, { ...this.getState<T>(key), isFetching: true }, promise);
+    return promise;
+  }
+
+  /**
+   * Cached data if still fresh, otherwise fetch it
+   */
+  async ensure<T>(key: QueryKey, fetcher: () => Promise<T>, staleTimeMs?: number): Promise<T> {
+    const data = this.getData<T>(key);
+    if (data !== undefined && !this.isStale(key, staleTimeMs)) return data;
+    return this.fetch(key, fetcher);
+  }
+
+  /**
+   * Replace the cached data of every key starting with prefix, e.g. to drop a
+   * deleted item from all filtered lists before the backend has confirmed it.
+   * Keys that were never loaded are left alone.
+   */
+  setData<T>(prefix: QueryKey, updater: (data: T) => T): void {
+    for (const [hash, key] of this.keys) {
+      const entry = this.entries.get(hash) as QueryEntry<T> | undefined;
+      if (!entry || entry.state.data === undefined || !matchesPrefix(key, prefix)) continue;
+      this.write<T>(key, { ...entry.state, data: updater(entry.state.data) }, entry.promise);
+    }
+  }
+
+  /**
+   * Mark every key starting with one of the prefixes stale. Mounted readers
+   * refetch them right away, others on their next read.
+   */
+  invalidate(...prefixes: QueryKey[]): void {
+    for (const [hash, key] of this.keys) {
+      const entry = this.entries.get(hash);
+      if (!entry || !prefixes.some(prefix => matchesPrefix(key, prefix))) continue;
+      // Drop the request in flight too, its response may predate the change
+      this.write(key, { ...entry.state, error: null, updatedAt: 0, isFetching: false }, null);
+    }
+  }
+
+  /**
+   * Invalidate all lists of an entity and of the entities showing its data
+   */
+  invalidateEntity(entity: QueryEntity): void {
+    this.invalidate([entity], ...DEPENDENT_ENTITIES[entity].map(dependent => [dependent] as const));
+  }
+
+  /**
+   * Run a mutation of an entity, applying optimisticUpdate to the cached lists first.
+   * The entity's lists are invalidated afterwards whether or not it succeeded,
+   * so a failed mutation also rolls the optimistic update back.
+   */
+  async mutate<T>(entity: QueryEntity, mutation: () => Promise<T>, optimisticUpdate?: () => void): Promise<T> {
+    optimisticUpdate?.();
+    try {
+      return await mutation();
+    } finally {
+      this.invalidateEntity(entity);
+    }
+  }
+
+  subscribe(key: QueryKey, listener: QueryListener): () => void {
+    const hash = serializeKey(key);
+    this.keys.set(hash, key);
+    let keyListeners = this.listeners.get(hash);
+    if (!keyListeners) {
+      keyListeners = new Set();
+      this.listeners.set(hash, keyListeners);
+    }
+    keyListeners.add(listener);
+    return () => {
+      keyListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Forget everything, e.g. on sign out
+   */
+  clear(): void {
+    const hashes = [...this.entries.keys()];
+    this.entries.clear();
+    hashes.forEach(hash => this.notify(hash));
+  }
+
+  private write<T>(key: QueryKey, state: QueryState<T>, promise: Promise<T> | null): void {
+    const hash = serializeKey(key);
+    this.keys.set(hash, key);
+    this.entries.set(hash, { state, promise } as QueryEntry<unknown>);
+    this.notify(hash);
+  }
+
+  private notify(hash: string): void {
+    this.listeners.get(hash)?.forEach(listener => listener());
+  }
+}
+
+export const queryCache = new QueryCache();
@@ -0,0 +1,59 @@
+import { QuestionDifficulty } from '../types';
+
+// Difficulty tags for questions: calibrating them from how often students answer
+// correctly, and stepping the level up or down during adaptive practice.
+
+export const QUESTION_DIFFICULTIES: QuestionDifficulty[] = ['EASY', 'MEDIUM', 'HARD'];
+
+export const QUESTION_DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  EASY: 'Easy',
+  MEDIUM: 'Medium',
+  HARD: 'Hard',
+};
+
+export const QUESTION_DIFFICULTY_STYLES: Record<QuestionDifficulty, string> = {
+  EASY: 'bg-green-100 text-green-800',
+  MEDIUM: 'bg-yellow-100 text-yellow-800',
+  HARD: 'bg-red-100 text-red-800',
+};
+
+// Share of students answering correctly at or above which a question counts as easy / medium
+const EASY_MIN_P_VALUE = 0.7;
+const MEDIUM_MIN_P_VALUE = 0.4;
+// Answers in a row at the current level before practice moves up or down
+const ADAPT_STREAK = 2;
+
+export const DEFAULT_PRACTICE_DIFFICULTY: QuestionDifficulty = 'MEDIUM';
+
+/**
+ * Difficulty suggested by the share of students answering correctly (0-1)
+ */
+export const suggestDifficulty = (pValue: number): QuestionDifficulty => {
+  if (pValue >= EASY_MIN_P_VALUE) return 'EASY';
+  if (pValue >= MEDIUM_MIN_P_VALUE) return 'MEDIUM';
+  return 'HARD';
+};
+
+/**
+ * Level for the next practice question: a harder one after a streak of correct
+ * answers at the current level, an easier one after a streak of wrong ones.
+ * `results` is the practice history so far, oldest first.
+ */
+export const getNextDifficulty = (
+  current: QuestionDifficulty,
+  results: Array<{ difficulty: QuestionDifficulty; is_correct: boolean }>
+): QuestionDifficulty => {
+  const recent = results.slice(-ADAPT_STREAK);
+  if (recent.length < ADAPT_STREAK || recent.some(result => result.difficulty !== current)) {
+    return current;
+  }
+
+  const index = QUESTION_DIFFICULTIES.indexOf(current);
+  if (recent.every(result => result.is_correct)) {
+    return QUESTION_DIFFICULTIES[Math.min(index + 1, QUESTION_DIFFICULTIES.length - 1)];
+  }
+  if (recent.every(result => !result.is_correct)) {
+    return QUESTION_DIFFICULTIES[Math.max(index - 1, 0)];
+  }
+  return current;
+};
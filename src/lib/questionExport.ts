@@ -0,0 +1,172 @@
+import { QuestionDifficulty, QuestionType } from '../types';
+import { CSV_COLUMNS } from './questionImport';
+import { formatNumericAnswer, getCorrectIndices, getQuestionType, QUESTION_TYPE_LABELS } from './questionTypes';
+
+// Question bank export to JSON (same format the import reads), CSV and Markdown with LaTeX
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  json: 'JSON (re-importable)',
+  csv: 'CSV',
+  markdown: 'Markdown + LaTeX',
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  json: 'json',
+  csv: 'csv',
+  markdown: 'md',
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  markdown: 'text/markdown',
+};
+
+export interface ExportableQuestion {
+  id?: string;
+  topic?: { name: string } | null;
+  question_type?: QuestionType;
+  question_text?: string;
+  question_latex?: string;
+  image_url?: string;
+  correct_answer_index?: number | null;
+  correct_answer_indices?: number[] | null;
+  numeric_answer?: number | null;
+  numeric_tolerance?: number | null;
+  explanation_latex?: string;
+  video_solution_url?: string;
+  marks?: number | null;
+  penalty?: number | null;
+  difficulty?: QuestionDifficulty | null;
+  options?: Array<{ option_index: number; option_text: string }>;
+}
+
+const getOptionTexts = (question: ExportableQuestion): string[] => {
+  return [...(question.options || [])]
+    .sort((a, b) => a.option_index - b.option_index)
+    .map(option => option.option_text);
+};
+
+/**
+ * One question as a plain record with the fields the import understands
+ */
+const toExportRecord = (question: ExportableQuestion) => {
+  const type = getQuestionType(question);
+  return {
+    topic: question.topic?.name || '',
+    question_type: type,
+    question_text: question.question_text || undefined,
+    question_latex: question.question_latex || undefined,
+    image_url: question.image_url || undefined,
+    options: type === 'NUMERIC' ? [] : getOptionTexts(question),
+    correct_answer_index: type === 'SINGLE_CHOICE' || type === 'TRUE_FALSE' ? question.correct_answer_index : undefined,
+    correct_answer_indices: type === 'MULTI_SELECT' ? getCorrectIndices(question) : undefined,
+    numeric_answer: type === 'NUMERIC' ? question.numeric_answer : undefined,
+    numeric_tolerance: type === 'NUMERIC' ? question.numeric_tolerance ?? undefined : undefined,
+    explanation_latex: question.explanation_latex || undefined,
+    video_solution_url: question.video_solution_url || undefined,
+    marks: question.marks ?? undefined,
+    penalty: question.penalty ?? undefined,
+    difficulty: question.difficulty ?? undefined,
+  };
+};
+
+export const exportQuestionsJson = (questions: ExportableQuestion[], title: string): string => {
+  return JSON.stringify(
+    {
+      title,
+      exported_at: new Date().toISOString(),
+      questions: questions.map(toExportRecord),
+    },
+    null,
+    2
+  );
+};
+
+const escapeCsv = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportQuestionsCsv = (questions: ExportableQuestion[]): string => {
+  const rows = questions.map(question => {
+    const record = toExportRecord(question);
+    const values: Record<string, unknown> = {
+      ...record,
+      correct_answer: (record.correct_answer_indices || (record.correct_answer_index ? [record.correct_answer_index] : [])).join(';'),
+    };
+    record.options.forEach((text, i) => {
+      values[`option_${i + 1}`] = text;
+    });
+    return CSV_COLUMNS.map(column => escapeCsv(values[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+/**
+ * A readable document for printing or review. Question text may already contain
+ * inline $...$ LaTeX; the LaTeX fields are written as display math.
+ */
+export const exportQuestionsMarkdown = (questions: ExportableQuestion[], title: string): string => {
+  const lines: string[] = [`# ${title}`, '', `${questions.length} questions`, ''];
+
+  questions.forEach((question, index) => {
+    const type = getQuestionType(question);
+    const correct = getCorrectIndices(question);
+
+    lines.push(`## ${index + 1}. ${question.topic?.name || 'Untitled topic'}`, '');
+    if (type !== 'SINGLE_CHOICE') lines.push(`*${QUESTION_TYPE_LABELS[type]}*`, '');
+    if (question.question_text) lines.push(question.question_text, '');
+    if (question.question_latex) lines.push('$$', question.question_latex, '$$', '');
+    if (question.image_url) lines.push(`![Question ${index + 1}](${question.image_url})`, '');
+
+    if (type === 'NUMERIC') {
+      lines.push(`**Answer:** ${formatNumericAnswer(question.numeric_answer, question.numeric_tolerance)}`, '');
+    } else {
+      getOptionTexts(question).forEach((text, i) => {
+        const label = String.fromCharCode(65 + i);
+        lines.push(`- **${label}.** ${text}${correct.includes(i + 1) ? ' ✓' : ''}`);
+      });
+      lines.push('', `**Answer:** ${correct.map(i => String.fromCharCode(64 + i)).join(', ') || 'N/A'}`, '');
+    }
+
+    if (question.explanation_latex) lines.push('**Explanation:**', '', '$$', question.explanation_latex, '$$', '');
+    if (question.video_solution_url) lines.push(`[Video solution](${question.video_solution_url})`, '');
+  });
+
+  return lines.join('\n');
+};
+
+export const exportQuestions = (questions: ExportableQuestion[], format: ExportFormat, title: string): string => {
+  switch (format) {
+    case 'csv':
+      return exportQuestionsCsv(questions);
+    case 'markdown':
+      return exportQuestionsMarkdown(questions, title);
+    default:
+      return exportQuestionsJson(questions, title);
+  }
+};
+
+/**
+ * Save text as a file through a temporary download link
+ */
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Export questions and download the result, e.g. "algebra-questions.md"
+ */
+export const downloadQuestions = (questions: ExportableQuestion[], format: ExportFormat, title: string) => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'questions';
+  downloadFile(`${slug}.${FILE_EXTENSIONS[format]}`, exportQuestions(questions, format, title), MIME_TYPES[format]);
+};
@@ -0,0 +1,291 @@
+import { QuestionDifficulty, QuestionType } from '../types';
+import { questionApi, validateQuestion } from './api';
+import { QUESTION_DIFFICULTY_LABELS } from './questionDifficulty';
+import { MAX_OPTIONS, QUESTION_TYPE_LABELS } from './questionTypes';
+
+// Parsing and validation for bulk question imports from CSV and JSON files.
+// The JSON format is the same one the question export produces.
+
+type CreateQuestionData = Parameters<typeof questionApi.create>[0];
+
+export type ImportedQuestion = Omit<CreateQuestionData, 'topic_id'>;
+
+export interface ImportRow {
+  row: number; // 1-based data row (CSV header not counted) or array position in JSON
+  topic_name: string;
+  question: ImportedQuestion;
+  errors: string[];
+}
+
+/**
+ * CSV columns, in the order used for templates and exports.
+ * correct_answer is a 1-based option number (or letter); separate several with ";" for MULTI_SELECT.
+ */
+export const CSV_COLUMNS = [
+  'topic',
+  'question_type',
+  'question_text',
+  'question_latex',
+  'image_url',
+  ...Array.from({ length: MAX_OPTIONS }, (_, i) => `option_${i + 1}`),
+  'correct_answer',
+  'numeric_answer',
+  'numeric_tolerance',
+  'explanation_latex',
+  'video_solution_url',
+  'marks',
+  'penalty',
+  'difficulty',
+];
+
+// Alternative header names accepted in CSV files
+const COLUMN_ALIASES: Record<string, string> = {
+  topic_name: 'topic',
+  type: 'question_type',
+  question: 'question_text',
+  correct_answer_index: 'correct_answer',
+  answer: 'correct_answer',
+  explanation: 'explanation_latex',
+  video_url: 'video_solution_url',
+};
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields, "" escapes, CRLF or LF)
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+const toText = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  return text === '' ? undefined : text;
+};
+
+const toNumber = (value: unknown, field: string, errors: string[]): number | null => {
+  const text = toText(value);
+  if (text === undefined) return null;
+  const number = Number(text);
+  if (!Number.isFinite(number)) {
+    errors.push(`${field} must be a number`);
+    return null;
+  }
+  return number;
+};
+
+// "2", "B" or "1;3" / "A,C" -> option indices
+const toOptionIndices = (value: unknown, errors: string[]): number[] => {
+  if (Array.isArray(value)) return value.map(Number);
+  const text = toText(value);
+  if (text === undefined) return [];
+  return text.split(/[;,|\s]+/).filter(Boolean).map(part => {
+    if (/^[A-Fa-f]$/.test(part)) return part.toUpperCase().charCodeAt(0) - 64;
+    const index = Number(part);
+    if (!Number.isInteger(index)) errors.push(`"${part}" is not a valid option number`);
+    return index;
+  });
+};
+
+const toQuestionType = (value: unknown, errors: string[]): QuestionType => {
+  const text = toText(value)?.toUpperCase().replace(/[\s/-]+/g, '_');
+  if (!text) return 'SINGLE_CHOICE';
+  if (!(text in QUESTION_TYPE_LABELS)) {
+    errors.push(`Unknown question type "${value}"`);
+    return 'SINGLE_CHOICE';
+  }
+  return text as QuestionType;
+};
+
+const toDifficulty = (value: unknown, errors: string[]): QuestionDifficulty | null => {
+  const text = toText(value)?.toUpperCase();
+  if (!text) return null;
+  if (!(text in QUESTION_DIFFICULTY_LABELS)) {
+    errors.push(`Unknown difficulty "${value}"`);
+    return null;
+  }
+  return text as QuestionDifficulty;
+};
+
+/**
+ * Build a question from one imported record. Options may be an array (JSON)
+ * or option_1..option_6 fields (CSV).
+ */
+const buildRow = (record: Record<string, unknown>, row: number): ImportRow => {
+  const errors: string[] = [];
+  const questionType = toQuestionType(record.question_type, errors);
+
+  const optionTexts: string[] = Array.isArray(record.options)
+    ? [...record.options]
+      .sort((a, b) => (a?.option_index ?? 0) - (b?.option_index ?? 0))
+      .map(option => toText(typeof option === 'object' && option !== null ? option.option_text : option) || '')
+    : Array.from({ length: MAX_OPTIONS }, (_, i) => toText(record[`option_${i + 1}`]) || '');
+  // Trailing empty columns are unused options, gaps in the middle are a mistake
+  while (optionTexts.length > 0 && optionTexts[optionTexts.length - 1] === '') optionTexts.pop();
+  if (optionTexts.some(text => text === '')) {
+    errors.push('Options must not be empty');
+  }
+
+  const correct = toOptionIndices(
+    record.correct_answer_indices ?? record.correct_answer_index ?? record.correct_answer,
+    errors
+  );
+
+  const question: ImportedQuestion = {
+    question_type: questionType,
+    question_text: toText(record.question_text),
+    question_latex: toText(record.question_latex),
+    image_url: toText(record.image_url),
+    explanation_latex: toText(record.explanation_latex),
+    video_solution_url: toText(record.video_solution_url),
+    marks: toNumber(record.marks, 'marks', errors),
+    penalty: toNumber(record.penalty, 'penalty', errors),
+    difficulty: toDifficulty(record.difficulty, errors),
+    options: questionType === 'NUMERIC' ? [] : optionTexts.map((text, i) => ({ option_index: i + 1, option_text: text })),
+  };
+
+  if (questionType === 'NUMERIC') {
+    question.numeric_answer = toNumber(record.numeric_answer, 'numeric_answer', errors);
+    question.numeric_tolerance = toNumber(record.numeric_tolerance, 'numeric_tolerance', errors);
+  } else if (questionType === 'MULTI_SELECT') {
+    question.correct_answer_indices = correct;
+  } else {
+    if (correct.length > 1) errors.push('Only one correct answer is allowed for this question type');
+    question.correct_answer_index = correct[0];
+  }
+
+  return { row, topic_name: toText(record.topic) || '', question, errors };
+};
+
+// Exported questions carry their topic as { id, name }
+const getTopicName = (topic: unknown): unknown => {
+  return typeof topic === 'object' && topic !== null ? (topic as { name?: unknown }).name : topic;
+};
+
+/**
+ * Header row and one example question for admins starting a CSV from scratch
+ */
+export const getCsvTemplate = (): string => {
+  const example: Record<string, string> = {
+    topic: 'Algebra',
+    question_type: 'SINGLE_CHOICE',
+    question_text: 'What is $2 + 2$?',
+    option_1: '3',
+    option_2: '4',
+    option_3: '5',
+    option_4: '22',
+    correct_answer: '2',
+    explanation_latex: '2 + 2 = 4',
+    difficulty: 'EASY',
+  };
+  return [CSV_COLUMNS.join(','), CSV_COLUMNS.map(column => example[column] || '').join(',')].join('\n') + '\n';
+};
+
+/**
+ * Parse a CSV file with a header row
+ */
+export const parseCsvQuestions = (text: string): ImportRow[] => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new Error('The CSV file is empty');
+  }
+
+  const columns = header.map(name => {
+    const key = name.trim().toLowerCase().replace(/\s+/g, '_');
+    return COLUMN_ALIASES[key] || key;
+  });
+  if (!columns.includes('topic')) {
+    throw new Error('The CSV file needs a "topic" column');
+  }
+
+  return rows.map((values, i) => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, c) => {
+      record[column] = values[c];
+    });
+    return buildRow(record, i + 1);
+  });
+};
+
+/**
+ * Parse a JSON file: an array of questions, or an object with a "questions" array (the export format)
+ */
+export const parseJsonQuestions = (text: string): ImportRow[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const records = Array.isArray(data) ? data : (data as { questions?: unknown })?.questions;
+  if (!Array.isArray(records)) {
+    throw new Error('Expected an array of questions or an object with a "questions" array');
+  }
+
+  return records.map((record, i) => {
+    if (typeof record !== 'object' || record === null) {
+      return { row: i + 1, topic_name: '', question: { options: [] }, errors: ['Not a question object'] };
+    }
+    return buildRow({ ...record, topic: getTopicName(record.topic ?? record.topic_name) }, i + 1);
+  });
+};
+
+/**
+ * Parse an import file by its extension and validate every row
+ * with the same rules questionApi.create enforces
+ */
+export const parseQuestionFile = (fileName: string, text: string): ImportRow[] => {
+  const rows = fileName.toLowerCase().endsWith('.json') ? parseJsonQuestions(text) : parseCsvQuestions(text);
+
+  return rows.map(row => {
+    const errors = [...row.errors];
+    if (!row.topic_name) {
+      errors.push('Topic is required');
+    }
+    try {
+      // The topic may not exist yet, so its name stands in for the id
+      validateQuestion({ ...row.question, topic_id: row.topic_name || 'pending' });
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : String(err));
+    }
+    return { ...row, errors };
+  });
+};
@@ -0,0 +1,169 @@
+import { isSectionedExam } from './examSections';
+
+// Deterministic per-attempt ordering of questions and options.
+// The same seed always produces the same order, so review pages can show
+// exactly what the student saw while answers keep their canonical option_index.
+
+export interface ShuffleSettings {
+  shuffle_questions?: boolean;
+  shuffle_within_sets?: boolean; // Only shuffle questions inside their own question set
+  shuffle_options?: boolean;
+}
+
+interface SeededAttempt {
+  id: string;
+  shuffle_seed?: number | null;
+}
+
+interface OrderedOption {
+  option_index: number;
+}
+
+interface ExamQuestionSetLike<Q> {
+  position: number;
+  section_time_limit_seconds?: number | null;
+  question_set: {
+    question_set_questions?: Array<{
+      position: number;
+      question: Q;
+    }>;
+  };
+}
+
+/**
+ * 32-bit FNV-1a hash, used to derive seeds from ids
+ */
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 - small, fast PRNG that is stable across browsers
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const deriveSeed = (seed: number, key: string): number => (seed ^ hashString(key)) >>> 0;
+
+/**
+ * Fisher-Yates shuffle driven by a seed. Returns a new array.
+ */
+export const seededShuffle = <T>(items: T[], seed: number): T[] => {
+  const random = createRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Seed the attempt was shuffled with. Attempts created before the backend
+ * stored a seed fall back to one derived from the attempt id.
+ */
+export const getAttemptSeed = (attempt: SeededAttempt): number => {
+  return attempt.shuffle_seed ?? hashString(attempt.id);
+};
+
+/**
+ * Seed for a printed paper variant (set A, B, C, ...). The same exam and
+ * variant always print in the same order, so papers and keys can be reprinted.
+ */
+export const getPaperSeed = (examId: string, variant: string): number => {
+  return hashString(`${examId}:paper:${variant}`);
+};
+
+/**
+ * Shuffle questions that are already in canonical order.
+ * getGroup identifies the question set (by its position in the exam), used when shuffling within sets.
+ */
+export const orderQuestions = <Q>(
+  questions: Q[],
+  getGroup: (question: Q) => string,
+  settings: ShuffleSettings,
+  seed: number
+): Q[] => {
+  if (!settings.shuffle_questions) return questions;
+  if (!settings.shuffle_within_sets) return seededShuffle(questions, seed);
+
+  const groups = new Map<string, Q[]>();
+  questions.forEach(question => {
+    const group = getGroup(question);
+    groups.set(group, [...(groups.get(group) || []), question]);
+  });
+  return Array.from(groups.entries()).flatMap(([group, groupQuestions]) =>
+    seededShuffle(groupQuestions, deriveSeed(seed, group))
+  );
+};
+
+/**
+ * Flatten an exam's question sets in position order, then apply the shuffle settings.
+ * Sectioned exams are answered a section (question set) at a time, so they only shuffle within sets.
+ */
+export const orderExamQuestions = <Q>(
+  examQuestionSets: ExamQuestionSetLike<Q>[] | undefined,
+  settings: ShuffleSettings,
+  seed: number
+): Q[] => {
+  const canonical = [...(examQuestionSets || [])]
+    .sort((a, b) => a.position - b.position)
+    .flatMap(eqs => [...(eqs.question_set.question_set_questions || [])]
+      .sort((a, b) => a.position - b.position)
+      .map(qsq => ({ setPosition: eqs.position, question: qsq.question }))
+    );
+
+  const effectiveSettings = isSectionedExam(examQuestionSets) ? { ...settings, shuffle_within_sets: true } : settings;
+  return orderQuestions(canonical, item => String(item.setPosition), effectiveSettings, seed).map(item => item.question);
+};
+
+/**
+ * Sort an attempt's answers into the order the questions were shown.
+ * Answers for questions no longer in the exam keep their relative order at the end.
+ */
+export const orderAttemptAnswers = <A extends { question_id: string }>(
+  answers: A[],
+  examQuestionSets: ExamQuestionSetLike<{ id: string }>[] | undefined,
+  settings: ShuffleSettings,
+  seed: number
+): A[] => {
+  const positions = new Map(
+    orderExamQuestions(examQuestionSets, settings, seed).map((question, index) => [question.id, index])
+  );
+  return [...answers].sort((a, b) =>
+    (positions.get(a.question_id) ?? positions.size) - (positions.get(b.question_id) ?? positions.size)
+  );
+};
+
+/**
+ * Options of a question in display order. Each question gets its own
+ * derived seed so option order does not depend on question order.
+ */
+export const orderOptions = <O extends OrderedOption>(
+  questionId: string,
+  options: O[],
+  settings: ShuffleSettings,
+  seed: number
+): O[] => {
+  const canonical = [...options].sort((a, b) => a.option_index - b.option_index);
+  if (!settings.shuffle_options) return canonical;
+  return seededShuffle(canonical, deriveSeed(seed, questionId));
+};
+
+/**
+ * Letter shown for an option at a 0-based display position (A, B, C, ...)
+ */
+export const getOptionLabel = (displayPosition: number): string => {
+  return String.fromCharCode(65 + displayPosition);
+};
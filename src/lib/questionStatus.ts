@@ -0,0 +1,63 @@
+// Question palette statuses for the exam interface (the usual CBT colours).
+// Visited and marked-for-review flags are kept in localStorage per attempt
+// so the palette survives a page reload.
+
+export type QuestionStatus = 'NOT_VISITED' | 'NOT_ANSWERED' | 'ANSWERED' | 'MARKED' | 'ANSWERED_MARKED';
+
+export const QUESTION_STATUS_LABELS: Record<QuestionStatus, string> = {
+  NOT_VISITED: 'Not visited',
+  NOT_ANSWERED: 'Not answered',
+  ANSWERED: 'Answered',
+  MARKED: 'Marked for review',
+  ANSWERED_MARKED: 'Answered & marked',
+};
+
+// Palette/legend order
+export const QUESTION_STATUSES = Object.keys(QUESTION_STATUS_LABELS) as QuestionStatus[];
+
+const REVIEW_STATE_KEY_PREFIX = 'exam_review_state_';
+
+export interface ReviewState {
+  visited: Set<string>; // Question ids the student has opened
+  marked: Set<string>; // Question ids marked for review
+}
+
+export const getQuestionStatus = (flags: { visited: boolean; answered: boolean; marked: boolean }): QuestionStatus => {
+  if (flags.marked) return flags.answered ? 'ANSWERED_MARKED' : 'MARKED';
+  if (flags.answered) return 'ANSWERED';
+  return flags.visited ? 'NOT_ANSWERED' : 'NOT_VISITED';
+};
+
+/**
+ * Number of questions in each status, every status present (zero when unused)
+ */
+export const countStatuses = (statuses: QuestionStatus[]): Record<QuestionStatus, number> => {
+  const counts = Object.fromEntries(QUESTION_STATUSES.map(status => [status, 0])) as Record<QuestionStatus, number>;
+  statuses.forEach(status => {
+    counts[status]++;
+  });
+  return counts;
+};
+
+export const loadReviewState = (attemptId: string): ReviewState => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(`${REVIEW_STATE_KEY_PREFIX}${attemptId}`) || '{}');
+    return {
+      visited: new Set(Array.isArray(stored.visited) ? stored.visited : []),
+      marked: new Set(Array.isArray(stored.marked) ? stored.marked : []),
+    };
+  } catch {
+    return { visited: new Set(), marked: new Set() };
+  }
+};
+
+export const saveReviewState = (attemptId: string, state: ReviewState): void => {
+  localStorage.setItem(
+    `${REVIEW_STATE_KEY_PREFIX}${attemptId}`,
+    JSON.stringify({ visited: [...state.visited], marked: [...state.marked] })
+  );
+};
+
+export const clearReviewState = (attemptId: string): void => {
+  localStorage.removeItem(`${REVIEW_STATE_KEY_PREFIX}${attemptId}`);
+};
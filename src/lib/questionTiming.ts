@@ -0,0 +1,215 @@
+import { QuestionTiming } from '../types';
+
+// Per-question time tracking for an attempt: time on screen (only while the tab is
+// visible), how often each question was opened and how often its answer changed.
+// Kept in localStorage per attempt so a reload doesn't lose it. The totals are sent
+// along with each answer.
+
+const TIMING_KEY_PREFIX = 'exam_question_timing_';
+// Relative to the class average time on the same question
+const FAST_PACE_RATIO = 0.5;
+const SLOW_PACE_RATIO = 1.5;
+
+export type Pacing = 'FAST' | 'ON_PACE' | 'SLOW';
+
+export const PACING_LABELS: Record<Pacing, string> = {
+  FAST: 'Rushed',
+  ON_PACE: 'On pace',
+  SLOW: 'Slow',
+};
+
+interface TimingEntry {
+  time_spent_ms: number;
+  visit_count: number;
+  answer_changes: number;
+  reported?: QuestionTiming; // Last totals sent with an answer
+}
+
+export class QuestionTimeTracker {
+  private readonly storageKey: string;
+  private entries: Record<string, TimingEntry>;
+  private currentId: string | null = null;
+  private lastOpenedId: string | null = null;
+  private visibleSince: number | null = null; // Start of the current stretch on screen
+  private disposed = false;
+
+  constructor(attemptId: string) {
+    this.storageKey = `${TIMING_KEY_PREFIX}${attemptId}`;
+    this.entries = this.load();
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    window.addEventListener('pagehide', this.handlePageHide);
+  }
+
+  /**
+   * Start timing a question, banking the time spent on the previous one.
+   * Reopening the question that was last open doesn't count as another visit.
+   */
+  open(questionId: string): void {
+    if (this.disposed || questionId === this.currentId) return;
+
+    this.bank();
+    this.currentId = questionId;
+    if (questionId !== this.lastOpenedId) {
+      this.entry(questionId).visit_count++;
+      this.lastOpenedId = questionId;
+    }
+    this.resume();
+    this.persist();
+  }
+
+  /**
+   * Stop timing until a question is opened again, e.g. while the exam is locked
+   */
+  stop(): void {
+    this.bank();
+    this.currentId = null;
+    this.persist();
+  }
+
+  recordAnswerChange(questionId: string): void {
+    this.entry(questionId).answer_changes++;
+    this.persist();
+  }
+
+  /**
+   * Totals for a question, including the stretch currently on screen
+   */
+  getTiming(questionId: string): QuestionTiming {
+    const entry = this.entries[questionId];
+    let spentMs = entry?.time_spent_ms ?? 0;
+    if (questionId === this.currentId && this.visibleSince !== null) {
+      spentMs += Date.now() - this.visibleSince;
+    }
+    return {
+      time_spent_seconds: Math.round(spentMs / 1000),
+      visit_count: entry?.visit_count ?? 0,
+      answer_changes: entry?.answer_changes ?? 0,
+    };
+  }
+
+  /**
+   * Current totals for a question, remembered as sent
+   */
+  report(questionId: string): QuestionTiming {
+    const timing = this.getTiming(questionId);
+    this.entry(questionId).reported = timing;
+    this.persist();
+    return timing;
+  }
+
+  /**
+   * Whether the totals changed since they were last sent
+   */
+  hasUnreportedTime(questionId: string): boolean {
+    const timing = this.getTiming(questionId);
+    const reported = this.entries[questionId]?.reported;
+    return !reported ||
+      reported.time_spent_seconds !== timing.time_spent_seconds ||
+      reported.visit_count !== timing.visit_count ||
+      reported.answer_changes !== timing.answer_changes;
+  }
+
+  /**
+   * Remove the persisted timings once the attempt has been finalized
+   */
+  clear(): void {
+    this.entries = {};
+    this.currentId = null;
+    this.visibleSince = null;
+    localStorage.removeItem(this.storageKey);
+  }
+
+  dispose(): void {
+    this.stop();
+    this.disposed = true;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    window.removeEventListener('pagehide', this.handlePageHide);
+  }
+
+  private entry(questionId: string): TimingEntry {
+    if (!this.entries[questionId]) {
+      this.entries[questionId] = { time_spent_ms: 0, visit_count: 0, answer_changes: 0 };
+    }
+    return this.entries[questionId];
+  }
+
+  // Add the current stretch on screen to the open question
+  private bank(): void {
+    if (this.currentId && this.visibleSince !== null) {
+      this.entry(this.currentId).time_spent_ms += Date.now() - this.visibleSince;
+    }
+    this.visibleSince = null;
+  }
+
+  private resume(): void {
+    if (this.currentId && !document.hidden) {
+      this.visibleSince = Date.now();
+    }
+  }
+
+  private handleVisibilityChange = () => {
+    if (document.hidden) {
+      this.bank();
+    } else {
+      this.resume();
+    }
+    this.persist();
+  };
+
+  // Bank the time before a reload, the page carries on if it is restored
+  private handlePageHide = () => {
+    this.bank();
+    this.resume();
+    this.persist();
+  };
+
+  private load(): Record<string, TimingEntry> {
+    try {
+      const data = localStorage.getItem(this.storageKey);
+      return data ? JSON.parse(data) : {};
+    } catch (err) {
+      console.error('Failed to read question timings from storage:', err);
+      return {};
+    }
+  }
+
+  private persist(): void {
+    if (this.disposed) return;
+    if (Object.keys(this.entries).length === 0) {
+      localStorage.removeItem(this.storageKey);
+    } else {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.entries));
+    }
+  }
+}
+
+/**
+ * "45s", "2m 05s" or "1h 02m"
+ */
+export const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  if (hours > 0) return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${secs.toString().padStart(2, '0')}s`;
+  return `${secs}s`;
+};
+
+/**
+ * How a student's time on a question compares with the class average for it
+ */
+export const getPacing = (timeSpentSeconds: number, averageSeconds: number): Pacing => {
+  if (averageSeconds <= 0) return 'ON_PACE';
+  const ratio = timeSpentSeconds / averageSeconds;
+  if (ratio < FAST_PACE_RATIO) return 'FAST';
+  if (ratio > SLOW_PACE_RATIO) return 'SLOW';
+  return 'ON_PACE';
+};
+
+/**
+ * Whether any answer carries time tracking data (older attempts don't)
+ */
+export const hasTimingData = (answers: Array<{ time_spent_seconds?: number | null }>): boolean => {
+  return answers.some(answer => answer.time_spent_seconds !== undefined && answer.time_spent_seconds !== null);
+};
@@ -0,0 +1,116 @@
+import { AnswerPayload, QuestionType } from '../types';
+
+// Helpers for the supported question types and grading answers to them
+
+export const DEFAULT_QUESTION_TYPE: QuestionType = 'SINGLE_CHOICE';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  SINGLE_CHOICE: 'Single choice',
+  MULTI_SELECT: 'Multiple select',
+  TRUE_FALSE: 'True / False',
+  NUMERIC: 'Numeric answer',
+};
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+export const EMPTY_ANSWER: AnswerPayload = { selected_option_index: null };
+
+interface GradableQuestion {
+  question_type?: QuestionType | null;
+  correct_answer_index?: number | null;
+  correct_answer_indices?: number[] | null;
+  numeric_answer?: number | null;
+  numeric_tolerance?: number | null;
+}
+
+export const getQuestionType = (question: { question_type?: QuestionType | null }): QuestionType => {
+  return question.question_type || DEFAULT_QUESTION_TYPE;
+};
+
+export const isChoiceType = (type: QuestionType): boolean => type !== 'NUMERIC';
+
+/**
+ * Whether the student actually answered (as opposed to skipping the question)
+ */
+export const hasAnswer = (answer?: Partial<AnswerPayload> | null): boolean => {
+  if (!answer) return false;
+  return (answer.selected_option_index !== null && answer.selected_option_index !== undefined) ||
+    (answer.selected_option_indices?.length ?? 0) > 0 ||
+    (answer.numeric_answer !== null && answer.numeric_answer !== undefined);
+};
+
+/**
+ * Option indices that make up the correct answer of a choice question
+ */
+export const getCorrectIndices = (question: GradableQuestion): number[] => {
+  if (getQuestionType(question) === 'MULTI_SELECT') {
+    return [...(question.correct_answer_indices || [])].sort((a, b) => a - b);
+  }
+  return question.correct_answer_index ? [question.correct_answer_index] : [];
+};
+
+/**
+ * Grade an answer locally. Multi-select answers must match the correct options exactly;
+ * numeric answers may differ from the key by at most the tolerance.
+ */
+export const isAnswerCorrect = (question: GradableQuestion, answer?: Partial<AnswerPayload> | null): boolean => {
+  if (!answer || !hasAnswer(answer)) return false;
+
+  switch (getQuestionType(question)) {
+    case 'NUMERIC': {
+      if (question.numeric_answer === null || question.numeric_answer === undefined ||
+          answer.numeric_answer === null || answer.numeric_answer === undefined) {
+        return false;
+      }
+      // Small epsilon so tolerances like 0.1 are not defeated by floating point error
+      return Math.abs(answer.numeric_answer - question.numeric_answer) <= (question.numeric_tolerance ?? 0) + 1e-9;
+    }
+    case 'MULTI_SELECT': {
+      const correct = getCorrectIndices(question);
+      const selected = [...new Set(answer.selected_option_indices || [])].sort((a, b) => a - b);
+      return selected.length === correct.length && selected.every((index, i) => index === correct[i]);
+    }
+    default:
+      return answer.selected_option_index === question.correct_answer_index;
+  }
+};
+
+/**
+ * Toggle one option in a multi-select answer
+ */
+export const toggleSelectedIndex = (answer: Partial<AnswerPayload> | undefined, optionIndex: number): AnswerPayload => {
+  const current = answer?.selected_option_indices || [];
+  const next = current.includes(optionIndex)
+    ? current.filter(index => index !== optionIndex)
+    : [...current, optionIndex].sort((a, b) => a - b);
+  return { selected_option_index: null, selected_option_indices: next.length > 0 ? next : null };
+};
+
+/**
+ * Option indices chosen in an answer, for single and multi-select questions alike
+ */
+export const getSelectedIndices = (answer?: Partial<AnswerPayload> | null): number[] => {
+  if (!answer) return [];
+  if (answer.selected_option_indices && answer.selected_option_indices.length > 0) {
+    return [...answer.selected_option_indices].sort((a, b) => a - b);
+  }
+  return answer.selected_option_index ? [answer.selected_option_index] : [];
+};
+
+/**
+ * Format a numeric answer key for display, e.g. "9.81" or "9.81 ± 0.1"
+ */
+export const formatNumericAnswer = (value?: number | null, tolerance?: number | null): string => {
+  if (value === null || value === undefined) return 'N/A';
+  return tolerance ? `${value} ± ${tolerance}` : value.toString();
+};
+
+/**
+ * Whether an option is part of the given answer (single or multi-select)
+ */
+export const isOptionSelected = (answer: Partial<AnswerPayload> | undefined | null, optionIndex: number): boolean => {
+  if (!answer) return false;
+  return answer.selected_option_index === optionIndex || (answer.selected_option_indices || []).includes(optionIndex);
+};
@@ -0,0 +1,83 @@
+import { ReviewCard } from '../types';
+
+// SM-2 spaced repetition for the mistakes notebook. A wrong answer resets the card
+// to be seen again tomorrow; each correct answer pushes the next review further out.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+// Cards reviewed at an interval this long are considered learned
+const MASTERED_INTERVAL_DAYS = 21;
+
+export type ReviewGrade = 'AGAIN' | 'HARD' | 'GOOD' | 'EASY';
+
+export const REVIEW_GRADE_LABELS: Record<ReviewGrade, string> = {
+  AGAIN: 'Again',
+  HARD: 'Hard',
+  GOOD: 'Good',
+  EASY: 'Easy',
+};
+
+// SM-2 quality (0-5) for each grade
+export const REVIEW_GRADE_QUALITY: Record<ReviewGrade, number> = {
+  AGAIN: 1,
+  HARD: 3,
+  GOOD: 4,
+  EASY: 5,
+};
+
+type CardSchedule = Pick<ReviewCard, 'ease_factor' | 'interval_days' | 'repetitions' | 'lapses'>;
+
+export interface ScheduledReview extends CardSchedule {
+  quality: number;
+  due_at: string;
+}
+
+/**
+ * Next schedule of a card after a review of the given quality (0-5)
+ */
+export const scheduleReview = (card: CardSchedule, quality: number, now: number = Date.now()): ScheduledReview => {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.ease_factor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  if (quality < 3) {
+    return {
+      quality,
+      ease_factor: easeFactor,
+      interval_days: 1,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      due_at: new Date(now + DAY_MS).toISOString(),
+    };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval_days * easeFactor);
+  return {
+    quality,
+    ease_factor: easeFactor,
+    interval_days: intervalDays,
+    repetitions,
+    lapses: card.lapses,
+    due_at: new Date(now + intervalDays * DAY_MS).toISOString(),
+  };
+};
+
+export const isCardDue = (card: Pick<ReviewCard, 'due_at'>, now: number = Date.now()): boolean => {
+  return new Date(card.due_at).getTime() <= now;
+};
+
+export const isCardMastered = (card: Pick<ReviewCard, 'interval_days'>): boolean => {
+  return card.interval_days >= MASTERED_INTERVAL_DAYS;
+};
+
+/**
+ * "today", "tomorrow" or "in 6 days"
+ */
+export const formatDueIn = (dueAt: Date | string, now: number = Date.now()): string => {
+  const days = Math.ceil((new Date(dueAt).getTime() - now) / DAY_MS);
+  if (days <= 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  return `in ${days} days`;
+};
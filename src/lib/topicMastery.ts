@@ -0,0 +1,171 @@
+// Per-topic mastery for a student. Every answered question counts towards its topic,
+// weighted by how recent the attempt was, so old mistakes fade as the student improves.
+// Topics only known from the aggregate topic performance (no answer detail loaded)
+// fall back to their overall accuracy.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// An answer this old counts half as much as one given today
+const HALF_LIFE_DAYS = 30;
+// Attempts compared against the ones before them for the trend
+const RECENT_ATTEMPTS = 3;
+// Change in accuracy that counts as a trend rather than noise
+const TREND_THRESHOLD = 0.1;
+
+export type MasteryLevel = 'MASTERED' | 'PROFICIENT' | 'DEVELOPING' | 'WEAK';
+export type MasteryTrend = 'UP' | 'DOWN' | 'STEADY';
+
+export const MASTERY_LEVEL_LABELS: Record<MasteryLevel, string> = {
+  MASTERED: 'Mastered',
+  PROFICIENT: 'Proficient',
+  DEVELOPING: 'Developing',
+  WEAK: 'Needs work',
+};
+
+// Minimum mastery (0-1) for each level, strongest first
+const MASTERY_THRESHOLDS: Array<[MasteryLevel, number]> = [
+  ['MASTERED', 0.85],
+  ['PROFICIENT', 0.7],
+  ['DEVELOPING', 0.5],
+  ['WEAK', 0],
+];
+
+interface TopicPerformanceLike {
+  topic_id: string;
+  topic_name: string;
+  total_questions_attempted: number;
+  accuracy_percentage: number;
+}
+
+interface MasteryAttempt {
+  status: string;
+  submitted_at: string | null;
+  started_at: string;
+  exam_answers: Array<{
+    is_correct?: boolean;
+    question: {
+      topic: { id: string; name: string; explanation_video_url?: string };
+    };
+  }>;
+}
+
+export interface TopicMastery {
+  topicId: string;
+  topicName: string;
+  mastery: number; // Recency-weighted share answered correctly, 0-1
+  level: MasteryLevel;
+  trend: MasteryTrend | null; // null until the topic appears in enough attempts
+  answered: number;
+  lastAttemptAt: string | null;
+  explanationVideoUrl?: string;
+}
+
+export const getMasteryLevel = (mastery: number): MasteryLevel => {
+  return MASTERY_THRESHOLDS.find(([, threshold]) => mastery >= threshold)![0];
+};
+
+export const isWeakTopic = (topic: Pick<TopicMastery, 'level'>): boolean => {
+  return topic.level === 'WEAK' || topic.level === 'DEVELOPING';
+};
+
+interface TopicAccumulator {
+  name: string;
+  videoUrl?: string;
+  weightedCorrect: number;
+  weight: number;
+  answered: number;
+  lastAttemptAt: string | null;
+  perAttempt: number[]; // Accuracy in each attempt that covered the topic, oldest first
+}
+
+const getTrend = (perAttempt: number[]): MasteryTrend | null => {
+  if (perAttempt.length < 2) return null;
+  const recentCount = Math.min(RECENT_ATTEMPTS, Math.ceil(perAttempt.length / 2));
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const change = average(perAttempt.slice(-recentCount)) - average(perAttempt.slice(0, -recentCount));
+  if (change > TREND_THRESHOLD) return 'UP';
+  if (change < -TREND_THRESHOLD) return 'DOWN';
+  return 'STEADY';
+};
+
+/**
+ * Mastery of every topic the student has answered questions in, weakest first
+ */
+export const computeTopicMastery = (
+  topicPerformance: TopicPerformanceLike[],
+  attempts: MasteryAttempt[],
+  now: number = Date.now()
+): TopicMastery[] => {
+  const topics = new Map<string, TopicAccumulator>();
+
+  const finished = attempts
+    .filter(attempt => attempt.status === 'SUBMITTED' || attempt.status === 'EXPIRED')
+    .map(attempt => ({ attempt, at: attempt.submitted_at || attempt.started_at }))
+    .sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+
+  finished.forEach(({ attempt, at }) => {
+    const ageDays = Math.max(0, (now - Date.parse(at)) / DAY_MS);
+    const weight = Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+    const attemptTotals = new Map<string, { correct: number; answered: number }>();
+
+    attempt.exam_answers.forEach(answer => {
+      const topic = answer.question.topic;
+      if (!topic) return;
+      const correct = answer.is_correct ? 1 : 0;
+
+      const entry = topics.get(topic.id) || {
+        name: topic.name,
+        weightedCorrect: 0,
+        weight: 0,
+        answered: 0,
+        lastAttemptAt: null,
+        perAttempt: [],
+      };
+      entry.videoUrl = entry.videoUrl || topic.explanation_video_url;
+      entry.weightedCorrect += weight * correct;
+      entry.weight += weight;
+      entry.answered++;
+      entry.lastAttemptAt = at;
+      topics.set(topic.id, entry);
+
+      const totals = attemptTotals.get(topic.id) || { correct: 0, answered: 0 };
+      totals.correct += correct;
+      totals.answered++;
+      attemptTotals.set(topic.id, totals);
+    });
+
+    attemptTotals.forEach((totals, topicId) => {
+      topics.get(topicId)!.perAttempt.push(totals.correct / totals.answered);
+    });
+  });
+
+  const result: TopicMastery[] = [...topics.entries()].map(([topicId, entry]) => {
+    const mastery = entry.weight > 0 ? entry.weightedCorrect / entry.weight : 0;
+    return {
+      topicId,
+      topicName: entry.name,
+      mastery,
+      level: getMasteryLevel(mastery),
+      trend: getTrend(entry.perAttempt),
+      answered: entry.answered,
+      lastAttemptAt: entry.lastAttemptAt,
+      explanationVideoUrl: entry.videoUrl,
+    };
+  });
+
+  topicPerformance
+    .filter(performance => !topics.has(performance.topic_id) && performance.total_questions_attempted > 0)
+    .forEach(performance => {
+      const mastery = performance.accuracy_percentage / 100;
+      result.push({
+        topicId: performance.topic_id,
+        topicName: performance.topic_name,
+        mastery,
+        level: getMasteryLevel(mastery),
+        trend: null,
+        answered: performance.total_questions_attempted,
+        lastAttemptAt: null,
+      });
+    });
+
+  return result.sort((a, b) => a.mastery - b.mastery);
+};
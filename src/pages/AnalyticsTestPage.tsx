@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { analyticsApi, userApi, topicApi, examApi } from '../lib/api';
+import { analyticsApi, userApi, topicApi, examApi, isAbortError } from '../lib/api';
 import { EnhancedAnalyticsService } from '../lib/enhancedAnalytics';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -16,6 +16,8 @@ export function AnalyticsTestPage() {
         [name]: { success: true, data: result }
       }));
     } catch (error: any) {
+      // Left the page: the remaining calls are cancelled right away
+      if (isAbortError(error)) return;
       setResults((prev: Record<string, any>) => ({
         ...prev,
         [name]: { success: false, error: error.message }
@@ -23,7 +25,7 @@ export function AnalyticsTestPage() {
     }
   };
 
-  const runAllTests = async () => {
+  const runAllTests = async (signal?: AbortSignal) => {
     if (!userData) return;
     
     setLoading(true);
@@ -31,66 +33,67 @@ export function AnalyticsTestPage() {
 
     // Test user analytics
     await testEndpoint('getUserPerformance', () => 
-      analyticsApi.getUserPerformance(userData.id)
+      analyticsApi.getUserPerformance(userData.id, { signal })
     );
     
     await testEndpoint('getUserHistory', () => 
-      analyticsApi.getUserHistory(userData.id, { take: 5 })
+      analyticsApi.getUserHistory(userData.id, { take: 5 }, { signal })
     );
     
     await testEndpoint('getUserTopicPerformance', () => 
-      analyticsApi.getUserTopicPerformance(userData.id)
+      analyticsApi.getUserTopicPerformance(userData.id, { signal })
     );
     
     await testEndpoint('getUserTrend', () => 
-      analyticsApi.getUserTrend(userData.id)
+      analyticsApi.getUserTrend(userData.id, { signal })
     );
 
     // Test admin analytics if admin
     if (userData.role === 'ADMIN') {
       await testEndpoint('getSystemAnalytics', () => 
-        analyticsApi.getSystemAnalytics()
+        analyticsApi.getSystemAnalytics(undefined, { signal })
       );
       
       await testEndpoint('getTopPerformingTopics', () => 
-        analyticsApi.getTopPerformingTopics()
+        analyticsApi.getTopPerformingTopics(undefined, { signal })
       );
       
       // Test exam usage stats (this might fail)
       await testEndpoint('getExamUsageStats', () => 
-        analyticsApi.getExamUsageStats()
+        analyticsApi.getExamUsageStats(undefined, { signal })
       );
     }
 
     // Test enhanced analytics
     await testEndpoint('enhancedSystemAnalytics', () => 
-      EnhancedAnalyticsService.getEnhancedSystemAnalytics()
+      EnhancedAnalyticsService.getEnhancedSystemAnalytics(undefined, { signal })
     );
     
     await testEndpoint('enhancedUserPerformance', () => 
-      EnhancedAnalyticsService.getEnhancedUserPerformance(userData.id)
+      EnhancedAnalyticsService.getEnhancedUserPerformance(userData.id, { signal })
     );
 
     // Test basic APIs
     await testEndpoint('getAllUsers', () => 
-      userApi.getAllUsers({ limit: 10 })
+      userApi.getAllUsers({ limit: 10 }, { signal })
     );
     
     await testEndpoint('getAllTopics', () => 
-      topicApi.getAll({ include_count: true })
+      topicApi.getAll({ include_count: true }, { signal })
     );
     
     await testEndpoint('getAllExams', () => 
-      examApi.getAll({ take: 10 })
+      examApi.getAll({ take: 10 }, { signal })
     );
 
-    setLoading(false);
+    if (!signal?.aborted) setLoading(false);
   };
 
   useEffect(() => {
-    if (userData) {
-      runAllTests();
-    }
+    if (!userData) return;
+    const controller = new AbortController();
+    runAllTests(controller.signal);
+    return () => controller.abort();
   }, [userData]);
 
   if (!userData) {
@@ -102,7 +105,7 @@ export function AnalyticsTestPage() {
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold">Analytics Endpoints Test</h1>
         <button
-          onClick={runAllTests}
+          onClick={() => runAllTests()}
           disabled={loading}
           className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
         >
@@ -0,0 +1,331 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { ExamPage } from './ExamPage';
+import { ApiError, attemptApi, examApi } from '../lib/api';
+import { orderAttemptAnswers } from '../lib/questionOrder';
+
+vi.mock('../contexts/AuthContext', () => ({
+  useAuth: () => ({
+    currentUser: { displayName: 'Asha Rao', email: 'asha@example.com' },
+    userData: { role: 'STUDENT', is_enrolled: true, name: 'Asha Rao', email: 'asha@example.com' },
+    loading: false,
+  }),
+}));
+
+vi.mock('../lib/api', async importOriginal => ({
+  ...await importOriginal<typeof import('../lib/api')>(),
+  examApi: { getByLink: vi.fn() },
+  attemptApi: {
+    getMyAttempts: vi.fn(),
+    start: vi.fn(),
+    submitAnswer: vi.fn(),
+    submit: vi.fn(),
+    getTimeRemaining: vi.fn(),
+    closeSection: vi.fn(),
+    recordIntegrityEvents: vi.fn(),
+  },
+}));
+
+const TIME_LIMIT_SECONDS = 600;
+
+const question = (id: string, text: string, options: string[]) => ({
+  id,
+  question_text: text,
+  options: options.map((option_text, i) => ({ option_index: i + 1, option_text })),
+});
+
+const exam = {
+  id: 'exam-1',
+  title: 'Foundation Mock Test',
+  time_limit_seconds: TIME_LIMIT_SECONDS,
+  exam_link: 'foundation-mock-test',
+  created_at: '2024-04-01T00:00:00Z',
+  exam_question_sets: [{
+    position: 1,
+    question_set: {
+      id: 'set-1',
+      title: 'Mathematics',
+      question_set_questions: [
+        { position: 1, question: question('q-1', 'What is 2 + 2?', ['3', '4', '5']) },
+        { position: 2, question: question('q-2', 'Which number is prime?', ['4', '6', '7']) },
+      ],
+    },
+  }],
+};
+
+// Two timed sections, shuffled: Physics (p-1 to p-3) then Chemistry (c-1, c-2)
+const sectionedExam = {
+  ...exam,
+  shuffle_questions: true,
+  exam_question_sets: [
+    {
+      position: 1,
+      section_time_limit_seconds: 300,
+      question_set: {
+        id: 'set-physics',
+        title: 'Physics',
+        question_set_questions: [
+          { position: 1, question: question('p-1', 'What is the unit of force?', ['Newton', 'Joule']) },
+          { position: 2, question: question('p-2', 'What is the unit of power?', ['Pascal', 'Watt']) },
+          { position: 3, question: question('p-3', 'What is the unit of charge?', ['Coulomb', 'Tesla']) },
+        ],
+      },
+    },
+    {
+      position: 2,
+      section_time_limit_seconds: 300,
+      question_set: {
+        id: 'set-chemistry',
+        title: 'Chemistry',
+        question_set_questions: [
+          { position: 1, question: question('c-1', 'What is the symbol for sodium?', ['S', 'Na']) },
+          { position: 2, question: question('c-2', 'What is the symbol for iron?', ['Fe', 'Ir']) },
+        ],
+      },
+    },
+  ],
+};
+
+const textOf = (questionId: string) => sectionedExam.exam_question_sets
+  .flatMap(eqs => eqs.question_set.question_set_questions)
+  .find(qsq => qsq.question.id === questionId)!.question.question_text;
+
+// Run the timers due in the next ms milliseconds, and the requests they start
+const advance = (ms: number) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+// The in-progress attempt the stubbed server starts
+let attempt: Awaited<ReturnType<typeof attemptApi.start>>;
+
+const renderExamPage = () => render(
+  <MemoryRouter initialEntries={['/exam/foundation-mock-test']}>
+    <Routes>
+      <Route path="/exam/:examLink" element={<ExamPage />} />
+      <Route path="/exam/:examLink/results/:attemptId" element={<h1>Exam results</h1>} />
+    </Routes>
+  </MemoryRouter>
+);
+
+// Open the exam link and start the exam from the start screen
+const openExam = async () => {
+  renderExamPage();
+  await advance(0);
+  fireEvent.click(screen.getByRole('button', { name: 'Start Exam' }));
+  await advance(0);
+};
+
+const submitExam = async () => {
+  fireEvent.click(screen.getByRole('button', { name: 'Submit Exam Early' }));
+  fireEvent.click(within(screen.getByText('Submit Exam?').parentElement!).getByRole('button', { name: 'Submit Exam' }));
+  await advance(0);
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: new Date('2024-05-01T09:00:00Z') });
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  const expiresAt = Date.now() + TIME_LIMIT_SECONDS * 1000;
+  attempt = {
+    id: 'attempt-1',
+    exam_id: exam.id,
+    user_id: 'user-1',
+    status: 'IN_PROGRESS',
+    total_time_seconds: TIME_LIMIT_SECONDS,
+    started_at: new Date().toISOString(),
+    expires_at: new Date(expiresAt).toISOString(),
+  };
+
+  vi.mocked(examApi.getByLink).mockReset().mockResolvedValue(exam as Awaited<ReturnType<typeof examApi.getByLink>>);
+  vi.mocked(attemptApi.getMyAttempts).mockReset().mockResolvedValue([]);
+  vi.mocked(attemptApi.start).mockReset().mockResolvedValue(attempt);
+  vi.mocked(attemptApi.submitAnswer).mockReset().mockImplementation(async (attemptId, data) => ({
+    ...data,
+    id: `answer-${data.question_id}`,
+    attempt_id: attemptId,
+    answered_at: new Date().toISOString(),
+  }));
+  vi.mocked(attemptApi.submit).mockReset().mockResolvedValue({ ...attempt, status: 'SUBMITTED' });
+  vi.mocked(attemptApi.getTimeRemaining).mockReset().mockImplementation(async () => ({
+    time_remaining_seconds: Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000)),
+    server_timestamp: new Date().toISOString(),
+  }));
+});
+
+describe('ExamPage', () => {
+  it('keeps answers until the connection recovers and submits them before the exam', async () => {
+    vi.mocked(attemptApi.submitAnswer)
+      .mockRejectedValueOnce(new ApiError('Could not reach the server', 0, 'NETWORK_ERROR'));
+    await openExam();
+
+    expect(screen.getByText('What is 2 + 2?')).toBeTruthy();
+    fireEvent.click(screen.getByText('4').closest('button')!);
+    await advance(0);
+    expect(screen.getByText('1 answer unsynced')).toBeTruthy();
+
+    // The queue sends it again once the retry delay has passed
+    await advance(1000);
+    expect(screen.queryByText(/unsynced/)).toBeNull();
+    expect(attemptApi.submitAnswer).toHaveBeenCalledTimes(2);
+    expect(attemptApi.submitAnswer).toHaveBeenLastCalledWith('attempt-1', expect.objectContaining({
+      question_id: 'q-1',
+      selected_option_index: 2,
+    }));
+
+    await submitExam();
+
+    // The unanswered question is sent as skipped before the attempt is finalized
+    expect(attemptApi.submitAnswer).toHaveBeenCalledWith('attempt-1', expect.objectContaining({
+      question_id: 'q-2',
+      selected_option_index: null,
+    }));
+    expect(attemptApi.submit).toHaveBeenCalledWith('attempt-1');
+    expect(screen.getByRole('heading', { name: 'Exam results' })).toBeTruthy();
+  });
+
+  it('deals a shuffled sectioned exam in the order the review pages show', async () => {
+    vi.mocked(examApi.getByLink).mockResolvedValue(sectionedExam as Awaited<ReturnType<typeof examApi.getByLink>>);
+    vi.mocked(attemptApi.start).mockResolvedValue({
+      ...attempt,
+      shuffle_seed: 7,
+      current_section_position: 1,
+      section_expires_at: new Date(Date.now() + 300 * 1000).toISOString(),
+    });
+    vi.mocked(attemptApi.closeSection).mockResolvedValue({ ...attempt, current_section_position: 2 });
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    await openExam();
+
+    const reviewOrder = orderAttemptAnswers(
+      ['p-1', 'p-2', 'p-3', 'c-1', 'c-2'].map(question_id => ({ question_id })),
+      sectionedExam.exam_question_sets,
+      sectionedExam,
+      7
+    ).map(answer => textOf(answer.question_id));
+
+    // Sections stay together, only the questions inside them are shuffled
+    const shown = [screen.getByText(/What is the unit of/).textContent];
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    shown.push(screen.getByText(/What is the unit of/).textContent);
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    shown.push(screen.getByText(/What is the unit of/).textContent);
+
+    fireEvent.click(screen.getByRole('button', { name: /Next Section/ }));
+    await advance(0);
+    expect(attemptApi.closeSection).toHaveBeenCalledWith('attempt-1', 1);
+    expect(screen.getByTitle('This section is closed').textContent).toContain('Physics');
+
+    shown.push(screen.getByText(/What is the symbol for/).textContent);
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    shown.push(screen.getByText(/What is the symbol for/).textContent);
+
+    expect(shown).toEqual(reviewOrder);
+  });
+
+  it('shows the review palette and the summary before submitting', async () => {
+    await openExam();
+
+    // Answer and flag the first question, skip the second
+    fireEvent.click(screen.getByText('4').closest('button')!);
+    fireEvent.click(screen.getByRole('button', { name: 'Mark for Review' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    await advance(0);
+
+    fireEvent.click(screen.getByRole('button', { name: /Questions/ }));
+    const palette = within(screen.getByText('Question Navigator').closest('div.bg-white') as HTMLElement);
+    expect(palette.getByRole('button', { name: '1' }).getAttribute('title')).toBe('Answered & marked');
+    expect(palette.getByRole('button', { name: '2' }).getAttribute('title')).toBe('Not answered');
+    fireEvent.click(palette.getByRole('button', { name: 'Marked for review (1)' }));
+    expect(palette.queryByRole('button', { name: '2' })).toBeNull();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Submit Exam Early' }));
+    const summary = within(screen.getByText('Submit Exam?').parentElement!);
+    expect(summary.getByText('Unanswered (1)')).toBeTruthy();
+    expect(summary.getByText('Marked for review (1)')).toBeTruthy();
+
+    fireEvent.click(summary.getByRole('button', { name: 'Return to Exam' }));
+    await advance(0);
+    expect(attemptApi.submit).not.toHaveBeenCalled();
+  });
+
+  it('records integrity events and submits at the limit the server counted towards', async () => {
+    vi.mocked(examApi.getByLink).mockResolvedValue({
+      ...exam,
+      proctoring_enabled: true,
+      max_violations: 2,
+    } as Awaited<ReturnType<typeof examApi.getByLink>>);
+    // One event was recorded before the page was reloaded
+    vi.mocked(attemptApi.start).mockResolvedValue({ ...attempt, integrity_violation_count: 1 });
+    vi.mocked(attemptApi.recordIntegrityEvents).mockReset().mockResolvedValue({ violation_count: 2 });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await openExam();
+    expect(screen.getByText('1 / 2 violation')).toBeTruthy();
+
+    await act(async () => {
+      document.dispatchEvent(new Event('paste', { cancelable: true }));
+    });
+    expect(screen.getByText(/Too many integrity violations were recorded/)).toBeTruthy();
+    await advance(0);
+
+    expect(attemptApi.recordIntegrityEvents).toHaveBeenCalledWith('attempt-1', [
+      expect.objectContaining({ type: 'PASTE' }),
+    ]);
+    expect(vi.mocked(attemptApi.recordIntegrityEvents).mock.invocationCallOrder[0])
+      .toBeLessThan(vi.mocked(attemptApi.submit).mock.invocationCallOrder[0]);
+
+    await advance(2000);
+    expect(screen.getByRole('heading', { name: 'Exam results' })).toBeTruthy();
+  });
+
+  it('sends the time spent on each question with its answer', async () => {
+    await openExam();
+
+    await advance(20 * 1000);
+    fireEvent.click(screen.getByText('4').closest('button')!);
+    await advance(0);
+    expect(attemptApi.submitAnswer).toHaveBeenLastCalledWith('attempt-1', expect.objectContaining({
+      question_id: 'q-1',
+      time_spent_seconds: 20,
+      visit_count: 1,
+      answer_changes: 0,
+    }));
+
+    await advance(5 * 1000);
+    fireEvent.click(screen.getByText('5').closest('button')!);
+    await advance(0);
+    expect(attemptApi.submitAnswer).toHaveBeenLastCalledWith('attempt-1', expect.objectContaining({
+      question_id: 'q-1',
+      selected_option_index: 3,
+      time_spent_seconds: 25,
+      answer_changes: 1,
+    }));
+
+    // Time on a skipped question is sent with its empty answer at submit
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    await advance(10 * 1000);
+    await submitExam();
+    expect(attemptApi.submitAnswer).toHaveBeenCalledWith('attempt-1', expect.objectContaining({
+      question_id: 'q-2',
+      selected_option_index: null,
+      time_spent_seconds: 10,
+      visit_count: 1,
+    }));
+  });
+
+  it('checks the attempt limit when the exam opens during the countdown', async () => {
+    vi.mocked(examApi.getByLink).mockResolvedValue({
+      ...exam,
+      max_attempts: 1,
+      opens_at: new Date(Date.now() + 10_000).toISOString(),
+    } as Awaited<ReturnType<typeof examApi.getByLink>>);
+    vi.mocked(attemptApi.getMyAttempts).mockResolvedValue([{ ...attempt, status: 'SUBMITTED', score: 80 }]);
+    renderExamPage();
+    await advance(0);
+
+    expect(screen.getByText('Opens in')).toBeTruthy();
+    expect(attemptApi.getMyAttempts).not.toHaveBeenCalled();
+
+    await advance(10_000);
+    expect(screen.getByText('No Attempts Remaining')).toBeTruthy();
+    expect(attemptApi.start).not.toHaveBeenCalled();
+  });
+});
@@ -1,10 +1,18 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { examApi, attemptApi } from '../lib/api';
-import { User, Clock, AlertCircle, LogIn } from 'lucide-react';
-import { ExamInterface } from '../components/student/ExamInterface';
+import { examApi, attemptApi, isAbortError } from '../lib/api';
+import { User, Clock, AlertCircle, LogIn, CalendarClock, Lock, RotateCcw } from 'lucide-react';
+import { StudentExamInterface } from '../components/student/StudentExamInterface';
 import { Exam } from '../types';
 import { useAuth } from '../contexts/AuthContext';
+import { getExamAvailability, getTimeUntilOpen, formatCountdown } from '../lib/examSchedule';
+import {
+  AttemptUsage,
+  DEFAULT_RETAKE_POLICY,
+  RETAKE_POLICY_LABELS,
+  getAttemptUsage,
+  getPolicyScore,
+} from '../lib/attemptPolicy';
 import Login from '../components/auth/Login';
 
 interface ExamData extends Omit<Exam, 'exam_link'> {
@@ -20,12 +28,41 @@ export function ExamPage() {
   const [exam, setExam] = useState<ExamData | null>(null);
   const [showForm, setShowForm] = useState(true);
   const [checkingExistingAttempt, setCheckingExistingAttempt] = useState(true);
+  const [now, setNow] = useState(Date.now());
+  const [attemptUsage, setAttemptUsage] = useState<AttemptUsage | null>(null);
+  const [countedScore, setCountedScore] = useState<number | null>(null);
+
+  // Scheduling windows apply to students; admins can always open an exam
+  const isStudent = userData?.role === 'STUDENT';
+  const availability = exam && isStudent ? getExamAvailability(exam, now) : 'LIVE';
 
   useEffect(() => {
-    loadExam();
+    const controller = new AbortController();
+    loadExam(controller.signal);
+    return () => controller.abort();
   }, [examLink]);
 
-  const loadExam = async () => {
+  // Tick while waiting for the exam to open so the countdown stays live
+  useEffect(() => {
+    if (availability !== 'UPCOMING') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [availability]);
+
+  // loadExam skips the start checks while the exam is upcoming, so run them once it opens
+  const previousAvailability = useRef(availability);
+  useEffect(() => {
+    const opened = previousAvailability.current === 'UPCOMING' && availability === 'LIVE';
+    previousAvailability.current = availability;
+    if (!opened || !exam || !currentUser) return;
+
+    const controller = new AbortController();
+    setCheckingExistingAttempt(true);
+    checkBeforeStart(exam, controller.signal);
+    return () => controller.abort();
+  }, [availability]);
+
+  const loadExam = async (signal?: AbortSignal) => {
     if (!examLink) {
       setError('No exam link provided');
       setLoading(false);
@@ -36,7 +73,7 @@ export function ExamPage() {
     try {
       setLoading(true);
       setError(null);
-      const examData = await examApi.getByLink(examLink);
+      const examData = await examApi.getByLink(examLink, { signal });
       setExam({
         ...examData,
         questions: [], // Questions will be loaded when exam starts
@@ -44,21 +81,51 @@ export function ExamPage() {
       } as ExamData);
       
       // Check if there's an ongoing attempt with active timer
-      if (currentUser) {
-        await checkForOngoingAttempt(examData.id);
+      // (outside the availability window, starting an attempt would be rejected)
+      if (currentUser && getExamAvailability(examData) === 'LIVE') {
+        await checkBeforeStart(examData, signal);
       } else {
         setCheckingExistingAttempt(false);
       }
     } catch (err: any) {
+      if (isAbortError(err)) return;
       setError(err.message || 'Failed to load exam');
       console.error('Error loading exam:', err);
       setCheckingExistingAttempt(false);
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
     }
   };
   
-  const checkForOngoingAttempt = async (examId: string) => {
+  const checkBeforeStart = async (examData: Pick<ExamData, 'id' | 'max_attempts' | 'retake_policy'>, signal?: AbortSignal) => {
+    // Starting would create a new attempt, so check the attempt limit first
+    const withinLimit = await checkAttemptLimit(examData, signal);
+    // Left the page meanwhile: don't start an attempt nobody is waiting for
+    if (signal?.aborted) return;
+    if (withinLimit) {
+      await checkForOngoingAttempt(examData.id, signal);
+    } else {
+      setCheckingExistingAttempt(false);
+    }
+  };
+
+  // Returns false when the user has used up all attempts for this exam
+  const checkAttemptLimit = async (examData: Pick<ExamData, 'id' | 'max_attempts' | 'retake_policy'>, signal?: AbortSignal) => {
+    try {
+      const myAttempts = await attemptApi.getMyAttempts(undefined, { signal });
+      const examAttempts = myAttempts.filter(a => a.exam_id === examData.id);
+      const usage = getAttemptUsage(examData, examAttempts);
+      setAttemptUsage(usage);
+      setCountedScore(getPolicyScore(examAttempts, examData.retake_policy)?.score ?? null);
+      return !usage.limitReached;
+    } catch (err) {
+      // The backend enforces the limit on start as well
+      console.error('Error checking attempt limit:', err);
+      return true;
+    }
+  };
+
+  const checkForOngoingAttempt = async (examId: string, signal?: AbortSignal) => {
     try {
       // Try to get or create an attempt
       const attempt = await attemptApi.start(examId);
@@ -68,14 +135,12 @@ export function ExamPage() {
       const existingTimer = localStorage.getItem(timerStartKey);
       
       if (existingTimer && attempt.status === 'IN_PROGRESS') {
-        // Calculate if timer is still valid
-        const elapsed = Math.floor((Date.now() - parseInt(existingTimer)) / 1000);
-        const remaining = Math.max(0, attempt.total_time_seconds - elapsed);
+        // Ask the server whether the attempt still has time left (local clock is not trusted)
+        const { time_remaining_seconds: remaining } = await attemptApi.getTimeRemaining(attempt.id, { signal });
         
         if (remaining > 0) {
           console.log('🔄 Found ongoing attempt with active timer - skipping start screen', {
             attemptId: attempt.id,
-            elapsed,
             remaining
           });
           setShowForm(false); // Skip the form, go directly to exam
@@ -104,24 +169,30 @@ export function ExamPage() {
         setShowForm(true);
       }
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error('Error checking for ongoing attempt:', err);
       setShowForm(true); // Show form on error
     } finally {
-      setCheckingExistingAttempt(false);
+      if (!signal?.aborted) setCheckingExistingAttempt(false);
     }
   };
 
   const handleStartExam = (e: React.FormEvent) => {
     e.preventDefault();
+    // The window may have closed while the start screen was open
+    setNow(Date.now());
+    if (exam && isStudent && getExamAvailability(exam) !== 'LIVE') {
+      return;
+    }
     setShowForm(false);
   };
 
-  const handleSubmitExam = (resultData: { attemptId: string }) => {
+  const handleSubmitExam = (attemptId: string) => {
     try {
-      console.log('Exam submitted, navigating to results:', resultData);
-      if (resultData.attemptId) {
+      console.log('Exam submitted, navigating to results:', attemptId);
+      if (attemptId) {
         // Navigate to results page
-        navigate(`/exam/${examLink}/results/${resultData.attemptId}`);
+        navigate(`/exam/${examLink}/results/${attemptId}`);
       } else {
         throw new Error('No attempt ID received');
       }
@@ -228,6 +299,81 @@ export function ExamPage() {
     );
   }
 
+  if (attemptUsage?.limitReached) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white p-8 rounded-lg shadow-md max-w-md w-full text-center">
+          <RotateCcw className="w-16 h-16 text-orange-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">No Attempts Remaining</h2>
+          <p className="text-gray-600 mb-6">
+            You have used all {exam.max_attempts} attempt{exam.max_attempts !== 1 ? 's' : ''} allowed
+            for <strong>{exam.title}</strong>.
+          </p>
+          {countedScore !== null && (
+            <div className="mb-6 p-4 bg-blue-50 rounded-lg">
+              <p className="text-sm text-gray-600 mb-1">Your counted score</p>
+              <p className="text-3xl font-bold text-blue-700">{countedScore.toFixed(1)}%</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {RETAKE_POLICY_LABELS[exam.retake_policy || DEFAULT_RETAKE_POLICY]}
+              </p>
+            </div>
+          )}
+          <button
+            onClick={() => navigate('/')}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Go to Home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (availability === 'UPCOMING') {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4">
+        <div className="bg-white p-8 rounded-lg shadow-md max-w-md w-full text-center">
+          <CalendarClock className="w-16 h-16 text-blue-600 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">{exam.title}</h2>
+          <p className="text-gray-600 mb-6">
+            This exam opens on {new Date(exam.opens_at!).toLocaleString()}
+          </p>
+          <div className="mb-6 p-4 bg-blue-50 rounded-lg">
+            <p className="text-sm text-gray-600 mb-1">Opens in</p>
+            <p className="text-3xl font-bold font-mono text-blue-700">
+              {formatCountdown(getTimeUntilOpen(exam, now))}
+            </p>
+          </div>
+          <p className="text-sm text-gray-600">
+            <Clock className="inline w-4 h-4 mr-1" />
+            {Math.floor(exam.time_limit_seconds / 60)} minutes
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (availability === 'CLOSED') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white p-8 rounded-lg shadow-md max-w-md w-full text-center">
+          <Lock className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Exam Closed</h2>
+          <p className="text-gray-600 mb-6">
+            <strong>{exam.title}</strong> closed on {new Date(exam.closes_at!).toLocaleString()} and
+            can no longer be started.
+          </p>
+          <button
+            onClick={() => navigate('/')}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Go to Home
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (showForm) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4">
@@ -239,6 +385,17 @@ export function ExamPage() {
                 <Clock className="w-5 h-5" />
                 Time Limit: {Math.floor(exam.time_limit_seconds / 60)} minutes
               </p>
+              {exam.closes_at && (
+                <p className="text-sm text-gray-500 mt-1">
+                  Available until {new Date(exam.closes_at).toLocaleString()}
+                </p>
+              )}
+              {attemptUsage && exam.max_attempts && (
+                <p className="text-sm text-gray-500 mt-1">
+                  Attempt {attemptUsage.used + 1} of {exam.max_attempts}
+                  {exam.max_attempts > 1 && ` · ${RETAKE_POLICY_LABELS[exam.retake_policy || DEFAULT_RETAKE_POLICY]}`}
+                </p>
+              )}
             </div>
 
             <div className="mb-6 p-4 bg-blue-50 rounded-lg">
@@ -275,11 +432,6 @@ export function ExamPage() {
   }
 
   return (
-    <ExamInterface
-      exam={exam as any}
-      studentName={userData?.name || currentUser?.displayName || 'Student'}
-      studentEmail={userData?.email || currentUser?.email || ''}
-      onSubmit={handleSubmitExam}
-    />
+    <StudentExamInterface examLink={examLink} onComplete={handleSubmitExam} />
   );
 }
@@ -0,0 +1,291 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { examApi, isAbortError } from '../lib/api';
+import { getOptionLabel, getPaperSeed, orderExamQuestions, orderOptions } from '../lib/questionOrder';
+import { formatMarks, getMarkingScheme, getQuestionMarking, hasNegativeMarking } from '../lib/marking';
+import { formatNumericAnswer, getCorrectIndices, getQuestionType } from '../lib/questionTypes';
+import { QuestionType } from '../types';
+import { ArrowLeft, AlertCircle, Printer } from 'lucide-react';
+import { LaTeX } from '../components/LaTeX';
+import { TextWithLaTeX } from '../components/TextWithLaTeX';
+
+// Printed variants. "Original" keeps the exam's question set order; the lettered
+// sets shuffle questions and options with a seed derived from the exam and letter.
+const PAPER_VARIANTS = ['', 'A', 'B', 'C'];
+
+interface PaperQuestion {
+  id: string;
+  question_type?: QuestionType;
+  question_text?: string;
+  question_latex?: string;
+  image_url?: string;
+  correct_answer_index?: number | null;
+  correct_answer_indices?: number[] | null;
+  numeric_answer?: number | null;
+  numeric_tolerance?: number | null;
+  explanation_latex?: string;
+  marks?: number | null;
+  penalty?: number | null;
+  options?: Array<{ option_index: number; option_text: string }>;
+}
+
+type PaperExam = Awaited<ReturnType<typeof examApi.getById>>;
+
+export function ExamPrintPage() {
+  const { examId } = useParams<{ examId: string }>();
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [exam, setExam] = useState<PaperExam | null>(null);
+  const [variant, setVariant] = useState('');
+  const [showAnswerKey, setShowAnswerKey] = useState(true);
+  const [showExplanations, setShowExplanations] = useState(true);
+
+  useEffect(() => {
+    if (!examId) return;
+    const controller = new AbortController();
+    loadExam(controller.signal);
+    return () => controller.abort();
+  }, [examId]);
+
+  const loadExam = async (signal?: AbortSignal) => {
+    if (!examId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setExam(await examApi.getById(examId, { signal }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading exam for printing:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load exam');
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading exam paper...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !exam) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Unable to Load Exam</h2>
+          <p className="text-gray-600 mb-4">{error || 'Exam not found'}</p>
+          <button
+            onClick={() => navigate('/admin/dashboard?tab=exams')}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Back to Admin Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Variants always shuffle, whatever the exam's own online shuffle settings are
+  const shuffleSettings = variant
+    ? { shuffle_questions: true, shuffle_within_sets: exam.shuffle_within_sets, shuffle_options: true }
+    : {};
+  const seed = getPaperSeed(exam.id, variant);
+  const questions = orderExamQuestions<PaperQuestion>(exam.exam_question_sets, shuffleSettings, seed);
+
+  // True/False keeps its natural order on paper
+  const getPaperOptions = (question: PaperQuestion) =>
+    getQuestionType(question) === 'TRUE_FALSE'
+      ? orderOptions(question.id, question.options || [], {}, seed)
+      : orderOptions(question.id, question.options || [], shuffleSettings, seed);
+
+  const getAnswerText = (question: PaperQuestion): string => {
+    if (getQuestionType(question) === 'NUMERIC') {
+      return formatNumericAnswer(question.numeric_answer, question.numeric_tolerance);
+    }
+    const options = getPaperOptions(question);
+    const labels = getCorrectIndices(question)
+      .map(index => options.findIndex(opt => opt.option_index === index))
+      .filter(position => position >= 0)
+      .sort((a, b) => a - b)
+      .map(getOptionLabel);
+    return labels.join(', ') || 'N/A';
+  };
+
+  const scheme = getMarkingScheme(exam);
+  const totalMarks = questions.reduce((sum, question) => sum + getQuestionMarking(exam, question).marks_per_correct, 0);
+  const hasCustomMarks = questions.some(question => question.marks != null || question.penalty != null);
+  const paperTitle = variant ? `${exam.title} - Set ${variant}` : exam.title;
+
+  return (
+    <div className="max-w-4xl mx-auto print:max-w-none">
+      {/* Print controls */}
+      <div className="bg-white rounded-lg shadow-sm border p-4 mb-6 flex flex-wrap items-center gap-4 print:hidden">
+        <button
+          onClick={() => navigate('/admin/dashboard?tab=exams')}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Paper
+          <select
+            value={variant}
+            onChange={(e) => setVariant(e.target.value)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          >
+            {PAPER_VARIANTS.map(v => (
+              <option key={v} value={v}>{v ? `Set ${v} (shuffled)` : 'Original order'}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showAnswerKey}
+            onChange={(e) => setShowAnswerKey(e.target.checked)}
+            className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+          />
+          Answer key
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showExplanations}
+            disabled={!showAnswerKey}
+            onChange={(e) => setShowExplanations(e.target.checked)}
+            className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+          />
+          Explanations
+        </label>
+        <button
+          onClick={() => window.print()}
+          disabled={questions.length === 0}
+          className="ml-auto flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          <Printer className="w-4 h-4" />
+          Print / Save as PDF
+        </button>
+      </div>
+
+      {/* Question paper */}
+      <div className="bg-white rounded-lg shadow-sm border p-8 text-gray-900 print:shadow-none print:border-0 print:rounded-none print:p-0">
+        <div className="text-center border-b-2 border-gray-900 pb-4 mb-6">
+          <h1 className="text-2xl font-bold">{paperTitle}</h1>
+          <div className="flex justify-center flex-wrap gap-x-6 gap-y-1 mt-2 text-sm">
+            <span>Time: {Math.round(exam.time_limit_seconds / 60)} minutes</span>
+            <span>Questions: {questions.length}</span>
+            <span>Total marks: {formatMarks(totalMarks)}</span>
+          </div>
+          <p className="mt-1 text-sm">
+            {formatMarks(scheme.marks_per_correct, true)} for each correct answer
+            {hasNegativeMarking(exam) ? `, -${formatMarks(scheme.penalty_per_wrong)} for each wrong answer` : ', no negative marking'}
+            {hasCustomMarks && ' (unless shown otherwise)'}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-6 mb-8 text-sm">
+          <div className="border-b border-gray-400 pb-1">Name:</div>
+          <div className="border-b border-gray-400 pb-1">Roll No:</div>
+        </div>
+
+        {questions.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">This exam has no questions yet.</p>
+        ) : (
+          <ol className="space-y-6">
+            {questions.map((question, index) => {
+              const type = getQuestionType(question);
+              const marking = getQuestionMarking(exam, question);
+              const customMarking = question.marks != null || question.penalty != null;
+
+              return (
+                <li key={question.id} className="break-inside-avoid">
+                  <div className="flex gap-3">
+                    <span className="font-semibold">{index + 1}.</span>
+                    <div className="flex-1 min-w-0">
+                      {question.question_text && <TextWithLaTeX text={question.question_text} />}
+                      {question.question_latex && (
+                        <div className="my-2">
+                          <LaTeX block>{question.question_latex}</LaTeX>
+                        </div>
+                      )}
+                      {question.image_url && (
+                        <img
+                          src={question.image_url}
+                          alt={`Question ${index + 1}`}
+                          className="my-2 max-h-64 max-w-full object-contain"
+                        />
+                      )}
+                      {(type === 'MULTI_SELECT' || customMarking) && (
+                        <p className="text-xs text-gray-600 mt-1">
+                          {type === 'MULTI_SELECT' && 'Select all that apply. '}
+                          {customMarking && `[${formatMarks(marking.marks_per_correct, true)}${marking.penalty_per_wrong > 0 ? ` / -${formatMarks(marking.penalty_per_wrong)}` : ''}]`}
+                        </p>
+                      )}
+
+                      {type === 'NUMERIC' ? (
+                        <div className="mt-3 flex items-center gap-2 text-sm">
+                          Answer:
+                          <span className="inline-block w-40 h-8 border border-gray-900"></span>
+                        </div>
+                      ) : (
+                        <div className="mt-2 grid grid-cols-2 gap-x-6 gap-y-1">
+                          {getPaperOptions(question).map((option, position) => (
+                            <div key={option.option_index} className="flex gap-2">
+                              <span className="font-medium">({getOptionLabel(position)})</span>
+                              <TextWithLaTeX text={option.option_text} />
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+
+      {/* Answer key, always starts on a new printed page */}
+      {showAnswerKey && questions.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border p-8 mt-6 text-gray-900 break-before-page print:shadow-none print:border-0 print:rounded-none print:p-0 print:mt-0">
+          <h2 className="text-xl font-bold text-center border-b-2 border-gray-900 pb-3 mb-6">
+            Answer Key - {paperTitle}
+          </h2>
+
+          <div className="grid grid-cols-5 gap-2 text-sm mb-8">
+            {questions.map((question, index) => (
+              <div key={question.id} className="border border-gray-300 px-2 py-1">
+                <span className="font-semibold">{index + 1}.</span> {getAnswerText(question)}
+              </div>
+            ))}
+          </div>
+
+          {showExplanations && questions.some(question => question.explanation_latex) && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold">Explanations</h3>
+              {questions.map((question, index) => question.explanation_latex && (
+                <div key={question.id} className="break-inside-avoid border-b border-gray-200 pb-3">
+                  <p className="font-semibold text-sm">
+                    {index + 1}. Answer: {getAnswerText(question)}
+                  </p>
+                  <LaTeX block>{question.explanation_latex}</LaTeX>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
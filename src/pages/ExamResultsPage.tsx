@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { attemptApi } from '../lib/api';
+import { attemptApi, isAbortError } from '../lib/api';
 import { CheckCircle, XCircle, Clock, User, ArrowLeft, RotateCcw, Eye } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { formatMarks, getAttemptMarks } from '../lib/marking';
+import { SectionPerformance } from '../components/student/SectionPerformance';
 
 export function ExamResultsPage() {
   const { examLink, attemptId } = useParams<{ examLink: string; attemptId: string }>();
@@ -13,10 +15,12 @@ export function ExamResultsPage() {
   const [attempt, setAttempt] = useState<any>(null);
 
   useEffect(() => {
-    loadResults();
+    const controller = new AbortController();
+    loadResults(controller.signal);
+    return () => controller.abort();
   }, [attemptId]);
 
-  const loadResults = async () => {
+  const loadResults = async (signal?: AbortSignal) => {
     if (!attemptId) {
       setError('No attempt ID provided');
       setLoading(false);
@@ -26,13 +30,14 @@ export function ExamResultsPage() {
     try {
       setLoading(true);
       setError(null);
-      const attemptData = await attemptApi.getById(attemptId);
+      const attemptData = await attemptApi.getById(attemptId, { signal });
       setAttempt(attemptData);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       setError(err.message || 'Failed to load exam results');
       console.error('Error loading results:', err);
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
     }
   };
 
@@ -65,7 +70,7 @@ export function ExamResultsPage() {
               Go Home
             </button>
             <button
-              onClick={loadResults}
+              onClick={() => loadResults()}
               className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
             >
               <RotateCcw className="w-4 h-4 inline mr-2" />
@@ -79,7 +84,11 @@ export function ExamResultsPage() {
 
   const score = attempt.score || 0;
   const totalQuestions = attempt.total_questions || 0;
-  const percentage = totalQuestions > 0 ? Math.round((score / totalQuestions) * 100) : 0;
+  // Marks under the exam's marking scheme (e.g. +4 / -1) take precedence over the plain count
+  const marks = getAttemptMarks(attempt);
+  const percentage = marks
+    ? Math.round(marks.percentage)
+    : totalQuestions > 0 ? Math.round((score / totalQuestions) * 100) : 0;
   const passed = percentage >= 60; // Assuming 60% is passing
 
   return (
@@ -126,9 +135,24 @@ export function ExamResultsPage() {
             }`}>
               {percentage}%
             </div>
-            <p className="text-xl text-gray-700 mb-4">
-              {score} out of {totalQuestions} correct
-            </p>
+            {marks ? (
+              <>
+                <p className={`text-xl text-gray-700 ${marks.lost > 0 ? 'mb-1' : 'mb-4'}`}>
+                  {formatMarks(marks.obtained)} out of {formatMarks(marks.maximum)} marks
+                </p>
+                {marks.lost > 0 && (
+                  <p className="text-sm text-gray-500 mb-4">
+                    {marks.correct} correct ({formatMarks(marks.gained, true)}) ·{' '}
+                    {marks.wrong} wrong ({formatMarks(-marks.lost)}) ·{' '}
+                    {marks.skipped} skipped
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-xl text-gray-700 mb-4">
+                {score} out of {totalQuestions} correct
+              </p>
+            )}
             <div className={`inline-flex items-center px-4 py-2 rounded-full text-sm font-medium ${
               passed 
                 ? 'bg-green-100 text-green-800' 
@@ -165,14 +189,14 @@ export function ExamResultsPage() {
           <div className="mb-6">
             <div className="flex justify-between text-sm text-gray-600 mb-2">
               <span>Score Progress</span>
-              <span>{score}/{totalQuestions}</span>
+              <span>{marks ? `${formatMarks(marks.obtained)}/${formatMarks(marks.maximum)}` : `${score}/${totalQuestions}`}</span>
             </div>
             <div className="w-full bg-gray-200 rounded-full h-3">
               <div 
                 className={`h-3 rounded-full transition-all duration-500 ${
                   passed ? 'bg-green-500' : 'bg-red-500'
                 }`}
-                style={{ width: `${percentage}%` }}
+                style={{ width: `${Math.min(100, Math.max(0, percentage))}%` }}
               ></div>
             </div>
           </div>
@@ -192,6 +216,11 @@ export function ExamResultsPage() {
           </div>
         </div>
 
+        {/* Section Performance */}
+        {attempt.section_performance && attempt.section_performance.length > 0 && (
+          <SectionPerformance sections={attempt.section_performance} />
+        )}
+
         {/* Actions */}
         <div className="flex gap-4">
           <button
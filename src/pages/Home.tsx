@@ -1,6 +1,7 @@
 import { useNavigate } from 'react-router-dom';
-import { BookOpen, Plus, Settings, GraduationCap, BarChart3, FileText } from 'lucide-react';
+import { BookOpen, BookX, Plus, Settings, GraduationCap, BarChart3, FileText } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { hasCapability } from '../lib/permissions';
 
 export function HomePage() {
   const navigate = useNavigate();
@@ -41,39 +42,43 @@ export function HomePage() {
             </div>
           </div>
 
-          <div 
-            onClick={() => navigate('/admin/dashboard?tab=question-sets')}
-            className="bg-white p-8 rounded-lg shadow-md hover:shadow-lg transition-shadow cursor-pointer border-2 border-transparent hover:border-blue-200"
-          >
-            <div className="flex flex-col items-center">
-              <div className="p-4 bg-blue-100 rounded-full mb-4">
-                <BookOpen className="w-8 h-8 text-blue-600" />
+          {hasCapability(userData, 'manage_content') && (
+            <div 
+              onClick={() => navigate('/admin/dashboard?tab=question-sets')}
+              className="bg-white p-8 rounded-lg shadow-md hover:shadow-lg transition-shadow cursor-pointer border-2 border-transparent hover:border-blue-200"
+            >
+              <div className="flex flex-col items-center">
+                <div className="p-4 bg-blue-100 rounded-full mb-4">
+                  <BookOpen className="w-8 h-8 text-blue-600" />
+                </div>
+                <h3 className="text-xl font-bold text-gray-900 mb-2">Question Sets</h3>
+                <p className="text-gray-600 text-center">
+                  Create and manage question sets with multiple questions organized by topics
+                </p>
               </div>
-              <h3 className="text-xl font-bold text-gray-900 mb-2">Question Sets</h3>
-              <p className="text-gray-600 text-center">
-                Create and manage question sets with multiple questions organized by topics
-              </p>
             </div>
-          </div>
+          )}
 
-          <div 
-            onClick={() => navigate('/admin/dashboard?tab=exams')}
-            className="bg-white p-8 rounded-lg shadow-md hover:shadow-lg transition-shadow cursor-pointer border-2 border-transparent hover:border-green-200"
-          >
-            <div className="flex flex-col items-center">
-              <div className="p-4 bg-green-100 rounded-full mb-4">
-                <Plus className="w-8 h-8 text-green-600" />
+          {hasCapability(userData, 'manage_exams') && (
+            <div 
+              onClick={() => navigate('/admin/dashboard?tab=exams')}
+              className="bg-white p-8 rounded-lg shadow-md hover:shadow-lg transition-shadow cursor-pointer border-2 border-transparent hover:border-green-200"
+            >
+              <div className="flex flex-col items-center">
+                <div className="p-4 bg-green-100 rounded-full mb-4">
+                  <Plus className="w-8 h-8 text-green-600" />
+                </div>
+                <h3 className="text-xl font-bold text-gray-900 mb-2">Manage Exams</h3>
+                <p className="text-gray-600 text-center">
+                  Create, edit, and manage all exams with shareable links
+                </p>
               </div>
-              <h3 className="text-xl font-bold text-gray-900 mb-2">Manage Exams</h3>
-              <p className="text-gray-600 text-center">
-                Create, edit, and manage all exams with shareable links
-              </p>
             </div>
-          </div>
+          )}
         </div>
       ) : (
         /* Student View */
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-8 max-w-3xl mx-auto">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-8 max-w-4xl mx-auto">
           <div 
             onClick={() => navigate('/admin/dashboard')}
             className="bg-white p-8 rounded-lg shadow-md hover:shadow-lg transition-shadow cursor-pointer border-2 border-transparent hover:border-blue-200"
@@ -89,6 +94,21 @@ export function HomePage() {
             </div>
           </div>
 
+          <div 
+            onClick={() => navigate('/mistakes')}
+            className="bg-white p-8 rounded-lg shadow-md hover:shadow-lg transition-shadow cursor-pointer border-2 border-transparent hover:border-red-200"
+          >
+            <div className="flex flex-col items-center">
+              <div className="p-4 bg-red-100 rounded-full mb-4">
+                <BookX className="w-8 h-8 text-red-600" />
+              </div>
+              <h3 className="text-xl font-bold text-gray-900 mb-2">Mistakes Notebook</h3>
+              <p className="text-gray-600 text-center">
+                Revisit questions you got wrong until they stick
+              </p>
+            </div>
+          </div>
+
           <div 
             onClick={() => navigate('/profile')}
             className="bg-white p-8 rounded-lg shadow-md hover:shadow-lg transition-shadow cursor-pointer border-2 border-transparent hover:border-purple-200"
@@ -104,7 +124,7 @@ export function HomePage() {
             </div>
           </div>
 
-          <div className="md:col-span-2 bg-gradient-to-r from-blue-50 to-indigo-50 p-6 rounded-lg border-2 border-blue-100">
+          <div className="md:col-span-3 bg-gradient-to-r from-blue-50 to-indigo-50 p-6 rounded-lg border-2 border-blue-100">
             <div className="flex items-start gap-4">
               <FileText className="w-6 h-6 text-blue-600 flex-shrink-0 mt-1" />
               <div className="text-left">
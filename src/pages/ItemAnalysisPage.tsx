@@ -0,0 +1,410 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { examApi, isAbortError, questionApi } from '../lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import { hasCapability } from '../lib/permissions';
+import { getOptionLabel, orderExamQuestions } from '../lib/questionOrder';
+import { ITEM_FLAG_LABELS, ItemFlag, ItemStatistics, MIN_RELIABLE_ATTEMPTS, analyseItems } from '../lib/itemAnalysis';
+import { QUESTION_DIFFICULTY_LABELS, QUESTION_DIFFICULTY_STYLES, suggestDifficulty } from '../lib/questionDifficulty';
+import { QUESTION_TYPE_LABELS, formatNumericAnswer, getQuestionType } from '../lib/questionTypes';
+import { QuestionDifficulty, QuestionType } from '../types';
+import { ArrowLeft, AlertCircle, AlertTriangle, BarChart3, ChevronDown, ChevronUp, Gauge } from 'lucide-react';
+import { TextWithLaTeX } from '../components/TextWithLaTeX';
+
+interface AnalysedQuestion {
+  id: string;
+  question_type?: QuestionType;
+  question_text?: string;
+  question_latex?: string;
+  correct_answer_index?: number | null;
+  correct_answer_indices?: number[] | null;
+  numeric_answer?: number | null;
+  numeric_tolerance?: number | null;
+  difficulty?: QuestionDifficulty | null;
+  options?: Array<{ option_index: number; option_text: string }>;
+}
+
+type AnalysisExam = Awaited<ReturnType<typeof examApi.getById>>;
+type AnalysisAttempt = Awaited<ReturnType<typeof examApi.getAttempts>>[number];
+
+const FLAG_STYLES: Record<ItemFlag, string> = {
+  POSSIBLE_WRONG_KEY: 'bg-red-100 text-red-800 border-red-300',
+  NEGATIVE_DISCRIMINATION: 'bg-red-100 text-red-800 border-red-300',
+  LOW_DISCRIMINATION: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  TOO_EASY: 'bg-blue-100 text-blue-800 border-blue-300',
+  TOO_HARD: 'bg-purple-100 text-purple-800 border-purple-300',
+};
+
+const formatStatistic = (value: number | null) => (value === null ? '-' : value.toFixed(2));
+
+const getDiscriminationColor = (value: number | null) => {
+  if (value === null) return 'text-gray-500';
+  if (value < 0) return 'text-red-600';
+  if (value < 0.2) return 'text-yellow-600';
+  if (value < 0.4) return 'text-blue-600';
+  return 'text-green-600';
+};
+
+export function ItemAnalysisPage() {
+  const { examId } = useParams<{ examId: string }>();
+  const navigate = useNavigate();
+  const { userData } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [exam, setExam] = useState<AnalysisExam | null>(null);
+  const [attempts, setAttempts] = useState<AnalysisAttempt[]>([]);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Difficulty tags saved from this page, on top of the ones the exam was loaded with
+  const [calibrated, setCalibrated] = useState<Record<string, QuestionDifficulty>>({});
+  const [calibrating, setCalibrating] = useState(false);
+  const [calibrationMessage, setCalibrationMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!examId) return;
+    // Cancel the requests if the page is left before they finish
+    const controller = new AbortController();
+    loadData(controller.signal);
+    return () => controller.abort();
+  }, [examId]);
+
+  const loadData = async (signal?: AbortSignal) => {
+    if (!examId) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [examData, attemptsData] = await Promise.all([
+        examApi.getById(examId, { signal }),
+        examApi.getAttempts(examId, { take: 1000, include_answers: true }, { signal }),
+      ]);
+      setExam(examData);
+      setAttempts(attemptsData);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading item analysis:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load item analysis');
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading item analysis...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !exam) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <AlertCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-bold text-gray-900 mb-2">Unable to Load Item Analysis</h2>
+          <p className="text-gray-600 mb-4">{error || 'Exam not found'}</p>
+          <button
+            onClick={() => navigate('/admin/dashboard?tab=exams')}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Back to Admin Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Exam order, so question numbers match the exam as authored
+  const questions = orderExamQuestions<AnalysedQuestion>(exam.exam_question_sets, {}, 0);
+  const analysis = analyseItems(questions, attempts);
+  const flaggedCount = analysis.items.filter(item => item.flags.length > 0).length;
+  const rows = questions
+    .map((question, index) => ({ question, number: index + 1, item: analysis.items[index] }))
+    .filter(row => !flaggedOnly || row.item.flags.length > 0);
+
+  const getDifficultyTag = (question: AnalysedQuestion) => calibrated[question.id] || question.difficulty || null;
+  const uncalibrated = analysis.attemptCount > 0
+    ? questions
+      .map((question, index) => ({ question, suggested: suggestDifficulty(analysis.items[index].difficulty) }))
+      .filter(({ question, suggested }) => getDifficultyTag(question) !== suggested)
+    : [];
+  const canCalibrate = analysis.attemptCount >= MIN_RELIABLE_ATTEMPTS && uncalibrated.length > 0;
+
+  // Tag each question with the difficulty its p-value suggests
+  const applySuggestedDifficulties = async () => {
+    if (!window.confirm(
+      `Update the difficulty of ${uncalibrated.length} question${uncalibrated.length !== 1 ? 's' : ''} ` +
+      'to match how students actually did? This changes the questions in the question bank.'
+    )) return;
+
+    setCalibrating(true);
+    setCalibrationMessage(null);
+    const saved: Record<string, QuestionDifficulty> = {};
+    let failed = 0;
+    for (const { question, suggested } of uncalibrated) {
+      try {
+        await questionApi.update(question.id, { difficulty: suggested });
+        saved[question.id] = suggested;
+      } catch (err) {
+        console.error('Error updating question difficulty:', err);
+        failed++;
+      }
+    }
+    setCalibrated(prev => ({ ...prev, ...saved }));
+    setCalibrationMessage(failed > 0
+      ? `Updated ${Object.keys(saved).length} questions, ${failed} failed`
+      : `Updated ${Object.keys(saved).length} questions`);
+    setCalibrating(false);
+  };
+
+  const getKeyText = (question: AnalysedQuestion, item: ItemStatistics) => {
+    if (getQuestionType(question) === 'NUMERIC') {
+      return formatNumericAnswer(question.numeric_answer, question.numeric_tolerance);
+    }
+    return item.options
+      .filter(option => option.isKey)
+      .map(option => getOptionLabel(option.optionIndex - 1))
+      .join(', ') || 'N/A';
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => navigate('/admin/dashboard?tab=exams')}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5 text-gray-600" />
+            </button>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+                <BarChart3 className="w-6 h-6 text-purple-600" />
+                Item Analysis: {exam.title}
+              </h1>
+              <p className="text-gray-600">
+                Difficulty, discrimination and distractor statistics from {analysis.attemptCount} finished attempt{analysis.attemptCount !== 1 ? 's' : ''}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {analysis.attemptCount < MIN_RELIABLE_ATTEMPTS && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 text-yellow-600 mt-0.5" />
+            <p className="text-sm text-yellow-800">
+              Only {analysis.attemptCount} finished attempt{analysis.attemptCount !== 1 ? 's' : ''}. Item statistics need at
+              least {MIN_RELIABLE_ATTEMPTS} to be dependable, so treat the flags below as hints.
+            </p>
+          </div>
+        )}
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <p className="text-sm font-medium text-gray-600">Finished Attempts</p>
+            <p className="text-2xl font-bold text-gray-900">{analysis.attemptCount}</p>
+          </div>
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <p className="text-sm font-medium text-gray-600">Mean Score</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {analysis.meanScore.toFixed(1)} / {questions.length}
+            </p>
+          </div>
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <p className="text-sm font-medium text-gray-600">Upper / Lower Groups</p>
+            <p className="text-2xl font-bold text-gray-900">{analysis.groupSize} each</p>
+            <p className="text-xs text-gray-500">Top and bottom 27% by score</p>
+          </div>
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <p className="text-sm font-medium text-gray-600">Flagged Questions</p>
+            <p className={`text-2xl font-bold ${flaggedCount > 0 ? 'text-red-600' : 'text-green-600'}`}>{flaggedCount}</p>
+          </div>
+        </div>
+
+        {/* Items */}
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Questions</h3>
+            <div className="flex items-center gap-4">
+              {calibrationMessage && <span className="text-sm text-gray-600">{calibrationMessage}</span>}
+              {/* Re-tagging edits the questions, analysts only get to read the report */}
+              {hasCapability(userData, 'manage_content') && (
+                <button
+                  onClick={applySuggestedDifficulties}
+                  disabled={!canCalibrate || calibrating}
+                  title={analysis.attemptCount < MIN_RELIABLE_ATTEMPTS
+                    ? `Needs at least ${MIN_RELIABLE_ATTEMPTS} finished attempts`
+                    : uncalibrated.length === 0 ? 'All difficulty tags match the results' : undefined}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Gauge className="w-4 h-4" />
+                  {calibrating ? 'Updating...' : `Apply Suggested Difficulties${canCalibrate ? ` (${uncalibrated.length})` : ''}`}
+                </button>
+              )}
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={flaggedOnly}
+                  onChange={(e) => setFlaggedOnly(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 rounded"
+                />
+                Flagged only
+              </label>
+            </div>
+          </div>
+
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">#</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Question</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Key</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase" title="Share answering correctly">Difficulty (p)</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase" title="Upper group p minus lower group p">Discrimination</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase" title="Correlation with the rest of the test">Point-biserial</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Flags</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-6 py-8 text-center text-gray-500">
+                    {flaggedOnly ? 'No flagged questions' : 'This exam has no questions'}
+                  </td>
+                </tr>
+              ) : (
+                rows.map(({ question, number, item }) => {
+                  const expanded = expandedId === question.id;
+                  const tag = getDifficultyTag(question);
+                  const suggested = item.attempts > 0 ? suggestDifficulty(item.difficulty) : null;
+                  return [
+                    <tr key={question.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{number}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 max-w-md">
+                        <div className="line-clamp-2">
+                          <TextWithLaTeX text={question.question_latex || question.question_text || ''} />
+                        </div>
+                        <div className="text-xs text-gray-500">{QUESTION_TYPE_LABELS[getQuestionType(question)]}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm font-medium text-gray-900">{getKeyText(question, item)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-900">
+                        {item.difficulty.toFixed(2)}
+                        <div className="text-xs text-gray-500">{item.correct}/{item.attempts} correct</div>
+                        <div className="flex flex-wrap items-center gap-1 mt-1 text-xs">
+                          {tag ? (
+                            <span className={`px-1.5 py-0.5 rounded font-medium ${QUESTION_DIFFICULTY_STYLES[tag]}`}>
+                              {QUESTION_DIFFICULTY_LABELS[tag]}
+                            </span>
+                          ) : (
+                            <span className="text-gray-400">Untagged</span>
+                          )}
+                          {suggested && suggested !== tag && (
+                            <span className="text-gray-500" title="Suggested by the share answering correctly">
+                              → {QUESTION_DIFFICULTY_LABELS[suggested]}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className={`px-4 py-3 text-sm font-semibold ${getDiscriminationColor(item.discrimination)}`}>
+                        {formatStatistic(item.discrimination)}
+                      </td>
+                      <td className={`px-4 py-3 text-sm font-semibold ${getDiscriminationColor(item.pointBiserial)}`}>
+                        {formatStatistic(item.pointBiserial)}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-1">
+                          {item.flags.map(flag => (
+                            <span key={flag} className={`px-2 py-0.5 rounded border text-xs font-medium ${FLAG_STYLES[flag]}`}>
+                              {ITEM_FLAG_LABELS[flag]}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        {item.options.length > 0 && (
+                          <button
+                            onClick={() => setExpandedId(expanded ? null : question.id)}
+                            className="p-1 text-gray-500 hover:text-gray-900"
+                            title="Distractor analysis"
+                          >
+                            {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                          </button>
+                        )}
+                      </td>
+                    </tr>,
+                    expanded && (
+                      <tr key={`${question.id}-options`} className="bg-gray-50">
+                        <td></td>
+                        <td colSpan={7} className="px-4 py-4">
+                          <p className="text-sm font-medium text-gray-700 mb-2">
+                            Option choices ({item.omitted} omitted)
+                          </p>
+                          <table className="text-sm">
+                            <thead>
+                              <tr className="text-xs text-gray-500 uppercase">
+                                <th className="pr-6 py-1 text-left">Option</th>
+                                <th className="pr-6 py-1 text-left">Chosen</th>
+                                <th className="pr-6 py-1 text-left">Upper group</th>
+                                <th className="pr-6 py-1 text-left">Lower group</th>
+                                <th className="py-1"></th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {item.options.map(option => (
+                                <tr key={option.optionIndex} className={option.isKey ? 'text-green-700 font-medium' : 'text-gray-700'}>
+                                  <td className="pr-6 py-1">
+                                    {getOptionLabel(option.optionIndex - 1)}.{' '}
+                                    {question.options?.find(opt => opt.option_index === option.optionIndex)?.option_text}
+                                    {option.isKey && ' (key)'}
+                                  </td>
+                                  <td className="pr-6 py-1">
+                                    <div className="flex items-center gap-2">
+                                      <div className="w-24 bg-gray-200 rounded-full h-2">
+                                        <div
+                                          className={`h-2 rounded-full ${option.isKey ? 'bg-green-500' : 'bg-gray-500'}`}
+                                          style={{ width: `${option.rate * 100}%` }}
+                                        />
+                                      </div>
+                                      {option.count} ({(option.rate * 100).toFixed(0)}%)
+                                    </div>
+                                  </td>
+                                  <td className="pr-6 py-1">{option.upperCount}</td>
+                                  <td className="pr-6 py-1">{option.lowerCount}</td>
+                                  <td className="py-1 text-xs text-yellow-700">
+                                    {option.nonFunctioning && 'Rarely chosen distractor'}
+                                    {!option.isKey && option.upperCount > option.lowerCount && 'Attracts stronger students'}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    ),
+                  ];
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="text-xs text-gray-500 mt-4">
+          Difficulty is the share of students answering correctly. Discrimination compares the top and bottom 27%
+          by score; 0.4 and above is good, below 0.2 needs review. A distractor picked more often than the key by
+          the top group usually means the key is wrong.
+        </p>
+      </div>
+    </div>
+  );
+}
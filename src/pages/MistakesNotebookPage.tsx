@@ -0,0 +1,305 @@
+import { useState, useEffect } from 'react';
+import { isAbortError, reviewApi } from '../lib/api';
+import {
+  REVIEW_GRADE_LABELS,
+  REVIEW_GRADE_QUALITY,
+  ReviewGrade,
+  formatDueIn,
+  isCardDue,
+  isCardMastered,
+  scheduleReview,
+} from '../lib/spacedRepetition';
+import { EMPTY_ANSWER, getCorrectIndices, hasAnswer, isAnswerCorrect } from '../lib/questionTypes';
+import { AnswerPayload } from '../types';
+import { AnswerableQuestion } from '../components/student/AnswerableQuestion';
+import { TextWithLaTeX } from '../components/TextWithLaTeX';
+import { AlertCircle, ArrowRight, BookX, CheckCircle, Clock, PlayCircle, Trash2 } from 'lucide-react';
+
+type ReviewCardWithQuestion = Awaited<ReturnType<typeof reviewApi.getMyCards>>[number];
+
+// Grades offered after a correct answer; a wrong answer is always graded AGAIN
+const CORRECT_GRADES: ReviewGrade[] = ['HARD', 'GOOD', 'EASY'];
+
+/**
+ * Mistakes notebook: every question the student got wrong in an exam, brought
+ * back on a spaced-repetition schedule until it sticks
+ */
+export function MistakesNotebookPage() {
+  const [cards, setCards] = useState<ReviewCardWithQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  const [queue, setQueue] = useState<string[]>([]); // Card ids due in this review session
+  const [answer, setAnswer] = useState<AnswerPayload>(EMPTY_ANSWER);
+  const [checked, setChecked] = useState<boolean | null>(null); // Whether the checked answer was correct
+  const [saving, setSaving] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadCards(controller.signal);
+    return () => controller.abort();
+  }, []);
+
+  const loadCards = async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      setError(null);
+      setCards(await reviewApi.getMyCards(undefined, { signal }));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading review cards:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load your mistakes notebook');
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  };
+
+  const dueCards = cards
+    .filter(card => isCardDue(card))
+    .sort((a, b) => new Date(a.due_at).getTime() - new Date(b.due_at).getTime());
+  const upcomingCards = cards
+    .filter(card => !isCardDue(card))
+    .sort((a, b) => new Date(a.due_at).getTime() - new Date(b.due_at).getTime());
+  const masteredCount = cards.filter(isCardMastered).length;
+  const currentCard = reviewing ? cards.find(card => card.id === queue[0]) : undefined;
+
+  const startReview = () => {
+    setQueue(dueCards.map(card => card.id));
+    setReviewedCount(0);
+    setAnswer(EMPTY_ANSWER);
+    setChecked(null);
+    setReviewing(true);
+  };
+
+  const checkAnswer = () => {
+    if (!currentCard || !hasAnswer(answer)) return;
+    setChecked(isAnswerCorrect(currentCard.question, answer));
+  };
+
+  // Save the review and move on to the next due card
+  const recordGrade = async (grade: ReviewGrade) => {
+    if (!currentCard) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const updated = await reviewApi.recordReview(
+        currentCard.id,
+        scheduleReview(currentCard, REVIEW_GRADE_QUALITY[grade])
+      );
+      setCards(prev => prev.map(card => (card.id === updated.id ? { ...card, ...updated } : card)));
+      setQueue(prev => prev.slice(1));
+      setReviewedCount(prev => prev + 1);
+      setAnswer(EMPTY_ANSWER);
+      setChecked(null);
+    } catch (err) {
+      console.error('Error saving review:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save your review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (cardId: string) => {
+    if (!window.confirm('Remove this question from your mistakes notebook?')) return;
+    try {
+      await reviewApi.delete(cardId);
+      setCards(prev => prev.filter(card => card.id !== cardId));
+    } catch (err) {
+      console.error('Error removing review card:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove the card');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading mistakes notebook...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const errorBanner = error && (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 flex items-start gap-3">
+      <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+      <p className="text-sm text-red-700">{error}</p>
+    </div>
+  );
+
+  // Review session
+  if (reviewing) {
+    if (!currentCard) {
+      return (
+        <div className="max-w-3xl mx-auto">
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">All Caught Up</h2>
+            <p className="text-gray-600 mb-6">
+              You reviewed {reviewedCount} question{reviewedCount !== 1 ? 's' : ''}.
+              {upcomingCards.length > 0 && ` The next one is due ${formatDueIn(upcomingCards[0].due_at)}.`}
+            </p>
+            <button
+              onClick={() => setReviewing(false)}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-semibold"
+            >
+              Back to Notebook
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="max-w-3xl mx-auto">
+        <div className="flex items-center justify-between mb-6 text-sm text-gray-600">
+          <span>
+            {reviewedCount + 1} of {reviewedCount + queue.length}
+            {currentCard.source_exam && <> · missed in <span className="font-medium">{currentCard.source_exam.title}</span></>}
+          </span>
+          <button
+            onClick={() => setReviewing(false)}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+          >
+            Stop Reviewing
+          </button>
+        </div>
+
+        {errorBanner}
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <AnswerableQuestion
+            question={currentCard.question}
+            answer={answer}
+            onAnswerChange={setAnswer}
+            feedback={checked !== null ? {
+              isCorrect: checked,
+              correctIndices: getCorrectIndices(currentCard.question),
+              numericAnswer: currentCard.question.numeric_answer,
+              numericTolerance: currentCard.question.numeric_tolerance,
+              explanationLatex: currentCard.question.explanation_latex,
+              videoSolutionUrl: currentCard.question.video_solution_url,
+            } : null}
+          />
+
+          <div className="flex justify-end gap-3 mt-8 pt-6 border-t border-gray-200">
+            {checked === null ? (
+              <button
+                onClick={checkAnswer}
+                disabled={!hasAnswer(answer)}
+                className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
+              >
+                Check Answer
+              </button>
+            ) : checked ? (
+              <>
+                <span className="self-center text-sm text-gray-600">How hard was it?</span>
+                {CORRECT_GRADES.map(grade => (
+                  <button
+                    key={grade}
+                    onClick={() => recordGrade(grade)}
+                    disabled={saving}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 font-medium"
+                  >
+                    {REVIEW_GRADE_LABELS[grade]}
+                  </button>
+                ))}
+              </>
+            ) : (
+              <button
+                onClick={() => recordGrade('AGAIN')}
+                disabled={saving}
+                className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 font-semibold"
+              >
+                Next
+                <ArrowRight className="w-5 h-5" />
+              </button>
+            )}
+          </div>
+          {checked === false && (
+            <p className="text-xs text-gray-500 text-right mt-2">This question will come back tomorrow.</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="flex items-center gap-3 mb-2">
+        <BookX className="w-7 h-7 text-red-600" />
+        <h1 className="text-2xl font-bold text-gray-900">Mistakes Notebook</h1>
+      </div>
+      <p className="text-gray-600 mb-6">
+        Questions you got wrong in exams come back here on a spaced schedule. Answer correctly and they return
+        less often; miss one and it starts over.
+      </p>
+
+      {errorBanner}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <p className="text-sm font-medium text-gray-600">Due Now</p>
+          <p className={`text-3xl font-bold ${dueCards.length > 0 ? 'text-red-600' : 'text-gray-900'}`}>{dueCards.length}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <p className="text-sm font-medium text-gray-600">In Notebook</p>
+          <p className="text-3xl font-bold text-gray-900">{cards.length}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <p className="text-sm font-medium text-gray-600">Mastered</p>
+          <p className="text-3xl font-bold text-green-600">{masteredCount}</p>
+        </div>
+      </div>
+
+      <button
+        onClick={startReview}
+        disabled={dueCards.length === 0}
+        className="flex items-center gap-2 px-6 py-3 mb-8 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
+      >
+        <PlayCircle className="w-5 h-5" />
+        {dueCards.length > 0 ? `Review ${dueCards.length} Due Question${dueCards.length !== 1 ? 's' : ''}` : 'Nothing Due'}
+      </button>
+
+      {cards.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-12 text-center">
+          <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+          <p className="text-gray-600">No mistakes to review yet.</p>
+          <p className="text-sm text-gray-500 mt-2">Questions you answer incorrectly in exams will show up here.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md divide-y divide-gray-200">
+          {[...dueCards, ...upcomingCards].map(card => (
+            <div key={card.id} className="p-4 flex items-start gap-4">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-900 line-clamp-2">
+                  <TextWithLaTeX text={card.question.question_text || card.question.question_latex || 'Image question'} />
+                </div>
+                <div className="flex flex-wrap gap-x-4 text-xs text-gray-500 mt-1">
+                  {card.question.topic && <span>{card.question.topic.name}</span>}
+                  <span>Reviewed correctly {card.repetitions}× in a row</span>
+                  {card.lapses > 0 && <span>Reset {card.lapses}×</span>}
+                </div>
+              </div>
+              <span className={`flex items-center gap-1 text-xs font-medium whitespace-nowrap ${
+                isCardDue(card) ? 'text-red-600' : isCardMastered(card) ? 'text-green-600' : 'text-gray-600'
+              }`}>
+                <Clock className="w-3.5 h-3.5" />
+                {isCardDue(card) ? 'Due now' : `Due ${formatDueIn(card.due_at)}`}
+              </span>
+              <button
+                onClick={() => handleDelete(card.id)}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove from notebook"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
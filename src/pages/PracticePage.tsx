@@ -0,0 +1,405 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { isAbortError, practiceApi, topicApi } from '../lib/api';
+import {
+  DEFAULT_PRACTICE_DIFFICULTY,
+  QUESTION_DIFFICULTIES,
+  QUESTION_DIFFICULTY_LABELS,
+  QUESTION_DIFFICULTY_STYLES,
+  getNextDifficulty,
+} from '../lib/questionDifficulty';
+import { EMPTY_ANSWER, getCorrectIndices, hasAnswer } from '../lib/questionTypes';
+import { AnswerPayload, QuestionDifficulty } from '../types';
+import { AnswerableQuestion } from '../components/student/AnswerableQuestion';
+import { AlertCircle, ArrowRight, Dumbbell, PlayCircle, Square, Target } from 'lucide-react';
+
+type PracticeSession = Awaited<ReturnType<typeof practiceApi.startSession>>;
+type PracticeQuestion = NonNullable<Awaited<ReturnType<typeof practiceApi.getNextQuestion>>>;
+type PracticeFeedback = Awaited<ReturnType<typeof practiceApi.submitAnswer>>;
+
+interface PracticeResult {
+  question_id: string;
+  difficulty: QuestionDifficulty;
+  is_correct: boolean;
+}
+
+/**
+ * Self-paced, ungraded practice over chosen topics. The difficulty adapts to recent
+ * answers and every answer gets instant feedback with the explanation.
+ */
+export function PracticePage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [topics, setTopics] = useState<Array<{ id: string; name: string }>>([]);
+  // ?topic=<id> (repeatable) preselects topics, e.g. from the topic mastery map
+  const [selectedTopicIds, setSelectedTopicIds] = useState<string[]>(() => searchParams.getAll('topic'));
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [session, setSession] = useState<PracticeSession | null>(null);
+  const [level, setLevel] = useState<QuestionDifficulty>(DEFAULT_PRACTICE_DIFFICULTY);
+  const [question, setQuestion] = useState<PracticeQuestion | null>(null);
+  const [questionShownAt, setQuestionShownAt] = useState(0);
+  const [answer, setAnswer] = useState<AnswerPayload>(EMPTY_ANSWER);
+  const [feedback, setFeedback] = useState<PracticeFeedback | null>(null);
+  const [results, setResults] = useState<PracticeResult[]>([]);
+  const [finished, setFinished] = useState(false);
+  const [exhausted, setExhausted] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadTopics(controller.signal);
+    return () => controller.abort();
+  }, []);
+
+  const loadTopics = async (signal?: AbortSignal) => {
+    try {
+      setLoading(true);
+      const topicsData = await topicApi.getAll(undefined, { signal });
+      setTopics(topicsData.map(t => ({ id: t.id, name: t.name })));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Error loading topics:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load topics');
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  };
+
+  const toggleTopic = (topicId: string) => {
+    setSelectedTopicIds(prev =>
+      prev.includes(topicId) ? prev.filter(id => id !== topicId) : [...prev, topicId]
+    );
+  };
+
+  const loadNextQuestion = async (sessionId: string, difficulty: QuestionDifficulty) => {
+    const next = await practiceApi.getNextQuestion(sessionId, difficulty);
+    setFeedback(null);
+    setAnswer(EMPTY_ANSWER);
+    if (!next) {
+      setQuestion(null);
+      setExhausted(true);
+      setFinished(true);
+      return;
+    }
+    // The backend may serve a neighbouring level when this one has run out
+    if (next.difficulty) setLevel(next.difficulty);
+    setQuestion(next);
+    setQuestionShownAt(Date.now());
+  };
+
+  const startPractice = async () => {
+    try {
+      setBusy(true);
+      setError(null);
+      const started = await practiceApi.startSession(selectedTopicIds);
+      setSession(started);
+      setResults([]);
+      setFinished(false);
+      setExhausted(false);
+      await loadNextQuestion(started.id, level);
+    } catch (err) {
+      console.error('Error starting practice:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start practice');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const checkAnswer = async () => {
+    if (!session || !question || !hasAnswer(answer)) return;
+
+    const servedAt = question.difficulty || level;
+    try {
+      setBusy(true);
+      setError(null);
+      const result = await practiceApi.submitAnswer(session.id, {
+        question_id: question.id,
+        ...answer,
+        difficulty: servedAt,
+        time_spent_seconds: Math.round((Date.now() - questionShownAt) / 1000),
+      });
+      const nextResults = [...results, { question_id: question.id, difficulty: servedAt, is_correct: result.is_correct }];
+      setFeedback(result);
+      setSession(result.session);
+      setResults(nextResults);
+      setLevel(getNextDifficulty(servedAt, nextResults));
+    } catch (err) {
+      console.error('Error submitting practice answer:', err);
+      setError(err instanceof Error ? err.message : 'Failed to check answer');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const goToNextQuestion = async () => {
+    if (!session) return;
+    try {
+      setBusy(true);
+      setError(null);
+      await loadNextQuestion(session.id, level);
+    } catch (err) {
+      console.error('Error loading next practice question:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the next question');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const endPractice = async () => {
+    if (!session) return;
+    try {
+      setBusy(true);
+      setError(null);
+      setSession(await practiceApi.endSession(session.id));
+      setQuestion(null);
+      setFinished(true);
+    } catch (err) {
+      console.error('Error ending practice:', err);
+      setError(err instanceof Error ? err.message : 'Failed to end practice');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const resetPractice = () => {
+    setSession(null);
+    setQuestion(null);
+    setFeedback(null);
+    setResults([]);
+    setFinished(false);
+    setExhausted(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading practice...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const answeredCount = session?.questions_answered ?? results.length;
+  const correctCount = session?.correct_answers ?? results.filter(result => result.is_correct).length;
+  const accuracy = answeredCount > 0 ? Math.round((correctCount / answeredCount) * 100) : 0;
+
+  const errorBanner = error && (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 flex items-start gap-3">
+      <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
+      <p className="text-sm text-red-700">{error}</p>
+    </div>
+  );
+
+  // Topic selection
+  if (!session) {
+    return (
+      <div className="max-w-3xl mx-auto">
+        <div className="flex items-center gap-3 mb-2">
+          <Dumbbell className="w-7 h-7 text-blue-600" />
+          <h1 className="text-2xl font-bold text-gray-900">Practice</h1>
+        </div>
+        <p className="text-gray-600 mb-6">
+          Pick the topics to practice. Questions get harder as you answer correctly and easier when you
+          struggle. Practice is not graded and doesn't count towards your exam results.
+        </p>
+
+        {errorBanner}
+
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-3">Topics</h3>
+            {topics.length === 0 ? (
+              <p className="text-sm text-gray-500">No topics available yet.</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {topics.map(topic => (
+                  <label
+                    key={topic.id}
+                    className={`flex items-center gap-2 p-3 rounded-lg border-2 cursor-pointer ${
+                      selectedTopicIds.includes(topic.id) ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedTopicIds.includes(topic.id)}
+                      onChange={() => toggleTopic(topic.id)}
+                      className="w-4 h-4 text-blue-600 rounded"
+                    />
+                    <span className="text-sm text-gray-900">{topic.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-3">Start at</h3>
+            <div className="flex gap-2">
+              {QUESTION_DIFFICULTIES.map(difficulty => (
+                <button
+                  key={difficulty}
+                  onClick={() => setLevel(difficulty)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium border-2 ${
+                    level === difficulty ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-700 hover:border-blue-300'
+                  }`}
+                >
+                  {QUESTION_DIFFICULTY_LABELS[difficulty]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={startPractice}
+            disabled={selectedTopicIds.length === 0 || busy}
+            className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
+          >
+            <PlayCircle className="w-5 h-5" />
+            {busy ? 'Starting...' : 'Start Practice'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Session summary
+  if (finished) {
+    return (
+      <div className="max-w-3xl mx-auto">
+        {errorBanner}
+        <div className="bg-white rounded-lg shadow-md p-8 text-center">
+          <Target className="w-12 h-12 text-blue-600 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Practice Complete</h2>
+          {exhausted && (
+            <p className="text-gray-600 mb-4">You've answered every question available for these topics.</p>
+          )}
+          <div className="grid grid-cols-3 gap-4 my-6">
+            <div>
+              <p className="text-sm text-gray-600">Answered</p>
+              <p className="text-2xl font-bold text-gray-900">{answeredCount}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Correct</p>
+              <p className="text-2xl font-bold text-green-600">{correctCount}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Accuracy</p>
+              <p className="text-2xl font-bold text-gray-900">{accuracy}%</p>
+            </div>
+          </div>
+          {results.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-1 mb-6">
+              {results.map((result, index) => (
+                <span
+                  key={`${result.question_id}-${index}`}
+                  title={`${QUESTION_DIFFICULTY_LABELS[result.difficulty]}: ${result.is_correct ? 'correct' : 'incorrect'}`}
+                  className={`w-6 h-6 rounded text-xs font-bold flex items-center justify-center ${QUESTION_DIFFICULTY_STYLES[result.difficulty]}`}
+                >
+                  {result.is_correct ? '✓' : '✗'}
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-center gap-3">
+            <button
+              onClick={resetPractice}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-semibold"
+            >
+              Practice Again
+            </button>
+            <button
+              onClick={() => navigate('/admin/dashboard')}
+              className="px-6 py-3 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300"
+            >
+              My Performance
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      {/* Session stats */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-4 text-sm">
+          <span className="text-gray-600">
+            Answered <span className="font-semibold text-gray-900">{answeredCount}</span>
+          </span>
+          <span className="text-gray-600">
+            Correct <span className="font-semibold text-green-600">{correctCount}</span>
+          </span>
+          <span className="text-gray-600">
+            Accuracy <span className="font-semibold text-gray-900">{accuracy}%</span>
+          </span>
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${QUESTION_DIFFICULTY_STYLES[level]}`}>
+            Next: {QUESTION_DIFFICULTY_LABELS[level]}
+          </span>
+        </div>
+        <button
+          onClick={endPractice}
+          disabled={busy}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 disabled:opacity-50 text-sm"
+        >
+          <Square className="w-4 h-4" />
+          End Session
+        </button>
+      </div>
+
+      {errorBanner}
+
+      {question && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center gap-2 mb-4 text-sm">
+            <span className="text-gray-500">{question.topic?.name}</span>
+            {question.difficulty && (
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${QUESTION_DIFFICULTY_STYLES[question.difficulty]}`}>
+                {QUESTION_DIFFICULTY_LABELS[question.difficulty]}
+              </span>
+            )}
+          </div>
+
+          <AnswerableQuestion
+            question={question}
+            answer={answer}
+            onAnswerChange={setAnswer}
+            feedback={feedback && {
+              isCorrect: feedback.is_correct,
+              correctIndices: getCorrectIndices({ ...feedback, question_type: question.question_type }),
+              numericAnswer: feedback.numeric_answer,
+              numericTolerance: feedback.numeric_tolerance,
+              explanationLatex: feedback.explanation_latex,
+              videoSolutionUrl: feedback.video_solution_url,
+            }}
+          />
+
+          <div className="flex justify-end mt-8 pt-6 border-t border-gray-200">
+            {feedback ? (
+              <button
+                onClick={goToNextQuestion}
+                disabled={busy}
+                className="flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 font-semibold"
+              >
+                Next Question
+                <ArrowRight className="w-5 h-5" />
+              </button>
+            ) : (
+              <button
+                onClick={checkAnswer}
+                disabled={!hasAnswer(answer) || busy}
+                className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-semibold"
+              >
+                {busy ? 'Checking...' : 'Check Answer'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
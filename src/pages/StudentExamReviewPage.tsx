@@ -1,6 +1,17 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { analyticsApi } from '../lib/api';
+import { analyticsApi, examApi, isAbortError } from '../lib/api';
+import { getAttemptSeed, getOptionLabel, orderAttemptAnswers, orderOptions } from '../lib/questionOrder';
+import { formatMarks, getAnswerMarks, getAnswerOutcome, getAttemptMarks, getQuestionMarking } from '../lib/marking';
+import {
+  formatNumericAnswer,
+  getCorrectIndices,
+  getQuestionType,
+  getSelectedIndices,
+  isAnswerCorrect,
+  isOptionSelected,
+} from '../lib/questionTypes';
+import { formatDuration, hasTimingData } from '../lib/questionTiming';
 import { useAuth } from '../contexts/AuthContext';
 import { 
   ArrowLeft, 
@@ -16,6 +27,9 @@ import {
 } from 'lucide-react';
 import { LaTeX } from '../components/LaTeX';
 import { TextWithLaTeX } from '../components/TextWithLaTeX';
+import { QuestionTimeHeatmap } from '../components/student/QuestionTimeHeatmap';
+
+type ReviewAnswer = Awaited<ReturnType<typeof analyticsApi.getUserDetailedAttempts>>[number]['exam_answers'][number];
 
 export function StudentExamReviewPage() {
   const { attemptId } = useParams<{ attemptId: string }>();
@@ -24,14 +38,16 @@ export function StudentExamReviewPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [attemptDetails, setAttemptDetails] = useState<any>(null);
+  const [examStructure, setExamStructure] = useState<Awaited<ReturnType<typeof examApi.getById>> | null>(null); // Shuffle settings and question sets
 
   useEffect(() => {
-    if (attemptId && userData?.id) {
-      loadAttemptDetails();
-    }
+    if (!attemptId || !userData?.id) return;
+    const controller = new AbortController();
+    loadAttemptDetails(controller.signal);
+    return () => controller.abort();
   }, [attemptId, userData?.id]);
 
-  const loadAttemptDetails = async () => {
+  const loadAttemptDetails = async (signal?: AbortSignal) => {
     if (!attemptId || !userData?.id) return;
 
     setLoading(true);
@@ -39,21 +55,32 @@ export function StudentExamReviewPage() {
 
     try {
       // Get detailed attempts for current user
-      const detailedAttempts = await analyticsApi.getUserDetailedAttempts(userData.id, { take: 100 });
+      const detailedAttempts = await analyticsApi.getUserDetailedAttempts(userData.id, { take: 100 }, { signal });
       
       // Find the specific attempt
       const attempt = detailedAttempts.find(a => a.id === attemptId);
       
       if (attempt) {
         setAttemptDetails(attempt);
+        await loadExamStructure(attempt.exam_id, signal);
       } else {
         setError('Exam attempt not found or access denied');
       }
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error('Error loading attempt details:', err);
       setError(err.message || 'Failed to load exam review');
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
+    }
+  };
+
+  // Needed to reproduce the question/option order the student saw
+  const loadExamStructure = async (examId: string, signal?: AbortSignal) => {
+    try {
+      setExamStructure(await examApi.getById(examId, { signal }));
+    } catch (err) {
+      console.warn('Could not load exam structure, showing answers in stored order:', err);
     }
   };
 
@@ -104,6 +131,29 @@ export function StudentExamReviewPage() {
     );
   }
 
+  const shuffleSeed = getAttemptSeed(attemptDetails);
+  const shuffleSettings = examStructure || {};
+  const reviewAnswers = examStructure
+    ? orderAttemptAnswers(attemptDetails.exam_answers || [], examStructure.exam_question_sets, shuffleSettings, shuffleSeed)
+    : attemptDetails.exam_answers || [];
+
+  // Options in the order the student saw them, and the letter an option was shown with
+  const getDisplayOptions = <O extends { option_index: number }>(question: { id: string; options?: O[] }): O[] =>
+    orderOptions(question.id, question.options || [], shuffleSettings, shuffleSeed);
+  const getDisplayLabel = (question: { id: string; options?: Array<{ option_index: number }> }, optionIndex: number) =>
+    getOptionLabel(getDisplayOptions(question).findIndex(opt => opt.option_index === optionIndex));
+  const getDisplayLabels = (question: { id: string; options?: Array<{ option_index: number }> }, optionIndexes: number[]) =>
+    optionIndexes.map(optionIndex => getDisplayLabel(question, optionIndex)).join(', ');
+  const getOptionTexts = (question: { options?: Array<{ option_index: number; option_text: string }> }, optionIndexes: number[]) =>
+    optionIndexes.map(optionIndex => question.options?.find(opt => opt.option_index === optionIndex)?.option_text).join(', ');
+
+  // Marks under the exam's marking scheme, with per-question overrides
+  const markingExam = examStructure || attemptDetails.exam;
+  const attemptMarks = getAttemptMarks({ ...attemptDetails, answers: attemptDetails.exam_answers, exam: markingExam });
+  const finalScore: number = attemptMarks ? attemptMarks.percentage : attemptDetails.score || 0;
+  const getMarksAwarded = (answerData: { selected_option_index: number | null; is_correct?: boolean; question?: { marks?: number | null; penalty?: number | null } }) =>
+    getAnswerMarks(getAnswerOutcome(answerData), getQuestionMarking(markingExam, answerData.question));
+
   const correctAnswers = attemptDetails.exam_answers?.filter((a: any) => a.is_correct).length || 0;
   const totalQuestions = attemptDetails.exam_answers?.length || 0;
   const incorrectAnswers = totalQuestions - correctAnswers;
@@ -131,8 +181,12 @@ export function StudentExamReviewPage() {
           id: answer.question.id,
           text: answer.question.question_latex || answer.question.question_text,
           isLatex: !!answer.question.question_latex,
-          selectedAnswer: answer.question.options?.find((opt: any) => opt.option_index === answer.selected_option_index)?.option_text,
-          correctAnswer: answer.question.options?.find((opt: any) => opt.option_index === answer.question.correct_answer_index)?.option_text
+          selectedAnswer: getQuestionType(answer.question) === 'NUMERIC'
+            ? answer.numeric_answer?.toString()
+            : getOptionTexts(answer.question, getSelectedIndices(answer)),
+          correctAnswer: getQuestionType(answer.question) === 'NUMERIC'
+            ? formatNumericAnswer(answer.question.numeric_answer, answer.question.numeric_tolerance)
+            : getOptionTexts(answer.question, getCorrectIndices(answer.question))
         });
       });
     
@@ -175,9 +229,14 @@ export function StudentExamReviewPage() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-600">Final Score</p>
-                <p className={`text-2xl font-bold ${getPerformanceColor(attemptDetails.score).split(' ')[0]}`}>
-                  {attemptDetails.score?.toFixed(1) || '0.0'}%
+                <p className={`text-2xl font-bold ${getPerformanceColor(finalScore).split(' ')[0]}`}>
+                  {finalScore.toFixed(1)}%
                 </p>
+                {attemptMarks && (
+                  <p className="text-xs text-gray-500">
+                    {formatMarks(attemptMarks.obtained)} / {formatMarks(attemptMarks.maximum)} marks
+                  </p>
+                )}
               </div>
               <Trophy className="w-8 h-8 text-yellow-600" />
             </div>
@@ -216,6 +275,20 @@ export function StudentExamReviewPage() {
           </div>
         </div>
 
+        {/* Time per Question */}
+        {hasTimingData(reviewAnswers) && (
+          <QuestionTimeHeatmap
+            questions={reviewAnswers.map((answerData: ReviewAnswer, index: number) => ({
+              number: index + 1,
+              timeSpentSeconds: answerData.time_spent_seconds || 0,
+              visitCount: answerData.visit_count || 0,
+              answerChanges: answerData.answer_changes || 0,
+              isCorrect: answerData.is_correct ?? isAnswerCorrect(answerData.question, answerData),
+            }))}
+            onSelect={number => document.getElementById(`review-question-${number}`)?.scrollIntoView({ behavior: 'smooth' })}
+          />
+        )}
+
         {/* Topics Where You Made Mistakes */}
         {mistakeTopics.length > 0 && (
           <div className="bg-white rounded-lg shadow-md p-6 mb-8">
@@ -288,17 +361,21 @@ export function StudentExamReviewPage() {
             </span>
           </div>
 
-          {attemptDetails.exam_answers && attemptDetails.exam_answers.length > 0 ? (
+          {reviewAnswers.length > 0 ? (
             <div className="space-y-8">
-              {attemptDetails.exam_answers.map((answerData: any, index: number) => {
+              {reviewAnswers.map((answerData: any, index: number) => {
                 const question = answerData.question;
-                const isCorrect = answerData.is_correct;
-                const selectedIndex = answerData.selected_option_index;
+                const isCorrect = answerData.is_correct ?? isAnswerCorrect(question, answerData);
+                const selectedIndexes = getSelectedIndices(answerData);
+                const correctIndexes = getCorrectIndices(question);
+                const isNumeric = getQuestionType(question) === 'NUMERIC';
+                const marksAwarded = getMarksAwarded(answerData);
 
                 return (
                   <div 
                     key={answerData.id} 
-                    className={`border-2 rounded-lg p-6 ${
+                    id={`review-question-${index + 1}`}
+                    className={`border-2 rounded-lg p-6 scroll-mt-4 ${
                       isCorrect 
                         ? 'border-green-200 bg-green-50' 
                         : 'border-red-200 bg-red-50'
@@ -320,6 +397,15 @@ export function StudentExamReviewPage() {
                           }`}>
                             {isCorrect ? '✓ Correct' : '✗ Incorrect'}
                           </span>
+                          <span className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${
+                            marksAwarded > 0
+                              ? 'bg-green-100 text-green-800'
+                              : marksAwarded < 0
+                              ? 'bg-red-100 text-red-800'
+                              : 'bg-gray-100 text-gray-700'
+                          }`}>
+                            {formatMarks(marksAwarded, true)} marks
+                          </span>
                           {question.topic && (
                             <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800 border border-blue-200">
                               <BookOpen className="w-3 h-3 mr-1" />
@@ -328,8 +414,17 @@ export function StudentExamReviewPage() {
                           )}
                         </div>
                       </div>
-                      <div className="text-xs text-gray-500">
+                      <div className="text-xs text-gray-500 text-right">
                         {answerData.answered_at && new Date(answerData.answered_at).toLocaleString()}
+                        {answerData.time_spent_seconds != null && (
+                          <div className="flex items-center justify-end gap-1 mt-1">
+                            <Clock className="w-3 h-3" />
+                            {formatDuration(answerData.time_spent_seconds)}
+                            {` · ${answerData.visit_count || 0} visit${answerData.visit_count !== 1 ? 's' : ''}`}
+                            {answerData.answer_changes > 0 &&
+                              ` · ${answerData.answer_changes} change${answerData.answer_changes !== 1 ? 's' : ''}`}
+                          </div>
+                        )}
                       </div>
                     </div>
 
@@ -356,18 +451,34 @@ export function StudentExamReviewPage() {
                     </div>
 
                     {/* Answer Options */}
+                    {isNumeric ? (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+                        <div className={`p-4 rounded-lg border-2 ${
+                          isCorrect ? 'border-green-400 bg-green-100' : 'border-red-400 bg-red-100'
+                        }`}>
+                          <div className="text-xs font-medium text-gray-600 mb-1">Your Answer</div>
+                          <div className="font-semibold text-gray-900">{answerData.numeric_answer ?? 'Not answered'}</div>
+                        </div>
+                        <div className="p-4 rounded-lg border-2 border-green-300 bg-green-50">
+                          <div className="text-xs font-medium text-gray-600 mb-1">Correct Answer</div>
+                          <div className="font-semibold text-gray-900">
+                            {formatNumericAnswer(question.numeric_answer, question.numeric_tolerance)}
+                          </div>
+                        </div>
+                      </div>
+                    ) : (
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
-                      {question.options?.map((option: any) => {
-                        const isSelected = selectedIndex === option.option_index;
-                        const isCorrectOption = question.correct_answer_index === option.option_index;
+                      {getDisplayOptions(question).map((option: any, position: number) => {
+                        const isSelected = isOptionSelected(answerData, option.option_index);
+                        const isCorrectOption = correctIndexes.includes(option.option_index);
                         
                         return (
                           <div 
                             key={option.id}
                             className={`p-4 rounded-lg border-2 transition-all ${
-                              isSelected && isCorrect
+                              isSelected && isCorrectOption
                                 ? 'border-green-400 bg-green-100'
-                                : isSelected && !isCorrect
+                                : isSelected && !isCorrectOption
                                 ? 'border-red-400 bg-red-100'
                                 : isCorrectOption
                                 ? 'border-green-300 bg-green-50'
@@ -376,15 +487,15 @@ export function StudentExamReviewPage() {
                           >
                             <div className="flex items-center gap-3">
                               <div className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${
-                                isSelected && isCorrect
+                                isSelected && isCorrectOption
                                   ? 'bg-green-500 text-white'
-                                  : isSelected && !isCorrect
+                                  : isSelected && !isCorrectOption
                                   ? 'bg-red-500 text-white'
                                   : isCorrectOption
                                   ? 'bg-green-400 text-white'
                                   : 'bg-gray-300 text-gray-600'
                               }`}>
-                                {String.fromCharCode(64 + option.option_index)}
+                                {getOptionLabel(position)}
                               </div>
                               <div className="flex-1 text-sm">
                                 <TextWithLaTeX text={option.option_text || ''} />
@@ -396,7 +507,7 @@ export function StudentExamReviewPage() {
                                 {isCorrectOption && (
                                   <CheckCircle className="w-4 h-4 text-green-600" />
                                 )}
-                                {isSelected && !isCorrect && (
+                                {isSelected && !isCorrectOption && (
                                   <XCircle className="w-4 h-4 text-red-600" />
                                 )}
                               </div>
@@ -405,6 +516,7 @@ export function StudentExamReviewPage() {
                         );
                       })}
                     </div>
+                    )}
 
                     {/* Performance Feedback */}
                     <div className="mb-4">
@@ -417,11 +529,18 @@ export function StudentExamReviewPage() {
                           ) : (
                             <div className="text-red-800">
                               <p className="mb-1">
-                                <strong>✗ Incorrect.</strong> You selected option {selectedIndex ? String.fromCharCode(64 + selectedIndex) : 'None'}.
+                                <strong>✗ Incorrect.</strong>{' '}
+                                {isNumeric
+                                  ? `You answered ${answerData.numeric_answer ?? 'nothing'}.`
+                                  : `You selected option ${selectedIndexes.length > 0 ? getDisplayLabels(question, selectedIndexes) : 'None'}.`}
                               </p>
-                              {question.correct_answer_index && (
+                              {isNumeric ? (
+                                <p className="text-green-700">
+                                  <strong>Correct answer:</strong> {formatNumericAnswer(question.numeric_answer, question.numeric_tolerance)}
+                                </p>
+                              ) : correctIndexes.length > 0 && (
                                 <p className="text-green-700">
-                                  <strong>Correct answer:</strong> Option {String.fromCharCode(64 + question.correct_answer_index)} - {question.options?.find((opt: any) => opt.option_index === question.correct_answer_index)?.option_text}
+                                  <strong>Correct answer:</strong> Option {getDisplayLabels(question, correctIndexes)} - {getOptionTexts(question, correctIndexes)}
                                 </p>
                               )}
                             </div>
@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { analyticsApi, attemptApi } from '../lib/api';
+import { analyticsApi, attemptApi, examApi, userApi } from '../lib/api';
+import { RetakePolicy } from '../types';
+import { DEFAULT_RETAKE_POLICY, RETAKE_POLICY_LABELS, getPolicyScore } from '../lib/attemptPolicy';
+import { formatMarks } from '../lib/marking';
+import { getSelectedIndices } from '../lib/questionTypes';
+import { PACING_LABELS, Pacing, formatDuration, getPacing, hasTimingData } from '../lib/questionTiming';
 import { 
   ArrowLeft, 
   User, 
@@ -20,7 +25,10 @@ import {
   Eye,
   ChevronDown,
   ChevronUp,
-  MousePointer
+  MousePointer,
+  RotateCcw,
+  Timer,
+  Layers
 } from 'lucide-react';
 
 // Use the API types directly
@@ -45,6 +53,8 @@ interface UserPerformance {
     score: number;
     totalQuestions: number;
     scorePercentage: number;
+    marksObtained?: number;
+    totalMarks?: number;
     timeTaken: number;
     completedAt: string | null;
     status: string;
@@ -58,6 +68,21 @@ interface UserPerformance {
 
 
 
+interface ExamPolicy {
+  max_attempts?: number | null;
+  retake_policy?: RetakePolicy;
+}
+
+interface ExamScoreSummary {
+  examId: string;
+  examTitle: string;
+  attemptsCount: number;
+  maxAttempts: number | null;
+  policy: RetakePolicy;
+  countedScore: number;
+  countedAttemptId: string | null;
+}
+
 interface IncorrectQuestion {
   questionId: string;
   questionText: string;
@@ -70,6 +95,28 @@ interface IncorrectQuestion {
   options: string[];
 }
 
+interface AttemptPacing {
+  attemptId: string;
+  examTitle: string;
+  completedAt: string | null;
+  averageSeconds: number; // Student's average time per question
+  classAverageSeconds: number | null; // Class average over the same questions
+  questions: Array<{
+    questionId: string;
+    questionText: string;
+    timeSpentSeconds: number;
+    classAverageSeconds: number | null;
+    pacing: Pacing | null; // null without a class average to compare with
+    isCorrect: boolean;
+  }>;
+}
+
+const PACING_STYLES: Record<Pacing, string> = {
+  FAST: 'bg-orange-100 text-orange-800',
+  ON_PACE: 'bg-green-100 text-green-800',
+  SLOW: 'bg-purple-100 text-purple-800',
+};
+
 export function UserPerformancePage() {
   const { userId } = useParams<{ userId: string }>();
   const navigate = useNavigate();
@@ -80,12 +127,19 @@ export function UserPerformancePage() {
   const [incorrectQuestions, setIncorrectQuestions] = useState<IncorrectQuestion[]>([]);
   const [loadingIncorrect, setLoadingIncorrect] = useState(false);
   const [showIncorrectQuestions, setShowIncorrectQuestions] = useState(false);
+  const [examPolicies, setExamPolicies] = useState<Record<string, ExamPolicy>>({});
+  const [pacing, setPacing] = useState<AttemptPacing[] | null>(null);
+  const [loadingPacing, setLoadingPacing] = useState(false);
+  const [showPacing, setShowPacing] = useState(false);
+  const [userBatches, setUserBatches] = useState<Array<{ id: string; name: string }>>([]);
+  const [compareBatchId, setCompareBatchId] = useState(''); // Class averages over this batch, empty for all students
 
 
   useEffect(() => {
-    if (userId) {
-      loadUserPerformance();
-    }
+    if (!userId) return;
+    const controller = new AbortController();
+    loadUserPerformance(controller.signal);
+    return () => controller.abort();
   }, [userId]);
 
   const loadIncorrectQuestions = async () => {
@@ -122,7 +176,11 @@ export function UserPerformancePage() {
                     topic: question.topic?.name || 'Unknown Topic',
                     examTitle: attempt.examTitle,
                     attemptId: attempt.attemptId,
-                    selectedAnswer: question.options?.[answer.selected_option_index - 1] || `Option ${answer.selected_option_index}`,
+                    selectedAnswer: answer.numeric_answer !== null && answer.numeric_answer !== undefined
+                      ? String(answer.numeric_answer)
+                      : getSelectedIndices(answer)
+                        .map(index => question.options?.[index - 1] || `Option ${index}`)
+                        .join(', '),
                     correctAnswer: 'Not available', // We don't have correct answer in student view for security
                     answeredAt: answer.answered_at,
                     options: question.options || []
@@ -146,7 +204,67 @@ export function UserPerformancePage() {
 
 
 
-  const loadUserPerformance = async () => {
+  // Time per question in recent attempts, against the class average for the same questions
+  const loadPacing = async (batchId: string = compareBatchId) => {
+    if (!userId) return;
+
+    setLoadingPacing(true);
+    try {
+      const attempts = (await analyticsApi.getUserDetailedAttempts(userId, { take: 10 }))
+        .filter(attempt => attempt.status !== 'IN_PROGRESS' && hasTimingData(attempt.exam_answers));
+
+      // Class averages per exam and question
+      const examIds = [...new Set(attempts.map(attempt => attempt.exam_id))];
+      const examAnalytics = await Promise.allSettled(examIds.map(examId => analyticsApi.getExamAnalytics(examId, { batch_id: batchId || undefined })));
+      const classAverages = new Map<string, number>();
+      examAnalytics.forEach((result, index) => {
+        if (result.status !== 'fulfilled') {
+          console.warn(`Failed to load class timings for exam ${examIds[index]}:`, result.reason);
+          return;
+        }
+        result.value.question_analytics.forEach(question => {
+          if (question.average_time_spent_seconds) {
+            classAverages.set(`${examIds[index]}:${question.question_id}`, question.average_time_spent_seconds);
+          }
+        });
+      });
+
+      setPacing(attempts.map(attempt => {
+        const questions = attempt.exam_answers
+          .filter(answer => answer.time_spent_seconds !== undefined && answer.time_spent_seconds !== null)
+          .map(answer => {
+            const timeSpentSeconds = answer.time_spent_seconds || 0;
+            const classAverageSeconds = classAverages.get(`${attempt.exam_id}:${answer.question_id}`) ?? null;
+            return {
+              questionId: answer.question_id,
+              questionText: answer.question.question_text,
+              timeSpentSeconds,
+              classAverageSeconds,
+              pacing: classAverageSeconds !== null ? getPacing(timeSpentSeconds, classAverageSeconds) : null,
+              isCorrect: !!answer.is_correct,
+            };
+          });
+        const compared = questions.filter(question => question.classAverageSeconds !== null);
+        const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+        return {
+          attemptId: attempt.id,
+          examTitle: attempt.exam.title,
+          completedAt: attempt.submitted_at,
+          averageSeconds: average(questions.map(question => question.timeSpentSeconds)),
+          classAverageSeconds: compared.length > 0 ? average(compared.map(question => question.classAverageSeconds || 0)) : null,
+          questions,
+        };
+      }));
+    } catch (err) {
+      console.error('Error loading pacing analysis:', err);
+      setPacing([]);
+    } finally {
+      setLoadingPacing(false);
+    }
+  };
+
+  const loadUserPerformance = async (signal?: AbortSignal) => {
     if (!userId) return;
 
     setLoading(true);
@@ -156,10 +274,25 @@ export function UserPerformancePage() {
       console.log('Loading user performance for userId:', userId);
       
       // Try to get comprehensive performance data using analytics API directly
-      const [performance, history] = await Promise.allSettled([
-        analyticsApi.getUserPerformance(userId),
-        analyticsApi.getUserHistory(userId, { take: 20 }).catch(() => [])
+      const [performance, history, exams, user] = await Promise.allSettled([
+        analyticsApi.getUserPerformance(userId, { signal }),
+        analyticsApi.getUserHistory(userId, { take: 20 }, { signal }).catch(() => []),
+        examApi.getAll(undefined, { signal }),
+        userApi.getUserById(userId, { signal })
       ]);
+      if (signal?.aborted) return;
+
+      // The student's batches are the peer groups class averages can be limited to
+      if (user.status === 'fulfilled') {
+        setUserBatches(user.value.batches || []);
+      }
+
+      // Retake policies decide which attempt counts for each exam
+      if (exams.status === 'fulfilled') {
+        setExamPolicies(Object.fromEntries(
+          exams.value.map(exam => [exam.id, { max_attempts: exam.max_attempts, retake_policy: exam.retake_policy }])
+        ));
+      }
 
       console.log('Performance result:', performance);
       console.log('History result:', history);
@@ -202,7 +335,14 @@ export function UserPerformancePage() {
       console.error('Error in loadUserPerformance:', err);
       setError(err.message || 'Failed to load user performance data');
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoading(false);
+    }
+  };
+
+  const handleCompareBatchChange = (batchId: string) => {
+    setCompareBatchId(batchId);
+    if (pacing !== null) {
+      loadPacing(batchId);
     }
   };
 
@@ -214,6 +354,37 @@ export function UserPerformancePage() {
     return 'text-red-600 bg-red-100';
   };
 
+  // Apply each exam's retake policy to the user's attempts
+  const getExamScores = (performance: UserPerformance): ExamScoreSummary[] => {
+    const attemptsByExam = new Map<string, UserPerformance['recentAttempts']>();
+    performance.recentAttempts.forEach(attempt => {
+      attemptsByExam.set(attempt.examId, [...(attemptsByExam.get(attempt.examId) || []), attempt]);
+    });
+
+    return Array.from(attemptsByExam.entries()).flatMap(([examId, examAttempts]) => {
+      const policy = examPolicies[examId]?.retake_policy || DEFAULT_RETAKE_POLICY;
+      const counted = getPolicyScore(
+        examAttempts.map(a => ({
+          id: a.attemptId,
+          status: a.status,
+          score: a.scorePercentage,
+          completed_at: a.completedAt,
+        })),
+        policy
+      );
+      if (!counted) return [];
+      return [{
+        examId,
+        examTitle: examAttempts[0].examTitle,
+        attemptsCount: examAttempts.filter(a => a.status !== 'IN_PROGRESS').length,
+        maxAttempts: examPolicies[examId]?.max_attempts ?? null,
+        policy,
+        countedScore: counted.score,
+        countedAttemptId: counted.attemptId,
+      }];
+    });
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'SUBMITTED':
@@ -256,6 +427,10 @@ export function UserPerformancePage() {
     );
   }
 
+  const examScores = getExamScores(userPerformance);
+  const countedAttemptIds = new Set(examScores.map(e => e.countedAttemptId).filter(Boolean));
+  const hasRetakes = examScores.some(e => e.attemptsCount > 1);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -277,6 +452,22 @@ export function UserPerformancePage() {
                 <p className="text-gray-600">Comprehensive performance overview and statistics</p>
               </div>
             </div>
+            {userBatches.length > 0 && (
+              <div className="flex items-center gap-2">
+                <Layers className="w-4 h-4 text-gray-400" />
+                <label className="text-sm text-gray-600">Compare with</label>
+                <select
+                  value={compareBatchId}
+                  onChange={(e) => handleCompareBatchChange(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">All students</option>
+                  {userBatches.map(batch => (
+                    <option key={batch.id} value={batch.id}>{batch.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -364,13 +555,21 @@ export function UserPerformancePage() {
                         </div>
                         <div className="flex items-center gap-2">
                           {getStatusIcon(attempt.status)}
+                          {hasRetakes && countedAttemptIds.has(attempt.attemptId) && (
+                            <span className="px-2 py-1 rounded text-xs font-medium bg-indigo-100 text-indigo-700">
+                              Counted
+                            </span>
+                          )}
                           <span className={`px-2 py-1 rounded text-xs font-medium ${getPerformanceColor(attempt.scorePercentage)}`}>
                             {attempt.scorePercentage.toFixed(1)}%
                           </span>
                         </div>
                       </div>
                       <div className="flex items-center justify-between text-sm text-gray-600">
-                        <span>{attempt.score}/{attempt.totalQuestions} correct</span>
+                        <span>
+                          {attempt.score}/{attempt.totalQuestions} correct
+                          {attempt.totalMarks ? ` · ${formatMarks(attempt.marksObtained ?? 0)}/${formatMarks(attempt.totalMarks)} marks` : ''}
+                        </span>
                         <span className="flex items-center gap-1">
                           <Calendar className="w-3 h-3" />
                           {attempt.completedAt ? new Date(attempt.completedAt).toLocaleDateString() : 'In Progress'}
@@ -432,6 +631,45 @@ export function UserPerformancePage() {
           </div>
         </div>
 
+        {/* Counted Scores (retake policy applied) */}
+        {hasRetakes && (
+          <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+            <div className="flex items-center gap-2 mb-4">
+              <RotateCcw className="w-5 h-5 text-indigo-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Counted Exam Scores</h3>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Exam</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Attempts</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Retake Policy</th>
+                    <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Counted Score</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {examScores.map(examScore => (
+                    <tr key={examScore.examId} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 font-medium text-gray-900">{examScore.examTitle}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600">
+                        {examScore.attemptsCount}{examScore.maxAttempts ? ` / ${examScore.maxAttempts}` : ''}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-600">{RETAKE_POLICY_LABELS[examScore.policy]}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-1 rounded text-xs font-medium ${getPerformanceColor(examScore.countedScore)}`}>
+                          {examScore.countedScore.toFixed(1)}%
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Improvement Trend */}
         {userPerformance.improvementTrend.length > 0 && (
           <div className="mt-8 bg-white rounded-lg shadow-md p-6">
@@ -502,6 +740,135 @@ export function UserPerformancePage() {
           </div>
         )}
 
+        {/* Pacing Analysis */}
+        <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <Timer className="w-5 h-5 text-orange-600" />
+              <h3 className="text-lg font-semibold text-gray-900">
+                Pacing vs {userBatches.find(batch => batch.id === compareBatchId)?.name ?? 'Class'} Average
+              </h3>
+            </div>
+            <button
+              onClick={() => {
+                if (!showPacing && pacing === null) {
+                  loadPacing();
+                }
+                setShowPacing(!showPacing);
+              }}
+              className="flex items-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors"
+              disabled={loadingPacing}
+            >
+              {loadingPacing ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                  Loading...
+                </>
+              ) : (
+                <>
+                  <Eye className="w-4 h-4" />
+                  {showPacing ? 'Hide' : 'Show'} Pacing
+                  {showPacing ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                </>
+              )}
+            </button>
+          </div>
+
+          {showPacing && pacing !== null && (
+            pacing.length === 0 ? (
+              <div className="text-center py-8">
+                <Clock className="w-12 h-12 text-gray-400 mx-auto mb-3" />
+                <p className="text-gray-600">No recent attempts with time tracking yet</p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {pacing.map(attempt => {
+                  const counts = attempt.questions.reduce<Partial<Record<Pacing, number>>>((acc, question) => {
+                    if (question.pacing) acc[question.pacing] = (acc[question.pacing] || 0) + 1;
+                    return acc;
+                  }, {});
+                  const rushedIncorrect = attempt.questions.filter(q => q.pacing === 'FAST' && !q.isCorrect).length;
+                  const notable = attempt.questions
+                    .filter(question => question.pacing && question.pacing !== 'ON_PACE')
+                    .sort((a, b) =>
+                      Math.abs(b.timeSpentSeconds - (b.classAverageSeconds || 0)) -
+                      Math.abs(a.timeSpentSeconds - (a.classAverageSeconds || 0)))
+                    .slice(0, 5);
+                  const scale = Math.max(attempt.averageSeconds, attempt.classAverageSeconds || 0) || 1;
+
+                  return (
+                    <div key={attempt.attemptId} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-center justify-between mb-3">
+                        <h4 className="font-semibold text-gray-900">{attempt.examTitle}</h4>
+                        <span className="text-sm text-gray-500">
+                          {attempt.completedAt ? new Date(attempt.completedAt).toLocaleDateString() : 'Not submitted'}
+                        </span>
+                      </div>
+
+                      <div className="space-y-2 mb-3">
+                        <div className="flex items-center gap-3 text-sm">
+                          <span className="w-28 text-gray-600">Student</span>
+                          <div className="flex-1 bg-gray-200 rounded-full h-3">
+                            <div className="bg-blue-500 h-3 rounded-full" style={{ width: `${(attempt.averageSeconds / scale) * 100}%` }} />
+                          </div>
+                          <span className="w-24 text-right font-medium text-gray-900">{formatDuration(attempt.averageSeconds)}/q</span>
+                        </div>
+                        <div className="flex items-center gap-3 text-sm">
+                          <span className="w-28 text-gray-600">Class average</span>
+                          <div className="flex-1 bg-gray-200 rounded-full h-3">
+                            {attempt.classAverageSeconds !== null && (
+                              <div className="bg-gray-500 h-3 rounded-full" style={{ width: `${(attempt.classAverageSeconds / scale) * 100}%` }} />
+                            )}
+                          </div>
+                          <span className="w-24 text-right font-medium text-gray-900">
+                            {attempt.classAverageSeconds !== null ? `${formatDuration(attempt.classAverageSeconds)}/q` : 'n/a'}
+                          </span>
+                        </div>
+                      </div>
+
+                      <div className="flex flex-wrap gap-2 text-xs mb-3">
+                        {(Object.keys(PACING_LABELS) as Pacing[]).map(key => (
+                          <span key={key} className={`px-2 py-1 rounded-full font-medium ${PACING_STYLES[key]}`}>
+                            {PACING_LABELS[key]}: {counts[key] || 0}
+                          </span>
+                        ))}
+                        {rushedIncorrect > 0 && (
+                          <span className="px-2 py-1 rounded-full font-medium bg-red-100 text-red-800">
+                            {rushedIncorrect} rushed and incorrect
+                          </span>
+                        )}
+                      </div>
+
+                      {notable.length > 0 && (
+                        <div className="space-y-1">
+                          {notable.map(question => (
+                            <div key={question.questionId} className="flex items-center gap-2 text-sm">
+                              {question.isCorrect
+                                ? <CheckCircle className="w-4 h-4 text-green-600 flex-shrink-0" />
+                                : <XCircle className="w-4 h-4 text-red-600 flex-shrink-0" />}
+                              <span className="flex-1 truncate text-gray-700" title={question.questionText}>
+                                {question.questionText}
+                              </span>
+                              <span className="text-gray-600 whitespace-nowrap">
+                                {formatDuration(question.timeSpentSeconds)} vs {formatDuration(question.classAverageSeconds || 0)}
+                              </span>
+                              {question.pacing && (
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${PACING_STYLES[question.pacing]}`}>
+                                  {PACING_LABELS[question.pacing]}
+                                </span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )
+          )}
+        </div>
+
         {/* Incorrect Questions Analysis */}
         <div className="mt-8 bg-white rounded-lg shadow-md p-6">
           <div className="flex items-center justify-between mb-4">
@@ -0,0 +1,19 @@
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// Shared setup for every test file (see the test section of vite.config.ts)
+
+// Firebase refuses to initialize without a project configured, and tests never
+// sign in for real. Tests that need a signed-in user set auth.currentUser.
+vi.mock('../lib/firebase', () => ({
+  auth: { currentUser: null },
+  db: {},
+  default: {},
+}));
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
@@ -1,5 +1,22 @@
 // ==================== Core Entities ====================
 
+/**
+ * Staff Role - What an ADMIN user is allowed to do
+ * SUPER_ADMIN: everything, CONTENT_AUTHOR: topics, questions and question sets,
+ * GRADER: exams and attempt reviews, ANALYST: read-only analytics
+ */
+export type StaffRole = 'SUPER_ADMIN' | 'CONTENT_AUTHOR' | 'GRADER' | 'ANALYST';
+
+/**
+ * Capability - A named permission granted by a staff role
+ */
+export type Capability =
+  | 'manage_users' // Users, enrollment, batches and staff roles
+  | 'manage_content' // Topics, questions and question sets
+  | 'manage_exams' // Create, edit, schedule and print exams
+  | 'review_attempts' // Exam attempts and attempt reviews
+  | 'view_analytics'; // Dashboards, student performance and item analysis
+
 /**
  * User Model - Represents a user in the system (Admin or Student)
  */
@@ -13,6 +30,7 @@ export interface User {
   address?: string;
   is_enrolled: boolean;
   role: 'ADMIN' | 'STUDENT';
+  staff_role?: StaffRole | null; // ADMIN only, missing = SUPER_ADMIN
   created_at: Date | string;
 }
 
@@ -32,7 +50,7 @@ export interface Topic {
 export interface QuestionOption {
   id: string;
   question_id: string;
-  option_index: number; // 1-4
+  option_index: number; // 1-6
   option_text: string;
 }
 
@@ -45,15 +63,52 @@ export interface Question {
   question_text?: string;
   question_latex?: string;
   image_url?: string;
-  correct_answer_index: number; // 1-4
+  question_type?: QuestionType; // Defaults to SINGLE_CHOICE
+  correct_answer_index: number; // 1-6, for SINGLE_CHOICE and TRUE_FALSE
+  correct_answer_indices?: number[]; // MULTI_SELECT - every option that must be selected
+  numeric_answer?: number | null; // NUMERIC
+  numeric_tolerance?: number | null; // NUMERIC - accepted absolute difference, defaults to 0
   explanation_latex?: string;
   video_solution_url?: string;
+  marks?: number | null; // Overrides the exam's marks_per_correct for this question
+  penalty?: number | null; // Overrides the exam's penalty_per_wrong for this question
+  difficulty?: QuestionDifficulty | null; // Unset until tagged or calibrated
   created_at: Date | string;
   options: QuestionOption[];
   // Computed fields for convenience
   topic?: Topic;
 }
 
+/**
+ * Question Type - How a question is answered
+ * SINGLE_CHOICE: one of 2-6 options, MULTI_SELECT: every correct option of 2-6,
+ * TRUE_FALSE: True (1) or False (2), NUMERIC: a number within the tolerance
+ */
+export type QuestionType = 'SINGLE_CHOICE' | 'MULTI_SELECT' | 'TRUE_FALSE' | 'NUMERIC';
+
+/**
+ * Question Difficulty - Author-tagged, or calibrated from how often students answer correctly
+ */
+export type QuestionDifficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+/**
+ * Answer Payload - What a student submits for one question
+ */
+export interface AnswerPayload {
+  selected_option_index: number | null; // SINGLE_CHOICE and TRUE_FALSE
+  selected_option_indices?: number[] | null; // MULTI_SELECT
+  numeric_answer?: number | null; // NUMERIC
+}
+
+/**
+ * Question Timing - How a student spent their time on one question of an attempt
+ */
+export interface QuestionTiming {
+  time_spent_seconds: number; // While the question was on screen and the tab visible
+  visit_count: number; // Times the question was opened
+  answer_changes: number; // Times a given answer was changed or cleared
+}
+
 /**
  * Question Set Model - A collection of questions
  */
@@ -73,13 +128,41 @@ export interface Exam {
   title: string;
   time_limit_seconds: number;
   exam_link?: string;
+  opens_at?: Date | string | null; // Exam cannot be started before this time
+  closes_at?: Date | string | null; // Exam cannot be started after this time
+  max_attempts?: number | null; // null or missing = unlimited attempts
+  retake_policy?: RetakePolicy; // Which attempt(s) count towards the final score
+  shuffle_questions?: boolean; // Each attempt sees the questions in its own order
+  shuffle_within_sets?: boolean; // Only shuffle questions inside their question set
+  shuffle_options?: boolean; // Each attempt sees the options in its own order
+  marks_per_correct?: number; // Defaults to 1
+  penalty_per_wrong?: number; // Marks deducted for a wrong answer, defaults to 0
+  proctoring_enabled?: boolean; // Record integrity events (tab switches, copy/paste, ...) during attempts
+  require_fullscreen?: boolean; // Students must stay in fullscreen while proctored
+  max_violations?: number | null; // Auto-submit after this many integrity events, null = never
   created_at: Date | string;
   question_sets: ExamQuestionSet[];
+  batches?: Array<Pick<Batch, 'id' | 'name'>>; // Empty or missing = open to every enrolled student
   // Computed fields for convenience
   questions?: Question[];
   time_limit_minutes?: number; // For backward compatibility
 }
 
+/**
+ * Marking Scheme - How answers are converted into marks
+ * Correct answers earn marks_per_correct, wrong answers lose penalty_per_wrong, skipped answers score zero
+ */
+export interface MarkingScheme {
+  marks_per_correct: number;
+  penalty_per_wrong: number;
+}
+
+/**
+ * Retake Policy - How multiple attempts at an exam are combined into one score
+ * BEST: highest score counts, LATEST: most recent attempt counts, AVERAGE: mean of all attempts
+ */
+export type RetakePolicy = 'BEST' | 'LATEST' | 'AVERAGE';
+
 /**
  * Exam Attempt Model - Represents a user's attempt at an exam
  */
@@ -95,14 +178,121 @@ export interface ExamAttempt {
   total_questions: number;
   time_taken_seconds: number;
   completed_at?: Date | string;
+  shuffle_seed?: number | null; // Seed for the question/option order this attempt was shown
+  current_section_position?: number | null; // Sectioned exams: the section currently open
+  marks_obtained?: number; // Under the exam's marking scheme, can be negative
+  total_marks?: number;
   answers: ExamAnswer[];
   // Computed fields for convenience
   exam?: Exam;
   user?: User;
 }
 
+/**
+ * Integrity Event Type - Proctoring signals recorded during an attempt
+ */
+export type IntegrityEventType =
+  | 'TAB_HIDDEN'
+  | 'WINDOW_BLUR'
+  | 'FULLSCREEN_EXIT'
+  | 'COPY'
+  | 'CUT'
+  | 'PASTE'
+  | 'CONTEXT_MENU'
+  | 'DEVTOOLS_OPEN';
+
+/**
+ * Integrity Event Model - One proctoring signal recorded against an attempt
+ */
+export interface IntegrityEvent {
+  id: string;
+  attempt_id: string;
+  type: IntegrityEventType;
+  occurred_at: Date | string; // Student's device time
+  details?: string;
+}
+
+/**
+ * Practice Session Model - A self-paced practice run over chosen topics.
+ * Ungraded and kept apart from exam attempts.
+ */
+export interface PracticeSession {
+  id: string;
+  user_id: string;
+  topic_ids: string[];
+  started_at: Date | string;
+  ended_at?: Date | string | null;
+  questions_answered: number;
+  correct_answers: number;
+}
+
+/**
+ * Practice Answer Model - One answered question of a practice session
+ */
+export interface PracticeAnswer extends AnswerPayload {
+  id: string;
+  session_id: string;
+  question_id: string;
+  difficulty: QuestionDifficulty; // Of the question when it was served
+  is_correct: boolean;
+  answered_at: Date | string;
+}
+
+/**
+ * Review Card Model - A question the student got wrong, scheduled for spaced
+ * repetition (SM-2). The backend adds a card for every incorrect answer in a
+ * submitted attempt and resets it when the question is missed again.
+ */
+export interface ReviewCard {
+  id: string;
+  user_id: string;
+  question_id: string;
+  ease_factor: number; // SM-2 easiness, never below 1.3
+  interval_days: number;
+  repetitions: number; // Correct reviews in a row
+  lapses: number; // Times the card was reset by a wrong answer
+  due_at: Date | string;
+  last_reviewed_at?: Date | string | null;
+  created_at: Date | string;
+}
+
+/**
+ * Batch Model - A cohort of students (e.g. "JEE 2026 Morning") that exams
+ * can be assigned to
+ */
+export interface Batch {
+  id: string;
+  name: string;
+  start_date: Date | string;
+  created_at: Date | string;
+  // Computed fields
+  member_count?: number;
+  exam_count?: number;
+}
+
 // ==================== Relationship Models ====================
 
+/**
+ * Batch Member Model - Links students to batches. A student can be in
+ * several batches.
+ */
+export interface BatchMember {
+  id: string;
+  batch_id: string;
+  user_id: string;
+  added_at: Date | string;
+}
+
+/**
+ * Exam Batch Model - Assigns an exam to a batch. An exam without any batch
+ * is open to every enrolled student.
+ */
+export interface ExamBatch {
+  id: string;
+  exam_id: string;
+  batch_id: string;
+}
+
 /**
  * Question Set Question Model - Links questions to question sets
  */
@@ -123,6 +313,7 @@ export interface ExamQuestionSet {
   exam_id: string;
   question_set_id: string;
   position: number;
+  section_time_limit_seconds?: number | null; // Makes this set a timed section of the exam
   // Computed fields
   question_set?: QuestionSet;
 }
@@ -134,7 +325,9 @@ export interface ExamAnswer {
   id: string;
   attempt_id: string;
   question_id: string;
-  selected_option_index?: number; // 1-4 or null
+  selected_option_index?: number; // 1-6 or null
+  selected_option_indices?: number[] | null; // MULTI_SELECT
+  numeric_answer?: number | null; // NUMERIC
   is_correct: boolean;
   // Computed fields
   question?: Question;